@@ -1,5 +1,9 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  experimental: {
+    // Enables src/instrumentation.ts (starts the background worker)
+    instrumentationHook: true,
+  },
   webpack(config) {
     config.module.rules.push({
       test: /\.svg$/,
@@ -0,0 +1,7 @@
+-- Automatic retry scheduling for NO_ANSWER / VOICEMAIL outcomes
+-- Additive migration.
+
+ALTER TABLE "riders"
+  ADD COLUMN IF NOT EXISTS "next_attempt_at" TIMESTAMP(3);
+
+CREATE INDEX IF NOT EXISTS "riders_next_attempt_at_idx" ON "riders"("next_attempt_at");
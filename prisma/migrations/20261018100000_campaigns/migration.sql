@@ -0,0 +1,93 @@
+-- Bulk trigger campaigns over pending riders
+-- Additive migration.
+
+-- CreateEnum (idempotent)
+DO $$ BEGIN
+    CREATE TYPE "CampaignStatus" AS ENUM ('RUNNING', 'PAUSED', 'CANCELED', 'COMPLETED');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE "CampaignItemStatus" AS ENUM ('QUEUED', 'DISPATCHED', 'FAILED', 'SKIPPED', 'CANCELED');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "campaigns" (
+    "id" TEXT NOT NULL DEFAULT gen_random_uuid(),
+    "name" TEXT NOT NULL,
+    "status" "CampaignStatus" NOT NULL DEFAULT 'RUNNING',
+    "filters" JSONB NOT NULL,
+    "concurrency" INTEGER NOT NULL DEFAULT 5,
+    "rate_per_minute" INTEGER NOT NULL DEFAULT 10,
+    "total_count" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "completed_at" TIMESTAMP(3),
+    "created_by_user_id" TEXT,
+
+    CONSTRAINT "campaigns_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "campaign_items" (
+    "id" TEXT NOT NULL DEFAULT gen_random_uuid(),
+    "status" "CampaignItemStatus" NOT NULL DEFAULT 'QUEUED',
+    "error" TEXT,
+    "dispatched_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "campaign_id" TEXT NOT NULL,
+    "rider_id" TEXT NOT NULL,
+    "rider_call_id" TEXT,
+
+    CONSTRAINT "campaign_items_pkey" PRIMARY KEY ("id")
+);
+
+-- Indexes / constraints (idempotent)
+CREATE INDEX IF NOT EXISTS "campaigns_status_idx" ON "campaigns"("status");
+CREATE INDEX IF NOT EXISTS "campaigns_created_at_idx" ON "campaigns"("created_at");
+
+CREATE UNIQUE INDEX IF NOT EXISTS "campaign_items_rider_call_id_key" ON "campaign_items"("rider_call_id");
+CREATE UNIQUE INDEX IF NOT EXISTS "campaign_items_campaign_id_rider_id_key" ON "campaign_items"("campaign_id", "rider_id");
+CREATE INDEX IF NOT EXISTS "campaign_items_campaign_id_status_idx" ON "campaign_items"("campaign_id", "status");
+CREATE INDEX IF NOT EXISTS "campaign_items_dispatched_at_idx" ON "campaign_items"("dispatched_at");
+
+-- Foreign keys
+DO $$ BEGIN
+    ALTER TABLE "campaigns"
+    ADD CONSTRAINT "campaigns_created_by_user_id_fkey"
+    FOREIGN KEY ("created_by_user_id") REFERENCES "users"("id")
+    ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "campaign_items"
+    ADD CONSTRAINT "campaign_items_campaign_id_fkey"
+    FOREIGN KEY ("campaign_id") REFERENCES "campaigns"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "campaign_items"
+    ADD CONSTRAINT "campaign_items_rider_id_fkey"
+    FOREIGN KEY ("rider_id") REFERENCES "riders"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "campaign_items"
+    ADD CONSTRAINT "campaign_items_rider_call_id_fkey"
+    FOREIGN KEY ("rider_call_id") REFERENCES "rider_calls"("id")
+    ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,9 @@
+-- Background status reconciler bookkeeping (poll schedule + backoff per call)
+-- Additive migration.
+
+ALTER TABLE "rider_calls"
+  ADD COLUMN IF NOT EXISTS "last_polled_at" TIMESTAMP(3),
+  ADD COLUMN IF NOT EXISTS "next_poll_at" TIMESTAMP(3),
+  ADD COLUMN IF NOT EXISTS "poll_failures" INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS "rider_calls_status_next_poll_at_idx" ON "rider_calls"("status", "next_poll_at");
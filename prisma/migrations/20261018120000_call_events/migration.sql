@@ -0,0 +1,33 @@
+-- Immutable call event log (idempotent callback processing)
+-- Additive migration.
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "call_events" (
+    "id" TEXT NOT NULL DEFAULT gen_random_uuid(),
+    "dedupe_key" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "outcome" TEXT NOT NULL,
+    "rejected_reason" TEXT,
+    "status" "CallStatus",
+    "contact_status" "ContactStatus",
+    "payload" JSONB,
+    "received_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "rider_call_id" TEXT,
+
+    CONSTRAINT "call_events_pkey" PRIMARY KEY ("id")
+);
+
+-- Indexes / constraints (idempotent)
+CREATE UNIQUE INDEX IF NOT EXISTS "call_events_dedupe_key_key" ON "call_events"("dedupe_key");
+CREATE INDEX IF NOT EXISTS "call_events_rider_call_id_received_at_idx" ON "call_events"("rider_call_id", "received_at");
+CREATE INDEX IF NOT EXISTS "call_events_received_at_idx" ON "call_events"("received_at");
+
+-- Foreign keys
+DO $$ BEGIN
+    ALTER TABLE "call_events"
+    ADD CONSTRAINT "call_events_rider_call_id_fkey"
+    FOREIGN KEY ("rider_call_id") REFERENCES "rider_calls"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
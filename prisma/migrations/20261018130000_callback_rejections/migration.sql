@@ -0,0 +1,19 @@
+-- Rejected HappyRobot callback deliveries (HMAC verification)
+-- Additive migration.
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "callback_rejections" (
+    "id" TEXT NOT NULL DEFAULT gen_random_uuid(),
+    "reason" TEXT NOT NULL,
+    "ip" TEXT,
+    "signature" TEXT,
+    "timestamp" TEXT,
+    "headers" JSONB,
+    "body_preview" TEXT,
+    "received_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "callback_rejections_pkey" PRIMARY KEY ("id")
+);
+
+-- Indexes (idempotent)
+CREATE INDEX IF NOT EXISTS "callback_rejections_received_at_idx" ON "callback_rejections"("received_at");
@@ -0,0 +1,41 @@
+-- Outbound trigger outbox with retries and dead-letter state
+-- Additive migration.
+
+-- CreateEnum (idempotent)
+DO $$ BEGIN
+    CREATE TYPE "DispatchJobStatus" AS ENUM ('QUEUED', 'PROCESSING', 'SUCCEEDED', 'DEAD', 'CANCELED');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "dispatch_jobs" (
+    "id" TEXT NOT NULL DEFAULT gen_random_uuid(),
+    "status" "DispatchJobStatus" NOT NULL DEFAULT 'QUEUED',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "next_attempt_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "locked_at" TIMESTAMP(3),
+    "last_error" TEXT,
+    "last_status_code" INTEGER,
+    "dead_at" TIMESTAMP(3),
+    "completed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "rider_call_id" TEXT NOT NULL,
+
+    CONSTRAINT "dispatch_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- Indexes / constraints (idempotent)
+CREATE UNIQUE INDEX IF NOT EXISTS "dispatch_jobs_rider_call_id_key" ON "dispatch_jobs"("rider_call_id");
+CREATE INDEX IF NOT EXISTS "dispatch_jobs_status_next_attempt_at_idx" ON "dispatch_jobs"("status", "next_attempt_at");
+
+-- Foreign keys
+DO $$ BEGIN
+    ALTER TABLE "dispatch_jobs"
+    ADD CONSTRAINT "dispatch_jobs_rider_call_id_fkey"
+    FOREIGN KEY ("rider_call_id") REFERENCES "rider_calls"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
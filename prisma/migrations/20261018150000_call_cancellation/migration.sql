@@ -0,0 +1,16 @@
+-- Who canceled an in-flight call, when and why
+-- Additive migration.
+
+ALTER TABLE "rider_calls" ADD COLUMN IF NOT EXISTS "canceled_at" TIMESTAMP(3);
+ALTER TABLE "rider_calls" ADD COLUMN IF NOT EXISTS "cancel_reason" TEXT;
+ALTER TABLE "rider_calls" ADD COLUMN IF NOT EXISTS "canceled_by_user_id" TEXT;
+
+-- Foreign keys
+DO $$ BEGIN
+    ALTER TABLE "rider_calls"
+    ADD CONSTRAINT "rider_calls_canceled_by_user_id_fkey"
+    FOREIGN KEY ("canceled_by_user_id") REFERENCES "users"("id")
+    ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,48 @@
+-- History of rider flag changes (urgent / legal issue / human requested)
+-- Additive migration.
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "rider_flag_changes" (
+    "id" TEXT NOT NULL DEFAULT gen_random_uuid(),
+    "flag" TEXT NOT NULL,
+    "value" BOOLEAN NOT NULL,
+    "source" TEXT NOT NULL,
+    "note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "rider_id" TEXT NOT NULL,
+    "rider_call_id" TEXT,
+    "user_id" TEXT,
+
+    CONSTRAINT "rider_flag_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- Indexes / constraints (idempotent)
+CREATE INDEX IF NOT EXISTS "rider_flag_changes_rider_id_created_at_idx" ON "rider_flag_changes"("rider_id", "created_at");
+
+-- Foreign keys
+DO $$ BEGIN
+    ALTER TABLE "rider_flag_changes"
+    ADD CONSTRAINT "rider_flag_changes_rider_id_fkey"
+    FOREIGN KEY ("rider_id") REFERENCES "riders"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "rider_flag_changes"
+    ADD CONSTRAINT "rider_flag_changes_rider_call_id_fkey"
+    FOREIGN KEY ("rider_call_id") REFERENCES "rider_calls"("id")
+    ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "rider_flag_changes"
+    ADD CONSTRAINT "rider_flag_changes_user_id_fkey"
+    FOREIGN KEY ("user_id") REFERENCES "users"("id")
+    ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,31 @@
+-- Riders directory: saved filter views and indexes for the new filters
+-- Additive migration.
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "saved_rider_views" (
+    "id" TEXT NOT NULL DEFAULT gen_random_uuid(),
+    "name" TEXT NOT NULL,
+    "filters" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "user_id" TEXT NOT NULL,
+
+    CONSTRAINT "saved_rider_views_pkey" PRIMARY KEY ("id")
+);
+
+-- Indexes / constraints (idempotent)
+CREATE UNIQUE INDEX IF NOT EXISTS "saved_rider_views_user_id_name_key" ON "saved_rider_views"("user_id", "name");
+
+-- Directory filters
+CREATE INDEX IF NOT EXISTS "riders_sign_up_date_idx" ON "riders"("sign_up_date");
+CREATE INDEX IF NOT EXISTS "riders_last_contact_status_idx" ON "riders"("last_contact_status");
+
+-- Foreign keys
+DO $$ BEGIN
+    ALTER TABLE "saved_rider_views"
+    ADD CONSTRAINT "saved_rider_views_user_id_fkey"
+    FOREIGN KEY ("user_id") REFERENCES "users"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
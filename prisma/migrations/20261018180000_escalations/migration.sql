@@ -0,0 +1,125 @@
+-- Human handoff queue for flagged riders (urgent / legal issue / human requested)
+-- Additive migration.
+
+-- CreateEnum (idempotent)
+DO $$ BEGIN
+    CREATE TYPE "EscalationStatus" AS ENUM ('OPEN', 'CLAIMED', 'RESOLVED');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "escalations" (
+    "id" TEXT NOT NULL DEFAULT gen_random_uuid(),
+    "status" "EscalationStatus" NOT NULL DEFAULT 'OPEN',
+    "reasons" TEXT[],
+    "sla_due_at" TIMESTAMP(3) NOT NULL,
+    "opened_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "claimed_at" TIMESTAMP(3),
+    "resolved_at" TIMESTAMP(3),
+    "outcome" TEXT,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "rider_id" TEXT NOT NULL,
+    "rider_call_id" TEXT,
+    "claimed_by_user_id" TEXT,
+    "resolved_by_user_id" TEXT,
+
+    CONSTRAINT "escalations_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE IF NOT EXISTS "escalation_events" (
+    "id" TEXT NOT NULL DEFAULT gen_random_uuid(),
+    "action" TEXT NOT NULL,
+    "note" TEXT,
+    "payload" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "escalation_id" TEXT NOT NULL,
+    "user_id" TEXT,
+
+    CONSTRAINT "escalation_events_pkey" PRIMARY KEY ("id")
+);
+
+-- Indexes / constraints (idempotent)
+CREATE INDEX IF NOT EXISTS "escalations_status_sla_due_at_idx" ON "escalations"("status", "sla_due_at");
+CREATE INDEX IF NOT EXISTS "escalations_rider_id_idx" ON "escalations"("rider_id");
+CREATE INDEX IF NOT EXISTS "escalation_events_escalation_id_created_at_idx" ON "escalation_events"("escalation_id", "created_at");
+
+-- Foreign keys
+DO $$ BEGIN
+    ALTER TABLE "escalations"
+    ADD CONSTRAINT "escalations_rider_id_fkey"
+    FOREIGN KEY ("rider_id") REFERENCES "riders"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "escalations"
+    ADD CONSTRAINT "escalations_rider_call_id_fkey"
+    FOREIGN KEY ("rider_call_id") REFERENCES "rider_calls"("id")
+    ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "escalations"
+    ADD CONSTRAINT "escalations_claimed_by_user_id_fkey"
+    FOREIGN KEY ("claimed_by_user_id") REFERENCES "users"("id")
+    ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "escalations"
+    ADD CONSTRAINT "escalations_resolved_by_user_id_fkey"
+    FOREIGN KEY ("resolved_by_user_id") REFERENCES "users"("id")
+    ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "escalation_events"
+    ADD CONSTRAINT "escalation_events_escalation_id_fkey"
+    FOREIGN KEY ("escalation_id") REFERENCES "escalations"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "escalation_events"
+    ADD CONSTRAINT "escalation_events_user_id_fkey"
+    FOREIGN KEY ("user_id") REFERENCES "users"("id")
+    ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- Backfill: riders already flagged get an open escalation (default SLA targets)
+INSERT INTO "escalations" ("id", "status", "reasons", "sla_due_at", "opened_at", "updated_at", "rider_id")
+SELECT
+    gen_random_uuid(),
+    'OPEN',
+    array_remove(ARRAY[
+        CASE WHEN r."urgent_flag" THEN 'urgent' END,
+        CASE WHEN r."legal_issue_flag" THEN 'legal_issue' END,
+        CASE WHEN r."human_requested" THEN 'human_requested' END
+    ], NULL),
+    COALESCE(r."last_contact_at", r."updated_at") + CASE
+        WHEN r."urgent_flag" THEN INTERVAL '15 minutes'
+        WHEN r."human_requested" THEN INTERVAL '60 minutes'
+        ELSE INTERVAL '240 minutes'
+    END,
+    COALESCE(r."last_contact_at", r."updated_at"),
+    CURRENT_TIMESTAMP,
+    r."id"
+FROM "riders" r
+WHERE (r."urgent_flag" OR r."legal_issue_flag" OR r."human_requested")
+  AND NOT EXISTS (
+      SELECT 1 FROM "escalations" e
+      WHERE e."rider_id" = r."id" AND e."status" <> 'RESOLVED'
+  );
@@ -0,0 +1,83 @@
+-- Operator notes (with edit history) and free-form tags on riders and calls
+-- Additive migration.
+
+ALTER TABLE "riders" ADD COLUMN IF NOT EXISTS "tags" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
+ALTER TABLE "rider_calls" ADD COLUMN IF NOT EXISTS "tags" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "notes" (
+    "id" TEXT NOT NULL DEFAULT gen_random_uuid(),
+    "body" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "edited_at" TIMESTAMP(3),
+    "rider_id" TEXT NOT NULL,
+    "rider_call_id" TEXT,
+    "author_id" TEXT,
+
+    CONSTRAINT "notes_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE IF NOT EXISTS "note_revisions" (
+    "id" TEXT NOT NULL DEFAULT gen_random_uuid(),
+    "body" TEXT NOT NULL,
+    "edited_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "note_id" TEXT NOT NULL,
+    "edited_by_user_id" TEXT,
+
+    CONSTRAINT "note_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- Indexes / constraints (idempotent)
+CREATE INDEX IF NOT EXISTS "notes_rider_id_created_at_idx" ON "notes"("rider_id", "created_at");
+CREATE INDEX IF NOT EXISTS "notes_rider_call_id_created_at_idx" ON "notes"("rider_call_id", "created_at");
+CREATE INDEX IF NOT EXISTS "note_revisions_note_id_edited_at_idx" ON "note_revisions"("note_id", "edited_at");
+-- Tag filters (array containment)
+CREATE INDEX IF NOT EXISTS "riders_tags_idx" ON "riders" USING GIN ("tags");
+CREATE INDEX IF NOT EXISTS "rider_calls_tags_idx" ON "rider_calls" USING GIN ("tags");
+
+-- Foreign keys
+DO $$ BEGIN
+    ALTER TABLE "notes"
+    ADD CONSTRAINT "notes_rider_id_fkey"
+    FOREIGN KEY ("rider_id") REFERENCES "riders"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "notes"
+    ADD CONSTRAINT "notes_rider_call_id_fkey"
+    FOREIGN KEY ("rider_call_id") REFERENCES "rider_calls"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "notes"
+    ADD CONSTRAINT "notes_author_id_fkey"
+    FOREIGN KEY ("author_id") REFERENCES "users"("id")
+    ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "note_revisions"
+    ADD CONSTRAINT "note_revisions_note_id_fkey"
+    FOREIGN KEY ("note_id") REFERENCES "notes"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "note_revisions"
+    ADD CONSTRAINT "note_revisions_edited_by_user_id_fkey"
+    FOREIGN KEY ("edited_by_user_id") REFERENCES "users"("id")
+    ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,84 @@
+-- Onboarding funnel: current stage per rider + stage history
+-- Additive migration.
+
+-- CreateEnum (idempotent)
+DO $$ BEGIN
+    CREATE TYPE "OnboardingStage" AS ENUM ('SIGNED_UP', 'CONTACTED', 'DOCUMENTS_PARTIAL', 'DOCUMENTS_COMPLETE', 'PERMIT_VERIFIED', 'ACTIVATED');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- AlterTable
+ALTER TABLE "riders" ADD COLUMN IF NOT EXISTS "onboarding_stage" "OnboardingStage" NOT NULL DEFAULT 'SIGNED_UP';
+ALTER TABLE "riders" ADD COLUMN IF NOT EXISTS "onboarding_stage_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "rider_stage_changes" (
+    "id" TEXT NOT NULL DEFAULT gen_random_uuid(),
+    "from_stage" "OnboardingStage",
+    "to_stage" "OnboardingStage" NOT NULL,
+    "source" TEXT NOT NULL,
+    "note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "rider_id" TEXT NOT NULL,
+    "rider_call_id" TEXT,
+    "user_id" TEXT,
+
+    CONSTRAINT "rider_stage_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- Indexes / constraints (idempotent)
+CREATE INDEX IF NOT EXISTS "riders_onboarding_stage_idx" ON "riders"("onboarding_stage");
+CREATE INDEX IF NOT EXISTS "rider_stage_changes_rider_id_created_at_idx" ON "rider_stage_changes"("rider_id", "created_at");
+CREATE INDEX IF NOT EXISTS "rider_stage_changes_to_stage_created_at_idx" ON "rider_stage_changes"("to_stage", "created_at");
+
+-- Foreign keys
+DO $$ BEGIN
+    ALTER TABLE "rider_stage_changes"
+    ADD CONSTRAINT "rider_stage_changes_rider_id_fkey"
+    FOREIGN KEY ("rider_id") REFERENCES "riders"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "rider_stage_changes"
+    ADD CONSTRAINT "rider_stage_changes_rider_call_id_fkey"
+    FOREIGN KEY ("rider_call_id") REFERENCES "rider_calls"("id")
+    ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "rider_stage_changes"
+    ADD CONSTRAINT "rider_stage_changes_user_id_fkey"
+    FOREIGN KEY ("user_id") REFERENCES "users"("id")
+    ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- Backfill: derive the stage of riders without history (same rules as
+-- deriveOnboardingStage in src/lib/onboarding.ts), entered at sign-up
+UPDATE "riders" r
+SET
+    "onboarding_stage" = CASE
+        WHEN r."documents_uploaded" = 'YES' AND lower(trim(r."resident_permit_status")) = 'active' THEN 'PERMIT_VERIFIED'::"OnboardingStage"
+        WHEN r."documents_uploaded" = 'YES' THEN 'DOCUMENTS_COMPLETE'::"OnboardingStage"
+        WHEN r."documents_uploaded" = 'PARTIAL' THEN 'DOCUMENTS_PARTIAL'::"OnboardingStage"
+        WHEN r."last_contact_status" = 'COMPLETED' THEN 'CONTACTED'::"OnboardingStage"
+        ELSE 'SIGNED_UP'::"OnboardingStage"
+    END,
+    "onboarding_stage_at" = COALESCE(r."sign_up_date", r."created_at")
+WHERE NOT EXISTS (
+    SELECT 1 FROM "rider_stage_changes" c WHERE c."rider_id" = r."id"
+);
+
+INSERT INTO "rider_stage_changes" ("to_stage", "source", "created_at", "rider_id")
+SELECT r."onboarding_stage", 'backfill', r."onboarding_stage_at", r."id"
+FROM "riders" r
+WHERE NOT EXISTS (
+    SELECT 1 FROM "rider_stage_changes" c WHERE c."rider_id" = r."id"
+);
@@ -0,0 +1,98 @@
+-- Named document catalog and per-rider document checklist
+-- Additive migration.
+
+-- CreateEnum (idempotent)
+DO $$ BEGIN
+    CREATE TYPE "RiderDocumentStatus" AS ENUM ('MISSING', 'UPLOADED', 'VERIFIED', 'REJECTED');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "document_types" (
+    "id" TEXT NOT NULL DEFAULT gen_random_uuid(),
+    "key" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "flow_types" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "cities" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "import_column" INTEGER,
+    "sort_order" INTEGER NOT NULL DEFAULT 0,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "document_types_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE IF NOT EXISTS "rider_documents" (
+    "id" TEXT NOT NULL DEFAULT gen_random_uuid(),
+    "status" "RiderDocumentStatus" NOT NULL DEFAULT 'MISSING',
+    "note" TEXT,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "rider_id" TEXT NOT NULL,
+    "document_type_id" TEXT NOT NULL,
+    "updated_by_user_id" TEXT,
+
+    CONSTRAINT "rider_documents_pkey" PRIMARY KEY ("id")
+);
+
+-- Indexes / constraints (idempotent)
+CREATE UNIQUE INDEX IF NOT EXISTS "document_types_key_key" ON "document_types"("key");
+CREATE UNIQUE INDEX IF NOT EXISTS "document_types_import_column_key" ON "document_types"("import_column");
+CREATE UNIQUE INDEX IF NOT EXISTS "rider_documents_rider_id_document_type_id_key" ON "rider_documents"("rider_id", "document_type_id");
+CREATE INDEX IF NOT EXISTS "rider_documents_document_type_id_status_idx" ON "rider_documents"("document_type_id", "status");
+
+-- Foreign keys
+DO $$ BEGIN
+    ALTER TABLE "rider_documents"
+    ADD CONSTRAINT "rider_documents_rider_id_fkey"
+    FOREIGN KEY ("rider_id") REFERENCES "riders"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "rider_documents"
+    ADD CONSTRAINT "rider_documents_document_type_id_fkey"
+    FOREIGN KEY ("document_type_id") REFERENCES "document_types"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "rider_documents"
+    ADD CONSTRAINT "rider_documents_updated_by_user_id_fkey"
+    FOREIGN KEY ("updated_by_user_id") REFERENCES "users"("id")
+    ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- Default catalog. import_column follows the order of the "Document N"
+-- columns in the dataset_v2 (Portugal) export; adjust it from /documentos.
+INSERT INTO "document_types" ("key", "name", "flow_types", "cities", "import_column", "sort_order") VALUES
+    ('driver_license', 'Carnet de conducir', ARRAY[]::TEXT[], ARRAY[]::TEXT[], 1, 10),
+    ('id_document', 'Documento de identidad', ARRAY[]::TEXT[], ARRAY[]::TEXT[], 2, 20),
+    ('tvde_certificate', 'Certificado TVDE', ARRAY['uber x', 'uber black'], ARRAY['lisbon', 'lisboa', 'porto'], 3, 30),
+    ('vehicle_insurance', 'Seguro del vehículo', ARRAY['uber x', 'uber black'], ARRAY[]::TEXT[], 4, 40),
+    ('criminal_record', 'Certificado de antecedentes penales', ARRAY[]::TEXT[], ARRAY[]::TEXT[], 5, 50),
+    ('proof_of_address', 'Comprobante de domicilio', ARRAY[]::TEXT[], ARRAY[]::TEXT[], 6, 60),
+    ('vehicle_registration', 'Documentación del vehículo', ARRAY['uber x', 'uber black'], ARRAY[]::TEXT[], 7, 70),
+    ('profile_photo', 'Foto de perfil', ARRAY[]::TEXT[], ARRAY[]::TEXT[], 8, 80)
+ON CONFLICT ("key") DO NOTHING;
+
+-- Backfill statuses from the anonymous flags of earlier dataset_v2 imports
+INSERT INTO "rider_documents" ("rider_id", "document_type_id", "status")
+SELECT r."id", t."id",
+    CASE WHEN (r."documents"->'flags'->>(t."import_column" - 1))::boolean
+        THEN 'UPLOADED'::"RiderDocumentStatus"
+        ELSE 'MISSING'::"RiderDocumentStatus"
+    END
+FROM "riders" r
+JOIN "document_types" t ON t."import_column" IS NOT NULL
+WHERE jsonb_typeof(r."documents"->'flags') = 'array'
+    AND jsonb_typeof(r."documents"->'flags'->(t."import_column" - 1)) = 'boolean'
+ON CONFLICT ("rider_id", "document_type_id") DO NOTHING;
@@ -0,0 +1,101 @@
+-- Rider import jobs with per-row results and rollback bookkeeping
+-- Additive migration.
+
+-- CreateEnum (idempotent)
+DO $$ BEGIN
+    CREATE TYPE "ImportJobStatus" AS ENUM ('RUNNING', 'COMPLETED', 'FAILED', 'ROLLED_BACK');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "import_jobs" (
+    "id" TEXT NOT NULL DEFAULT gen_random_uuid(),
+    "status" "ImportJobStatus" NOT NULL DEFAULT 'RUNNING',
+    "file_name" TEXT,
+    "format" TEXT NOT NULL,
+    "mapping" JSONB NOT NULL,
+    "total_rows" INTEGER NOT NULL DEFAULT 0,
+    "riders_created" INTEGER NOT NULL DEFAULT 0,
+    "riders_updated" INTEGER NOT NULL DEFAULT 0,
+    "calls_created" INTEGER NOT NULL DEFAULT 0,
+    "calls_updated" INTEGER NOT NULL DEFAULT 0,
+    "skipped" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completed_at" TIMESTAMP(3),
+    "rolled_back_at" TIMESTAMP(3),
+    "rollback_result" JSONB,
+    "uploaded_by_user_id" TEXT,
+    "rolled_back_by_user_id" TEXT,
+
+    CONSTRAINT "import_jobs_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE IF NOT EXISTS "import_job_rows" (
+    "id" TEXT NOT NULL DEFAULT gen_random_uuid(),
+    "row" INTEGER NOT NULL,
+    "action" TEXT NOT NULL,
+    "call_action" TEXT,
+    "rider_id" TEXT,
+    "errors" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "warnings" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "job_id" TEXT NOT NULL,
+
+    CONSTRAINT "import_job_rows_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE IF NOT EXISTS "import_job_changes" (
+    "id" TEXT NOT NULL DEFAULT gen_random_uuid(),
+    "entity" TEXT NOT NULL,
+    "entity_id" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "before" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "job_id" TEXT NOT NULL,
+
+    CONSTRAINT "import_job_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- Indexes / constraints (idempotent)
+CREATE INDEX IF NOT EXISTS "import_jobs_created_at_idx" ON "import_jobs"("created_at");
+CREATE INDEX IF NOT EXISTS "import_job_rows_job_id_row_idx" ON "import_job_rows"("job_id", "row");
+CREATE UNIQUE INDEX IF NOT EXISTS "import_job_changes_job_id_entity_entity_id_key" ON "import_job_changes"("job_id", "entity", "entity_id");
+CREATE INDEX IF NOT EXISTS "import_job_changes_entity_entity_id_idx" ON "import_job_changes"("entity", "entity_id");
+
+-- Foreign keys
+DO $$ BEGIN
+    ALTER TABLE "import_jobs"
+    ADD CONSTRAINT "import_jobs_uploaded_by_user_id_fkey"
+    FOREIGN KEY ("uploaded_by_user_id") REFERENCES "users"("id")
+    ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "import_jobs"
+    ADD CONSTRAINT "import_jobs_rolled_back_by_user_id_fkey"
+    FOREIGN KEY ("rolled_back_by_user_id") REFERENCES "users"("id")
+    ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "import_job_rows"
+    ADD CONSTRAINT "import_job_rows_job_id_fkey"
+    FOREIGN KEY ("job_id") REFERENCES "import_jobs"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "import_job_changes"
+    ADD CONSTRAINT "import_job_changes_job_id_fkey"
+    FOREIGN KEY ("job_id") REFERENCES "import_jobs"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,17 @@
+-- Rider imports run as resumable background jobs
+-- Additive migration.
+
+-- AlterEnum (idempotent)
+ALTER TYPE "ImportJobStatus" ADD VALUE IF NOT EXISTS 'UPLOADING';
+ALTER TYPE "ImportJobStatus" ADD VALUE IF NOT EXISTS 'QUEUED';
+
+-- AlterTable
+ALTER TABLE "import_jobs" ADD COLUMN IF NOT EXISTS "processed_rows" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "import_jobs" ADD COLUMN IF NOT EXISTS "locked_at" TIMESTAMP(3);
+ALTER TABLE "import_jobs" ADD COLUMN IF NOT EXISTS "started_at" TIMESTAMP(3);
+
+ALTER TABLE "import_job_rows" ADD COLUMN IF NOT EXISTS "record" JSONB;
+ALTER TABLE "import_job_rows" ALTER COLUMN "action" SET DEFAULT 'pending';
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "import_jobs_status_idx" ON "import_jobs"("status");
@@ -0,0 +1,88 @@
+-- Duplicate rider candidates and merge history
+-- Additive migration.
+
+-- CreateEnum (idempotent)
+DO $$ BEGIN
+    CREATE TYPE "RiderDuplicateStatus" AS ENUM ('PENDING', 'DISMISSED');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "rider_duplicates" (
+    "id" TEXT NOT NULL DEFAULT gen_random_uuid(),
+    "status" "RiderDuplicateStatus" NOT NULL DEFAULT 'PENDING',
+    "score" DOUBLE PRECISION NOT NULL,
+    "reasons" TEXT[],
+    "detected_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "dismissed_at" TIMESTAMP(3),
+    "rider_a_id" TEXT NOT NULL,
+    "rider_b_id" TEXT NOT NULL,
+    "dismissed_by_user_id" TEXT,
+
+    CONSTRAINT "rider_duplicates_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE IF NOT EXISTS "rider_merges" (
+    "id" TEXT NOT NULL DEFAULT gen_random_uuid(),
+    "merged_rider_id" TEXT NOT NULL,
+    "merged_rider" JSONB NOT NULL,
+    "moved" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "survivor_id" TEXT NOT NULL,
+    "user_id" TEXT,
+
+    CONSTRAINT "rider_merges_pkey" PRIMARY KEY ("id")
+);
+
+-- Indexes / constraints (idempotent)
+CREATE UNIQUE INDEX IF NOT EXISTS "rider_duplicates_rider_a_id_rider_b_id_key" ON "rider_duplicates"("rider_a_id", "rider_b_id");
+CREATE INDEX IF NOT EXISTS "rider_duplicates_rider_b_id_idx" ON "rider_duplicates"("rider_b_id");
+CREATE INDEX IF NOT EXISTS "rider_duplicates_status_score_idx" ON "rider_duplicates"("status", "score");
+CREATE INDEX IF NOT EXISTS "rider_merges_survivor_id_created_at_idx" ON "rider_merges"("survivor_id", "created_at");
+
+-- Foreign keys
+DO $$ BEGIN
+    ALTER TABLE "rider_duplicates"
+    ADD CONSTRAINT "rider_duplicates_rider_a_id_fkey"
+    FOREIGN KEY ("rider_a_id") REFERENCES "riders"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "rider_duplicates"
+    ADD CONSTRAINT "rider_duplicates_rider_b_id_fkey"
+    FOREIGN KEY ("rider_b_id") REFERENCES "riders"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "rider_duplicates"
+    ADD CONSTRAINT "rider_duplicates_dismissed_by_user_id_fkey"
+    FOREIGN KEY ("dismissed_by_user_id") REFERENCES "users"("id")
+    ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "rider_merges"
+    ADD CONSTRAINT "rider_merges_survivor_id_fkey"
+    FOREIGN KEY ("survivor_id") REFERENCES "riders"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "rider_merges"
+    ADD CONSTRAINT "rider_merges_user_id_fkey"
+    FOREIGN KEY ("user_id") REFERENCES "users"("id")
+    ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,12 @@
+-- Normalize stored phone numbers towards E.164
+-- Data-only migration; safe to re-run.
+
+-- Drop formatting ("+34 618 953 592" -> "+34618953592") and turn the 00
+-- international prefix into +. National numbers are left as they are; they
+-- are dialed in E.164 and re-imports store them normalized (src/lib/phone.ts).
+UPDATE "riders"
+SET "phone_number" = regexp_replace(
+    regexp_replace(trim("phone_number"), '[[:space:]()./-]', '', 'g'),
+    '^00', '+'
+)
+WHERE "phone_number" ~ '[[:space:]()./-]' OR "phone_number" ~ '^\s*00';
@@ -0,0 +1,127 @@
+-- Do-not-call list, rider consent and blocked dial attempts
+-- Additive migration.
+
+-- CreateEnum (idempotent)
+DO $$ BEGIN
+    CREATE TYPE "ConsentStatus" AS ENUM ('UNKNOWN', 'GRANTED', 'DECLINED', 'OPTED_OUT');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE "SuppressionReason" AS ENUM ('OPT_OUT', 'DECLINED', 'MANUAL');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE "DialBlockReason" AS ENUM ('SUPPRESSED');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- AlterTable
+ALTER TABLE "riders" ADD COLUMN IF NOT EXISTS "consent_status" "ConsentStatus" NOT NULL DEFAULT 'UNKNOWN';
+ALTER TABLE "riders" ADD COLUMN IF NOT EXISTS "consent_source" TEXT;
+ALTER TABLE "riders" ADD COLUMN IF NOT EXISTS "consent_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "phone_suppressions" (
+    "id" TEXT NOT NULL DEFAULT gen_random_uuid(),
+    "phone_number" TEXT NOT NULL,
+    "reason" "SuppressionReason" NOT NULL,
+    "source" TEXT NOT NULL,
+    "note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lifted_at" TIMESTAMP(3),
+    "rider_id" TEXT,
+    "rider_call_id" TEXT,
+    "created_by_user_id" TEXT,
+    "lifted_by_user_id" TEXT,
+
+    CONSTRAINT "phone_suppressions_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE IF NOT EXISTS "dial_blocks" (
+    "id" TEXT NOT NULL DEFAULT gen_random_uuid(),
+    "reason" "DialBlockReason" NOT NULL,
+    "origin" TEXT NOT NULL,
+    "phone_number" TEXT NOT NULL,
+    "detail" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "rider_id" TEXT NOT NULL,
+    "rider_call_id" TEXT,
+    "user_id" TEXT,
+
+    CONSTRAINT "dial_blocks_pkey" PRIMARY KEY ("id")
+);
+
+-- Indexes / constraints (idempotent)
+CREATE UNIQUE INDEX IF NOT EXISTS "phone_suppressions_phone_number_key" ON "phone_suppressions"("phone_number");
+CREATE INDEX IF NOT EXISTS "phone_suppressions_lifted_at_created_at_idx" ON "phone_suppressions"("lifted_at", "created_at");
+CREATE INDEX IF NOT EXISTS "dial_blocks_rider_id_created_at_idx" ON "dial_blocks"("rider_id", "created_at");
+CREATE INDEX IF NOT EXISTS "dial_blocks_created_at_idx" ON "dial_blocks"("created_at");
+
+-- Foreign keys
+DO $$ BEGIN
+    ALTER TABLE "phone_suppressions"
+    ADD CONSTRAINT "phone_suppressions_rider_id_fkey"
+    FOREIGN KEY ("rider_id") REFERENCES "riders"("id")
+    ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "phone_suppressions"
+    ADD CONSTRAINT "phone_suppressions_rider_call_id_fkey"
+    FOREIGN KEY ("rider_call_id") REFERENCES "rider_calls"("id")
+    ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "phone_suppressions"
+    ADD CONSTRAINT "phone_suppressions_created_by_user_id_fkey"
+    FOREIGN KEY ("created_by_user_id") REFERENCES "users"("id")
+    ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "phone_suppressions"
+    ADD CONSTRAINT "phone_suppressions_lifted_by_user_id_fkey"
+    FOREIGN KEY ("lifted_by_user_id") REFERENCES "users"("id")
+    ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "dial_blocks"
+    ADD CONSTRAINT "dial_blocks_rider_id_fkey"
+    FOREIGN KEY ("rider_id") REFERENCES "riders"("id")
+    ON DELETE CASCADE ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "dial_blocks"
+    ADD CONSTRAINT "dial_blocks_rider_call_id_fkey"
+    FOREIGN KEY ("rider_call_id") REFERENCES "rider_calls"("id")
+    ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE "dial_blocks"
+    ADD CONSTRAINT "dial_blocks_user_id_fkey"
+    FOREIGN KEY ("user_id") REFERENCES "users"("id")
+    ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,70 @@
+-- Calling windows per country / city and holiday calendar
+-- Additive migration.
+
+-- AlterEnum
+ALTER TYPE "DialBlockReason" ADD VALUE IF NOT EXISTS 'CALLING_HOURS';
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "calling_windows" (
+    "id" TEXT NOT NULL DEFAULT gen_random_uuid(),
+    "country" TEXT NOT NULL,
+    "city" TEXT NOT NULL DEFAULT '',
+    "time_zone" TEXT NOT NULL,
+    "weekdays" INTEGER[] DEFAULT ARRAY[1, 2, 3, 4, 5]::INTEGER[],
+    "start_minute" INTEGER NOT NULL,
+    "end_minute" INTEGER NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "calling_windows_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE IF NOT EXISTS "calling_holidays" (
+    "id" TEXT NOT NULL DEFAULT gen_random_uuid(),
+    "country" TEXT NOT NULL,
+    "city" TEXT NOT NULL DEFAULT '',
+    "date" DATE NOT NULL,
+    "name" TEXT NOT NULL,
+    "recurring" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "calling_holidays_pkey" PRIMARY KEY ("id")
+);
+
+-- Indexes / constraints (idempotent)
+CREATE UNIQUE INDEX IF NOT EXISTS "calling_windows_country_city_key" ON "calling_windows"("country", "city");
+CREATE UNIQUE INDEX IF NOT EXISTS "calling_holidays_country_city_date_key" ON "calling_holidays"("country", "city", "date");
+CREATE INDEX IF NOT EXISTS "calling_holidays_date_idx" ON "calling_holidays"("date");
+
+-- Seed the countries we call, replacing the hard-coded per-city hours
+INSERT INTO "calling_windows" ("country", "time_zone", "weekdays", "start_minute", "end_minute") VALUES
+    ('PT', 'Europe/Lisbon', ARRAY[1, 2, 3, 4, 5, 6], 540, 1200),
+    ('ES', 'Europe/Madrid', ARRAY[1, 2, 3, 4, 5], 540, 1260)
+ON CONFLICT ("country", "city") DO NOTHING;
+
+-- National holidays on a fixed date
+INSERT INTO "calling_holidays" ("country", "date", "name", "recurring") VALUES
+    ('PT', '2026-01-01', 'Ano Novo', true),
+    ('PT', '2026-04-25', 'Dia da Liberdade', true),
+    ('PT', '2026-05-01', 'Dia do Trabalhador', true),
+    ('PT', '2026-06-10', 'Dia de Portugal', true),
+    ('PT', '2026-08-15', 'Assunção de Nossa Senhora', true),
+    ('PT', '2026-10-05', 'Implantação da República', true),
+    ('PT', '2026-11-01', 'Dia de Todos os Santos', true),
+    ('PT', '2026-12-01', 'Restauração da Independência', true),
+    ('PT', '2026-12-08', 'Imaculada Conceição', true),
+    ('PT', '2026-12-25', 'Natal', true),
+    ('PT', '2027-03-26', 'Sexta-feira Santa', false),
+    ('PT', '2027-05-27', 'Corpo de Deus', false),
+    ('ES', '2026-01-01', 'Año Nuevo', true),
+    ('ES', '2026-01-06', 'Epifanía del Señor', true),
+    ('ES', '2026-05-01', 'Fiesta del Trabajo', true),
+    ('ES', '2026-08-15', 'Asunción de la Virgen', true),
+    ('ES', '2026-10-12', 'Fiesta Nacional de España', true),
+    ('ES', '2026-11-01', 'Todos los Santos', true),
+    ('ES', '2026-12-06', 'Día de la Constitución', true),
+    ('ES', '2026-12-08', 'Inmaculada Concepción', true),
+    ('ES', '2026-12-25', 'Navidad', true),
+    ('ES', '2027-03-26', 'Viernes Santo', false)
+ON CONFLICT ("country", "city", "date") DO NOTHING;
@@ -0,0 +1,25 @@
+-- Call frequency caps per phone number
+-- Additive migration.
+
+-- AlterEnum
+ALTER TYPE "DialBlockReason" ADD VALUE IF NOT EXISTS 'FREQUENCY_CAP';
+
+-- AlterTable
+ALTER TABLE "rider_calls" ADD COLUMN IF NOT EXISTS "dialed_at" TIMESTAMP(3);
+
+-- Indexes / constraints (idempotent)
+CREATE INDEX IF NOT EXISTS "rider_calls_dialed_at_idx" ON "rider_calls"("dialed_at");
+
+-- Backfill: calls the provider accepted were dialed when the rider was
+-- contacted. Imported calls were created long after that, so the creation
+-- time is only a fallback for calls the app placed itself
+UPDATE "rider_calls"
+SET "dialed_at" = COALESCE("contacted_at", "created_at")
+WHERE "run_id" IS NOT NULL
+  AND "dialed_at" IS NULL
+  AND ("contacted_at" IS NOT NULL OR NOT EXISTS (
+    SELECT 1 FROM "import_job_changes" c
+    WHERE c."entity" = 'rider_call'
+      AND c."action" = 'create'
+      AND c."entity_id" = "rider_calls"."id"
+  ));
@@ -0,0 +1,5 @@
+-- Import changes keep what the import wrote, so rollback can tell later edits apart
+-- Additive migration.
+
+-- AlterTable
+ALTER TABLE "import_job_changes" ADD COLUMN IF NOT EXISTS "after" JSONB;
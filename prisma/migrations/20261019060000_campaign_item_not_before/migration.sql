@@ -0,0 +1,5 @@
+-- Campaign items wait in the queue while their rider may not be dialed
+-- Additive migration.
+
+-- AlterTable
+ALTER TABLE "campaign_items" ADD COLUMN IF NOT EXISTS "not_before" TIMESTAMP(3);
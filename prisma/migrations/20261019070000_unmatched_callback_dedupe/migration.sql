@@ -0,0 +1,8 @@
+-- Unmatched callbacks are logged without a dedupe key, so their retries are still applied
+-- Safe to re-run.
+
+-- AlterTable
+ALTER TABLE "call_events" ALTER COLUMN "dedupe_key" DROP NOT NULL;
+
+-- Release the keys of deliveries logged as unmatched
+UPDATE "call_events" SET "dedupe_key" = NULL WHERE "outcome" = 'unmatched';
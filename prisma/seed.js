@@ -3,6 +3,8 @@ const { PrismaClient } = require("@prisma/client");
 const { hash } = require("bcryptjs");
 const fs = require("node:fs");
 const path = require("node:path");
+// Run through tsx (npm run db:seed) so numbers go through the app's parser
+const { normalizePhone } = require("../src/lib/phone");
 
 const prisma = new PrismaClient();
 
@@ -144,10 +146,15 @@ async function importFromCsv(csvText, initiatedByUserId) {
 
     if (isDatasetV2) {
       const partnerName = String(r["partner_name"] || "").trim();
-      const phoneNumber = String(r["phone_number"] || "").trim();
+      const phoneNumber = normalizePhone(String(r["phone_number"] || ""));
       const city = String(r["city"] || "").trim() || null;
 
-      if (!partnerName || !phoneNumber) continue;
+      if (!partnerName || !phoneNumber) {
+        if (r["phone_number"]) {
+          console.warn(`Skipping invalid phone number: ${r["phone_number"]}`);
+        }
+        continue;
+      }
 
       const docFlags = Object.entries(r)
         .filter(([k]) => String(k).startsWith("document"))
@@ -263,10 +270,15 @@ async function importFromCsv(csvText, initiatedByUserId) {
     } else {
       // Legacy dataset
       const externalId = r["id"] ? Number(r["id"]) : null;
-      const phoneNumber = r["phone_number"] || "";
+      const phoneNumber = normalizePhone(String(r["phone_number"] || ""));
       const driverName = r["driver_name"] || "";
 
-      if (!externalId || !phoneNumber || !driverName) continue;
+      if (!externalId || !phoneNumber || !driverName) {
+        if (r["phone_number"] && !phoneNumber) {
+          console.warn(`Skipping invalid phone number: ${r["phone_number"]}`);
+        }
+        continue;
+      }
 
       const signUpDate = parseDate(r["sign-up_date"]);
       const lastContactAt = parseDate(r["last_contact_date"]);
@@ -2,6 +2,7 @@ import { PrismaClient } from "@prisma/client";
 import { hash } from "bcryptjs";
 import fs from "node:fs";
 import path from "node:path";
+import { normalizePhone } from "../src/lib/phone";
 
 const prisma = new PrismaClient();
 
@@ -122,10 +123,15 @@ async function main() {
 
   for (const r of records) {
     const externalId = r["Id"] ? Number(r["Id"]) : null;
-    const phoneNumber = r["Phone Number"] || "";
+    const phoneNumber = normalizePhone(r["Phone Number"] || "");
     const driverName = r["Driver Name"] || "";
 
-    if (!externalId || !phoneNumber || !driverName) continue;
+    if (!externalId || !phoneNumber || !driverName) {
+      if (r["Phone Number"] && !phoneNumber) {
+        console.warn(`Skipping invalid phone number: ${r["Phone Number"]}`);
+      }
+      continue;
+    }
 
     const signUpDate = parseDate(r["Sign-up Date"]);
     const lastContactAt = parseDate(r["Last Contact Date"]);
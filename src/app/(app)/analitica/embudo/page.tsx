@@ -0,0 +1,190 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Filter, Loader2, Phone } from "lucide-react";
+import { AnalyticsTabs } from "@/components/analytics/analytics-tabs";
+import {
+  DateRangePicker,
+  type DateRange,
+} from "@/components/analytics/date-range-picker";
+import {
+  StagePill,
+  type OnboardingStage,
+} from "@/components/onboarding/stage-pill";
+import { FilterDropdown } from "@/components/ui/filter-dropdown";
+
+interface FunnelStage {
+  stage: OnboardingStage;
+  reached: number;
+  current: number;
+  conversion: number | null;
+  exits: number;
+  avgHours: number | null;
+  medianHours: number | null;
+}
+
+interface FunnelResponse {
+  range: { from: string; to: string };
+  called: "yes" | "no" | null;
+  riders: number;
+  stages: FunnelStage[];
+}
+
+const calledOptions = [
+  { value: "", label: "Todos los riders" },
+  { value: "yes", label: "Con llamada completada" },
+  { value: "no", label: "Sin llamada completada" },
+];
+
+function pct(value: number | null) {
+  return value === null ? "—" : `${Math.round(value * 100)}%`;
+}
+
+function formatHours(hours: number | null) {
+  if (hours === null) return "—";
+  if (hours < 1) return `${Math.round(hours * 60)} min`;
+  if (hours < 48) return `${hours.toFixed(1)} h`;
+  return `${(hours / 24).toFixed(1)} d`;
+}
+
+export default function EmbudoPage() {
+  const [range, setRange] = useState<DateRange>({ from: "", to: "" });
+  const [called, setCalled] = useState("");
+
+  const { data, isLoading, error } = useQuery<FunnelResponse>({
+    queryKey: ["onboardingFunnel", range, called],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (range.from) params.set("from", range.from);
+      if (range.to) params.set("to", range.to);
+      if (called) params.set("called", called);
+      const res = await fetch("/api/analytics/funnel?" + params.toString());
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(
+          body.details?.[0]?.message ||
+            body.error ||
+            "Error al obtener el embudo",
+        );
+      }
+      return body;
+    },
+  });
+
+  return (
+    <div className="flex h-full flex-col overflow-auto p-6">
+      {/* Header */}
+      <div className="mb-6 flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-xl font-semibold text-fg-primary">Analítica</h1>
+          <p className="mt-1 text-sm text-fg-muted">
+            Embudo de onboarding de los riders registrados en el periodo
+          </p>
+          <div className="mt-3">
+            <AnalyticsTabs />
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <FilterDropdown
+            value={called}
+            onChange={setCalled}
+            options={calledOptions}
+            label="Llamada"
+            allLabel="Todos los riders"
+            icon={Phone}
+            className="w-60"
+          />
+          <DateRangePicker
+            value={range}
+            shown={data?.range}
+            onChange={setRange}
+          />
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="py-24 text-center">
+          <Loader2 className="mx-auto h-6 w-6 animate-spin text-fg-disabled" />
+        </div>
+      ) : error ? (
+        <div className="linear-card p-6 text-sm text-accent-danger">
+          {error.message}
+        </div>
+      ) : !data || data.riders === 0 ? (
+        <div className="linear-card py-16 text-center">
+          <Filter className="mx-auto h-8 w-8 text-fg-disabled" />
+          <p className="mt-3 text-sm text-fg-muted">
+            No hay riders registrados en este periodo
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {/* Funnel bars */}
+          <div className="linear-card space-y-4 p-4">
+            {data.stages.map((stage) => (
+              <div key={stage.stage}>
+                <div className="mb-1 flex items-center justify-between text-xs">
+                  <StagePill stage={stage.stage} />
+                  <span className="text-fg-muted">
+                    {stage.reached} riders · {pct(stage.reached / data.riders)}{" "}
+                    del total
+                    {stage.conversion !== null &&
+                      ` · ${pct(stage.conversion)} desde la etapa anterior`}
+                  </span>
+                </div>
+                <div className="h-3 overflow-hidden rounded-full bg-bg-surface">
+                  <div
+                    className="h-full rounded-full bg-accent-primary"
+                    style={{
+                      width: `${Math.round((stage.reached / data.riders) * 100)}%`,
+                    }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Stage table */}
+          <div className="linear-card p-0">
+            <table className="linear-table">
+              <thead>
+                <tr>
+                  <th>Etapa</th>
+                  <th>Alcanzada</th>
+                  <th>Conversión</th>
+                  <th>Ahora en la etapa</th>
+                  <th>Tiempo medio</th>
+                  <th>Mediana</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.stages.map((stage) => (
+                  <tr key={stage.stage}>
+                    <td>
+                      <StagePill stage={stage.stage} />
+                    </td>
+                    <td className="text-fg-secondary">{stage.reached}</td>
+                    <td className="text-fg-secondary">
+                      {pct(stage.conversion)}
+                    </td>
+                    <td className="text-fg-secondary">{stage.current}</td>
+                    <td
+                      className="text-fg-secondary"
+                      title={`${stage.exits} riders salieron de la etapa`}
+                    >
+                      {formatHours(stage.avgHours)}
+                    </td>
+                    <td className="text-fg-secondary">
+                      {formatHours(stage.medianHours)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
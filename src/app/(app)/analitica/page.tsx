@@ -0,0 +1,557 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useQuery } from "@tanstack/react-query";
+import { BarChart3, Loader2, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { AnalyticsTabs } from "@/components/analytics/analytics-tabs";
+import {
+  DateRangePicker,
+  type DateRange,
+} from "@/components/analytics/date-range-picker";
+
+type Segment = "city" | "flowType" | "licenseCountry";
+
+interface OutcomeCounts {
+  calls: number;
+  withOutcome: number;
+  completed: number;
+  voicemail: number;
+  noAnswer: number;
+  humanRequested: number;
+}
+
+interface AnalyticsResponse {
+  range: { from: string; to: string };
+  totals: OutcomeCounts;
+  byAttempt: (OutcomeCounts & { attempt: number | null })[];
+  bySegment: Record<Segment, (OutcomeCounts & { value: string | null })[]>;
+  sentiment: { sentiment: string | null; count: number }[];
+  perDay: (OutcomeCounts & { date: string })[];
+}
+
+interface DrillDown {
+  title: string;
+  params: Record<string, string>;
+}
+
+interface DrillDownCall {
+  id: string;
+  status: "PENDING" | "RUNNING" | "COMPLETED" | "FAILED" | "CANCELED";
+  contactStatus: "PENDING" | "NO_ANSWER" | "VOICEMAIL" | "COMPLETED" | null;
+  sentiment: string | null;
+  attempt: number | null;
+  createdAt: string;
+  rider: { id: string; driverName: string; city: string | null };
+}
+
+interface CallsResponse {
+  calls: DrillDownCall[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+const segmentLabels: Record<Segment, string> = {
+  city: "City",
+  flowType: "Flow type",
+  licenseCountry: "License country",
+};
+
+// Drill-down value for empty segments / sentiment
+const NONE = "NONE";
+
+// Days are UTC, like the API buckets
+function formatDay(day: string) {
+  return new Date(`${day}T00:00:00.000Z`).toLocaleDateString("es-ES", {
+    timeZone: "UTC",
+  });
+}
+
+function pct(part: number, total: number) {
+  return total > 0 ? `${Math.round((part / total) * 100)}%` : "—";
+}
+
+export default function AnaliticaPage() {
+  const [range, setRange] = useState<DateRange>({ from: "", to: "" });
+  const [segment, setSegment] = useState<Segment>("city");
+  const [drillDown, setDrillDown] = useState<DrillDown | null>(null);
+
+  const { data, isLoading, error } = useQuery<AnalyticsResponse>({
+    queryKey: ["analytics", range],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (range.from) params.set("from", range.from);
+      if (range.to) params.set("to", range.to);
+      const res = await fetch("/api/analytics?" + params.toString());
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(
+          body.details?.[0]?.message ||
+            body.error ||
+            "Error al obtener la analítica",
+        );
+      }
+      return body;
+    },
+  });
+
+  // Every drill-down is scoped to the range shown
+  const drill = (title: string, params: Record<string, string> = {}) => {
+    if (!data) return;
+    setDrillDown({
+      title,
+      params: { from: data.range.from, to: data.range.to, ...params },
+    });
+  };
+
+  const totals = data?.totals;
+  const maxPerDay = Math.max(1, ...(data?.perDay.map((d) => d.calls) ?? []));
+  const maxSentiment = Math.max(
+    1,
+    ...(data?.sentiment.map((s) => s.count) ?? []),
+  );
+
+  return (
+    <div className="flex h-full flex-col overflow-auto p-6">
+      {/* Header */}
+      <div className="mb-6 flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-xl font-semibold text-fg-primary">Analítica</h1>
+          <p className="mt-1 text-sm text-fg-muted">
+            Resultados de las llamadas de onboarding
+          </p>
+          <div className="mt-3">
+            <AnalyticsTabs />
+          </div>
+        </div>
+        <DateRangePicker
+          value={range}
+          shown={data?.range}
+          onChange={setRange}
+        />
+      </div>
+
+      {isLoading ? (
+        <div className="py-24 text-center">
+          <Loader2 className="mx-auto h-6 w-6 animate-spin text-fg-disabled" />
+        </div>
+      ) : error ? (
+        <div className="linear-card p-6 text-sm text-accent-danger">
+          {error.message}
+        </div>
+      ) : !data || !totals || totals.calls === 0 ? (
+        <div className="linear-card py-16 text-center">
+          <BarChart3 className="mx-auto h-8 w-8 text-fg-disabled" />
+          <p className="mt-3 text-sm text-fg-muted">
+            No hay llamadas en este periodo
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {/* KPIs */}
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+            <Kpi
+              label="Llamadas"
+              value={String(totals.calls)}
+              detail={`${totals.withOutcome} con resultado`}
+              onClick={() => drill("Llamadas")}
+            />
+            <Kpi
+              label="Tasa de contacto"
+              value={pct(totals.completed, totals.withOutcome)}
+              detail={`${totals.completed} contactados`}
+              onClick={() =>
+                drill("Contactados", { contactStatus: "COMPLETED" })
+              }
+            />
+            <Kpi
+              label="Voicemail"
+              value={pct(totals.voicemail, totals.withOutcome)}
+              detail={`${totals.voicemail} llamadas`}
+              onClick={() => drill("Voicemail", { contactStatus: "VOICEMAIL" })}
+            />
+            <Kpi
+              label="No answer"
+              value={pct(totals.noAnswer, totals.withOutcome)}
+              detail={`${totals.noAnswer} llamadas`}
+              onClick={() => drill("No answer", { contactStatus: "NO_ANSWER" })}
+            />
+            <Kpi
+              label="Piden humano"
+              value={pct(totals.humanRequested, totals.completed)}
+              detail={`${totals.humanRequested} de ${totals.completed} contactados`}
+              onClick={() =>
+                drill("Piden humano", {
+                  contactStatus: "COMPLETED",
+                  humanRequested: "true",
+                })
+              }
+            />
+          </div>
+
+          {/* Calls per day */}
+          <div className="linear-card p-4">
+            <div className="mb-4 flex items-center justify-between">
+              <h2 className="text-sm font-medium text-fg-secondary">
+                Llamadas por día
+              </h2>
+              <div className="flex items-center gap-3 text-xs text-fg-muted">
+                <span className="inline-flex items-center gap-1">
+                  <span className="h-2 w-2 rounded-sm bg-accent-primary" />
+                  Contactados
+                </span>
+                <span className="inline-flex items-center gap-1">
+                  <span className="h-2 w-2 rounded-sm bg-fg-disabled" />
+                  Resto
+                </span>
+              </div>
+            </div>
+            <div className="flex h-40 items-end gap-px">
+              {data.perDay.map((day) => (
+                <button
+                  key={day.date}
+                  onClick={() =>
+                    drill(formatDay(day.date), {
+                      from: day.date,
+                      to: day.date,
+                    })
+                  }
+                  title={`${formatDay(day.date)}: ${day.calls} llamadas, ${day.completed} contactados`}
+                  className="flex h-full min-w-0 flex-1 flex-col justify-end opacity-80 transition-opacity hover:opacity-100"
+                >
+                  <div
+                    className="w-full rounded-t-sm bg-fg-disabled"
+                    style={{
+                      height: `${((day.calls - day.completed) / maxPerDay) * 100}%`,
+                    }}
+                  />
+                  <div
+                    className="w-full bg-accent-primary"
+                    style={{ height: `${(day.completed / maxPerDay) * 100}%` }}
+                  />
+                </button>
+              ))}
+            </div>
+            <div className="mt-2 flex justify-between text-xs text-fg-muted">
+              <span>{formatDay(data.range.from)}</span>
+              <span>{formatDay(data.range.to)}</span>
+            </div>
+          </div>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            {/* Completion by attempt */}
+            <div className="linear-card p-4">
+              <h2 className="mb-4 text-sm font-medium text-fg-secondary">
+                Contacto por intento
+              </h2>
+              <div className="space-y-3">
+                {data.byAttempt.map((row) => (
+                  <BarRow
+                    key={row.attempt ?? NONE}
+                    label={
+                      row.attempt === null ? "Sin intento" : `#${row.attempt}`
+                    }
+                    value={
+                      row.withOutcome ? row.completed / row.withOutcome : 0
+                    }
+                    detail={`${pct(row.completed, row.withOutcome)} · ${row.completed}/${row.withOutcome}`}
+                    onClick={() =>
+                      drill(
+                        row.attempt === null
+                          ? "Sin intento"
+                          : `Intento #${row.attempt}`,
+                        {
+                          attempt:
+                            row.attempt === null ? NONE : String(row.attempt),
+                          outcome: "final",
+                        },
+                      )
+                    }
+                  />
+                ))}
+              </div>
+            </div>
+
+            {/* Sentiment */}
+            <div className="linear-card p-4">
+              <h2 className="mb-4 text-sm font-medium text-fg-secondary">
+                Sentiment
+              </h2>
+              <div className="space-y-3">
+                {data.sentiment.map((row) => (
+                  <BarRow
+                    key={row.sentiment ?? NONE}
+                    label={row.sentiment ?? "Sin dato"}
+                    value={row.count / maxSentiment}
+                    detail={`${row.count} · ${pct(row.count, totals.calls)}`}
+                    onClick={() =>
+                      drill(`Sentiment: ${row.sentiment ?? "sin dato"}`, {
+                        sentiment: row.sentiment ?? NONE,
+                      })
+                    }
+                  />
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {/* Segments */}
+          <div className="linear-card p-0">
+            <div className="flex items-center gap-2 border-b border-border-subtle p-4">
+              <h2 className="mr-2 text-sm font-medium text-fg-secondary">
+                Resultados por
+              </h2>
+              {(Object.keys(segmentLabels) as Segment[]).map((key) => (
+                <button
+                  key={key}
+                  onClick={() => setSegment(key)}
+                  className={cn(
+                    "rounded-md px-2 py-1 text-xs transition-colors",
+                    segment === key
+                      ? "bg-interactive-hover text-fg-primary"
+                      : "text-fg-muted hover:text-fg-primary",
+                  )}
+                >
+                  {segmentLabels[key]}
+                </button>
+              ))}
+            </div>
+            <table className="linear-table">
+              <thead>
+                <tr>
+                  <th>{segmentLabels[segment]}</th>
+                  <th>Llamadas</th>
+                  <th>Contacto</th>
+                  <th>Voicemail</th>
+                  <th>No answer</th>
+                  <th>Piden humano</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.bySegment[segment].map((row) => (
+                  <tr
+                    key={row.value ?? NONE}
+                    onClick={() =>
+                      drill(
+                        `${segmentLabels[segment]}: ${row.value ?? "sin dato"}`,
+                        { [segment]: row.value ?? NONE },
+                      )
+                    }
+                    className="cursor-pointer"
+                  >
+                    <td className="font-medium text-fg-primary">
+                      {row.value ?? "-"}
+                    </td>
+                    <td className="text-fg-secondary">{row.calls}</td>
+                    <td className="text-fg-secondary">
+                      {pct(row.completed, row.withOutcome)}
+                    </td>
+                    <td className="text-fg-secondary">
+                      {pct(row.voicemail, row.withOutcome)}
+                    </td>
+                    <td className="text-fg-secondary">
+                      {pct(row.noAnswer, row.withOutcome)}
+                    </td>
+                    <td className="text-fg-secondary">
+                      {pct(row.humanRequested, row.completed)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {drillDown && (
+        <DrillDownModal
+          drillDown={drillDown}
+          onClose={() => setDrillDown(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+function Kpi({
+  label,
+  value,
+  detail,
+  onClick,
+}: {
+  label: string;
+  value: string;
+  detail: string;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className="linear-card p-4 text-left transition-colors hover:border-border-medium"
+    >
+      <p className="text-xs font-medium text-fg-muted">{label}</p>
+      <p className="mt-1 text-2xl font-semibold text-fg-primary">{value}</p>
+      <p className="mt-1 text-xs text-fg-muted">{detail}</p>
+    </button>
+  );
+}
+
+function BarRow({
+  label,
+  value,
+  detail,
+  onClick,
+}: {
+  label: string;
+  /** 0-1 */
+  value: number;
+  detail: string;
+  onClick: () => void;
+}) {
+  return (
+    <button onClick={onClick} className="group block w-full text-left">
+      <div className="mb-1 flex items-center justify-between text-xs">
+        <span className="text-fg-primary">{label}</span>
+        <span className="text-fg-muted">{detail}</span>
+      </div>
+      <div className="h-2 overflow-hidden rounded-full bg-bg-surface">
+        <div
+          className="h-full rounded-full bg-accent-primary opacity-80 transition-opacity group-hover:opacity-100"
+          style={{ width: `${Math.round(value * 100)}%` }}
+        />
+      </div>
+    </button>
+  );
+}
+
+function DrillDownModal({
+  drillDown,
+  onClose,
+}: {
+  drillDown: DrillDown;
+  onClose: () => void;
+}) {
+  const [page, setPage] = useState(1);
+
+  const { data, isLoading } = useQuery<CallsResponse>({
+    queryKey: ["calls", "drillDown", drillDown.params, page],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        ...drillDown.params,
+        page: page.toString(),
+        pageSize: "20",
+      });
+      const res = await fetch("/api/calls/list?" + params.toString());
+      if (!res.ok) throw new Error("Error al obtener las llamadas");
+      return res.json();
+    },
+  });
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-overlay-backdrop backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="relative mx-4 max-h-[80vh] w-full max-w-2xl overflow-auto rounded-xl border border-border-medium bg-bg-elevated p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={onClose}
+          className="absolute right-4 top-4 rounded-lg p-2 text-fg-muted transition-colors hover:bg-interactive-hover hover:text-fg-primary"
+        >
+          <X className="h-5 w-5" />
+        </button>
+
+        <h2 className="mb-1 text-lg font-semibold text-fg-primary">
+          {drillDown.title}
+        </h2>
+        <p className="mb-4 text-sm text-fg-muted">
+          {formatDay(drillDown.params.from)} – {formatDay(drillDown.params.to)}
+          {data && ` · ${data.total} llamadas`}
+        </p>
+
+        {isLoading ? (
+          <div className="py-12 text-center">
+            <Loader2 className="mx-auto h-6 w-6 animate-spin text-fg-disabled" />
+          </div>
+        ) : !data || data.calls.length === 0 ? (
+          <p className="py-12 text-center text-sm text-fg-muted">
+            No hay llamadas
+          </p>
+        ) : (
+          <>
+            <table className="linear-table">
+              <thead>
+                <tr>
+                  <th>Driver</th>
+                  <th>Resultado</th>
+                  <th>Intento</th>
+                  <th>Sentiment</th>
+                  <th>Fecha</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.calls.map((call) => (
+                  <tr key={call.id}>
+                    <td>
+                      <Link
+                        href={`/riders/${call.rider.id}`}
+                        className="font-medium text-fg-primary hover:underline"
+                      >
+                        {call.rider.driverName}
+                      </Link>
+                      {call.rider.city && (
+                        <span className="ml-1 text-xs text-fg-muted">
+                          · {call.rider.city}
+                        </span>
+                      )}
+                    </td>
+                    <td className="text-xs text-fg-secondary">
+                      {call.contactStatus || call.status}
+                    </td>
+                    <td className="text-fg-secondary">
+                      {typeof call.attempt === "number"
+                        ? `#${call.attempt}`
+                        : "-"}
+                    </td>
+                    <td className="text-xs text-fg-secondary">
+                      {call.sentiment || "-"}
+                    </td>
+                    <td className="text-sm text-fg-muted">
+                      {new Date(call.createdAt).toLocaleString("es-ES")}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {data.totalPages > 1 && (
+              <div className="mt-4 flex items-center justify-end gap-2">
+                <button
+                  onClick={() => setPage((p) => p - 1)}
+                  disabled={page <= 1}
+                  className="linear-btn-secondary text-xs disabled:opacity-50"
+                >
+                  Anterior
+                </button>
+                <span className="text-xs text-fg-muted">
+                  {page} / {data.totalPages}
+                </span>
+                <button
+                  onClick={() => setPage((p) => p + 1)}
+                  disabled={page >= data.totalPages}
+                  className="linear-btn-secondary text-xs disabled:opacity-50"
+                >
+                  Siguiente
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,515 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Megaphone, Pause, Play, Square, X } from "lucide-react";
+import { cn, formatRelativeTime } from "@/lib/utils";
+import { FilterDropdown } from "@/components/ui/filter-dropdown";
+import { useToast } from "@/components/ui/toaster";
+
+type CampaignStatus = "RUNNING" | "PAUSED" | "CANCELED" | "COMPLETED";
+type CampaignItemStatus =
+  | "QUEUED"
+  | "DISPATCHED"
+  | "FAILED"
+  | "SKIPPED"
+  | "CANCELED";
+
+interface CampaignFilters {
+  city?: string;
+  flowType?: string;
+  documentsUploaded?: "NO" | "PARTIAL" | "YES";
+  licenseCountry?: string;
+}
+
+interface Campaign {
+  id: string;
+  name: string;
+  status: CampaignStatus;
+  filters: CampaignFilters;
+  concurrency: number;
+  ratePerMinute: number;
+  totalCount: number;
+  createdAt: string;
+  completedAt: string | null;
+  createdByUser: { id: string; email: string; name: string | null } | null;
+  progress: Record<CampaignItemStatus, number>;
+}
+
+interface CampaignItem {
+  id: string;
+  status: CampaignItemStatus;
+  error: string | null;
+  dispatchedAt: string | null;
+  notBefore: string | null;
+  rider: {
+    id: string;
+    driverName: string;
+    phoneNumber: string;
+    city: string | null;
+  };
+  riderCall: {
+    id: string;
+    status: "PENDING" | "RUNNING" | "COMPLETED" | "FAILED" | "CANCELED";
+    contactStatus: "PENDING" | "NO_ANSWER" | "VOICEMAIL" | "COMPLETED" | null;
+    runId: string | null;
+    errorMsg: string | null;
+  } | null;
+}
+
+interface CampaignDetail extends Campaign {
+  items: CampaignItem[];
+}
+
+interface PreviewResponse {
+  count: number;
+}
+
+const campaignStatusConfig: Record<
+  CampaignStatus,
+  { class: string; label: string }
+> = {
+  RUNNING: { class: "pill-running", label: "En curso" },
+  PAUSED: { class: "pill-pending", label: "Pausada" },
+  CANCELED: { class: "pill-canceled", label: "Cancelada" },
+  COMPLETED: { class: "pill-completed", label: "Completada" },
+};
+
+const itemStatusConfig: Record<
+  CampaignItemStatus,
+  { class: string; label: string }
+> = {
+  QUEUED: { class: "pill-pending", label: "En cola" },
+  DISPATCHED: { class: "pill-running", label: "Lanzada" },
+  FAILED: { class: "pill-failed", label: "Fallida" },
+  SKIPPED: { class: "pill-canceled", label: "Omitida" },
+  CANCELED: { class: "pill-canceled", label: "Cancelada" },
+};
+
+const documentsOptions = [
+  { value: "", label: "Todos" },
+  { value: "NO", label: "NO" },
+  { value: "PARTIAL", label: "PARTIAL" },
+  { value: "YES", label: "YES" },
+];
+
+function filtersToParams(filters: CampaignFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([k, v]) => {
+    if (v) params.set(k, v);
+  });
+  return params;
+}
+
+function describeFilters(filters: CampaignFilters): string {
+  const parts = [
+    filters.city,
+    filters.flowType,
+    filters.documentsUploaded && `Docs: ${filters.documentsUploaded}`,
+    filters.licenseCountry && `Licencia: ${filters.licenseCountry}`,
+  ].filter(Boolean);
+  return parts.length ? parts.join(" · ") : "Todos los pendientes";
+}
+
+export default function CampanasPage() {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const [name, setName] = useState("");
+  const [filters, setFilters] = useState<CampaignFilters>({});
+  const [concurrency, setConcurrency] = useState(5);
+  const [ratePerMinute, setRatePerMinute] = useState(10);
+
+  // ESC key to close modal
+  useEffect(() => {
+    const handleEsc = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setSelectedId(null);
+    };
+    window.addEventListener("keydown", handleEsc);
+    return () => window.removeEventListener("keydown", handleEsc);
+  }, []);
+
+  const { data: campaigns = [], isLoading } = useQuery<Campaign[]>({
+    queryKey: ["campaigns"],
+    queryFn: async () => {
+      const res = await fetch("/api/campaigns");
+      if (!res.ok) throw new Error("Error al obtener las campañas");
+      return res.json();
+    },
+    refetchInterval: 5000,
+  });
+
+  const { data: preview } = useQuery<PreviewResponse>({
+    queryKey: ["campaignPreview", filters],
+    queryFn: async () => {
+      const res = await fetch(
+        "/api/campaigns/preview?" + filtersToParams(filters).toString(),
+      );
+      if (!res.ok) throw new Error("Error al obtener la vista previa");
+      return res.json();
+    },
+  });
+
+  const { data: detail } = useQuery<CampaignDetail>({
+    queryKey: ["campaign", selectedId],
+    queryFn: async () => {
+      const res = await fetch(`/api/campaigns/${selectedId}`);
+      if (!res.ok) throw new Error("Error al obtener la campaña");
+      return res.json();
+    },
+    enabled: !!selectedId,
+    refetchInterval: 5000,
+  });
+
+  const createCampaign = useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/campaigns", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, filters, concurrency, ratePerMinute }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Error al crear la campaña");
+      return body;
+    },
+    onSuccess: () => {
+      toast.success("Campaña creada");
+      setName("");
+      queryClient.invalidateQueries({ queryKey: ["campaigns"] });
+    },
+    onError: (error: Error) => toast.error("No se pudo crear", error.message),
+  });
+
+  const campaignAction = useMutation({
+    mutationFn: async ({
+      id,
+      action,
+    }: {
+      id: string;
+      action: "pause" | "resume" | "cancel";
+    }) => {
+      const res = await fetch(`/api/campaigns/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Error en la campaña");
+      return body;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["campaigns"] });
+      queryClient.invalidateQueries({ queryKey: ["campaign"] });
+    },
+    onError: (error: Error) => toast.error("Acción fallida", error.message),
+  });
+
+  const setFilter = (key: keyof CampaignFilters, value: string) =>
+    setFilters((prev) => ({ ...prev, [key]: value || undefined }));
+
+  return (
+    <div className="flex h-full flex-col p-6">
+      {/* Header */}
+      <div className="mb-6 shrink-0">
+        <h1 className="text-xl font-semibold text-fg-primary">Campañas</h1>
+        <p className="mt-1 text-sm text-fg-muted">
+          Lanza llamadas en bloque sobre los riders pendientes
+        </p>
+      </div>
+
+      <div className="flex min-h-0 flex-1 flex-col gap-6 lg:flex-row">
+        {/* Create form */}
+        <form
+          className="linear-card h-fit shrink-0 space-y-4 p-5 lg:w-[360px]"
+          onSubmit={(e) => {
+            e.preventDefault();
+            createCampaign.mutate();
+          }}
+        >
+          <h2 className="text-sm font-medium text-fg-secondary">
+            Nueva campaña
+          </h2>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Nombre de la campaña"
+            className="linear-input w-full"
+            required
+          />
+          <div className="grid grid-cols-2 gap-3">
+            <input
+              type="text"
+              value={filters.city || ""}
+              onChange={(e) => setFilter("city", e.target.value)}
+              placeholder="City"
+              className="linear-input w-full"
+            />
+            <input
+              type="text"
+              value={filters.flowType || ""}
+              onChange={(e) => setFilter("flowType", e.target.value)}
+              placeholder="Flow type"
+              className="linear-input w-full"
+            />
+            <input
+              type="text"
+              value={filters.licenseCountry || ""}
+              onChange={(e) => setFilter("licenseCountry", e.target.value)}
+              placeholder="License country"
+              className="linear-input w-full"
+            />
+            <FilterDropdown
+              value={filters.documentsUploaded || ""}
+              onChange={(val) => setFilter("documentsUploaded", val)}
+              options={documentsOptions}
+              label="Docs"
+              allLabel="Todos"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-xs text-fg-muted">
+              Concurrencia
+              <input
+                type="number"
+                min={1}
+                max={50}
+                value={concurrency}
+                onChange={(e) => setConcurrency(Number(e.target.value))}
+                className="linear-input mt-1 w-full"
+              />
+            </label>
+            <label className="text-xs text-fg-muted">
+              Llamadas / minuto
+              <input
+                type="number"
+                min={1}
+                max={120}
+                value={ratePerMinute}
+                onChange={(e) => setRatePerMinute(Number(e.target.value))}
+                className="linear-input mt-1 w-full"
+              />
+            </label>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-fg-muted">
+              {preview ? `${preview.count} riders pendientes` : "—"}
+            </span>
+            <button
+              type="submit"
+              disabled={createCampaign.isPending || !preview?.count}
+              className="linear-btn-primary px-4 py-2 text-sm disabled:cursor-not-allowed disabled:opacity-40"
+            >
+              {createCampaign.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                "Lanzar"
+              )}
+            </button>
+          </div>
+        </form>
+
+        {/* Campaign list */}
+        <div className="min-h-0 flex-1 overflow-auto">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-fg-muted" />
+            </div>
+          ) : campaigns.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-12">
+              <Megaphone className="h-8 w-8 text-fg-disabled" />
+              <p className="mt-3 text-sm text-fg-muted">
+                No hay campañas todavía
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {campaigns.map((campaign) => (
+                <CampaignCard
+                  key={campaign.id}
+                  campaign={campaign}
+                  onOpen={() => setSelectedId(campaign.id)}
+                  onAction={(action) =>
+                    campaignAction.mutate({ id: campaign.id, action })
+                  }
+                  busy={campaignAction.isPending}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Detail Modal */}
+      {selectedId && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-overlay-backdrop backdrop-blur-sm"
+          onClick={() => setSelectedId(null)}
+        >
+          <div
+            className="relative mx-4 max-h-[80vh] w-full max-w-3xl overflow-auto rounded-xl border border-border-medium bg-bg-elevated p-6"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <button
+              onClick={() => setSelectedId(null)}
+              className="absolute right-4 top-4 rounded-lg p-2 text-fg-muted transition-colors hover:bg-interactive-hover hover:text-fg-primary"
+            >
+              <X className="h-5 w-5" />
+            </button>
+
+            {!detail ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="h-6 w-6 animate-spin text-fg-muted" />
+              </div>
+            ) : (
+              <>
+                <h2 className="mb-1 text-lg font-semibold text-fg-primary">
+                  {detail.name}
+                </h2>
+                <p className="mb-6 text-sm text-fg-muted">
+                  {describeFilters(detail.filters)}
+                </p>
+
+                <table className="linear-table">
+                  <thead>
+                    <tr>
+                      <th>Driver</th>
+                      <th>Telefono</th>
+                      <th>Campaña</th>
+                      <th>Llamada</th>
+                      <th>Resultado</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {detail.items.map((item) => {
+                      const config = itemStatusConfig[item.status];
+                      return (
+                        <tr key={item.id} className="cursor-default">
+                          <td className="font-medium text-fg-primary">
+                            {item.rider.driverName}
+                          </td>
+                          <td className="font-mono text-sm text-fg-secondary">
+                            {item.rider.phoneNumber}
+                          </td>
+                          <td>
+                            <span className={cn("pill", config.class)}>
+                              {config.label}
+                            </span>
+                            {item.error && (
+                              <p className="mt-1 text-xs text-status-danger">
+                                {item.error}
+                              </p>
+                            )}
+                            {item.status === "QUEUED" && item.notBefore && (
+                              <p className="mt-1 text-xs text-fg-muted">
+                                Espera hasta{" "}
+                                {new Date(item.notBefore).toLocaleString(
+                                  "es-ES",
+                                )}
+                              </p>
+                            )}
+                          </td>
+                          <td className="text-xs text-fg-secondary">
+                            {item.riderCall?.status || "-"}
+                          </td>
+                          <td className="text-xs text-fg-secondary">
+                            {item.riderCall?.contactStatus || "-"}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function CampaignCard({
+  campaign,
+  onOpen,
+  onAction,
+  busy,
+}: {
+  campaign: Campaign;
+  onOpen: () => void;
+  onAction: (action: "pause" | "resume" | "cancel") => void;
+  busy: boolean;
+}) {
+  const config = campaignStatusConfig[campaign.status];
+  const { progress } = campaign;
+  const processed = campaign.totalCount - progress.QUEUED;
+  const pct = campaign.totalCount
+    ? Math.round((processed / campaign.totalCount) * 100)
+    : 0;
+  const isOpen = campaign.status === "RUNNING" || campaign.status === "PAUSED";
+
+  return (
+    <div
+      className="linear-card cursor-pointer p-4 transition-all hover:border-accent-primary/50"
+      onClick={onOpen}
+    >
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0 flex-1">
+          <p className="truncate font-medium text-fg-primary">
+            {campaign.name}
+          </p>
+          <p className="mt-0.5 text-xs text-fg-muted">
+            {describeFilters(campaign.filters)} · {campaign.concurrency}{" "}
+            simultáneas · {campaign.ratePerMinute}/min
+          </p>
+        </div>
+        <span className={cn("pill", config.class)}>{config.label}</span>
+      </div>
+
+      <div className="mt-3 h-1.5 overflow-hidden rounded-full bg-bg-hover">
+        <div
+          className="h-full rounded-full bg-accent-primary transition-all"
+          style={{ width: `${pct}%` }}
+        />
+      </div>
+
+      <div className="mt-2 flex items-center justify-between text-xs text-fg-muted">
+        <span>
+          {processed}/{campaign.totalCount} · {progress.DISPATCHED} lanzadas ·{" "}
+          {progress.FAILED} fallidas · {progress.SKIPPED} omitidas
+        </span>
+        <span>{formatRelativeTime(new Date(campaign.createdAt))}</span>
+      </div>
+
+      {isOpen && (
+        <div className="mt-3 flex gap-2" onClick={(e) => e.stopPropagation()}>
+          {campaign.status === "RUNNING" ? (
+            <button
+              onClick={() => onAction("pause")}
+              disabled={busy}
+              className="linear-btn-secondary inline-flex items-center gap-1 px-3 py-1.5 text-[13px]"
+            >
+              <Pause className="h-3 w-3" /> Pausar
+            </button>
+          ) : (
+            <button
+              onClick={() => onAction("resume")}
+              disabled={busy}
+              className="linear-btn-secondary inline-flex items-center gap-1 px-3 py-1.5 text-[13px]"
+            >
+              <Play className="h-3 w-3" /> Reanudar
+            </button>
+          )}
+          <button
+            onClick={() => onAction("cancel")}
+            disabled={busy}
+            className="linear-btn-secondary inline-flex items-center gap-1 px-3 py-1.5 text-[13px] text-status-danger"
+          >
+            <Square className="h-3 w-3" /> Cancelar
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
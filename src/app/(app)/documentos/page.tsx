@@ -0,0 +1,335 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { FileText, Loader2, Pencil } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/components/ui/toaster";
+
+interface DocumentType {
+  id: string;
+  key: string;
+  name: string;
+  description: string | null;
+  flowTypes: string[];
+  cities: string[];
+  importColumn: number | null;
+  sortOrder: number;
+  active: boolean;
+}
+
+interface DocumentTypeForm {
+  key: string;
+  name: string;
+  description: string;
+  flowTypes: string;
+  cities: string;
+  importColumn: string;
+  sortOrder: string;
+  active: boolean;
+}
+
+const emptyForm: DocumentTypeForm = {
+  key: "",
+  name: "",
+  description: "",
+  flowTypes: "",
+  cities: "",
+  importColumn: "",
+  sortOrder: "0",
+  active: true,
+};
+
+function toForm(type: DocumentType): DocumentTypeForm {
+  return {
+    key: type.key,
+    name: type.name,
+    description: type.description ?? "",
+    flowTypes: type.flowTypes.join(", "),
+    cities: type.cities.join(", "),
+    importColumn: type.importColumn?.toString() ?? "",
+    sortOrder: type.sortOrder.toString(),
+    active: type.active,
+  };
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function toPayload(form: DocumentTypeForm) {
+  return {
+    key: form.key.trim(),
+    name: form.name.trim(),
+    description: form.description.trim() || null,
+    flowTypes: splitList(form.flowTypes),
+    cities: splitList(form.cities),
+    importColumn: form.importColumn ? Number(form.importColumn) : null,
+    sortOrder: Number(form.sortOrder) || 0,
+    active: form.active,
+  };
+}
+
+export default function DocumentosPage() {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<DocumentTypeForm>(emptyForm);
+
+  const { data: types = [], isLoading } = useQuery<DocumentType[]>({
+    queryKey: ["documentTypes"],
+    queryFn: async () => {
+      const res = await fetch("/api/document-types");
+      if (!res.ok) throw new Error("Error al obtener los documentos");
+      return res.json();
+    },
+  });
+
+  const saveType = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(
+        editingId ? `/api/document-types/${editingId}` : "/api/document-types",
+        {
+          method: editingId ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(toPayload(form)),
+        },
+      );
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(
+          body.details?.[0]?.message ||
+            body.error ||
+            "Error al guardar el documento",
+        );
+      }
+      return body;
+    },
+    onSuccess: () => {
+      toast.success(editingId ? "Documento actualizado" : "Documento creado");
+      setEditingId(null);
+      setForm(emptyForm);
+      queryClient.invalidateQueries({ queryKey: ["documentTypes"] });
+      queryClient.invalidateQueries({ queryKey: ["riderDocuments"] });
+    },
+    onError: (error: Error) => toast.error("No se pudo guardar", error.message),
+  });
+
+  const setField = <K extends keyof DocumentTypeForm>(
+    key: K,
+    value: DocumentTypeForm[K],
+  ) => setForm((prev) => ({ ...prev, [key]: value }));
+
+  return (
+    <div className="flex h-full flex-col p-6">
+      {/* Header */}
+      <div className="mb-6 shrink-0">
+        <h1 className="text-xl font-semibold text-fg-primary">Documentos</h1>
+        <p className="mt-1 text-sm text-fg-muted">
+          Catálogo de documentos de onboarding y a qué riders se exigen
+        </p>
+      </div>
+
+      <div className="flex min-h-0 flex-1 flex-col gap-6 lg:flex-row">
+        {/* Create / edit form */}
+        <form
+          className="linear-card h-fit shrink-0 space-y-4 p-5 lg:w-[360px]"
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveType.mutate();
+          }}
+        >
+          <h2 className="text-sm font-medium text-fg-secondary">
+            {editingId ? "Editar documento" : "Nuevo documento"}
+          </h2>
+          <div className="grid grid-cols-2 gap-3">
+            <input
+              type="text"
+              value={form.key}
+              onChange={(e) => setField("key", e.target.value)}
+              placeholder="Clave (driver_license)"
+              className="linear-input w-full"
+              required
+            />
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => setField("name", e.target.value)}
+              placeholder="Nombre"
+              className="linear-input w-full"
+              required
+            />
+          </div>
+          <textarea
+            value={form.description}
+            onChange={(e) => setField("description", e.target.value)}
+            placeholder="Descripción (opcional)"
+            rows={2}
+            className="linear-input w-full resize-none"
+          />
+          <label className="block text-xs text-fg-muted">
+            Flow types (separados por comas; vacío = todos)
+            <input
+              type="text"
+              value={form.flowTypes}
+              onChange={(e) => setField("flowTypes", e.target.value)}
+              placeholder="uber x, uber black"
+              className="linear-input mt-1 w-full"
+            />
+          </label>
+          <label className="block text-xs text-fg-muted">
+            Ciudades (separadas por comas; vacío = todas)
+            <input
+              type="text"
+              value={form.cities}
+              onChange={(e) => setField("cities", e.target.value)}
+              placeholder="lisboa, porto"
+              className="linear-input mt-1 w-full"
+            />
+          </label>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-xs text-fg-muted">
+              Columna de importación
+              <input
+                type="number"
+                min={1}
+                max={100}
+                value={form.importColumn}
+                onChange={(e) => setField("importColumn", e.target.value)}
+                placeholder="Document N"
+                className="linear-input mt-1 w-full"
+              />
+            </label>
+            <label className="text-xs text-fg-muted">
+              Orden
+              <input
+                type="number"
+                value={form.sortOrder}
+                onChange={(e) => setField("sortOrder", e.target.value)}
+                className="linear-input mt-1 w-full"
+              />
+            </label>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-fg-secondary">
+            <input
+              type="checkbox"
+              checked={form.active}
+              onChange={(e) => setField("active", e.target.checked)}
+            />
+            Activo
+          </label>
+          <div className="flex items-center justify-end gap-2">
+            {editingId && (
+              <button
+                type="button"
+                onClick={() => {
+                  setEditingId(null);
+                  setForm(emptyForm);
+                }}
+                className="linear-btn-secondary px-4 py-2 text-sm"
+              >
+                Cancelar
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={saveType.isPending}
+              className="linear-btn-primary px-4 py-2 text-sm disabled:cursor-not-allowed disabled:opacity-40"
+            >
+              {saveType.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : editingId ? (
+                "Guardar"
+              ) : (
+                "Crear"
+              )}
+            </button>
+          </div>
+        </form>
+
+        {/* Catalog */}
+        <div className="min-h-0 flex-1 overflow-auto">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-fg-muted" />
+            </div>
+          ) : types.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-12">
+              <FileText className="h-8 w-8 text-fg-disabled" />
+              <p className="mt-3 text-sm text-fg-muted">
+                No hay documentos en el catálogo
+              </p>
+            </div>
+          ) : (
+            <div className="linear-card p-0">
+              <table className="linear-table">
+                <thead>
+                  <tr>
+                    <th>Documento</th>
+                    <th>Flow types</th>
+                    <th>Ciudades</th>
+                    <th>Columna</th>
+                    <th>Estado</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {types.map((type) => (
+                    <tr
+                      key={type.id}
+                      className={cn(editingId === type.id && "bg-bg-hover")}
+                    >
+                      <td>
+                        <div className="text-fg-primary">{type.name}</div>
+                        <div className="font-mono text-xs text-fg-muted">
+                          {type.key}
+                        </div>
+                      </td>
+                      <td className="text-fg-secondary">
+                        {type.flowTypes.join(", ") || "Todos"}
+                      </td>
+                      <td className="text-fg-secondary">
+                        {type.cities.join(", ") || "Todas"}
+                      </td>
+                      <td className="text-fg-secondary">
+                        {type.importColumn
+                          ? `Document ${type.importColumn}`
+                          : "—"}
+                      </td>
+                      <td>
+                        <span
+                          className={cn(
+                            "pill",
+                            type.active ? "pill-completed" : "pill-canceled",
+                          )}
+                        >
+                          {type.active ? "Activo" : "Inactivo"}
+                        </span>
+                      </td>
+                      <td className="text-right">
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setEditingId(type.id);
+                            setForm(toForm(type));
+                          }}
+                          className="rounded-md p-1 text-fg-muted hover:bg-bg-hover hover:text-fg-primary"
+                          title="Editar"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,324 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Inbox, Loader2, RotateCcw, X } from "lucide-react";
+import { cn, formatRelativeTime } from "@/lib/utils";
+import { FilterDropdown } from "@/components/ui/filter-dropdown";
+import { useToast } from "@/components/ui/toaster";
+
+interface DispatchJob {
+  id: string;
+  status: "QUEUED" | "PROCESSING" | "SUCCEEDED" | "DEAD" | "CANCELED";
+  attempts: number;
+  nextAttemptAt: string;
+  lastError: string | null;
+  lastStatusCode: number | null;
+  deadAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  riderCall: {
+    id: string;
+    status: string;
+    attempt: number | null;
+    errorMsg: string | null;
+    createdAt: string;
+    rider: { id: string; driverName: string; phoneNumber: string };
+  };
+}
+
+interface DispatchesResponse {
+  jobs: DispatchJob[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+const statusConfig: Record<
+  DispatchJob["status"],
+  { label: string; className: string }
+> = {
+  QUEUED: { label: "En cola", className: "pill-pending" },
+  PROCESSING: { label: "Enviando", className: "pill-running" },
+  SUCCEEDED: { label: "Enviado", className: "pill-completed" },
+  DEAD: { label: "Dead letter", className: "pill-failed" },
+  CANCELED: { label: "Cancelado", className: "pill-canceled" },
+};
+
+const statusOptions = Object.entries(statusConfig).map(([value, config]) => ({
+  value,
+  label: config.label,
+}));
+
+export default function EnviosPage() {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+  const [page, setPage] = useState(1);
+  const [statusFilter, setStatusFilter] = useState("DEAD");
+  const [selected, setSelected] = useState<DispatchJob | null>(null);
+  const pageSize = 25;
+
+  const { data, isLoading } = useQuery<DispatchesResponse>({
+    queryKey: ["dispatches", page, statusFilter],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        page: page.toString(),
+        pageSize: pageSize.toString(),
+        status: statusFilter || "DEAD",
+      });
+      const res = await fetch("/api/dispatches?" + params.toString());
+      if (!res.ok) throw new Error("Error al obtener los envíos");
+      return res.json();
+    },
+    refetchInterval: 10000,
+  });
+
+  const replay = useMutation({
+    mutationFn: async (jobId: string) => {
+      const res = await fetch(`/api/dispatches/${jobId}/replay`, {
+        method: "POST",
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.details || body.error || "Error al reenviar");
+      }
+      return body as { queued: boolean };
+    },
+    onSuccess: (body) => {
+      if (body.queued) {
+        toast.warning("Reenvío en cola", "HappyRobot sigue fallando");
+      } else {
+        toast.success("Llamada reenviada");
+      }
+      setSelected(null);
+      queryClient.invalidateQueries({ queryKey: ["dispatches"] });
+    },
+    onError: (error: Error) => {
+      toast.error("No se pudo reenviar", error.message);
+      queryClient.invalidateQueries({ queryKey: ["dispatches"] });
+    },
+  });
+
+  useEffect(() => {
+    const handleEsc = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setSelected(null);
+    };
+    window.addEventListener("keydown", handleEsc);
+    return () => window.removeEventListener("keydown", handleEsc);
+  }, []);
+
+  return (
+    <div className="flex h-full flex-col p-6">
+      {/* Header */}
+      <div className="mb-6 shrink-0">
+        <h1 className="text-xl font-semibold text-fg-primary">Envíos</h1>
+        <p className="mt-1 text-sm text-fg-muted">
+          Cola de disparos a HappyRobot y envíos agotados (dead letter)
+        </p>
+      </div>
+
+      <div className="mb-4 flex shrink-0 items-center gap-3">
+        <FilterDropdown
+          value={statusFilter}
+          onChange={(val) => {
+            setStatusFilter(val || "DEAD");
+            setPage(1);
+          }}
+          options={statusOptions}
+          label="Estado"
+          className="w-48"
+        />
+      </div>
+
+      <div className="linear-card flex min-h-0 flex-1 flex-col overflow-hidden p-0">
+        <div className="flex-1 overflow-auto">
+          <table className="linear-table">
+            <thead>
+              <tr>
+                <th className="w-[22%]">Driver</th>
+                <th className="w-[12%]">Estado</th>
+                <th className="w-[10%]">Intentos</th>
+                <th className="w-[36%]">Último error</th>
+                <th className="w-[20%]">Actualizado</th>
+              </tr>
+            </thead>
+            <tbody>
+              {isLoading ? (
+                <tr>
+                  <td colSpan={5} className="py-12 text-center">
+                    <Loader2 className="mx-auto h-6 w-6 animate-spin text-fg-disabled" />
+                  </td>
+                </tr>
+              ) : data?.jobs.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="py-12 text-center">
+                    <Inbox className="mx-auto h-8 w-8 text-fg-disabled" />
+                    <p className="mt-3 text-sm text-fg-muted">
+                      No hay envíos en este estado
+                    </p>
+                  </td>
+                </tr>
+              ) : (
+                data?.jobs.map((job) => (
+                  <tr
+                    key={job.id}
+                    onClick={() => setSelected(job)}
+                    className="cursor-pointer"
+                  >
+                    <td>
+                      <p className="font-medium text-fg-primary">
+                        {job.riderCall.rider.driverName}
+                      </p>
+                      <p className="text-xs text-fg-muted">
+                        {job.riderCall.rider.phoneNumber}
+                      </p>
+                    </td>
+                    <td>
+                      <span
+                        className={cn(
+                          "pill",
+                          statusConfig[job.status].className,
+                        )}
+                      >
+                        {statusConfig[job.status].label}
+                      </span>
+                    </td>
+                    <td className="text-fg-secondary">{job.attempts}</td>
+                    <td className="truncate text-xs text-fg-secondary">
+                      {job.lastStatusCode ? `[${job.lastStatusCode}] ` : ""}
+                      {job.lastError || "-"}
+                    </td>
+                    <td className="text-sm text-fg-muted">
+                      {formatRelativeTime(new Date(job.updatedAt))}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {data && data.total > 0 && (
+        <div className="mt-4 flex shrink-0 items-center justify-between">
+          <span className="text-[13px] text-fg-muted">
+            Mostrando {(page - 1) * pageSize + 1}-
+            {Math.min(page * pageSize, data.total)} de {data.total} envíos
+          </span>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setPage((p) => Math.max(1, p - 1))}
+              disabled={page === 1}
+              className="linear-btn-secondary px-3 py-1.5 text-[13px] disabled:cursor-not-allowed disabled:opacity-30"
+            >
+              &lt;
+            </button>
+            <span className="px-3 py-1.5 text-[13px] text-fg-secondary">
+              {page} / {data.totalPages || 1}
+            </span>
+            <button
+              onClick={() => setPage((p) => Math.min(data.totalPages, p + 1))}
+              disabled={page === data.totalPages || data.totalPages === 0}
+              className="linear-btn-secondary px-3 py-1.5 text-[13px] disabled:cursor-not-allowed disabled:opacity-30"
+            >
+              &gt;
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Detail Modal */}
+      {selected && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-overlay-backdrop backdrop-blur-sm"
+          onClick={() => setSelected(null)}
+        >
+          <div
+            className="relative mx-4 max-h-[80vh] w-full max-w-2xl overflow-auto rounded-xl border border-border-medium bg-bg-elevated p-6"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <button
+              onClick={() => setSelected(null)}
+              className="absolute right-4 top-4 rounded-lg p-2 text-fg-muted transition-colors hover:bg-interactive-hover hover:text-fg-primary"
+            >
+              <X className="h-5 w-5" />
+            </button>
+
+            <h2 className="mb-1 text-lg font-semibold text-fg-primary">
+              {selected.riderCall.rider.driverName}
+            </h2>
+            <p className="mb-6 text-sm text-fg-muted">
+              {selected.riderCall.rider.phoneNumber} · Llamada{" "}
+              {selected.riderCall.status}
+            </p>
+
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <div>
+                <p className="text-xs font-medium text-fg-muted">Estado</p>
+                <p className="mt-1 text-sm text-fg-primary">
+                  {statusConfig[selected.status].label}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs font-medium text-fg-muted">Intentos</p>
+                <p className="mt-1 text-sm text-fg-primary">
+                  {selected.attempts}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs font-medium text-fg-muted">Creado</p>
+                <p className="mt-1 text-sm text-fg-primary">
+                  {new Date(selected.createdAt).toLocaleString("es-ES")}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs font-medium text-fg-muted">
+                  {selected.status === "DEAD"
+                    ? "Dead letter desde"
+                    : "Próximo intento"}
+                </p>
+                <p className="mt-1 text-sm text-fg-primary">
+                  {new Date(
+                    selected.deadAt || selected.nextAttemptAt,
+                  ).toLocaleString("es-ES")}
+                </p>
+              </div>
+            </div>
+
+            {selected.lastError && (
+              <div className="mt-6 rounded-lg border border-status-danger/20 bg-status-danger/10 p-4">
+                <p className="text-sm font-medium text-status-danger">
+                  Último error
+                  {selected.lastStatusCode
+                    ? ` (HTTP ${selected.lastStatusCode})`
+                    : ""}
+                </p>
+                <p className="mt-1 break-words text-sm text-status-danger/80">
+                  {selected.lastError}
+                </p>
+              </div>
+            )}
+
+            {selected.status === "DEAD" && (
+              <div className="mt-6 flex justify-end">
+                <button
+                  onClick={() => replay.mutate(selected.id)}
+                  disabled={replay.isPending}
+                  className="linear-btn-primary inline-flex items-center gap-2"
+                >
+                  {replay.isPending ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <RotateCcw className="h-4 w-4" />
+                  )}
+                  Reenviar
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,603 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useSession } from "next-auth/react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { LifeBuoy, Loader2, Timer, X } from "lucide-react";
+import { cn, formatRelativeTime } from "@/lib/utils";
+import { FilterDropdown } from "@/components/ui/filter-dropdown";
+import { useToast } from "@/components/ui/toaster";
+
+type EscalationStatus = "OPEN" | "CLAIMED" | "RESOLVED";
+
+interface UserRef {
+  id: string;
+  email: string;
+  name: string | null;
+}
+
+interface Escalation {
+  id: string;
+  status: EscalationStatus;
+  reasons: string[];
+  slaDueAt: string;
+  openedAt: string;
+  claimedAt: string | null;
+  resolvedAt: string | null;
+  outcome: string | null;
+  rider: {
+    id: string;
+    driverName: string;
+    phoneNumber: string;
+    city: string | null;
+  };
+  riderCall: {
+    id: string;
+    attempt: number | null;
+    summary: string | null;
+  } | null;
+  claimedByUser: UserRef | null;
+  resolvedByUser: UserRef | null;
+}
+
+interface EscalationEvent {
+  id: string;
+  action: string;
+  note: string | null;
+  payload: Record<string, unknown> | null;
+  createdAt: string;
+  user: UserRef | null;
+}
+
+interface EscalationsResponse {
+  escalations: Escalation[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  counts: Partial<Record<EscalationStatus, number>>;
+}
+
+const reasonConfig: Record<string, { label: string; class: string }> = {
+  urgent: { label: "URGENT", class: "pill-failed" },
+  legal_issue: { label: "LEGAL", class: "pill-failed" },
+  human_requested: { label: "HUMAN", class: "pill-pending" },
+};
+
+const statusConfig: Record<EscalationStatus, { label: string; class: string }> =
+  {
+    OPEN: { label: "Abierta", class: "pill-pending" },
+    CLAIMED: { label: "Asignada", class: "pill-running" },
+    RESOLVED: { label: "Resuelta", class: "pill-completed" },
+  };
+
+const statusOptions = [
+  { value: "", label: "Activas" },
+  { value: "OPEN", label: "Abiertas" },
+  { value: "CLAIMED", label: "Asignadas" },
+  { value: "RESOLVED", label: "Resueltas" },
+];
+
+const outcomeLabels: Record<string, string> = {
+  resolved: "Resuelto con el rider",
+  documents_pending: "Pendiente de documentos",
+  referred_legal: "Derivado a legal",
+  unreachable: "No localizable",
+  not_needed: "No requería acción",
+};
+
+const actionLabels: Record<string, string> = {
+  opened: "Abierta",
+  flags_raised: "Nuevos flags",
+  claimed: "Asignada",
+  released: "Liberada",
+  note: "Nota",
+  resolved: "Resuelta",
+  merged: "Fusión de riders",
+};
+
+const PAGE_SIZE = 25;
+
+function userLabel(user: UserRef) {
+  return user.name || user.email;
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.floor(Math.abs(ms) / 60_000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+/** Time waiting since opened; red once the SLA to claim was missed. */
+function SlaTimer({
+  escalation,
+  now,
+}: {
+  escalation: Escalation;
+  now: number;
+}) {
+  if (escalation.status === "RESOLVED" && escalation.resolvedAt) {
+    return (
+      <span className="text-sm text-fg-muted">
+        {formatDuration(
+          new Date(escalation.resolvedAt).getTime() -
+            new Date(escalation.openedAt).getTime(),
+        )}
+      </span>
+    );
+  }
+
+  const waiting = now - new Date(escalation.openedAt).getTime();
+  // Once claimed, the SLA (time to claim) is settled
+  const reference = escalation.claimedAt
+    ? new Date(escalation.claimedAt).getTime()
+    : now;
+  const overdue = reference > new Date(escalation.slaDueAt).getTime();
+
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-1 text-sm",
+        overdue ? "font-medium text-status-danger" : "text-fg-secondary",
+      )}
+      title={`SLA: ${new Date(escalation.slaDueAt).toLocaleString("es-ES")}`}
+    >
+      <Timer className="h-3.5 w-3.5" />
+      {formatDuration(waiting)}
+      {overdue && !escalation.claimedAt && " · fuera de SLA"}
+    </span>
+  );
+}
+
+export default function EscalacionesPage() {
+  const { data: session } = useSession();
+  const queryClient = useQueryClient();
+  const toast = useToast();
+  const [page, setPage] = useState(1);
+  const [statusFilter, setStatusFilter] = useState("");
+  const [mine, setMine] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [note, setNote] = useState("");
+  const [outcome, setOutcome] = useState("");
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick the SLA timers
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30_000);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    const handleEsc = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setSelectedId(null);
+    };
+    window.addEventListener("keydown", handleEsc);
+    return () => window.removeEventListener("keydown", handleEsc);
+  }, []);
+
+  const { data, isLoading } = useQuery<EscalationsResponse>({
+    queryKey: ["escalations", page, statusFilter, mine],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        page: page.toString(),
+        pageSize: PAGE_SIZE.toString(),
+      });
+      if (statusFilter) params.set("status", statusFilter);
+      if (mine) params.set("mine", "1");
+
+      const res = await fetch("/api/escalations?" + params.toString());
+      if (!res.ok) throw new Error("Error al obtener las escalaciones");
+      return res.json();
+    },
+    refetchInterval: 15000,
+  });
+
+  const { data: detail } = useQuery<Escalation & { events: EscalationEvent[] }>(
+    {
+      queryKey: ["escalation", selectedId],
+      queryFn: async () => {
+        const res = await fetch(`/api/escalations/${selectedId}`);
+        if (!res.ok) throw new Error("Error al obtener la escalación");
+        return res.json();
+      },
+      enabled: !!selectedId,
+    },
+  );
+
+  const act = useMutation({
+    mutationFn: async (body: Record<string, unknown>) => {
+      const res = await fetch(`/api/escalations/${selectedId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const result = await res.json();
+      if (!res.ok) throw new Error(result.error || "Error en la escalación");
+      return result;
+    },
+    onSuccess: (_result, body) => {
+      const messages: Record<string, string> = {
+        claim: "Escalación asignada",
+        release: "Escalación liberada",
+        note: "Nota añadida",
+        resolve: "Escalación resuelta",
+      };
+      toast.success(messages[body.action as string] || "Hecho");
+      setNote("");
+      if (body.action === "resolve") setOutcome("");
+      queryClient.invalidateQueries({ queryKey: ["escalations"] });
+      queryClient.invalidateQueries({ queryKey: ["escalation", selectedId] });
+      queryClient.invalidateQueries({ queryKey: ["rider"] });
+    },
+    onError: (error: Error) => {
+      toast.error("No se pudo completar la acción", error.message);
+    },
+  });
+
+  const canActOnClaim =
+    detail?.status === "CLAIMED" &&
+    (detail.claimedByUser?.id === session?.user?.id ||
+      session?.user?.role === "admin");
+
+  return (
+    <div className="flex h-full flex-col p-6">
+      {/* Header */}
+      <div className="mb-6 shrink-0">
+        <h1 className="text-xl font-semibold text-fg-primary">Escalaciones</h1>
+        <p className="mt-1 text-sm text-fg-muted">
+          Riders que necesitan un agente: urgentes, temas legales o que piden
+          hablar con una persona
+          {data?.counts && (
+            <>
+              {" · "}
+              {data.counts.OPEN ?? 0} abiertas, {data.counts.CLAIMED ?? 0}{" "}
+              asignadas
+            </>
+          )}
+        </p>
+      </div>
+
+      <div className="mb-4 flex shrink-0 items-center gap-3">
+        <FilterDropdown
+          value={statusFilter}
+          onChange={(val) => {
+            setStatusFilter(val);
+            setPage(1);
+          }}
+          options={statusOptions}
+          label="Estado"
+          allLabel="Activas"
+          className="w-48"
+        />
+        <label className="inline-flex items-center gap-2 text-sm text-fg-secondary">
+          <input
+            type="checkbox"
+            checked={mine}
+            onChange={(e) => {
+              setMine(e.target.checked);
+              setPage(1);
+            }}
+          />
+          Solo mías
+        </label>
+      </div>
+
+      <div className="linear-card flex min-h-0 flex-1 flex-col overflow-hidden p-0">
+        <div className="flex-1 overflow-auto">
+          <table className="linear-table">
+            <thead>
+              <tr>
+                <th className="w-[25%]">Rider</th>
+                <th className="w-[20%]">Motivo</th>
+                <th className="w-[15%]">Estado</th>
+                <th className="w-[20%]">Esperando</th>
+                <th className="w-[20%]">Agente</th>
+              </tr>
+            </thead>
+            <tbody>
+              {isLoading ? (
+                <tr>
+                  <td colSpan={5} className="py-12 text-center">
+                    <Loader2 className="mx-auto h-6 w-6 animate-spin text-fg-disabled" />
+                  </td>
+                </tr>
+              ) : data?.escalations.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="py-12 text-center">
+                    <LifeBuoy className="mx-auto h-8 w-8 text-fg-disabled" />
+                    <p className="mt-3 text-sm text-fg-muted">
+                      No hay escalaciones
+                    </p>
+                  </td>
+                </tr>
+              ) : (
+                data?.escalations.map((escalation) => (
+                  <tr
+                    key={escalation.id}
+                    onClick={() => setSelectedId(escalation.id)}
+                    className="cursor-pointer"
+                  >
+                    <td>
+                      <p className="font-medium text-fg-primary">
+                        {escalation.rider.driverName}
+                      </p>
+                      <p className="font-mono text-xs text-fg-muted">
+                        {escalation.rider.phoneNumber}
+                      </p>
+                    </td>
+                    <td>
+                      <div className="flex flex-wrap gap-1">
+                        {escalation.reasons.map((reason) => (
+                          <span
+                            key={reason}
+                            className={cn(
+                              "pill",
+                              reasonConfig[reason]?.class || "pill-pending",
+                            )}
+                          >
+                            {reasonConfig[reason]?.label || reason}
+                          </span>
+                        ))}
+                      </div>
+                    </td>
+                    <td>
+                      <span
+                        className={cn(
+                          "pill",
+                          statusConfig[escalation.status].class,
+                        )}
+                      >
+                        {statusConfig[escalation.status].label}
+                      </span>
+                    </td>
+                    <td>
+                      <SlaTimer escalation={escalation} now={now} />
+                    </td>
+                    <td className="text-sm text-fg-secondary">
+                      {escalation.status === "RESOLVED"
+                        ? escalation.resolvedByUser
+                          ? userLabel(escalation.resolvedByUser)
+                          : "-"
+                        : escalation.claimedByUser
+                          ? userLabel(escalation.claimedByUser)
+                          : "-"}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {data && data.total > 0 && (
+        <div className="mt-4 flex shrink-0 items-center justify-between">
+          <span className="text-[13px] text-fg-muted">
+            Mostrando {(page - 1) * PAGE_SIZE + 1}-
+            {Math.min(page * PAGE_SIZE, data.total)} de {data.total}{" "}
+            escalaciones
+          </span>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setPage((p) => Math.max(1, p - 1))}
+              disabled={page === 1}
+              className="linear-btn-secondary px-3 py-1.5 text-[13px] disabled:cursor-not-allowed disabled:opacity-30"
+            >
+              &lt;
+            </button>
+            <span className="px-3 py-1.5 text-[13px] text-fg-secondary">
+              {page} / {data.totalPages || 1}
+            </span>
+            <button
+              onClick={() => setPage((p) => Math.min(data.totalPages, p + 1))}
+              disabled={page === data.totalPages || data.totalPages === 0}
+              className="linear-btn-secondary px-3 py-1.5 text-[13px] disabled:cursor-not-allowed disabled:opacity-30"
+            >
+              &gt;
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Detail Modal */}
+      {selectedId && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-overlay-backdrop backdrop-blur-sm"
+          onClick={() => setSelectedId(null)}
+        >
+          <div
+            className="relative mx-4 max-h-[80vh] w-full max-w-2xl overflow-auto rounded-xl border border-border-medium bg-bg-elevated p-6"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <button
+              onClick={() => setSelectedId(null)}
+              className="absolute right-4 top-4 rounded-lg p-2 text-fg-muted transition-colors hover:bg-interactive-hover hover:text-fg-primary"
+            >
+              <X className="h-5 w-5" />
+            </button>
+
+            {!detail ? (
+              <div className="py-12 text-center">
+                <Loader2 className="mx-auto h-6 w-6 animate-spin text-fg-disabled" />
+              </div>
+            ) : (
+              <>
+                <h2 className="mb-1 text-lg font-semibold text-fg-primary">
+                  <Link
+                    href={`/riders/${detail.rider.id}`}
+                    className="hover:underline"
+                  >
+                    {detail.rider.driverName}
+                  </Link>
+                </h2>
+                <p className="mb-4 font-mono text-sm text-fg-muted">
+                  {detail.rider.phoneNumber}
+                </p>
+
+                <div className="mb-6 flex flex-wrap items-center gap-2">
+                  <span
+                    className={cn("pill", statusConfig[detail.status].class)}
+                  >
+                    {statusConfig[detail.status].label}
+                  </span>
+                  {detail.reasons.map((reason) => (
+                    <span
+                      key={reason}
+                      className={cn(
+                        "pill",
+                        reasonConfig[reason]?.class || "pill-pending",
+                      )}
+                    >
+                      {reasonConfig[reason]?.label || reason}
+                    </span>
+                  ))}
+                  <SlaTimer escalation={detail} now={now} />
+                </div>
+
+                {detail.riderCall?.summary && (
+                  <div className="linear-card mb-6 p-4">
+                    <p className="mb-2 text-sm font-medium text-fg-secondary">
+                      Resumen de la llamada
+                      {detail.riderCall.attempt
+                        ? ` #${detail.riderCall.attempt}`
+                        : ""}
+                    </p>
+                    <p className="whitespace-pre-wrap break-words text-sm text-fg-primary">
+                      {detail.riderCall.summary}
+                    </p>
+                  </div>
+                )}
+
+                {detail.status === "RESOLVED" && (
+                  <div className="mb-6 rounded-lg border border-border-subtle p-4">
+                    <p className="text-sm font-medium text-fg-secondary">
+                      {outcomeLabels[detail.outcome || ""] || detail.outcome}
+                    </p>
+                    <p className="mt-1 text-xs text-fg-muted">
+                      {detail.resolvedAt &&
+                        new Date(detail.resolvedAt).toLocaleString("es-ES")}
+                      {detail.resolvedByUser &&
+                        ` · ${userLabel(detail.resolvedByUser)}`}
+                    </p>
+                  </div>
+                )}
+
+                {/* Actions */}
+                {detail.status !== "RESOLVED" && (
+                  <div className="mb-6 space-y-3">
+                    <div className="flex flex-wrap items-center gap-2">
+                      {detail.status === "OPEN" && (
+                        <button
+                          onClick={() => act.mutate({ action: "claim" })}
+                          disabled={act.isPending}
+                          className="linear-btn-primary"
+                        >
+                          Asignarme
+                        </button>
+                      )}
+                      {canActOnClaim && (
+                        <button
+                          onClick={() => act.mutate({ action: "release" })}
+                          disabled={act.isPending}
+                          className="linear-btn-secondary"
+                        >
+                          Liberar
+                        </button>
+                      )}
+                      {detail.status === "CLAIMED" && !canActOnClaim && (
+                        <span className="text-sm text-fg-muted">
+                          Asignada a{" "}
+                          {detail.claimedByUser
+                            ? userLabel(detail.claimedByUser)
+                            : "otro agente"}
+                        </span>
+                      )}
+                    </div>
+
+                    <textarea
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                      maxLength={2000}
+                      rows={3}
+                      placeholder="Nota"
+                      className="linear-input w-full resize-none"
+                    />
+                    <div className="flex flex-wrap items-center gap-2">
+                      <button
+                        onClick={() =>
+                          act.mutate({ action: "note", note: note.trim() })
+                        }
+                        disabled={act.isPending || !note.trim()}
+                        className="linear-btn-secondary disabled:cursor-not-allowed disabled:opacity-50"
+                      >
+                        Añadir nota
+                      </button>
+                      {(detail.status === "OPEN" || canActOnClaim) && (
+                        <>
+                          <FilterDropdown
+                            value={outcome}
+                            onChange={setOutcome}
+                            options={Object.entries(outcomeLabels).map(
+                              ([value, label]) => ({ value, label }),
+                            )}
+                            label="Resultado"
+                            className="w-56"
+                          />
+                          <button
+                            onClick={() =>
+                              act.mutate({
+                                action: "resolve",
+                                outcome,
+                                note: note.trim() || undefined,
+                              })
+                            }
+                            disabled={act.isPending || !outcome}
+                            className="linear-btn-primary disabled:cursor-not-allowed disabled:opacity-50"
+                          >
+                            Resolver
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                )}
+
+                {/* Audit trail */}
+                <p className="mb-2 text-sm font-medium text-fg-secondary">
+                  Historial
+                </p>
+                <ol className="space-y-3">
+                  {detail.events.map((event) => (
+                    <li
+                      key={event.id}
+                      className="border-l-2 border-border-subtle pl-3"
+                    >
+                      <p className="text-sm text-fg-primary">
+                        {actionLabels[event.action] || event.action}
+                        {event.action === "resolved" &&
+                          typeof event.payload?.outcome === "string" &&
+                          ` · ${outcomeLabels[event.payload.outcome] || event.payload.outcome}`}
+                      </p>
+                      <p className="text-xs text-fg-muted">
+                        {formatRelativeTime(new Date(event.createdAt))}
+                        {event.user && ` · ${userLabel(event.user)}`}
+                      </p>
+                      {event.note && (
+                        <p className="mt-1 whitespace-pre-wrap text-sm text-fg-secondary">
+                          {event.note}
+                        </p>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
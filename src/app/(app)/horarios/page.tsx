@@ -0,0 +1,561 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { CalendarX, Clock, Loader2, Pencil, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/components/ui/toaster";
+
+interface CallingWindow {
+  id: string;
+  country: string;
+  city: string;
+  timeZone: string;
+  weekdays: number[];
+  startMinute: number;
+  endMinute: number;
+  active: boolean;
+}
+
+interface CallingHoliday {
+  id: string;
+  country: string;
+  city: string;
+  date: string;
+  name: string;
+  recurring: boolean;
+}
+
+interface WindowForm {
+  country: string;
+  city: string;
+  timeZone: string;
+  weekdays: number[];
+  start: string;
+  end: string;
+  active: boolean;
+}
+
+interface HolidayForm {
+  country: string;
+  city: string;
+  date: string;
+  name: string;
+  recurring: boolean;
+}
+
+// ISO weekdays, Monday first
+const weekdayLabels = ["L", "M", "X", "J", "V", "S", "D"];
+
+const emptyWindowForm: WindowForm = {
+  country: "",
+  city: "",
+  timeZone: "Europe/Lisbon",
+  weekdays: [1, 2, 3, 4, 5],
+  start: "09:00",
+  end: "20:00",
+  active: true,
+};
+
+const emptyHolidayForm: HolidayForm = {
+  country: "",
+  city: "",
+  date: "",
+  name: "",
+  recurring: false,
+};
+
+function formatMinute(minute: number) {
+  const h = Math.floor(minute / 60);
+  const m = minute % 60;
+  return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`;
+}
+
+function parseMinute(value: string) {
+  const [h, m] = value.split(":").map(Number);
+  return h * 60 + (m || 0);
+}
+
+function toForm(entry: CallingWindow): WindowForm {
+  return {
+    country: entry.country,
+    city: entry.city,
+    timeZone: entry.timeZone,
+    weekdays: entry.weekdays,
+    start: formatMinute(entry.startMinute),
+    end: formatMinute(entry.endMinute),
+    active: entry.active,
+  };
+}
+
+function toPayload(form: WindowForm) {
+  return {
+    country: form.country.trim(),
+    city: form.city.trim(),
+    timeZone: form.timeZone.trim(),
+    weekdays: form.weekdays,
+    startMinute: parseMinute(form.start),
+    endMinute: parseMinute(form.end),
+    active: form.active,
+  };
+}
+
+async function errorMessage(res: Response, fallback: string) {
+  const body = await res.json();
+  return body.details?.[0]?.message || body.error || fallback;
+}
+
+export default function HorariosPage() {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<WindowForm>(emptyWindowForm);
+  const [holidayForm, setHolidayForm] = useState<HolidayForm>(emptyHolidayForm);
+
+  const { data: windows = [], isLoading } = useQuery<CallingWindow[]>({
+    queryKey: ["callingWindows"],
+    queryFn: async () => {
+      const res = await fetch("/api/calling-windows");
+      if (!res.ok) throw new Error("Error al obtener los horarios");
+      return res.json();
+    },
+  });
+
+  const { data: holidays = [], isLoading: holidaysLoading } = useQuery<
+    CallingHoliday[]
+  >({
+    queryKey: ["callingHolidays"],
+    queryFn: async () => {
+      const res = await fetch("/api/calling-holidays");
+      if (!res.ok) throw new Error("Error al obtener los festivos");
+      return res.json();
+    },
+  });
+
+  const saveWindow = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(
+        editingId
+          ? `/api/calling-windows/${editingId}`
+          : "/api/calling-windows",
+        {
+          method: editingId ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(toPayload(form)),
+        },
+      );
+      if (!res.ok) {
+        throw new Error(await errorMessage(res, "Error al guardar el horario"));
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success(editingId ? "Horario actualizado" : "Horario creado");
+      setEditingId(null);
+      setForm(emptyWindowForm);
+      queryClient.invalidateQueries({ queryKey: ["callingWindows"] });
+      queryClient.invalidateQueries({ queryKey: ["rider"] });
+    },
+    onError: (error: Error) => toast.error("No se pudo guardar", error.message),
+  });
+
+  const addHoliday = useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/calling-holidays", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...holidayForm,
+          country: holidayForm.country.trim(),
+          city: holidayForm.city.trim(),
+          name: holidayForm.name.trim(),
+        }),
+      });
+      if (!res.ok) {
+        throw new Error(await errorMessage(res, "Error al añadir el festivo"));
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success("Festivo añadido");
+      setHolidayForm(emptyHolidayForm);
+      queryClient.invalidateQueries({ queryKey: ["callingHolidays"] });
+      queryClient.invalidateQueries({ queryKey: ["rider"] });
+    },
+    onError: (error: Error) =>
+      toast.error("No se pudo añadir el festivo", error.message),
+  });
+
+  const deleteHoliday = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await fetch(`/api/calling-holidays/${id}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) {
+        throw new Error(await errorMessage(res, "Error al quitar el festivo"));
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      toast.success("Festivo eliminado");
+      queryClient.invalidateQueries({ queryKey: ["callingHolidays"] });
+      queryClient.invalidateQueries({ queryKey: ["rider"] });
+    },
+    onError: (error: Error) =>
+      toast.error("No se pudo quitar el festivo", error.message),
+  });
+
+  const setField = <K extends keyof WindowForm>(key: K, value: WindowForm[K]) =>
+    setForm((prev) => ({ ...prev, [key]: value }));
+
+  const setHolidayField = <K extends keyof HolidayForm>(
+    key: K,
+    value: HolidayForm[K],
+  ) => setHolidayForm((prev) => ({ ...prev, [key]: value }));
+
+  const toggleWeekday = (day: number) =>
+    setField(
+      "weekdays",
+      form.weekdays.includes(day)
+        ? form.weekdays.filter((d) => d !== day)
+        : [...form.weekdays, day].sort((a, b) => a - b),
+    );
+
+  return (
+    <div className="flex h-full flex-col overflow-auto p-6">
+      {/* Header */}
+      <div className="mb-6 shrink-0">
+        <h1 className="text-xl font-semibold text-fg-primary">Horarios</h1>
+        <p className="mt-1 text-sm text-fg-muted">
+          Franjas en las que se puede llamar a los riders, en su hora local, y
+          días festivos sin llamadas
+        </p>
+      </div>
+
+      <div className="flex flex-col gap-6 lg:flex-row">
+        {/* Create / edit entry */}
+        <form
+          className="linear-card h-fit shrink-0 space-y-4 p-5 lg:w-[360px]"
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveWindow.mutate();
+          }}
+        >
+          <h2 className="text-sm font-medium text-fg-secondary">
+            {editingId ? "Editar horario" : "Nuevo horario"}
+          </h2>
+          <div className="grid grid-cols-2 gap-3">
+            <input
+              type="text"
+              value={form.country}
+              onChange={(e) => setField("country", e.target.value)}
+              placeholder="País (PT)"
+              maxLength={2}
+              className="linear-input w-full"
+              required
+            />
+            <input
+              type="text"
+              value={form.city}
+              onChange={(e) => setField("city", e.target.value)}
+              placeholder="Ciudad (vacío = todo el país)"
+              className="linear-input w-full"
+            />
+          </div>
+          <label className="block text-xs text-fg-muted">
+            Zona horaria
+            <input
+              type="text"
+              value={form.timeZone}
+              onChange={(e) => setField("timeZone", e.target.value)}
+              placeholder="Europe/Lisbon"
+              className="linear-input mt-1 w-full"
+              required
+            />
+          </label>
+          <div className="text-xs text-fg-muted">
+            Días
+            <div className="mt-1 flex gap-1">
+              {weekdayLabels.map((label, i) => (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={() => toggleWeekday(i + 1)}
+                  className={cn(
+                    "h-8 w-8 rounded-md border text-xs",
+                    form.weekdays.includes(i + 1)
+                      ? "border-accent-primary bg-accent-primary/10 text-fg-primary"
+                      : "border-border-subtle text-fg-muted hover:bg-bg-hover",
+                  )}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-xs text-fg-muted">
+              Desde
+              <input
+                type="time"
+                value={form.start}
+                onChange={(e) => setField("start", e.target.value)}
+                className="linear-input mt-1 w-full"
+                required
+              />
+            </label>
+            <label className="text-xs text-fg-muted">
+              Hasta
+              <input
+                type="time"
+                value={form.end}
+                onChange={(e) => setField("end", e.target.value)}
+                className="linear-input mt-1 w-full"
+                required
+              />
+            </label>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-fg-secondary">
+            <input
+              type="checkbox"
+              checked={form.active}
+              onChange={(e) => setField("active", e.target.checked)}
+            />
+            Activo
+          </label>
+          <div className="flex items-center justify-end gap-2">
+            {editingId && (
+              <button
+                type="button"
+                onClick={() => {
+                  setEditingId(null);
+                  setForm(emptyWindowForm);
+                }}
+                className="linear-btn-secondary px-4 py-2 text-sm"
+              >
+                Cancelar
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={saveWindow.isPending || form.weekdays.length === 0}
+              className="linear-btn-primary px-4 py-2 text-sm disabled:cursor-not-allowed disabled:opacity-40"
+            >
+              {saveWindow.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : editingId ? (
+                "Guardar"
+              ) : (
+                "Crear"
+              )}
+            </button>
+          </div>
+        </form>
+
+        {/* Windows */}
+        <div className="min-w-0 flex-1">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-fg-muted" />
+            </div>
+          ) : windows.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-12">
+              <Clock className="h-8 w-8 text-fg-disabled" />
+              <p className="mt-3 text-sm text-fg-muted">
+                No hay horarios; se llama de 09:00 a 20:00 (Europe/Madrid)
+              </p>
+            </div>
+          ) : (
+            <div className="linear-card p-0">
+              <table className="linear-table">
+                <thead>
+                  <tr>
+                    <th>País</th>
+                    <th>Ciudad</th>
+                    <th>Días</th>
+                    <th>Franja</th>
+                    <th>Estado</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {windows.map((entry) => (
+                    <tr
+                      key={entry.id}
+                      className={cn(editingId === entry.id && "bg-bg-hover")}
+                    >
+                      <td className="font-mono text-fg-primary">
+                        {entry.country}
+                      </td>
+                      <td className="text-fg-secondary">
+                        {entry.city || "Todo el país"}
+                      </td>
+                      <td className="text-fg-secondary">
+                        {entry.weekdays
+                          .map((d) => weekdayLabels[d - 1])
+                          .join(" ")}
+                      </td>
+                      <td className="text-fg-secondary">
+                        {formatMinute(entry.startMinute)}–
+                        {formatMinute(entry.endMinute)}
+                        <div className="text-xs text-fg-muted">
+                          {entry.timeZone}
+                        </div>
+                      </td>
+                      <td>
+                        <span
+                          className={cn(
+                            "pill",
+                            entry.active ? "pill-completed" : "pill-canceled",
+                          )}
+                        >
+                          {entry.active ? "Activo" : "Inactivo"}
+                        </span>
+                      </td>
+                      <td className="text-right">
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setEditingId(entry.id);
+                            setForm(toForm(entry));
+                          }}
+                          className="rounded-md p-1 text-fg-muted hover:bg-bg-hover hover:text-fg-primary"
+                          title="Editar"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Holidays */}
+      <h2 className="mb-3 mt-8 text-sm font-medium text-fg-secondary">
+        Festivos
+      </h2>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          addHoliday.mutate();
+        }}
+        className="linear-card mb-4 flex flex-wrap items-center gap-3 p-4"
+      >
+        <input
+          type="text"
+          value={holidayForm.country}
+          onChange={(e) => setHolidayField("country", e.target.value)}
+          placeholder="País (PT)"
+          maxLength={2}
+          className="linear-input w-24"
+          required
+        />
+        <input
+          type="text"
+          value={holidayForm.city}
+          onChange={(e) => setHolidayField("city", e.target.value)}
+          placeholder="Ciudad (vacío = nacional)"
+          className="linear-input w-52"
+        />
+        <input
+          type="date"
+          value={holidayForm.date}
+          onChange={(e) => setHolidayField("date", e.target.value)}
+          className="linear-input w-40"
+          required
+        />
+        <input
+          type="text"
+          value={holidayForm.name}
+          onChange={(e) => setHolidayField("name", e.target.value)}
+          placeholder="Nombre"
+          className="linear-input min-w-0 flex-1"
+          required
+        />
+        <label className="flex items-center gap-2 text-sm text-fg-secondary">
+          <input
+            type="checkbox"
+            checked={holidayForm.recurring}
+            onChange={(e) => setHolidayField("recurring", e.target.checked)}
+          />
+          Cada año
+        </label>
+        <button
+          type="submit"
+          disabled={addHoliday.isPending}
+          className="linear-btn-primary px-4 py-2 text-sm disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          {addHoliday.isPending ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            "Añadir"
+          )}
+        </button>
+      </form>
+
+      {holidaysLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-fg-muted" />
+        </div>
+      ) : holidays.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-12">
+          <CalendarX className="h-8 w-8 text-fg-disabled" />
+          <p className="mt-3 text-sm text-fg-muted">No hay festivos</p>
+        </div>
+      ) : (
+        <div className="linear-card p-0">
+          <table className="linear-table">
+            <thead>
+              <tr>
+                <th>Fecha</th>
+                <th>Festivo</th>
+                <th>País</th>
+                <th>Ciudad</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {holidays.map((holiday) => (
+                <tr key={holiday.id}>
+                  <td className="text-fg-secondary">
+                    {new Date(holiday.date).toLocaleDateString("es-ES", {
+                      timeZone: "UTC",
+                      day: "numeric",
+                      month: "long",
+                      ...(holiday.recurring ? {} : { year: "numeric" }),
+                    })}
+                    {holiday.recurring && (
+                      <div className="text-xs text-fg-muted">Cada año</div>
+                    )}
+                  </td>
+                  <td className="text-fg-primary">{holiday.name}</td>
+                  <td className="font-mono text-fg-secondary">
+                    {holiday.country}
+                  </td>
+                  <td className="text-fg-secondary">
+                    {holiday.city || "Nacional"}
+                  </td>
+                  <td className="text-right">
+                    <button
+                      type="button"
+                      onClick={() => deleteHoliday.mutate(holiday.id)}
+                      disabled={deleteHoliday.isPending}
+                      className="rounded-md p-1 text-fg-muted hover:bg-bg-hover hover:text-fg-primary disabled:cursor-not-allowed disabled:opacity-40"
+                      title="Eliminar"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
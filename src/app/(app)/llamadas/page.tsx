@@ -1,6 +1,7 @@
 "use client";
 
 import { useState } from "react";
+import Link from "next/link";
 import { useQuery } from "@tanstack/react-query";
 import { useSession } from "next-auth/react";
 import {
@@ -18,6 +19,10 @@ import {
 } from "lucide-react";
 import { cn, formatRelativeTime } from "@/lib/utils";
 import { FilterDropdown } from "@/components/ui/filter-dropdown";
+import { CallTimeline } from "@/components/calls/call-timeline";
+import { CancelCallButton } from "@/components/calls/cancel-call-button";
+import { NotesPanel } from "@/components/notes/notes-panel";
+import { TagEditor } from "@/components/tags/tag-editor";
 
 // HappyRobot Platform URL config
 const HAPPYROBOT_ORG_SLUG = process.env.NEXT_PUBLIC_HAPPYROBOT_ORG_SLUG;
@@ -42,6 +47,8 @@ interface Rider {
   urgentFlag: boolean;
   legalIssueFlag: boolean;
   humanRequested: boolean;
+  nextAttemptAt: string | null;
+  tags: string[];
 }
 
 interface RiderCall {
@@ -58,11 +65,15 @@ interface RiderCall {
   legalIssueFlag: boolean;
   humanRequested: boolean;
   rider: Rider;
+  tags: string[];
   metadata: Record<string, unknown> | null;
   errorMsg: string | null;
   createdAt: string;
   updatedAt: string;
   completedAt: string | null;
+  canceledAt: string | null;
+  cancelReason: string | null;
+  canceledByUser: { id: string; email: string; name: string | null } | null;
 }
 
 interface CallsResponse {
@@ -165,12 +176,21 @@ export default function LlamadasPage() {
   const [search, setSearch] = useState("");
   const [statusFilter, setStatusFilter] = useState("");
   const [contactStatusFilter, setContactStatusFilter] = useState("");
+  const [tagFilter, setTagFilter] = useState("");
   const [selectedCall, setSelectedCall] = useState<RiderCall | null>(null);
   const [pageSize, setPageSize] = useState(25);
 
   // Query for calls list
   const { data, isLoading } = useQuery<CallsResponse>({
-    queryKey: ["calls", page, pageSize, search, statusFilter, contactStatusFilter],
+    queryKey: [
+      "calls",
+      page,
+      pageSize,
+      search,
+      statusFilter,
+      contactStatusFilter,
+      tagFilter,
+    ],
     queryFn: async () => {
       const params = new URLSearchParams({
         page: page.toString(),
@@ -179,6 +199,7 @@ export default function LlamadasPage() {
       if (search) params.set("search", search);
       if (statusFilter) params.set("status", statusFilter);
       if (contactStatusFilter) params.set("contactStatus", contactStatusFilter);
+      if (tagFilter) params.set("tags", tagFilter);
 
       const res = await fetch("/api/calls/list?" + params.toString());
       if (!res.ok) throw new Error("Error al obtener las llamadas");
@@ -186,6 +207,16 @@ export default function LlamadasPage() {
     },
   });
 
+  // Tags on calls or their riders
+  const { data: tags } = useQuery<string[]>({
+    queryKey: ["tags", "all"],
+    queryFn: async () => {
+      const res = await fetch("/api/tags?scope=all");
+      if (!res.ok) throw new Error("Error al obtener los tags");
+      return res.json();
+    },
+  });
+
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
     setPage(1);
@@ -240,6 +271,22 @@ export default function LlamadasPage() {
           allLabel="Todos"
           className="w-48"
         />
+        {tags && tags.length > 0 && (
+          <FilterDropdown
+            value={tagFilter}
+            onChange={(val) => {
+              setTagFilter(val);
+              setPage(1);
+            }}
+            options={[
+              { value: "", label: "Todos los tags" },
+              ...tags.map((tag) => ({ value: tag, label: tag })),
+            ]}
+            label="Tag"
+            allLabel="Todos"
+            className="w-48"
+          />
+        )}
       </div>
 
       {/* Table Container - Fixed height with scrollable body */}
@@ -378,13 +425,27 @@ export default function LlamadasPage() {
             </button>
 
             <h2 className="mb-1 text-lg font-semibold text-fg-primary">
-              {selectedCall.rider.driverName}
+              <Link
+                href={`/riders/${selectedCall.rider.id}`}
+                className="hover:underline"
+              >
+                {selectedCall.rider.driverName}
+              </Link>
             </h2>
-            <p className="mb-6 font-mono text-sm text-fg-muted">
+            <p className="mb-3 font-mono text-sm text-fg-muted">
               {selectedCall.rider.phoneNumber}
             </p>
 
             <div className="mb-6">
+              <TagEditor
+                key={selectedCall.id}
+                tags={selectedCall.tags}
+                endpoint={`/api/calls/${selectedCall.id}/tags`}
+                invalidateKeys={[["calls"]]}
+              />
+            </div>
+
+            <div className="mb-6 flex items-center justify-between">
               {(() => {
                 const config = statusConfig[selectedCall.status];
                 const StatusIcon = config.icon;
@@ -400,6 +461,13 @@ export default function LlamadasPage() {
                   </span>
                 );
               })()}
+              {(selectedCall.status === "PENDING" ||
+                selectedCall.status === "RUNNING") && (
+                <CancelCallButton
+                  callId={selectedCall.id}
+                  onCanceled={() => setSelectedCall(null)}
+                />
+              )}
             </div>
 
             <div className="grid gap-4 sm:grid-cols-2">
@@ -417,6 +485,16 @@ export default function LlamadasPage() {
                     : "-"
                 }
               />
+              <DetailField
+                label="Próximo intento"
+                value={
+                  selectedCall.rider.nextAttemptAt
+                    ? new Date(selectedCall.rider.nextAttemptAt).toLocaleString(
+                        "es-ES",
+                      )
+                    : "-"
+                }
+              />
               <DetailField label="Sentiment" value={selectedCall.sentiment} />
               <DetailField
                 label="License country"
@@ -507,6 +585,29 @@ export default function LlamadasPage() {
               </div>
             )}
 
+            {selectedCall.canceledAt && (
+              <div className="mt-6 rounded-lg border border-border-subtle bg-bg-elevated p-4">
+                <p className="text-sm font-medium text-fg-secondary">
+                  Cancelada{" "}
+                  {new Date(selectedCall.canceledAt).toLocaleString("es-ES")}
+                  {selectedCall.canceledByUser &&
+                    ` por ${selectedCall.canceledByUser.name || selectedCall.canceledByUser.email}`}
+                </p>
+                {selectedCall.cancelReason && (
+                  <p className="mt-1 text-sm text-fg-muted">
+                    {selectedCall.cancelReason}
+                  </p>
+                )}
+              </div>
+            )}
+
+            <CallTimeline callId={selectedCall.id} />
+
+            <div className="mt-6">
+              <p className="mb-2 text-sm font-medium text-fg-secondary">Notas</p>
+              <NotesPanel callId={selectedCall.id} />
+            </div>
+
             {selectedCall.metadata &&
               Object.keys(selectedCall.metadata).length > 0 && (
                 <div className="mt-6">
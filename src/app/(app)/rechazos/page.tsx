@@ -0,0 +1,229 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2, ShieldAlert, X } from "lucide-react";
+import { formatRelativeTime } from "@/lib/utils";
+import { FilterDropdown } from "@/components/ui/filter-dropdown";
+
+interface CallbackRejection {
+  id: string;
+  reason: string;
+  ip: string | null;
+  signature: string | null;
+  timestamp: string | null;
+  headers: Record<string, string> | null;
+  bodyPreview: string | null;
+  receivedAt: string;
+}
+
+interface RejectionsResponse {
+  rejections: CallbackRejection[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+const reasonLabels: Record<string, string> = {
+  missing_signature: "Sin firma",
+  invalid_timestamp: "Timestamp inválido",
+  timestamp_out_of_tolerance: "Fuera de ventana",
+  signature_mismatch: "Firma incorrecta",
+  secret_mismatch: "Secreto incorrecto",
+};
+
+const reasonOptions = Object.entries(reasonLabels).map(([value, label]) => ({
+  value,
+  label,
+}));
+
+export default function RechazosPage() {
+  const [page, setPage] = useState(1);
+  const [reasonFilter, setReasonFilter] = useState("");
+  const [selected, setSelected] = useState<CallbackRejection | null>(null);
+  const pageSize = 25;
+
+  const { data, isLoading } = useQuery<RejectionsResponse>({
+    queryKey: ["callbackRejections", page, reasonFilter],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        page: page.toString(),
+        pageSize: pageSize.toString(),
+      });
+      if (reasonFilter) params.set("reason", reasonFilter);
+
+      const res = await fetch(
+        "/api/calls/callback/rejections?" + params.toString(),
+      );
+      if (!res.ok) throw new Error("Error al obtener los rechazos");
+      return res.json();
+    },
+    refetchInterval: 30000,
+  });
+
+  useEffect(() => {
+    const handleEsc = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setSelected(null);
+    };
+    window.addEventListener("keydown", handleEsc);
+    return () => window.removeEventListener("keydown", handleEsc);
+  }, []);
+
+  return (
+    <div className="flex h-full flex-col p-6">
+      {/* Header */}
+      <div className="mb-6 shrink-0">
+        <h1 className="text-xl font-semibold text-fg-primary">
+          Callbacks rechazados
+        </h1>
+        <p className="mt-1 text-sm text-fg-muted">
+          Entregas de HappyRobot que no superaron la verificación de firma
+        </p>
+      </div>
+
+      <div className="mb-4 flex shrink-0 items-center gap-3">
+        <FilterDropdown
+          value={reasonFilter}
+          onChange={(val) => {
+            setReasonFilter(val);
+            setPage(1);
+          }}
+          options={reasonOptions}
+          label="Motivo"
+          allLabel="Todos los motivos"
+          className="w-56"
+        />
+      </div>
+
+      <div className="linear-card flex min-h-0 flex-1 flex-col overflow-hidden p-0">
+        <div className="flex-1 overflow-auto">
+          <table className="linear-table">
+            <thead>
+              <tr>
+                <th className="w-[25%]">Recibido</th>
+                <th className="w-[25%]">Motivo</th>
+                <th className="w-[20%]">IP</th>
+                <th className="w-[30%]">Timestamp</th>
+              </tr>
+            </thead>
+            <tbody>
+              {isLoading ? (
+                <tr>
+                  <td colSpan={4} className="py-12 text-center">
+                    <Loader2 className="mx-auto h-6 w-6 animate-spin text-fg-disabled" />
+                  </td>
+                </tr>
+              ) : data?.rejections.length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="py-12 text-center">
+                    <ShieldAlert className="mx-auto h-8 w-8 text-fg-disabled" />
+                    <p className="mt-3 text-sm text-fg-muted">
+                      No hay callbacks rechazados
+                    </p>
+                  </td>
+                </tr>
+              ) : (
+                data?.rejections.map((rejection) => (
+                  <tr
+                    key={rejection.id}
+                    onClick={() => setSelected(rejection)}
+                    className="cursor-pointer"
+                  >
+                    <td className="text-sm text-fg-muted">
+                      {formatRelativeTime(new Date(rejection.receivedAt))}
+                    </td>
+                    <td>
+                      <span className="pill pill-failed">
+                        {reasonLabels[rejection.reason] || rejection.reason}
+                      </span>
+                    </td>
+                    <td className="font-mono text-xs text-fg-secondary">
+                      {rejection.ip || "-"}
+                    </td>
+                    <td className="font-mono text-xs text-fg-secondary">
+                      {rejection.timestamp || "-"}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {data && data.total > 0 && (
+        <div className="mt-4 flex shrink-0 items-center justify-between">
+          <span className="text-[13px] text-fg-muted">
+            Mostrando {(page - 1) * pageSize + 1}-
+            {Math.min(page * pageSize, data.total)} de {data.total} rechazos
+          </span>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setPage((p) => Math.max(1, p - 1))}
+              disabled={page === 1}
+              className="linear-btn-secondary px-3 py-1.5 text-[13px] disabled:cursor-not-allowed disabled:opacity-30"
+            >
+              &lt;
+            </button>
+            <span className="px-3 py-1.5 text-[13px] text-fg-secondary">
+              {page} / {data.totalPages || 1}
+            </span>
+            <button
+              onClick={() => setPage((p) => Math.min(data.totalPages, p + 1))}
+              disabled={page === data.totalPages || data.totalPages === 0}
+              className="linear-btn-secondary px-3 py-1.5 text-[13px] disabled:cursor-not-allowed disabled:opacity-30"
+            >
+              &gt;
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Detail Modal */}
+      {selected && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-overlay-backdrop backdrop-blur-sm"
+          onClick={() => setSelected(null)}
+        >
+          <div
+            className="relative mx-4 max-h-[80vh] w-full max-w-3xl overflow-auto rounded-xl border border-border-medium bg-bg-elevated p-6"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <button
+              onClick={() => setSelected(null)}
+              className="absolute right-4 top-4 rounded-lg p-2 text-fg-muted transition-colors hover:bg-interactive-hover hover:text-fg-primary"
+            >
+              <X className="h-5 w-5" />
+            </button>
+
+            <h2 className="mb-1 text-lg font-semibold text-fg-primary">
+              {reasonLabels[selected.reason] || selected.reason}
+            </h2>
+            <p className="mb-6 text-sm text-fg-muted">
+              {new Date(selected.receivedAt).toLocaleString("es-ES")}
+              {selected.ip ? ` · ${selected.ip}` : ""}
+            </p>
+
+            <p className="mb-2 text-sm font-medium text-fg-secondary">Firma</p>
+            <pre className="mb-6 overflow-auto rounded-lg bg-bg-surface p-4 text-xs text-fg-secondary">
+              {selected.signature || "—"}
+            </pre>
+
+            <p className="mb-2 text-sm font-medium text-fg-secondary">
+              Cabeceras
+            </p>
+            <pre className="mb-6 overflow-auto rounded-lg bg-bg-surface p-4 text-xs text-fg-secondary">
+              {JSON.stringify(selected.headers, null, 2)}
+            </pre>
+
+            <p className="mb-2 text-sm font-medium text-fg-secondary">Body</p>
+            <pre className="overflow-auto whitespace-pre-wrap break-words rounded-lg bg-bg-surface p-4 text-xs text-fg-secondary">
+              {selected.bodyPreview || "—"}
+            </pre>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,869 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  ArrowLeft,
+  Phone,
+  Clock,
+  CheckCircle,
+  XCircle,
+  AlertCircle,
+  RefreshCw,
+  Loader2,
+  ChevronDown,
+  Milestone,
+  ShieldCheck,
+  Ban,
+  X,
+} from "lucide-react";
+import { cn, formatRelativeTime } from "@/lib/utils";
+import { parsePhone } from "@/lib/phone";
+import { useToast } from "@/components/ui/toaster";
+import { CallTimeline } from "@/components/calls/call-timeline";
+import { CancelCallButton } from "@/components/calls/cancel-call-button";
+import { FilterDropdown } from "@/components/ui/filter-dropdown";
+import {
+  StagePill,
+  stageOptions,
+  type OnboardingStage,
+} from "@/components/onboarding/stage-pill";
+import {
+  consentConfig,
+  consentOptions,
+  dialBlockReasonLabels,
+  dialOriginLabels,
+  suppressionReasonLabels,
+  type ConsentStatus,
+  type DialBlockReason,
+  type DialOrigin,
+  type SuppressionReason,
+} from "@/components/consent/consent-pill";
+import { DocumentChecklist } from "@/components/documents/document-checklist";
+import { NotesPanel } from "@/components/notes/notes-panel";
+import { TagEditor } from "@/components/tags/tag-editor";
+
+type RiderFlag = "urgent" | "legal_issue" | "human_requested";
+
+interface UserRef {
+  id: string;
+  email: string;
+  name: string | null;
+}
+
+interface Rider {
+  id: string;
+  externalId: number | null;
+  phoneNumber: string;
+  driverName: string;
+  city: string | null;
+  signUpDate: string | null;
+  flowType: string | null;
+  documentsUploaded: "NO" | "PARTIAL" | "YES" | null;
+  documents: { count?: number; trueCount?: number } | null;
+  licenseCountry: string | null;
+  residentPermitStatus: string | null;
+  lastContactAt: string | null;
+  lastContactStatus: "PENDING" | "NO_ANSWER" | "VOICEMAIL" | "COMPLETED" | null;
+  urgentFlag: boolean;
+  legalIssueFlag: boolean;
+  humanRequested: boolean;
+  nextAttemptAt: string | null;
+  tags: string[];
+  onboardingStage: OnboardingStage;
+  onboardingStageAt: string;
+  consentStatus: ConsentStatus;
+  consentSource: "callback" | "manual" | null;
+  consentAt: string | null;
+  createdAt: string;
+}
+
+interface RiderCall {
+  id: string;
+  runId: string | null;
+  status: "PENDING" | "RUNNING" | "COMPLETED" | "FAILED" | "CANCELED";
+  contactStatus: "PENDING" | "NO_ANSWER" | "VOICEMAIL" | "COMPLETED" | null;
+  contactedAt: string | null;
+  transcript: string | null;
+  summary: string | null;
+  attempt: number | null;
+  urgentFlag: boolean;
+  legalIssueFlag: boolean;
+  humanRequested: boolean;
+  errorMsg: string | null;
+  tags: string[];
+  createdAt: string;
+  canceledAt: string | null;
+  cancelReason: string | null;
+  initiatedByUser: UserRef | null;
+  canceledByUser: UserRef | null;
+}
+
+interface FlagChange {
+  id: string;
+  flag: RiderFlag;
+  value: boolean;
+  source: "callback" | "manual" | "escalation" | "merge";
+  note: string | null;
+  createdAt: string;
+  user: UserRef | null;
+  riderCall: { id: string; attempt: number | null } | null;
+}
+
+interface StageChange {
+  id: string;
+  fromStage: OnboardingStage | null;
+  toStage: OnboardingStage;
+  source: "import" | "callback" | "manual" | "backfill" | "merge";
+  note: string | null;
+  createdAt: string;
+  user: UserRef | null;
+  riderCall: { id: string; attempt: number | null } | null;
+}
+
+interface Suppression {
+  id: string;
+  reason: SuppressionReason;
+  note: string | null;
+  createdAt: string;
+}
+
+interface DialBlock {
+  id: string;
+  reason: DialBlockReason;
+  origin: DialOrigin;
+  detail: string | null;
+  createdAt: string;
+  user: UserRef | null;
+}
+
+interface CallingHours {
+  // City or country of the window; null for the default
+  scope: string | null;
+  timeZone: string;
+  weekdays: number[];
+  startMinute: number;
+  endMinute: number;
+  open: boolean;
+  // Null when the window has no slot in the coming days
+  nextSlotAt: string | null;
+}
+
+interface RiderDetailResponse {
+  rider: Rider;
+  calls: RiderCall[];
+  flagHistory: FlagChange[];
+  stageHistory: StageChange[];
+  suppression: Suppression | null;
+  dialBlocks: DialBlock[];
+  callingHours: CallingHours;
+}
+
+const statusConfig = {
+  PENDING: { icon: Clock, class: "pill-pending", label: "Pendiente" },
+  RUNNING: { icon: RefreshCw, class: "pill-running", label: "En Curso" },
+  COMPLETED: {
+    icon: CheckCircle,
+    class: "pill-completed",
+    label: "Completada",
+  },
+  FAILED: { icon: XCircle, class: "pill-failed", label: "Fallida" },
+  CANCELED: { icon: AlertCircle, class: "pill-canceled", label: "Cancelada" },
+};
+
+const flagConfig: Record<
+  RiderFlag,
+  { label: string; class: string; field: keyof Rider }
+> = {
+  urgent: { label: "URGENT", class: "pill-failed", field: "urgentFlag" },
+  legal_issue: {
+    label: "LEGAL",
+    class: "pill-failed",
+    field: "legalIssueFlag",
+  },
+  human_requested: {
+    label: "HUMAN",
+    class: "pill-pending",
+    field: "humanRequested",
+  },
+};
+
+function userLabel(user: UserRef) {
+  return user.name || user.email;
+}
+
+// ISO weekdays, Monday first
+const weekdayInitials = ["L", "M", "X", "J", "V", "S", "D"];
+
+function formatMinute(minute: number) {
+  const h = Math.floor(minute / 60);
+  const m = minute % 60;
+  return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`;
+}
+
+function describeCallingHours(hours: CallingHours) {
+  const days = hours.weekdays.map((d) => weekdayInitials[d - 1]).join(" ");
+  return `${hours.scope ?? "Por defecto"} · ${days} · ${formatMinute(hours.startMinute)}–${formatMinute(hours.endMinute)} (${hours.timeZone})`;
+}
+
+export default function RiderDetailPage({
+  params,
+}: {
+  params: { id: string };
+}) {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+
+  const { data, isLoading, error } = useQuery<RiderDetailResponse>({
+    queryKey: ["rider", params.id],
+    queryFn: async () => {
+      const res = await fetch(`/api/riders/${params.id}`);
+      if (res.status === 404) throw new Error("Rider no encontrado");
+      if (!res.ok) throw new Error("Error al obtener el rider");
+      return res.json();
+    },
+    refetchInterval: 10000,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["rider", params.id] });
+    queryClient.invalidateQueries({ queryKey: ["liveCalls"] });
+    queryClient.invalidateQueries({ queryKey: ["calls"] });
+  };
+
+  // Outside calling hours the call is scheduled for the next slot
+  const triggerCall = useMutation({
+    mutationFn: async (deferOutsideHours: boolean) => {
+      const res = await fetch(`/api/riders/${params.id}/trigger`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ deferOutsideHours }),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        const nextAllowedAt = body.nextAllowedAt
+          ? new Date(body.nextAllowedAt).toLocaleString("es-ES")
+          : null;
+        throw new Error(
+          body.reason === "CALLING_HOURS" && nextAllowedAt
+            ? `Fuera del horario de llamadas; próxima franja: ${nextAllowedAt}`
+            : body.reason === "FREQUENCY_CAP" && nextAllowedAt
+              ? `Límite de llamadas a este número alcanzado; próxima llamada posible: ${nextAllowedAt}`
+              : body.error || "Error al iniciar la llamada",
+        );
+      }
+      return body;
+    },
+    onSuccess: (body: { queued?: boolean; scheduledFor?: string }) => {
+      if (body.scheduledFor) {
+        toast.success(
+          "Llamada programada",
+          `Fuera del horario de llamadas; se llamará el ${new Date(body.scheduledFor).toLocaleString("es-ES")}`,
+        );
+      } else if (body.queued) {
+        toast.warning(
+          "Llamada en cola",
+          "El envío falló temporalmente y se reintentará",
+        );
+      } else {
+        toast.success("Llamada iniciada");
+      }
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast.error("No se pudo llamar", error.message);
+      invalidate();
+    },
+  });
+
+  const clearFlag = useMutation({
+    mutationFn: async (flag: RiderFlag) => {
+      const res = await fetch(`/api/riders/${params.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "clear_flag", flag }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Error al quitar el flag");
+      return body;
+    },
+    onSuccess: () => {
+      toast.success("Flag eliminado");
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast.error("No se pudo quitar el flag", error.message);
+    },
+  });
+
+  const setStage = useMutation({
+    mutationFn: async (stage: OnboardingStage) => {
+      const res = await fetch(`/api/riders/${params.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "set_stage", stage }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Error al cambiar la etapa");
+      return body;
+    },
+    onSuccess: () => {
+      toast.success("Etapa actualizada");
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ["riders"] });
+    },
+    onError: (error: Error) => {
+      toast.error("No se pudo cambiar la etapa", error.message);
+    },
+  });
+
+  const setConsent = useMutation({
+    mutationFn: async (consent: ConsentStatus) => {
+      const res = await fetch(`/api/riders/${params.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "set_consent", consent }),
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.error || "Error al guardar el consentimiento");
+      }
+      return body;
+    },
+    onSuccess: () => {
+      toast.success("Consentimiento actualizado");
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast.error("No se pudo guardar el consentimiento", error.message);
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-fg-disabled" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="p-6">
+        <BackLink />
+        <p className="mt-6 text-sm text-fg-muted">
+          {error instanceof Error ? error.message : "Rider no encontrado"}
+        </p>
+      </div>
+    );
+  }
+
+  const {
+    rider,
+    calls,
+    flagHistory,
+    stageHistory,
+    suppression,
+    dialBlocks,
+    callingHours,
+  } = data;
+  const hasCallInFlight = calls.some(
+    (c) => c.status === "PENDING" || c.status === "RUNNING",
+  );
+  const activeFlags = (Object.keys(flagConfig) as RiderFlag[]).filter(
+    (flag) => rider[flagConfig[flag].field],
+  );
+  const phone = parsePhone(rider.phoneNumber);
+
+  return (
+    <div className="h-full overflow-auto p-6">
+      <BackLink />
+
+      {/* Header */}
+      <div className="mb-6 mt-4 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-xl font-semibold text-fg-primary">
+            {rider.driverName}
+          </h1>
+          <div className="mt-1 flex items-center gap-2">
+            <p className="font-mono text-sm text-fg-muted">
+              {rider.phoneNumber}
+            </p>
+            {!phone.ok ? (
+              <span className="pill pill-failed" title={phone.error}>
+                Teléfono no válido
+              </span>
+            ) : (
+              phone.phone.lineType === "landline" && (
+                <span className="pill pill-pending">Fijo</span>
+              )
+            )}
+            {suppression && (
+              <span
+                className="pill pill-failed"
+                title={`${suppressionReasonLabels[suppression.reason]} · ${new Date(suppression.createdAt).toLocaleString("es-ES")}`}
+              >
+                No llamar
+              </span>
+            )}
+            {!callingHours.open && (
+              <span
+                className="pill pill-pending"
+                title={
+                  callingHours.nextSlotAt
+                    ? `Próxima franja: ${new Date(callingHours.nextSlotAt).toLocaleString("es-ES")}`
+                    : "Sin franjas en los próximos días; revisa los horarios"
+                }
+              >
+                Fuera de horario
+              </span>
+            )}
+          </div>
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            <StagePill stage={rider.onboardingStage} />
+            <span
+              className="text-xs text-fg-muted"
+              title={new Date(rider.onboardingStageAt).toLocaleString("es-ES")}
+            >
+              desde {formatRelativeTime(new Date(rider.onboardingStageAt))}
+            </span>
+          </div>
+          {activeFlags.length > 0 && (
+            <div className="mt-3 flex flex-wrap gap-2">
+              {activeFlags.map((flag) => (
+                <span key={flag} className={cn("pill", flagConfig[flag].class)}>
+                  {flagConfig[flag].label}
+                  <button
+                    onClick={() => clearFlag.mutate(flag)}
+                    disabled={clearFlag.isPending}
+                    title="Quitar flag"
+                    className="ml-1 rounded-sm opacity-70 transition-opacity hover:opacity-100 disabled:cursor-not-allowed"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+          <div className="mt-3">
+            <TagEditor
+              tags={rider.tags}
+              endpoint={`/api/riders/${rider.id}/tags`}
+              invalidateKeys={[["rider", params.id], ["riders"]]}
+            />
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <FilterDropdown
+            value={rider.consentStatus}
+            onChange={(val) => {
+              if (val && val !== rider.consentStatus) {
+                setConsent.mutate(val as ConsentStatus);
+              }
+            }}
+            options={consentOptions}
+            label="Consentimiento"
+            icon={ShieldCheck}
+            align="right"
+            className="w-44"
+          />
+          <FilterDropdown
+            value={rider.onboardingStage}
+            onChange={(val) => {
+              if (val && val !== rider.onboardingStage) {
+                setStage.mutate(val as OnboardingStage);
+              }
+            }}
+            options={stageOptions}
+            label="Etapa"
+            icon={Milestone}
+            align="right"
+            className="w-52"
+          />
+          <button
+            onClick={() => triggerCall.mutate(!callingHours.open)}
+            disabled={
+              triggerCall.isPending ||
+              hasCallInFlight ||
+              Boolean(suppression) ||
+              (!callingHours.open && !callingHours.nextSlotAt)
+            }
+            title={
+              suppression
+                ? "El número está en la lista de no llamar"
+                : hasCallInFlight
+                  ? "Ya hay una llamada en curso"
+                  : !callingHours.open
+                    ? callingHours.nextSlotAt
+                      ? `Fuera del horario de llamadas; se llamará el ${new Date(callingHours.nextSlotAt).toLocaleString("es-ES")}`
+                      : "Sin franjas en los próximos días; revisa los horarios"
+                    : undefined
+            }
+            className="linear-btn-primary inline-flex items-center gap-2 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {triggerCall.isPending ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Phone className="h-4 w-4" />
+            )}
+            {callingHours.open ? "Llamar ahora" : "Programar llamada"}
+          </button>
+        </div>
+      </div>
+
+      {/* Profile */}
+      <div className="linear-card mb-6 grid gap-4 p-4 sm:grid-cols-3">
+        <DetailField
+          label="External ID"
+          value={rider.externalId !== null ? String(rider.externalId) : null}
+        />
+        <DetailField label="City" value={rider.city} />
+        <DetailField label="Flow type" value={rider.flowType} />
+        <DetailField
+          label="Sign up date"
+          value={
+            rider.signUpDate
+              ? new Date(rider.signUpDate).toLocaleDateString("es-ES")
+              : null
+          }
+        />
+        <DetailField
+          label="Documents uploaded"
+          value={
+            rider.documentsUploaded
+              ? typeof rider.documents?.count === "number"
+                ? `${rider.documentsUploaded} (${rider.documents.trueCount ?? 0}/${rider.documents.count})`
+                : rider.documentsUploaded
+              : null
+          }
+        />
+        <DetailField label="License country" value={rider.licenseCountry} />
+        <DetailField
+          label="Resident permit status"
+          value={rider.residentPermitStatus}
+        />
+        <DetailField
+          label="Último contacto"
+          value={
+            rider.lastContactAt
+              ? `${rider.lastContactStatus || "-"} · ${new Date(rider.lastContactAt).toLocaleString("es-ES")}`
+              : null
+          }
+        />
+        <DetailField
+          label="Consentimiento"
+          value={
+            rider.consentAt
+              ? `${consentConfig[rider.consentStatus].label} · ${new Date(rider.consentAt).toLocaleString("es-ES")}${rider.consentSource === "callback" ? " · llamada" : ""}`
+              : null
+          }
+        />
+        <DetailField
+          label="Horario de llamadas"
+          value={describeCallingHours(callingHours)}
+        />
+        <DetailField
+          label="Próximo intento"
+          value={
+            rider.nextAttemptAt
+              ? new Date(rider.nextAttemptAt).toLocaleString("es-ES")
+              : null
+          }
+        />
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        {/* Calls */}
+        <div className="lg:col-span-2">
+          <h2 className="mb-3 text-sm font-medium text-fg-secondary">
+            Llamadas ({calls.length})
+          </h2>
+          {calls.length === 0 ? (
+            <div className="linear-card p-8 text-center">
+              <Phone className="mx-auto h-8 w-8 text-fg-disabled" />
+              <p className="mt-3 text-sm text-fg-muted">
+                Este rider no tiene llamadas
+              </p>
+            </div>
+          ) : (
+            <ol className="space-y-3">
+              {calls.map((call) => (
+                <CallEntry key={call.id} call={call} />
+              ))}
+            </ol>
+          )}
+        </div>
+
+        <div className="space-y-6">
+          {/* Documents */}
+          <div>
+            <h2 className="mb-3 text-sm font-medium text-fg-secondary">
+              Documentos
+            </h2>
+            <DocumentChecklist riderId={rider.id} />
+          </div>
+
+          {/* Notes */}
+          <div>
+            <h2 className="mb-3 text-sm font-medium text-fg-secondary">
+              Notas
+            </h2>
+            <NotesPanel riderId={rider.id} />
+          </div>
+
+          {/* Stage history */}
+          <div>
+            <h2 className="mb-3 text-sm font-medium text-fg-secondary">
+              Historial de etapas
+            </h2>
+            {stageHistory.length === 0 ? (
+              <div className="linear-card p-4 text-sm text-fg-muted">
+                Sin cambios de etapa
+              </div>
+            ) : (
+              <ol className="linear-card space-y-3 p-4">
+                {stageHistory.map((change) => (
+                  <li key={change.id} className="text-sm">
+                    <div className="flex flex-wrap items-center gap-2">
+                      {change.fromStage && (
+                        <>
+                          <StagePill stage={change.fromStage} />
+                          <span className="text-fg-muted">→</span>
+                        </>
+                      )}
+                      <StagePill stage={change.toStage} />
+                    </div>
+                    <p className="mt-1 text-xs text-fg-muted">
+                      {new Date(change.createdAt).toLocaleString("es-ES")}
+                      {change.source === "callback"
+                        ? ` · llamada${change.riderCall?.attempt ? ` #${change.riderCall.attempt}` : ""}`
+                        : change.source === "import"
+                          ? " · importación"
+                          : change.source === "backfill"
+                            ? " · estado inicial"
+                            : `${change.source === "merge" ? " · fusión" : ""}${
+                                change.user
+                                  ? ` · ${userLabel(change.user)}`
+                                  : ""
+                              }`}
+                    </p>
+                    {change.note && (
+                      <p className="mt-1 text-xs text-fg-secondary">
+                        {change.note}
+                      </p>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+
+          {/* Blocked dial attempts */}
+          {dialBlocks.length > 0 && (
+            <div>
+              <h2 className="mb-3 text-sm font-medium text-fg-secondary">
+                Llamadas bloqueadas
+              </h2>
+              <ol className="linear-card space-y-3 p-4">
+                {dialBlocks.map((block) => (
+                  <li key={block.id} className="text-sm">
+                    <div className="flex items-center gap-2">
+                      <Ban className="h-3.5 w-3.5 text-accent-danger" />
+                      <span className="text-fg-primary">
+                        {dialBlockReasonLabels[block.reason]}
+                      </span>
+                    </div>
+                    <p className="mt-1 text-xs text-fg-muted">
+                      {new Date(block.createdAt).toLocaleString("es-ES")} ·{" "}
+                      {dialOriginLabels[block.origin]}
+                      {block.user ? ` · ${userLabel(block.user)}` : ""}
+                    </p>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+
+          {/* Flag history */}
+          <div>
+            <h2 className="mb-3 text-sm font-medium text-fg-secondary">
+              Historial de flags
+            </h2>
+            {flagHistory.length === 0 ? (
+              <div className="linear-card p-4 text-sm text-fg-muted">
+                Sin cambios de flags
+              </div>
+            ) : (
+              <ol className="linear-card space-y-3 p-4">
+                {flagHistory.map((change) => (
+                  <li key={change.id} className="text-sm">
+                    <div className="flex items-center gap-2">
+                      <span
+                        className={cn(
+                          "pill",
+                          change.value
+                            ? flagConfig[change.flag].class
+                            : "pill-canceled",
+                        )}
+                      >
+                        {flagConfig[change.flag].label}
+                      </span>
+                      <span className="text-fg-primary">
+                        {change.value ? "activado" : "eliminado"}
+                      </span>
+                    </div>
+                    <p className="mt-1 text-xs text-fg-muted">
+                      {new Date(change.createdAt).toLocaleString("es-ES")}
+                      {change.source === "callback"
+                        ? ` · llamada${change.riderCall?.attempt ? ` #${change.riderCall.attempt}` : ""}`
+                        : `${change.source === "escalation" ? " · escalación" : change.source === "merge" ? " · fusión" : ""}${
+                            change.user ? ` · ${userLabel(change.user)}` : ""
+                          }`}
+                    </p>
+                    {change.note && (
+                      <p className="mt-1 text-xs text-fg-secondary">
+                        {change.note}
+                      </p>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function BackLink() {
+  return (
+    <Link
+      href="/riders"
+      className="inline-flex items-center gap-1 text-sm text-fg-muted transition-colors hover:text-fg-primary"
+    >
+      <ArrowLeft className="h-4 w-4" />
+      Riders
+    </Link>
+  );
+}
+
+function CallEntry({ call }: { call: RiderCall }) {
+  const [expanded, setExpanded] = useState(false);
+  const config = statusConfig[call.status];
+  const StatusIcon = config.icon;
+
+  return (
+    <li className="linear-card p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <span className={cn("pill", config.class)}>
+            <StatusIcon
+              className={cn(
+                "h-3 w-3",
+                call.status === "RUNNING" && "animate-spin",
+              )}
+            />
+            {config.label}
+          </span>
+          {call.contactStatus && (
+            <span className="text-xs text-fg-secondary">
+              {call.contactStatus}
+            </span>
+          )}
+          {call.urgentFlag && <span className="pill pill-failed">URGENT</span>}
+          {call.legalIssueFlag && (
+            <span className="pill pill-failed">LEGAL</span>
+          )}
+          {call.humanRequested && (
+            <span className="pill pill-pending">HUMAN</span>
+          )}
+        </div>
+        <div className="flex items-center gap-2 text-xs text-fg-muted">
+          {(call.status === "PENDING" || call.status === "RUNNING") && (
+            <CancelCallButton callId={call.id} compact />
+          )}
+          {typeof call.attempt === "number" && <span>#{call.attempt}</span>}
+          <span title={new Date(call.createdAt).toLocaleString("es-ES")}>
+            {formatRelativeTime(new Date(call.createdAt))}
+          </span>
+        </div>
+      </div>
+
+      {call.initiatedByUser && (
+        <p className="mt-2 text-xs text-fg-muted">
+          Iniciada por {userLabel(call.initiatedByUser)}
+        </p>
+      )}
+
+      <div className="mt-2">
+        <TagEditor
+          tags={call.tags}
+          endpoint={`/api/calls/${call.id}/tags`}
+          invalidateKeys={[["rider"], ["calls"]]}
+        />
+      </div>
+
+      {call.summary && (
+        <p className="mt-3 whitespace-pre-wrap break-words text-sm text-fg-primary">
+          {call.summary}
+        </p>
+      )}
+
+      {call.errorMsg && (
+        <p className="mt-3 text-sm text-status-danger">{call.errorMsg}</p>
+      )}
+
+      {call.canceledAt && (
+        <p className="mt-3 text-sm text-fg-secondary">
+          Cancelada {new Date(call.canceledAt).toLocaleString("es-ES")}
+          {call.canceledByUser && ` por ${userLabel(call.canceledByUser)}`}
+          {call.cancelReason && ` — ${call.cancelReason}`}
+        </p>
+      )}
+
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="mt-3 inline-flex items-center gap-1 text-xs text-accent-primary hover:underline"
+      >
+        {expanded ? "Ocultar detalle" : "Ver transcripción y eventos"}
+        <ChevronDown
+          className={cn(
+            "h-3 w-3 transition-transform",
+            expanded && "rotate-180",
+          )}
+        />
+      </button>
+
+      {expanded && (
+        <>
+          <div className="mt-3 rounded-lg bg-bg-surface p-4">
+            <p className="mb-2 text-xs font-medium text-fg-muted">
+              Transcripción
+            </p>
+            <pre className="whitespace-pre-wrap break-words text-sm text-fg-primary">
+              {call.transcript || "—"}
+            </pre>
+          </div>
+          <CallTimeline callId={call.id} />
+        </>
+      )}
+    </li>
+  );
+}
+
+function DetailField({
+  label,
+  value,
+}: {
+  label: string;
+  value: string | null | undefined;
+}) {
+  return (
+    <div>
+      <p className="text-xs font-medium text-fg-muted">{label}</p>
+      <p className="mt-1 text-sm text-fg-primary">{value || "-"}</p>
+    </div>
+  );
+}
@@ -0,0 +1,402 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useSession } from "next-auth/react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, Copy, Loader2, RefreshCw } from "lucide-react";
+import { formatRelativeTime } from "@/lib/utils";
+import { FilterDropdown } from "@/components/ui/filter-dropdown";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/toaster";
+import {
+  StagePill,
+  type OnboardingStage,
+} from "@/components/onboarding/stage-pill";
+
+interface DuplicateRider {
+  id: string;
+  externalId: number | null;
+  driverName: string;
+  phoneNumber: string;
+  city: string | null;
+  flowType: string | null;
+  documentsUploaded: string | null;
+  onboardingStage: OnboardingStage;
+  lastContactAt: string | null;
+  urgentFlag: boolean;
+  legalIssueFlag: boolean;
+  humanRequested: boolean;
+  createdAt: string;
+  _count: { calls: number };
+}
+
+interface Duplicate {
+  id: string;
+  status: "PENDING" | "DISMISSED";
+  score: number;
+  reasons: ("phone" | "name" | "city")[];
+  detectedAt: string;
+  dismissedAt: string | null;
+  riderA: DuplicateRider;
+  riderB: DuplicateRider;
+  dismissedByUser: { id: string; email: string; name: string | null } | null;
+}
+
+interface DuplicatesResponse {
+  duplicates: Duplicate[];
+  pagination: { page: number; total: number; totalPages: number };
+}
+
+interface ScanSummary {
+  riders: number;
+  candidates: number;
+  created: number;
+  removed: number;
+}
+
+// Pending pairs are the unfiltered view
+const statusOptions = [{ value: "DISMISSED", label: "Descartados" }];
+
+const reasonLabels: Record<Duplicate["reasons"][number], string> = {
+  phone: "Mismo teléfono",
+  name: "Nombre similar",
+  city: "Misma ciudad",
+};
+
+export default function DuplicadosPage() {
+  const { data: session } = useSession();
+  const queryClient = useQueryClient();
+  const toast = useToast();
+  const [status, setStatus] = useState("");
+  const [page, setPage] = useState(1);
+  const [merging, setMerging] = useState<{
+    duplicate: Duplicate;
+    survivor: DuplicateRider;
+    merged: DuplicateRider;
+  } | null>(null);
+  const isAdmin = session?.user?.role === "admin";
+
+  const { data, isLoading } = useQuery<DuplicatesResponse>({
+    queryKey: ["riderDuplicates", status, page],
+    queryFn: async () => {
+      const res = await fetch(
+        `/api/riders/duplicates?status=${status || "PENDING"}&page=${page}`,
+      );
+      if (!res.ok) throw new Error("Error al obtener los duplicados");
+      return res.json();
+    },
+  });
+  const duplicates = data?.duplicates ?? [];
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["riderDuplicates"] });
+    queryClient.invalidateQueries({ queryKey: ["riders"] });
+  };
+
+  const scan = useMutation({
+    mutationFn: async (): Promise<ScanSummary> => {
+      const res = await fetch("/api/riders/duplicates", { method: "POST" });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Error al buscar duplicados");
+      return body;
+    },
+    onSuccess: (summary) => {
+      toast.success(
+        "Búsqueda completada",
+        `${summary.created} pares nuevos · ${summary.removed} ya no coinciden`,
+      );
+      refresh();
+    },
+    onError: (error: Error) =>
+      toast.error("No se pudo buscar duplicados", error.message),
+  });
+
+  const review = useMutation({
+    mutationFn: async ({
+      id,
+      ...body
+    }: {
+      id: string;
+      action: "dismiss" | "merge";
+      survivorId?: string;
+    }) => {
+      const res = await fetch(`/api/riders/duplicates/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Error al revisar el par");
+      return data;
+    },
+    onSuccess: (_, variables) => {
+      toast.success(
+        variables.action === "merge"
+          ? "Riders fusionados"
+          : "Par descartado como duplicado",
+      );
+      setMerging(null);
+      refresh();
+    },
+    onError: (error: Error) =>
+      toast.error("No se pudo completar la acción", error.message),
+  });
+
+  return (
+    <div className="flex h-full flex-col p-6">
+      {/* Header */}
+      <div className="mb-6 flex shrink-0 items-start justify-between gap-4">
+        <div>
+          <Link
+            href="/riders"
+            className="mb-3 inline-flex items-center gap-1 text-sm text-fg-muted hover:text-fg-primary"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Riders
+          </Link>
+          <h1 className="text-xl font-semibold text-fg-primary">Duplicados</h1>
+          <p className="mt-1 text-sm text-fg-muted">
+            Posibles riders duplicados por teléfono, nombre y ciudad
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <FilterDropdown
+            value={status}
+            onChange={(value) => {
+              setStatus(value);
+              setPage(1);
+            }}
+            options={statusOptions}
+            label="Estado"
+            allLabel="Pendientes"
+            align="right"
+            className="w-44"
+          />
+          {isAdmin && (
+            <button
+              onClick={() => scan.mutate()}
+              disabled={scan.isPending}
+              className="linear-btn-secondary inline-flex items-center gap-2 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {scan.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <RefreshCw className="h-4 w-4" />
+              )}
+              Buscar ahora
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="min-h-0 flex-1 space-y-4 overflow-auto">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-fg-muted" />
+          </div>
+        ) : duplicates.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12">
+            <Copy className="h-8 w-8 text-fg-disabled" />
+            <p className="mt-3 text-sm text-fg-muted">
+              {status
+                ? "No hay pares descartados"
+                : "No hay duplicados pendientes de revisar"}
+            </p>
+          </div>
+        ) : (
+          duplicates.map((duplicate) => (
+            <div key={duplicate.id} className="linear-card p-4">
+              <div className="mb-3 flex flex-wrap items-center justify-between gap-3">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm font-medium text-fg-primary">
+                    {Math.round(duplicate.score * 100)}%
+                  </span>
+                  {duplicate.reasons.map((reason) => (
+                    <span key={reason} className="pill pill-pending">
+                      {reasonLabels[reason]}
+                    </span>
+                  ))}
+                  <span className="text-xs text-fg-muted">
+                    {duplicate.status === "DISMISSED" && duplicate.dismissedAt
+                      ? `Descartado ${formatRelativeTime(new Date(duplicate.dismissedAt))}${
+                          duplicate.dismissedByUser
+                            ? ` por ${duplicate.dismissedByUser.name || duplicate.dismissedByUser.email}`
+                            : ""
+                        }`
+                      : `Detectado ${formatRelativeTime(new Date(duplicate.detectedAt))}`}
+                  </span>
+                </div>
+                {duplicate.status === "PENDING" && (
+                  <button
+                    onClick={() =>
+                      review.mutate({ id: duplicate.id, action: "dismiss" })
+                    }
+                    disabled={review.isPending}
+                    className="linear-btn-secondary px-3 py-1.5 text-[13px] disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    No son el mismo rider
+                  </button>
+                )}
+              </div>
+              <div className="grid gap-3 md:grid-cols-2">
+                {[
+                  [duplicate.riderA, duplicate.riderB],
+                  [duplicate.riderB, duplicate.riderA],
+                ].map(([rider, other]) => (
+                  <RiderSummary
+                    key={rider.id}
+                    rider={rider}
+                    onKeep={
+                      isAdmin && duplicate.status === "PENDING"
+                        ? () =>
+                            setMerging({
+                              duplicate,
+                              survivor: rider,
+                              merged: other,
+                            })
+                        : undefined
+                    }
+                  />
+                ))}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      {data && data.pagination.totalPages > 1 && (
+        <div className="mt-4 flex shrink-0 items-center justify-end gap-2">
+          <button
+            onClick={() => setPage((p) => Math.max(1, p - 1))}
+            disabled={page === 1}
+            className="linear-btn-secondary px-3 py-1.5 text-[13px] disabled:cursor-not-allowed disabled:opacity-30"
+          >
+            &lt;
+          </button>
+          <span className="px-3 py-1.5 text-[13px] text-fg-secondary">
+            {page} / {data.pagination.totalPages}
+          </span>
+          <button
+            onClick={() =>
+              setPage((p) => Math.min(data.pagination.totalPages, p + 1))
+            }
+            disabled={page === data.pagination.totalPages}
+            className="linear-btn-secondary px-3 py-1.5 text-[13px] disabled:cursor-not-allowed disabled:opacity-30"
+          >
+            &gt;
+          </button>
+        </div>
+      )}
+
+      <Dialog
+        open={merging !== null}
+        onOpenChange={(open) => !open && setMerging(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Fusionar riders</DialogTitle>
+            <DialogDescription>
+              {merging &&
+                `Las llamadas, notas, escalaciones, historial y documentos de ${merging.merged.driverName} pasarán a ${merging.survivor.driverName}, que conserva sus datos y completa los que le falten. ${merging.merged.driverName} se eliminará.`}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <button
+              onClick={() => setMerging(null)}
+              className="linear-btn-secondary"
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={() =>
+                merging &&
+                review.mutate({
+                  id: merging.duplicate.id,
+                  action: "merge",
+                  survivorId: merging.survivor.id,
+                })
+              }
+              disabled={review.isPending}
+              className="linear-btn-primary inline-flex items-center gap-2 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {review.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+              Fusionar
+            </button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+function RiderSummary({
+  rider,
+  onKeep,
+}: {
+  rider: DuplicateRider;
+  onKeep?: () => void;
+}) {
+  return (
+    <div className="rounded-md border border-border-subtle p-3 text-sm">
+      <div className="mb-2 flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <Link
+            href={`/riders/${rider.id}`}
+            className="font-medium text-fg-primary hover:underline"
+          >
+            {rider.driverName}
+          </Link>
+          <p className="text-xs text-fg-muted">
+            {rider.phoneNumber}
+            {rider.city && ` · ${rider.city}`}
+            {rider.externalId !== null && ` · Id ${rider.externalId}`}
+          </p>
+        </div>
+        <StagePill stage={rider.onboardingStage} />
+      </div>
+      <dl className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs">
+        <dt className="text-fg-muted">Llamadas</dt>
+        <dd className="text-fg-secondary">{rider._count.calls}</dd>
+        <dt className="text-fg-muted">Último contacto</dt>
+        <dd className="text-fg-secondary">
+          {rider.lastContactAt
+            ? formatRelativeTime(new Date(rider.lastContactAt))
+            : "-"}
+        </dd>
+        <dt className="text-fg-muted">Flujo</dt>
+        <dd className="text-fg-secondary">{rider.flowType || "-"}</dd>
+        <dt className="text-fg-muted">Alta</dt>
+        <dd className="text-fg-secondary">
+          {new Date(rider.createdAt).toLocaleDateString("es-ES")}
+        </dd>
+      </dl>
+      <div className="mt-2 flex items-center justify-between gap-2">
+        <div className="flex gap-1">
+          {rider.urgentFlag && <span className="pill pill-failed">URGENT</span>}
+          {rider.legalIssueFlag && (
+            <span className="pill pill-failed">LEGAL</span>
+          )}
+          {rider.humanRequested && (
+            <span className="pill pill-pending">HUMAN</span>
+          )}
+        </div>
+        {onKeep && (
+          <button
+            onClick={onKeep}
+            className="text-xs text-accent-primary hover:underline"
+          >
+            Conservar este
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
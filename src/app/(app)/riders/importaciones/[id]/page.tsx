@@ -0,0 +1,478 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useSession } from "next-auth/react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, Loader2, RotateCw, Undo2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { FilterDropdown } from "@/components/ui/filter-dropdown";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/toaster";
+import {
+  ImportStatusPill,
+  type ImportJobStatus,
+} from "@/components/imports/import-status";
+
+interface UserRef {
+  id: string;
+  email: string;
+  name: string | null;
+}
+
+interface ImportJobRow {
+  id: string;
+  row: number;
+  action: "create" | "update" | "skip";
+  callAction: "create" | "update" | null;
+  riderId: string | null;
+  errors: string[];
+  warnings: string[];
+}
+
+interface ImportJobDetail {
+  id: string;
+  status: ImportJobStatus;
+  fileName: string | null;
+  format: string;
+  totalRows: number;
+  processedRows: number;
+  ridersCreated: number;
+  ridersUpdated: number;
+  callsCreated: number;
+  callsUpdated: number;
+  skipped: number;
+  error: string | null;
+  createdAt: string;
+  completedAt: string | null;
+  rolledBackAt: string | null;
+  rollbackResult: {
+    ridersDeleted: number;
+    ridersRestored: number;
+    ridersKept: number;
+    callsDeleted: number;
+    // Missing in rollbacks made before created calls could be kept
+    callsKept?: number;
+    callsRestored: number;
+    conflicts?: {
+      entity: "rider" | "rider_call";
+      entityId: string;
+      detail: string;
+    }[];
+  } | null;
+  uploadedByUser: UserRef | null;
+  rolledBackByUser: UserRef | null;
+  changes: { entity: string; action: string; count: number }[];
+  rows: ImportJobRow[];
+  pagination: { page: number; total: number; totalPages: number };
+}
+
+const actionConfig: Record<
+  ImportJobRow["action"],
+  { class: string; label: string }
+> = {
+  create: { class: "pill-completed", label: "Creado" },
+  update: { class: "pill-running", label: "Actualizado" },
+  skip: { class: "pill-failed", label: "Omitida" },
+};
+
+const ACTIVE_STATUSES: ImportJobStatus[] = ["UPLOADING", "QUEUED", "RUNNING"];
+
+const rowsOptions = [
+  { value: "all", label: "Todas las filas" },
+  { value: "issues", label: "Omitidas o con avisos" },
+];
+
+function userLabel(user: UserRef | null) {
+  return user ? user.name || user.email : "API";
+}
+
+export default function ImportacionDetailPage({
+  params,
+}: {
+  params: { id: string };
+}) {
+  const { data: session } = useSession();
+  const queryClient = useQueryClient();
+  const toast = useToast();
+  const [rows, setRows] = useState("all");
+  const [page, setPage] = useState(1);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const isAdmin = session?.user?.role === "admin";
+
+  const {
+    data: job,
+    isLoading,
+    error,
+  } = useQuery<ImportJobDetail>({
+    queryKey: ["import", params.id, rows, page],
+    queryFn: async () => {
+      const res = await fetch(
+        `/api/imports/${params.id}?rows=${rows}&page=${page}`,
+      );
+      if (res.status === 404) throw new Error("Importación no encontrada");
+      if (!res.ok) throw new Error("Error al obtener la importación");
+      return res.json();
+    },
+    // Follow the background worker while the job runs
+    refetchInterval: (query) =>
+      query.state.data && ACTIVE_STATUSES.includes(query.state.data.status)
+        ? 2000
+        : false,
+  });
+
+  const jobAction = async (action: "rollback" | "resume") => {
+    const res = await fetch(`/api/imports/${params.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ action }),
+    });
+    const body = await res.json();
+    if (!res.ok) throw new Error(body.error || "Error en la importación");
+    return body;
+  };
+
+  const refreshJob = () => {
+    queryClient.invalidateQueries({ queryKey: ["import", params.id] });
+    queryClient.invalidateQueries({ queryKey: ["imports"] });
+  };
+
+  const rollback = useMutation({
+    mutationFn: () => jobAction("rollback"),
+    onSuccess: () => {
+      toast.success("Importación revertida");
+      setConfirmOpen(false);
+      refreshJob();
+      queryClient.invalidateQueries({ queryKey: ["riders"] });
+    },
+    onError: (error: Error) =>
+      toast.error("No se pudo revertir", error.message),
+  });
+
+  const resume = useMutation({
+    mutationFn: () => jobAction("resume"),
+    onSuccess: () => {
+      toast.success("Importación reanudada");
+      refreshJob();
+    },
+    onError: (error: Error) =>
+      toast.error("No se pudo reanudar", error.message),
+  });
+
+  if (error) {
+    return (
+      <div className="p-6">
+        <div className="linear-card p-6 text-sm text-accent-danger">
+          {error.message}
+        </div>
+      </div>
+    );
+  }
+
+  if (isLoading || !job) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-fg-muted" />
+      </div>
+    );
+  }
+
+  const canRollback =
+    isAdmin && (job.status === "COMPLETED" || job.status === "FAILED");
+  // Failed after the upload: the rows not imported yet are still pending
+  const canResume =
+    job.status === "FAILED" && job.processedRows < job.totalRows;
+  const active = ACTIVE_STATUSES.includes(job.status);
+  const progress = job.totalRows
+    ? Math.round((job.processedRows / job.totalRows) * 100)
+    : 0;
+
+  return (
+    <div className="flex h-full flex-col overflow-auto p-6">
+      {/* Header */}
+      <div className="mb-6 flex shrink-0 items-start justify-between gap-4">
+        <div>
+          <Link
+            href="/riders/importaciones"
+            className="mb-3 inline-flex items-center gap-1 text-sm text-fg-muted hover:text-fg-primary"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Importaciones
+          </Link>
+          <div className="flex items-center gap-3">
+            <h1 className="text-xl font-semibold text-fg-primary">
+              {job.fileName || "Importación sin nombre"}
+            </h1>
+            <ImportStatusPill status={job.status} />
+          </div>
+          <p className="mt-1 text-sm text-fg-muted">
+            {job.format} · {userLabel(job.uploadedByUser)} ·{" "}
+            {new Date(job.createdAt).toLocaleString("es-ES")}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {canResume && (
+            <button
+              onClick={() => resume.mutate()}
+              disabled={resume.isPending}
+              className="linear-btn-secondary inline-flex items-center gap-2 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {resume.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <RotateCw className="h-4 w-4" />
+              )}
+              Reanudar
+            </button>
+          )}
+          {canRollback && (
+            <button
+              onClick={() => setConfirmOpen(true)}
+              className="linear-btn-secondary inline-flex items-center gap-2"
+            >
+              <Undo2 className="h-4 w-4" />
+              Revertir
+            </button>
+          )}
+        </div>
+      </div>
+
+      {(active || canResume) && (
+        <div className="linear-card mb-6 p-4">
+          <div className="mb-2 flex items-center justify-between text-sm">
+            <span className="text-fg-secondary">
+              {job.status === "UPLOADING"
+                ? "Leyendo el archivo…"
+                : job.status === "QUEUED"
+                  ? "En cola para importarse"
+                  : job.status === "RUNNING"
+                    ? "Importando en segundo plano"
+                    : "Importación detenida"}
+            </span>
+            <span className="text-fg-muted">
+              {job.processedRows} / {job.totalRows} filas · {progress}%
+            </span>
+          </div>
+          <div className="h-1.5 overflow-hidden rounded-full bg-bg-hover">
+            <div
+              className={cn(
+                "h-full rounded-full transition-all",
+                canResume ? "bg-accent-danger" : "bg-accent-primary",
+              )}
+              style={{ width: `${progress}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {job.error && (
+        <div className="linear-card mb-6 p-4 text-sm text-accent-danger">
+          {job.error}
+        </div>
+      )}
+
+      {/* Counts */}
+      <div className="linear-card mb-6 grid gap-4 p-4 sm:grid-cols-3 lg:grid-cols-6">
+        <Stat label="Filas" value={job.totalRows} />
+        <Stat label="Riders nuevos" value={job.ridersCreated} />
+        <Stat label="Riders actualizados" value={job.ridersUpdated} />
+        <Stat label="Llamadas nuevas" value={job.callsCreated} />
+        <Stat label="Llamadas actualizadas" value={job.callsUpdated} />
+        <Stat label="Filas omitidas" value={job.skipped} />
+      </div>
+
+      {job.rolledBackAt && job.rollbackResult && (
+        <div className="linear-card mb-6 p-4 text-sm text-fg-secondary">
+          Revertida por {userLabel(job.rolledBackByUser)} el{" "}
+          {new Date(job.rolledBackAt).toLocaleString("es-ES")}:{" "}
+          {job.rollbackResult.ridersDeleted} riders eliminados,{" "}
+          {job.rollbackResult.ridersRestored} restaurados
+          {job.rollbackResult.ridersKept > 0 &&
+            `, ${job.rollbackResult.ridersKept} conservados (tienen otras llamadas o trabajo de operadores)`}
+          ; {job.rollbackResult.callsDeleted} llamadas eliminadas,{" "}
+          {job.rollbackResult.callsRestored} restauradas
+          {!!job.rollbackResult.callsKept &&
+            `, ${job.rollbackResult.callsKept} conservadas (cambiaron o tienen notas, eventos o escalados)`}
+          .
+          {!!job.rollbackResult.conflicts?.length && (
+            <div className="mt-3">
+              <p className="mb-1 text-fg-primary">
+                No se tocaron {job.rollbackResult.conflicts.length} registros
+                que cambiaron después de la importación:
+              </p>
+              <ul className="space-y-0.5 text-xs">
+                {job.rollbackResult.conflicts.map((conflict) => (
+                  <li key={`${conflict.entity}:${conflict.entityId}`}>
+                    {conflict.entity === "rider" ? (
+                      <Link
+                        href={`/riders/${conflict.entityId}`}
+                        className="text-accent-primary hover:underline"
+                      >
+                        Rider {conflict.entityId.slice(0, 8)}
+                      </Link>
+                    ) : (
+                      <span>Llamada {conflict.entityId.slice(0, 8)}</span>
+                    )}
+                    : {conflict.detail}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Rows */}
+      <div className="mb-3 flex items-center justify-between gap-3">
+        <h2 className="text-sm font-medium text-fg-secondary">
+          Resultado por fila ({job.pagination.total})
+        </h2>
+        <FilterDropdown
+          value={rows}
+          onChange={(value) => {
+            setRows(value || "all");
+            setPage(1);
+          }}
+          options={rowsOptions}
+          label="Filas"
+          allLabel="Todas las filas"
+          align="right"
+          className="w-60"
+        />
+      </div>
+      <div className="linear-card p-0">
+        <table className="linear-table">
+          <thead>
+            <tr>
+              <th>Fila</th>
+              <th>Rider</th>
+              <th>Llamada</th>
+              <th>Errores y avisos</th>
+            </tr>
+          </thead>
+          <tbody>
+            {job.rows.length === 0 ? (
+              <tr>
+                <td colSpan={4} className="py-8 text-center text-fg-muted">
+                  Sin filas
+                </td>
+              </tr>
+            ) : (
+              job.rows.map((row) => (
+                <tr key={row.id}>
+                  <td className="text-fg-muted">{row.row}</td>
+                  <td>
+                    <span
+                      className={cn("pill", actionConfig[row.action].class)}
+                    >
+                      {actionConfig[row.action].label}
+                    </span>
+                    {row.riderId && job.status !== "ROLLED_BACK" && (
+                      <Link
+                        href={`/riders/${row.riderId}`}
+                        className="ml-2 text-xs text-accent-primary hover:underline"
+                      >
+                        Ver
+                      </Link>
+                    )}
+                  </td>
+                  <td className="text-fg-secondary">
+                    {row.callAction === "create"
+                      ? "Creada"
+                      : row.callAction === "update"
+                        ? "Actualizada"
+                        : "-"}
+                  </td>
+                  <td className="text-xs">
+                    {row.errors.map((error) => (
+                      <p key={error} className="text-accent-danger">
+                        {error}
+                      </p>
+                    ))}
+                    {row.warnings.map((warning) => (
+                      <p key={warning} className="text-accent-warning">
+                        {warning}
+                      </p>
+                    ))}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {job.pagination.totalPages > 1 && (
+        <div className="mt-4 flex shrink-0 items-center justify-end gap-2">
+          <button
+            onClick={() => setPage((p) => Math.max(1, p - 1))}
+            disabled={page === 1}
+            className="linear-btn-secondary px-3 py-1.5 text-[13px] disabled:cursor-not-allowed disabled:opacity-30"
+          >
+            &lt;
+          </button>
+          <span className="px-3 py-1.5 text-[13px] text-fg-secondary">
+            {page} / {job.pagination.totalPages}
+          </span>
+          <button
+            onClick={() =>
+              setPage((p) => Math.min(job.pagination.totalPages, p + 1))
+            }
+            disabled={page === job.pagination.totalPages}
+            className="linear-btn-secondary px-3 py-1.5 text-[13px] disabled:cursor-not-allowed disabled:opacity-30"
+          >
+            &gt;
+          </button>
+        </div>
+      )}
+
+      <Dialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Revertir importación</DialogTitle>
+            <DialogDescription>
+              Se eliminarán los riders y llamadas que creó esta importación y se
+              restaurarán los valores anteriores de los que actualizó. Los
+              registros que cambiaron después (llamadas, operadores, fusiones)
+              se dejan como están y se listan al terminar.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <button
+              onClick={() => setConfirmOpen(false)}
+              className="linear-btn-secondary"
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={() => rollback.mutate()}
+              disabled={rollback.isPending}
+              className="linear-btn-primary inline-flex items-center gap-2 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {rollback.isPending && (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              )}
+              Revertir
+            </button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: number }) {
+  return (
+    <div>
+      <p className="text-xs font-medium text-fg-muted">{label}</p>
+      <p className="mt-1 text-lg font-semibold text-fg-primary">{value}</p>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft, FileSpreadsheet, Loader2, Upload } from "lucide-react";
+import { cn, formatRelativeTime } from "@/lib/utils";
+import {
+  ImportStatusPill,
+  type ImportJobStatus,
+} from "@/components/imports/import-status";
+
+interface ImportJob {
+  id: string;
+  status: ImportJobStatus;
+  fileName: string | null;
+  format: string;
+  totalRows: number;
+  processedRows: number;
+  ridersCreated: number;
+  ridersUpdated: number;
+  callsCreated: number;
+  callsUpdated: number;
+  skipped: number;
+  createdAt: string;
+  uploadedByUser: { id: string; email: string; name: string | null } | null;
+}
+
+export default function ImportacionesPage() {
+  const router = useRouter();
+
+  const { data: jobs = [], isLoading } = useQuery<ImportJob[]>({
+    queryKey: ["imports"],
+    queryFn: async () => {
+      const res = await fetch("/api/imports");
+      if (!res.ok) throw new Error("Error al obtener las importaciones");
+      return res.json();
+    },
+    refetchInterval: 10000,
+  });
+
+  return (
+    <div className="flex h-full flex-col p-6">
+      {/* Header */}
+      <div className="mb-6 flex shrink-0 items-start justify-between gap-4">
+        <div>
+          <Link
+            href="/riders"
+            className="mb-3 inline-flex items-center gap-1 text-sm text-fg-muted hover:text-fg-primary"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Riders
+          </Link>
+          <h1 className="text-xl font-semibold text-fg-primary">
+            Importaciones
+          </h1>
+          <p className="mt-1 text-sm text-fg-muted">
+            Historial de importaciones de CSV con el resultado de cada fila
+          </p>
+        </div>
+        <Link
+          href="/riders/importar"
+          className="linear-btn-secondary inline-flex items-center gap-2"
+        >
+          <Upload className="h-4 w-4" />
+          Importar CSV
+        </Link>
+      </div>
+
+      <div className="min-h-0 flex-1 overflow-auto">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-fg-muted" />
+          </div>
+        ) : jobs.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12">
+            <FileSpreadsheet className="h-8 w-8 text-fg-disabled" />
+            <p className="mt-3 text-sm text-fg-muted">
+              No hay importaciones todavía
+            </p>
+          </div>
+        ) : (
+          <div className="linear-card p-0">
+            <table className="linear-table">
+              <thead>
+                <tr>
+                  <th>Archivo</th>
+                  <th>Estado</th>
+                  <th>Filas</th>
+                  <th>Riders</th>
+                  <th>Llamadas</th>
+                  <th>Omitidas</th>
+                  <th>Subido por</th>
+                  <th>Fecha</th>
+                </tr>
+              </thead>
+              <tbody>
+                {jobs.map((job) => (
+                  <tr
+                    key={job.id}
+                    onClick={() =>
+                      router.push(`/riders/importaciones/${job.id}`)
+                    }
+                    className="cursor-pointer"
+                  >
+                    <td>
+                      <div className="text-fg-primary">
+                        {job.fileName || "Sin nombre"}
+                      </div>
+                      <div className="text-xs text-fg-muted">{job.format}</div>
+                    </td>
+                    <td>
+                      <ImportStatusPill status={job.status} />
+                    </td>
+                    <td className="text-fg-secondary">
+                      {job.status === "QUEUED" || job.status === "RUNNING"
+                        ? `${job.processedRows} / ${job.totalRows}`
+                        : job.totalRows}
+                    </td>
+                    <td className="text-fg-secondary">
+                      {job.ridersCreated} nuevos · {job.ridersUpdated}{" "}
+                      actualizados
+                    </td>
+                    <td className="text-fg-secondary">
+                      {job.callsCreated} nuevas · {job.callsUpdated}{" "}
+                      actualizadas
+                    </td>
+                    <td
+                      className={cn(
+                        job.skipped
+                          ? "text-accent-danger"
+                          : "text-fg-secondary",
+                      )}
+                    >
+                      {job.skipped}
+                    </td>
+                    <td className="text-fg-secondary">
+                      {job.uploadedByUser
+                        ? job.uploadedByUser.name || job.uploadedByUser.email
+                        : "API"}
+                    </td>
+                    <td className="text-fg-muted">
+                      {formatRelativeTime(new Date(job.createdAt))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,520 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  AlertCircle,
+  ArrowLeft,
+  FileSpreadsheet,
+  Loader2,
+  Upload,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { FilterDropdown } from "@/components/ui/filter-dropdown";
+import { useToast } from "@/components/ui/toaster";
+
+type ImportFormat = "dataset_v2" | "legacy";
+
+interface ImportMapping {
+  format: ImportFormat;
+  columns: Record<string, string | null>;
+  documentColumns: string[];
+}
+
+interface ImportField {
+  key: string;
+  label: string;
+  required: boolean;
+}
+
+interface PreviewRow {
+  row: number;
+  values: Record<string, string>;
+  errors: string[];
+  warnings: string[];
+}
+
+interface PreviewResponse {
+  formats: ImportFormat[];
+  detectedFormat: ImportFormat;
+  headers: string[];
+  fields: ImportField[];
+  mapping: ImportMapping;
+  mappingErrors: string[];
+  totalRows: number;
+  validRows: number;
+  errorRows: number;
+  preview: PreviewRow[];
+  invalidRows: PreviewRow[];
+  invalidRowsTruncated: boolean;
+}
+
+interface RowResult {
+  row: number;
+  action: "create" | "update" | "skip";
+  callAction: "create" | "update" | null;
+  errors: string[];
+  warnings: string[];
+}
+
+interface DryRunResponse {
+  dryRun: true;
+  ridersCreated: number;
+  ridersUpdated: number;
+  callsCreated: number;
+  callsUpdated: number;
+  skipped: number;
+  /** Only skipped rows and rows with warnings */
+  rows: RowResult[];
+  rowsTruncated: boolean;
+}
+
+interface QueuedImportResponse {
+  jobId: string;
+  totalRows: number;
+}
+
+const formatOptions = [
+  { value: "dataset_v2", label: "Dataset v2 (una fila por llamada)" },
+  { value: "legacy", label: "Legacy (una fila por rider)" },
+];
+
+const actionConfig: Record<
+  RowResult["action"],
+  { class: string; label: string }
+> = {
+  create: { class: "pill-completed", label: "Crear" },
+  update: { class: "pill-running", label: "Actualizar" },
+  skip: { class: "pill-failed", label: "Omitir" },
+};
+
+// The file goes as the raw body (streamed by the server); the rest as query
+async function postImport<T>(
+  url: string,
+  file: File,
+  params: Record<string, string>,
+): Promise<T> {
+  const res = await fetch(`${url}?${new URLSearchParams(params)}`, {
+    method: "POST",
+    headers: { "Content-Type": "text/csv" },
+    body: file,
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    const detail = data.details?.[0];
+    throw new Error(
+      (typeof detail === "string" ? detail : detail?.message) ||
+        data.error ||
+        "Error en la importación",
+    );
+  }
+  return data;
+}
+
+export default function ImportarRidersPage() {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const toast = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<PreviewResponse | null>(null);
+  const [result, setResult] = useState<DryRunResponse | null>(null);
+
+  const runPreview = useMutation({
+    mutationFn: (args: { file: File; mapping?: Partial<ImportMapping> }) =>
+      postImport<PreviewResponse>(
+        "/api/riders/import/preview",
+        args.file,
+        args.mapping ? { mapping: JSON.stringify(args.mapping) } : {},
+      ),
+    onSuccess: (data) => {
+      setPreview(data);
+      setResult(null);
+    },
+    onError: (error: Error) =>
+      toast.error("No se pudo leer el archivo", error.message),
+  });
+
+  const importParams = (dryRun: boolean) => ({
+    fileName: file?.name ?? "",
+    mapping: JSON.stringify(preview?.mapping),
+    dryRun: dryRun ? "1" : "0",
+  });
+
+  const runDryRun = useMutation({
+    mutationFn: (file: File) =>
+      postImport<DryRunResponse>(
+        "/api/riders/import",
+        file,
+        importParams(true),
+      ),
+    onSuccess: (data) => setResult(data),
+    onError: (error: Error) => toast.error("No se pudo simular", error.message),
+  });
+
+  // Real imports run in the background; follow the job's progress
+  const runImport = useMutation({
+    mutationFn: (file: File) =>
+      postImport<QueuedImportResponse>(
+        "/api/riders/import",
+        file,
+        importParams(false),
+      ),
+    onSuccess: (data) => {
+      toast.success(
+        "Importación en cola",
+        `${data.totalRows} filas se importarán en segundo plano`,
+      );
+      queryClient.invalidateQueries({ queryKey: ["imports"] });
+      router.push(`/riders/importaciones/${data.jobId}`);
+    },
+    onError: (error: Error) =>
+      toast.error("No se pudo importar", error.message),
+  });
+
+  const updateMapping = (mapping: Partial<ImportMapping>) => {
+    if (!preview || !file) return;
+    runPreview.mutate({ file, mapping: { ...preview.mapping, ...mapping } });
+  };
+
+  const handleFile = (selected: File | undefined) => {
+    if (!selected) return;
+    setFile(selected);
+    runPreview.mutate({ file: selected });
+  };
+
+  const mappedFields = preview
+    ? preview.fields.filter((field) => preview.mapping.columns[field.key])
+    : [];
+  const headerOptions = preview
+    ? preview.headers.map((h) => ({ value: h, label: h }))
+    : [];
+  const busy =
+    runPreview.isPending || runDryRun.isPending || runImport.isPending;
+  const canImport =
+    !!preview && preview.mappingErrors.length === 0 && preview.validRows > 0;
+
+  return (
+    <div className="flex h-full flex-col overflow-auto p-6">
+      {/* Header */}
+      <div className="mb-6 shrink-0">
+        <Link
+          href="/riders"
+          className="mb-3 inline-flex items-center gap-1 text-sm text-fg-muted hover:text-fg-primary"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Riders
+        </Link>
+        <h1 className="text-xl font-semibold text-fg-primary">
+          Importar riders
+        </h1>
+        <p className="mt-1 text-sm text-fg-muted">
+          Sube un CSV, revisa el mapeo de columnas y simula la importación antes
+          de escribir nada
+        </p>
+      </div>
+
+      {/* Upload */}
+      <label className="linear-card mb-6 flex cursor-pointer items-center gap-4 p-5">
+        <FileSpreadsheet className="h-8 w-8 shrink-0 text-fg-disabled" />
+        <div className="min-w-0 flex-1">
+          <p className="truncate text-sm text-fg-primary">
+            {file?.name || "Selecciona un archivo CSV o TSV"}
+          </p>
+          {preview && (
+            <p className="mt-0.5 text-xs text-fg-muted">
+              {preview.totalRows} filas · {preview.validRows} válidas ·{" "}
+              {preview.errorRows} con errores
+            </p>
+          )}
+        </div>
+        {runPreview.isPending ? (
+          <Loader2 className="h-4 w-4 animate-spin text-fg-muted" />
+        ) : (
+          <span className="linear-btn-secondary inline-flex items-center gap-2">
+            <Upload className="h-4 w-4" />
+            {file ? "Cambiar" : "Subir"}
+          </span>
+        )}
+        <input
+          type="file"
+          accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+          className="hidden"
+          onChange={(e) => {
+            handleFile(e.target.files?.[0]);
+            e.target.value = "";
+          }}
+        />
+      </label>
+
+      {preview && (
+        <div className="space-y-6">
+          {/* Mapping */}
+          <div className="linear-card space-y-4 p-5">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <h2 className="text-sm font-medium text-fg-secondary">
+                Mapeo de columnas
+              </h2>
+              <FilterDropdown
+                value={preview.mapping.format}
+                onChange={(format) => {
+                  if (!format || format === preview.mapping.format) return;
+                  // Empty columns: the server suggests a mapping for the format
+                  updateMapping({
+                    format: format as ImportFormat,
+                    columns: {},
+                    documentColumns: [],
+                  });
+                }}
+                options={formatOptions}
+                label="Formato"
+                allLabel="Formato"
+                align="right"
+                className="w-72"
+              />
+            </div>
+            <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+              {preview.fields.map((field) => (
+                <div key={field.key}>
+                  <p className="mb-1 text-xs text-fg-muted">
+                    {field.label}
+                    {field.required && (
+                      <span className="text-accent-danger"> *</span>
+                    )}
+                  </p>
+                  <FilterDropdown
+                    value={preview.mapping.columns[field.key] ?? ""}
+                    onChange={(header) =>
+                      updateMapping({
+                        columns: {
+                          ...preview.mapping.columns,
+                          [field.key]: header || null,
+                        },
+                      })
+                    }
+                    options={headerOptions}
+                    label="Columna"
+                    allLabel="Sin asignar"
+                    className="w-full"
+                  />
+                </div>
+              ))}
+            </div>
+            {preview.mapping.format === "dataset_v2" && (
+              <div>
+                <p className="mb-2 text-xs text-fg-muted">
+                  Columnas de documentos, en orden (Document 1, 2…)
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {preview.headers.map((header) => {
+                    const index =
+                      preview.mapping.documentColumns.indexOf(header);
+                    return (
+                      <button
+                        key={header}
+                        type="button"
+                        disabled={busy}
+                        onClick={() =>
+                          updateMapping({
+                            documentColumns:
+                              index === -1
+                                ? [...preview.mapping.documentColumns, header]
+                                : preview.mapping.documentColumns.filter(
+                                    (h) => h !== header,
+                                  ),
+                          })
+                        }
+                        className={cn(
+                          "rounded-md border px-2 py-1 text-xs transition-colors",
+                          index === -1
+                            ? "border-border-subtle text-fg-muted hover:text-fg-primary"
+                            : "border-accent-primary text-fg-primary",
+                        )}
+                      >
+                        {index !== -1 && `${index + 1}. `}
+                        {header}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+            {preview.mappingErrors.length > 0 && (
+              <ul className="space-y-1 text-sm text-accent-danger">
+                {preview.mappingErrors.map((error) => (
+                  <li key={error} className="flex items-center gap-2">
+                    <AlertCircle className="h-4 w-4 shrink-0" />
+                    {error}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Preview rows */}
+          {mappedFields.length > 0 && preview.preview.length > 0 && (
+            <div>
+              <h2 className="mb-3 text-sm font-medium text-fg-secondary">
+                Vista previa (primeras {preview.preview.length} filas)
+              </h2>
+              <div className="linear-card overflow-x-auto p-0">
+                <table className="linear-table">
+                  <thead>
+                    <tr>
+                      <th>Fila</th>
+                      {mappedFields.map((field) => (
+                        <th key={field.key}>{field.label}</th>
+                      ))}
+                      <th>Validación</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.preview.map((row) => (
+                      <tr key={row.row}>
+                        <td className="text-fg-muted">{row.row}</td>
+                        {mappedFields.map((field) => (
+                          <td
+                            key={field.key}
+                            className="max-w-[200px] truncate text-fg-secondary"
+                            title={row.values[field.key]}
+                          >
+                            {row.values[field.key] || "-"}
+                          </td>
+                        ))}
+                        <td>
+                          <RowIssues
+                            errors={row.errors}
+                            warnings={row.warnings}
+                          />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {/* Rows with problems beyond the preview */}
+          {preview.invalidRows.length > 0 && (
+            <div>
+              <h2 className="mb-3 text-sm font-medium text-fg-secondary">
+                Filas con errores o avisos ({preview.invalidRows.length}
+                {preview.invalidRowsTruncated && "+"})
+              </h2>
+              <ol className="linear-card max-h-72 space-y-2 overflow-auto p-4">
+                {preview.invalidRows.map((row) => (
+                  <li key={row.row} className="flex gap-3 text-sm">
+                    <span className="w-12 shrink-0 text-fg-muted">
+                      #{row.row}
+                    </span>
+                    <RowIssues errors={row.errors} warnings={row.warnings} />
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex items-center justify-end gap-2">
+            <button
+              onClick={() => file && runDryRun.mutate(file)}
+              disabled={!canImport || busy}
+              className="linear-btn-secondary inline-flex items-center gap-2 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {runDryRun.isPending && (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              )}
+              Simular importación
+            </button>
+            <button
+              onClick={() => file && runImport.mutate(file)}
+              disabled={!canImport || busy}
+              className="linear-btn-primary inline-flex items-center gap-2 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {runImport.isPending && (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              )}
+              Importar {preview.validRows} filas
+            </button>
+          </div>
+
+          {/* Result */}
+          {result && <ImportResult result={result} />}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function RowIssues({
+  errors,
+  warnings,
+}: {
+  errors: string[];
+  warnings: string[];
+}) {
+  if (errors.length === 0 && warnings.length === 0) {
+    return <span className="text-xs text-accent-success">OK</span>;
+  }
+  return (
+    <div className="space-y-0.5 text-xs">
+      {errors.map((error) => (
+        <p key={error} className="text-accent-danger">
+          {error}
+        </p>
+      ))}
+      {warnings.map((warning) => (
+        <p key={warning} className="text-accent-warning">
+          {warning}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+function ImportResult({ result }: { result: DryRunResponse }) {
+  return (
+    <div className="linear-card space-y-4 p-5">
+      <h2 className="text-sm font-medium text-fg-secondary">
+        Simulación (no se ha escrito nada)
+      </h2>
+      <div className="grid gap-4 sm:grid-cols-5">
+        <Stat label="Riders nuevos" value={result.ridersCreated} />
+        <Stat label="Riders actualizados" value={result.ridersUpdated} />
+        <Stat label="Llamadas nuevas" value={result.callsCreated} />
+        <Stat label="Llamadas actualizadas" value={result.callsUpdated} />
+        <Stat label="Filas omitidas" value={result.skipped} />
+      </div>
+      {result.rows.length > 0 && (
+        <ol className="max-h-72 space-y-2 overflow-auto">
+          {result.rows.map((row) => (
+            <li key={row.row} className="flex gap-3 text-sm">
+              <span className="w-12 shrink-0 text-fg-muted">#{row.row}</span>
+              <span className={cn("pill", actionConfig[row.action].class)}>
+                {actionConfig[row.action].label}
+              </span>
+              <RowIssues errors={row.errors} warnings={row.warnings} />
+            </li>
+          ))}
+          {result.rowsTruncated && (
+            <li className="text-sm text-fg-muted">
+              Solo se muestran las primeras {result.rows.length} filas con
+              errores o avisos
+            </li>
+          )}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: number }) {
+  return (
+    <div>
+      <p className="text-xs font-medium text-fg-muted">{label}</p>
+      <p className="mt-1 text-lg font-semibold text-fg-primary">{value}</p>
+    </div>
+  );
+}
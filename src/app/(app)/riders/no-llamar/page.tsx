@@ -0,0 +1,387 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useSession } from "next-auth/react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, Ban, Loader2, Plus, Search } from "lucide-react";
+import { formatRelativeTime } from "@/lib/utils";
+import { FilterDropdown } from "@/components/ui/filter-dropdown";
+import { useToast } from "@/components/ui/toaster";
+import {
+  dialBlockReasonLabels,
+  dialOriginLabels,
+  suppressionReasonLabels,
+  type DialBlockReason,
+  type DialOrigin,
+  type SuppressionReason,
+} from "@/components/consent/consent-pill";
+
+interface UserRef {
+  id: string;
+  email: string;
+  name: string | null;
+}
+
+interface Suppression {
+  id: string;
+  phoneNumber: string;
+  reason: SuppressionReason;
+  source: "callback" | "manual";
+  note: string | null;
+  createdAt: string;
+  liftedAt: string | null;
+  rider: { id: string; driverName: string } | null;
+  createdByUser: UserRef | null;
+  liftedByUser: UserRef | null;
+}
+
+interface DialBlock {
+  id: string;
+  reason: DialBlockReason;
+  origin: DialOrigin;
+  phoneNumber: string;
+  createdAt: string;
+  rider: { id: string; driverName: string };
+  user: UserRef | null;
+}
+
+interface Pagination {
+  page: number;
+  total: number;
+  totalPages: number;
+}
+
+// Active entries are the unfiltered view
+const statusOptions = [{ value: "lifted", label: "Levantados" }];
+
+function userLabel(user: UserRef) {
+  return user.name || user.email;
+}
+
+export default function NoLlamarPage() {
+  const { data: session } = useSession();
+  const queryClient = useQueryClient();
+  const toast = useToast();
+  const [status, setStatus] = useState("");
+  const [search, setSearch] = useState("");
+  const [page, setPage] = useState(1);
+  const [phoneNumber, setPhoneNumber] = useState("");
+  const [note, setNote] = useState("");
+  const isAdmin = session?.user?.role === "admin";
+
+  const { data, isLoading } = useQuery<{
+    suppressions: Suppression[];
+    pagination: Pagination;
+  }>({
+    queryKey: ["suppressions", status, search, page],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        status: status || "active",
+        page: String(page),
+      });
+      if (search.trim()) params.set("search", search.trim());
+      const res = await fetch(`/api/suppressions?${params}`);
+      if (!res.ok) throw new Error("Error al obtener la lista");
+      return res.json();
+    },
+  });
+  const suppressions = data?.suppressions ?? [];
+
+  const { data: blocksData } = useQuery<{
+    blocks: DialBlock[];
+    pagination: Pagination;
+  }>({
+    queryKey: ["dialBlocks"],
+    queryFn: async () => {
+      const res = await fetch("/api/dial-blocks");
+      if (!res.ok) throw new Error("Error al obtener las llamadas bloqueadas");
+      return res.json();
+    },
+    refetchInterval: 30000,
+  });
+  const blocks = blocksData?.blocks ?? [];
+
+  const add = useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/suppressions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          phoneNumber,
+          note: note.trim() || undefined,
+        }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Error al añadir el número");
+      return body;
+    },
+    onSuccess: () => {
+      toast.success("Número añadido a la lista de no llamar");
+      setPhoneNumber("");
+      setNote("");
+      queryClient.invalidateQueries({ queryKey: ["suppressions"] });
+      queryClient.invalidateQueries({ queryKey: ["rider"] });
+    },
+    onError: (error: Error) =>
+      toast.error("No se pudo añadir el número", error.message),
+  });
+
+  const lift = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await fetch(`/api/suppressions/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "lift" }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Error al quitar el número");
+      return body;
+    },
+    onSuccess: () => {
+      toast.success("Número quitado de la lista");
+      queryClient.invalidateQueries({ queryKey: ["suppressions"] });
+      queryClient.invalidateQueries({ queryKey: ["rider"] });
+    },
+    onError: (error: Error) =>
+      toast.error("No se pudo quitar el número", error.message),
+  });
+
+  return (
+    <div className="flex h-full flex-col overflow-auto p-6">
+      {/* Header */}
+      <div className="mb-6 shrink-0">
+        <Link
+          href="/riders"
+          className="mb-3 inline-flex items-center gap-1 text-sm text-fg-muted hover:text-fg-primary"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Riders
+        </Link>
+        <h1 className="text-xl font-semibold text-fg-primary">No llamar</h1>
+        <p className="mt-1 text-sm text-fg-muted">
+          Números que no se marcan desde ninguna vía: llamadas manuales,
+          campañas ni reintentos
+        </p>
+      </div>
+
+      {/* Add */}
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (phoneNumber.trim()) add.mutate();
+        }}
+        className="linear-card mb-6 flex flex-wrap items-center gap-3 p-4"
+      >
+        <input
+          value={phoneNumber}
+          onChange={(e) => setPhoneNumber(e.target.value)}
+          placeholder="+351 912 345 678"
+          className="linear-input w-56"
+        />
+        <input
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Nota (opcional)"
+          maxLength={500}
+          className="linear-input min-w-0 flex-1"
+        />
+        <button
+          type="submit"
+          disabled={add.isPending || !phoneNumber.trim()}
+          className="linear-btn-primary inline-flex items-center gap-2 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {add.isPending ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Plus className="h-4 w-4" />
+          )}
+          Añadir
+        </button>
+      </form>
+
+      {/* Filters */}
+      <div className="mb-4 flex shrink-0 flex-wrap items-center gap-3">
+        <div className="relative w-72">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-fg-muted" />
+          <input
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setPage(1);
+            }}
+            placeholder="Buscar por número o rider..."
+            className="linear-input w-full pl-9"
+          />
+        </div>
+        <FilterDropdown
+          value={status}
+          onChange={(value) => {
+            setStatus(value);
+            setPage(1);
+          }}
+          options={statusOptions}
+          label="Estado"
+          allLabel="Activos"
+          className="w-40"
+        />
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-fg-muted" />
+        </div>
+      ) : suppressions.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-12">
+          <Ban className="h-8 w-8 text-fg-disabled" />
+          <p className="mt-3 text-sm text-fg-muted">
+            {status
+              ? "No hay números levantados"
+              : "No hay números en la lista"}
+          </p>
+        </div>
+      ) : (
+        <div className="linear-card p-0">
+          <table className="linear-table">
+            <thead>
+              <tr>
+                <th>Número</th>
+                <th>Rider</th>
+                <th>Motivo</th>
+                <th>Añadido</th>
+                {status && <th>Levantado</th>}
+                {!status && isAdmin && <th />}
+              </tr>
+            </thead>
+            <tbody>
+              {suppressions.map((s) => (
+                <tr key={s.id}>
+                  <td className="font-mono text-fg-primary">{s.phoneNumber}</td>
+                  <td>
+                    {s.rider ? (
+                      <Link
+                        href={`/riders/${s.rider.id}`}
+                        className="text-fg-primary hover:underline"
+                      >
+                        {s.rider.driverName}
+                      </Link>
+                    ) : (
+                      <span className="text-fg-muted">-</span>
+                    )}
+                  </td>
+                  <td className="text-fg-secondary">
+                    {suppressionReasonLabels[s.reason]}
+                    {s.note && (
+                      <div className="text-xs text-fg-muted">{s.note}</div>
+                    )}
+                  </td>
+                  <td className="text-fg-muted">
+                    {formatRelativeTime(new Date(s.createdAt))}
+                    {s.source === "callback"
+                      ? " · llamada"
+                      : s.createdByUser
+                        ? ` · ${userLabel(s.createdByUser)}`
+                        : ""}
+                  </td>
+                  {status && (
+                    <td className="text-fg-muted">
+                      {s.liftedAt && formatRelativeTime(new Date(s.liftedAt))}
+                      {s.liftedByUser ? ` · ${userLabel(s.liftedByUser)}` : ""}
+                    </td>
+                  )}
+                  {!status && isAdmin && (
+                    <td className="text-right">
+                      <button
+                        onClick={() => lift.mutate(s.id)}
+                        disabled={lift.isPending}
+                        className="text-xs text-accent-primary hover:underline disabled:cursor-not-allowed disabled:opacity-50"
+                      >
+                        Quitar de la lista
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {data && data.pagination.totalPages > 1 && (
+        <div className="mt-4 flex shrink-0 items-center justify-end gap-2">
+          <button
+            onClick={() => setPage((p) => Math.max(1, p - 1))}
+            disabled={page === 1}
+            className="linear-btn-secondary px-3 py-1.5 text-[13px] disabled:cursor-not-allowed disabled:opacity-30"
+          >
+            &lt;
+          </button>
+          <span className="px-3 py-1.5 text-[13px] text-fg-secondary">
+            {page} / {data.pagination.totalPages}
+          </span>
+          <button
+            onClick={() =>
+              setPage((p) => Math.min(data.pagination.totalPages, p + 1))
+            }
+            disabled={page === data.pagination.totalPages}
+            className="linear-btn-secondary px-3 py-1.5 text-[13px] disabled:cursor-not-allowed disabled:opacity-30"
+          >
+            &gt;
+          </button>
+        </div>
+      )}
+
+      {/* Blocked attempts */}
+      <h2 className="mb-3 mt-8 text-sm font-medium text-fg-secondary">
+        Llamadas bloqueadas
+        {blocksData ? ` (${blocksData.pagination.total})` : ""}
+      </h2>
+      {blocks.length === 0 ? (
+        <div className="linear-card p-4 text-sm text-fg-muted">
+          Ninguna llamada bloqueada
+        </div>
+      ) : (
+        <div className="linear-card p-0">
+          <table className="linear-table">
+            <thead>
+              <tr>
+                <th>Rider</th>
+                <th>Número</th>
+                <th>Motivo</th>
+                <th>Origen</th>
+                <th>Fecha</th>
+              </tr>
+            </thead>
+            <tbody>
+              {blocks.map((block) => (
+                <tr key={block.id}>
+                  <td>
+                    <Link
+                      href={`/riders/${block.rider.id}`}
+                      className="text-fg-primary hover:underline"
+                    >
+                      {block.rider.driverName}
+                    </Link>
+                  </td>
+                  <td className="font-mono text-fg-secondary">
+                    {block.phoneNumber}
+                  </td>
+                  <td className="text-fg-secondary">
+                    {dialBlockReasonLabels[block.reason]}
+                  </td>
+                  <td className="text-fg-secondary">
+                    {dialOriginLabels[block.origin]}
+                    {block.user ? ` · ${userLabel(block.user)}` : ""}
+                  </td>
+                  <td className="text-fg-muted">
+                    {formatRelativeTime(new Date(block.createdAt))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,674 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Search,
+  Users,
+  Loader2,
+  ArrowUp,
+  ArrowDown,
+  Ban,
+  Bookmark,
+  Copy,
+  History,
+  Trash2,
+  Upload,
+  X,
+} from "lucide-react";
+import { cn, formatRelativeTime } from "@/lib/utils";
+import { FilterDropdown } from "@/components/ui/filter-dropdown";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/toaster";
+import {
+  StagePill,
+  stageOptions,
+  type OnboardingStage,
+} from "@/components/onboarding/stage-pill";
+
+interface Rider {
+  id: string;
+  externalId: number | null;
+  phoneNumber: string;
+  driverName: string;
+  city: string | null;
+  signUpDate: string | null;
+  flowType: string | null;
+  documentsUploaded: "NO" | "PARTIAL" | "YES" | null;
+  licenseCountry: string | null;
+  residentPermitStatus: string | null;
+  lastContactAt: string | null;
+  lastContactStatus: "PENDING" | "NO_ANSWER" | "VOICEMAIL" | "COMPLETED" | null;
+  urgentFlag: boolean;
+  legalIssueFlag: boolean;
+  humanRequested: boolean;
+  tags: string[];
+  onboardingStage: OnboardingStage;
+}
+
+interface RidersResponse {
+  riders: Rider[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+// Same keys as riderFiltersSchema (src/lib/rider-directory.ts)
+type Filters = Partial<
+  Record<
+    | "search"
+    | "city"
+    | "flowType"
+    | "documentsUploaded"
+    | "licenseCountry"
+    | "residentPermitStatus"
+    | "lastContactStatus"
+    | "onboardingStage"
+    | "signUpFrom"
+    | "signUpTo"
+    | "urgent"
+    | "legalIssue"
+    | "humanRequested"
+    | "tags",
+    string
+  >
+>;
+
+interface SavedView {
+  id: string;
+  name: string;
+  filters: Filters;
+}
+
+type SortField =
+  | "driverName"
+  | "city"
+  | "signUpDate"
+  | "lastContactAt"
+  | "createdAt";
+
+const documentsOptions = [
+  { value: "", label: "Todos" },
+  { value: "YES", label: "YES" },
+  { value: "PARTIAL", label: "PARTIAL" },
+  { value: "NO", label: "NO" },
+];
+
+const lastContactOptions = [
+  { value: "", label: "Todos los resultados" },
+  { value: "NONE", label: "Sin contactar" },
+  { value: "PENDING", label: "Pending" },
+  { value: "COMPLETED", label: "Completed" },
+  { value: "VOICEMAIL", label: "Voicemail" },
+  { value: "NO_ANSWER", label: "No Answer" },
+];
+
+const flagOptions = [
+  { value: "", label: "Todos" },
+  { value: "true", label: "Sí" },
+  { value: "false", label: "No" },
+];
+
+const PAGE_SIZE = 25;
+
+export default function RidersPage() {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const toast = useToast();
+  const [page, setPage] = useState(1);
+  const [filters, setFilters] = useState<Filters>({});
+  const [sort, setSort] = useState<SortField>("createdAt");
+  const [order, setOrder] = useState<"asc" | "desc">("desc");
+  const [activeViewId, setActiveViewId] = useState("");
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [viewName, setViewName] = useState("");
+
+  const { data, isLoading } = useQuery<RidersResponse>({
+    queryKey: ["riders", page, sort, order, filters],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        page: page.toString(),
+        pageSize: PAGE_SIZE.toString(),
+        sort,
+        order,
+      });
+      for (const [key, value] of Object.entries(filters)) {
+        if (value) params.set(key, value);
+      }
+
+      const res = await fetch("/api/riders?" + params.toString());
+      if (!res.ok) throw new Error("Error al obtener los riders");
+      return res.json();
+    },
+  });
+
+  const { data: views } = useQuery<SavedView[]>({
+    queryKey: ["riderViews"],
+    queryFn: async () => {
+      const res = await fetch("/api/riders/views");
+      if (!res.ok) throw new Error("Error al obtener las vistas");
+      return res.json();
+    },
+  });
+
+  const { data: tags } = useQuery<string[]>({
+    queryKey: ["tags", "rider"],
+    queryFn: async () => {
+      const res = await fetch("/api/tags?scope=rider");
+      if (!res.ok) throw new Error("Error al obtener los tags");
+      return res.json();
+    },
+  });
+
+  const saveView = useMutation({
+    mutationFn: async () => {
+      // Only send the filters that are set; empty strings fail validation
+      const activeFilters = Object.fromEntries(
+        Object.entries(filters).filter(([, v]) => v),
+      );
+      const res = await fetch("/api/riders/views", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: viewName, filters: activeFilters }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Error al guardar la vista");
+      return body as SavedView;
+    },
+    onSuccess: (view) => {
+      toast.success("Vista guardada", view.name);
+      setSaveOpen(false);
+      setViewName("");
+      setActiveViewId(view.id);
+      queryClient.invalidateQueries({ queryKey: ["riderViews"] });
+    },
+    onError: (error: Error) => {
+      toast.error("No se pudo guardar la vista", error.message);
+    },
+  });
+
+  const deleteView = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await fetch(`/api/riders/views/${id}`, { method: "DELETE" });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Error al eliminar la vista");
+      return body;
+    },
+    onSuccess: () => {
+      toast.success("Vista eliminada");
+      setActiveViewId("");
+      queryClient.invalidateQueries({ queryKey: ["riderViews"] });
+    },
+    onError: (error: Error) => {
+      toast.error("No se pudo eliminar la vista", error.message);
+    },
+  });
+
+  const setFilter = (key: keyof Filters, value: string) => {
+    setFilters((f) => ({ ...f, [key]: value }));
+    setActiveViewId("");
+    setPage(1);
+  };
+
+  const applyView = (id: string) => {
+    const view = views?.find((v) => v.id === id);
+    setActiveViewId(id);
+    setFilters(view ? view.filters : {});
+    setPage(1);
+  };
+
+  const toggleSort = (field: SortField) => {
+    if (sort === field) {
+      setOrder(order === "asc" ? "desc" : "asc");
+    } else {
+      setSort(field);
+      setOrder(field === "driverName" || field === "city" ? "asc" : "desc");
+    }
+    setPage(1);
+  };
+
+  const hasFilters = Object.values(filters).some(Boolean);
+
+  return (
+    <div className="flex h-full flex-col p-6">
+      {/* Header */}
+      <div className="mb-6 flex shrink-0 items-start justify-between gap-4">
+        <div>
+          <h1 className="text-xl font-semibold text-fg-primary">Riders</h1>
+          <p className="mt-1 text-sm text-fg-muted">
+            Directorio de riders con filtros y vistas guardadas
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Link
+            href="/riders/duplicados"
+            className="linear-btn-secondary inline-flex items-center gap-2"
+          >
+            <Copy className="h-4 w-4" />
+            Duplicados
+          </Link>
+          <Link
+            href="/riders/no-llamar"
+            className="linear-btn-secondary inline-flex items-center gap-2"
+          >
+            <Ban className="h-4 w-4" />
+            No llamar
+          </Link>
+          <Link
+            href="/riders/importaciones"
+            className="linear-btn-secondary inline-flex items-center gap-2"
+          >
+            <History className="h-4 w-4" />
+            Importaciones
+          </Link>
+          <Link
+            href="/riders/importar"
+            className="linear-btn-secondary inline-flex items-center gap-2"
+          >
+            <Upload className="h-4 w-4" />
+            Importar CSV
+          </Link>
+        </div>
+      </div>
+
+      {/* Saved views */}
+      <div className="mb-4 flex shrink-0 flex-wrap items-center gap-3">
+        <FilterDropdown
+          value={activeViewId}
+          onChange={applyView}
+          options={[
+            { value: "", label: "Sin vista" },
+            ...(views || []).map((v) => ({ value: v.id, label: v.name })),
+          ]}
+          label="Vista"
+          allLabel="Sin vista"
+          icon={Bookmark}
+          className="w-56"
+        />
+        {activeViewId && (
+          <button
+            onClick={() => deleteView.mutate(activeViewId)}
+            disabled={deleteView.isPending}
+            title="Eliminar vista"
+            className="rounded-md p-2 text-fg-muted transition-colors hover:bg-interactive-hover hover:text-status-danger"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        )}
+        <button
+          onClick={() => {
+            setViewName(views?.find((v) => v.id === activeViewId)?.name || "");
+            setSaveOpen(true);
+          }}
+          disabled={!hasFilters}
+          className="linear-btn-secondary inline-flex items-center gap-2 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          <Bookmark className="h-4 w-4" />
+          Guardar vista
+        </button>
+        {hasFilters && (
+          <button
+            onClick={() => {
+              setFilters({});
+              setActiveViewId("");
+              setPage(1);
+            }}
+            className="inline-flex items-center gap-1 text-sm text-fg-muted hover:text-fg-primary"
+          >
+            <X className="h-4 w-4" />
+            Limpiar filtros
+          </button>
+        )}
+      </div>
+
+      {/* Filters */}
+      <div className="mb-4 grid shrink-0 gap-3 sm:grid-cols-2 lg:grid-cols-4">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-fg-muted" />
+          <input
+            type="text"
+            value={filters.search || ""}
+            onChange={(e) => setFilter("search", e.target.value)}
+            placeholder="Buscar por driver o teléfono..."
+            className="linear-input w-full pl-10"
+          />
+        </div>
+        <input
+          type="text"
+          value={filters.city || ""}
+          onChange={(e) => setFilter("city", e.target.value)}
+          placeholder="City"
+          className="linear-input w-full"
+        />
+        <input
+          type="text"
+          value={filters.flowType || ""}
+          onChange={(e) => setFilter("flowType", e.target.value)}
+          placeholder="Flow type"
+          className="linear-input w-full"
+        />
+        <input
+          type="text"
+          value={filters.licenseCountry || ""}
+          onChange={(e) => setFilter("licenseCountry", e.target.value)}
+          placeholder="License country"
+          className="linear-input w-full"
+        />
+        <input
+          type="text"
+          value={filters.residentPermitStatus || ""}
+          onChange={(e) => setFilter("residentPermitStatus", e.target.value)}
+          placeholder="Resident permit status"
+          className="linear-input w-full"
+        />
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            value={filters.signUpFrom || ""}
+            onChange={(e) => setFilter("signUpFrom", e.target.value)}
+            title="Sign up desde"
+            className="linear-input w-full"
+          />
+          <span className="text-fg-muted">–</span>
+          <input
+            type="date"
+            value={filters.signUpTo || ""}
+            onChange={(e) => setFilter("signUpTo", e.target.value)}
+            title="Sign up hasta"
+            className="linear-input w-full"
+          />
+        </div>
+        <FilterDropdown
+          value={filters.documentsUploaded || ""}
+          onChange={(val) => setFilter("documentsUploaded", val)}
+          options={documentsOptions}
+          label="Documentos"
+          allLabel="Todos"
+        />
+        <FilterDropdown
+          value={filters.lastContactStatus || ""}
+          onChange={(val) => setFilter("lastContactStatus", val)}
+          options={lastContactOptions}
+          label="Último resultado"
+          allLabel="Todos"
+        />
+        <FilterDropdown
+          value={filters.onboardingStage || ""}
+          onChange={(val) => setFilter("onboardingStage", val)}
+          options={[{ value: "", label: "Todas" }, ...stageOptions]}
+          label="Etapa"
+          allLabel="Todas"
+        />
+        <FilterDropdown
+          value={filters.urgent || ""}
+          onChange={(val) => setFilter("urgent", val)}
+          options={flagOptions}
+          label="Urgent"
+          allLabel="Todos"
+        />
+        <FilterDropdown
+          value={filters.legalIssue || ""}
+          onChange={(val) => setFilter("legalIssue", val)}
+          options={flagOptions}
+          label="Legal"
+          allLabel="Todos"
+        />
+        <FilterDropdown
+          value={filters.humanRequested || ""}
+          onChange={(val) => setFilter("humanRequested", val)}
+          options={flagOptions}
+          label="Human"
+          allLabel="Todos"
+        />
+        {tags && tags.length > 0 && (
+          <FilterDropdown
+            value={filters.tags || ""}
+            onChange={(val) => setFilter("tags", val)}
+            options={[
+              { value: "", label: "Todos" },
+              ...tags.map((tag) => ({ value: tag, label: tag })),
+            ]}
+            label="Tag"
+            allLabel="Todos"
+          />
+        )}
+      </div>
+
+      {/* Table */}
+      <div className="linear-card flex min-h-0 flex-1 flex-col overflow-hidden p-0">
+        <div className="flex-1 overflow-auto">
+          <table className="linear-table">
+            <thead>
+              <tr>
+                <SortHeader
+                  field="driverName"
+                  label="Driver"
+                  sort={sort}
+                  order={order}
+                  onSort={toggleSort}
+                />
+                <th>Telefono</th>
+                <SortHeader
+                  field="city"
+                  label="City"
+                  sort={sort}
+                  order={order}
+                  onSort={toggleSort}
+                />
+                <th>Docs</th>
+                <th>Etapa</th>
+                <SortHeader
+                  field="signUpDate"
+                  label="Sign up"
+                  sort={sort}
+                  order={order}
+                  onSort={toggleSort}
+                />
+                <SortHeader
+                  field="lastContactAt"
+                  label="Último contacto"
+                  sort={sort}
+                  order={order}
+                  onSort={toggleSort}
+                />
+                <th>Flags</th>
+              </tr>
+            </thead>
+            <tbody>
+              {isLoading ? (
+                <tr>
+                  <td colSpan={8} className="py-12 text-center">
+                    <Loader2 className="mx-auto h-6 w-6 animate-spin text-fg-disabled" />
+                  </td>
+                </tr>
+              ) : data?.riders.length === 0 ? (
+                <tr>
+                  <td colSpan={8} className="py-12 text-center">
+                    <Users className="mx-auto h-8 w-8 text-fg-disabled" />
+                    <p className="mt-3 text-sm text-fg-muted">
+                      No se encontraron riders
+                    </p>
+                  </td>
+                </tr>
+              ) : (
+                data?.riders.map((rider) => (
+                  <tr
+                    key={rider.id}
+                    onClick={() => router.push(`/riders/${rider.id}`)}
+                    className="cursor-pointer"
+                  >
+                    <td className="font-medium text-fg-primary">
+                      {rider.driverName}
+                    </td>
+                    <td className="font-mono text-sm text-fg-secondary">
+                      {rider.phoneNumber}
+                    </td>
+                    <td className="text-fg-secondary">
+                      {rider.city || "-"}
+                      {rider.flowType && (
+                        <span className="ml-1 text-xs text-fg-muted">
+                          · {rider.flowType}
+                        </span>
+                      )}
+                    </td>
+                    <td className="text-xs text-fg-secondary">
+                      {rider.documentsUploaded || "-"}
+                    </td>
+                    <td>
+                      <StagePill stage={rider.onboardingStage} />
+                    </td>
+                    <td className="text-sm text-fg-muted">
+                      {rider.signUpDate
+                        ? new Date(rider.signUpDate).toLocaleDateString("es-ES")
+                        : "-"}
+                    </td>
+                    <td className="text-sm text-fg-muted">
+                      {rider.lastContactAt ? (
+                        <>
+                          <span className="text-xs text-fg-secondary">
+                            {rider.lastContactStatus || "-"}
+                          </span>{" "}
+                          · {formatRelativeTime(new Date(rider.lastContactAt))}
+                        </>
+                      ) : (
+                        "-"
+                      )}
+                    </td>
+                    <td>
+                      <div className="flex flex-wrap gap-1">
+                        {rider.urgentFlag && (
+                          <span className="pill pill-failed">URGENT</span>
+                        )}
+                        {rider.legalIssueFlag && (
+                          <span className="pill pill-failed">LEGAL</span>
+                        )}
+                        {rider.humanRequested && (
+                          <span className="pill pill-pending">HUMAN</span>
+                        )}
+                        {rider.tags.map((tag) => (
+                          <span
+                            key={tag}
+                            className="rounded-md bg-bg-surface px-2 py-0.5 text-xs text-fg-secondary"
+                          >
+                            {tag}
+                          </span>
+                        ))}
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {data && data.total > 0 && (
+        <div className="mt-4 flex shrink-0 items-center justify-between">
+          <span className="text-[13px] text-fg-muted">
+            Mostrando {(page - 1) * PAGE_SIZE + 1}-
+            {Math.min(page * PAGE_SIZE, data.total)} de {data.total} riders
+          </span>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setPage((p) => Math.max(1, p - 1))}
+              disabled={page === 1}
+              className="linear-btn-secondary px-3 py-1.5 text-[13px] disabled:cursor-not-allowed disabled:opacity-30"
+            >
+              &lt;
+            </button>
+            <span className="px-3 py-1.5 text-[13px] text-fg-secondary">
+              {page} / {data.totalPages || 1}
+            </span>
+            <button
+              onClick={() => setPage((p) => Math.min(data.totalPages, p + 1))}
+              disabled={page === data.totalPages || data.totalPages === 0}
+              className="linear-btn-secondary px-3 py-1.5 text-[13px] disabled:cursor-not-allowed disabled:opacity-30"
+            >
+              &gt;
+            </button>
+          </div>
+        </div>
+      )}
+
+      <Dialog open={saveOpen} onOpenChange={setSaveOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Guardar vista</DialogTitle>
+            <DialogDescription>
+              Guarda los filtros actuales con un nombre. Si ya existe una vista
+              con ese nombre se sobrescribe.
+            </DialogDescription>
+          </DialogHeader>
+          <input
+            type="text"
+            value={viewName}
+            onChange={(e) => setViewName(e.target.value)}
+            maxLength={80}
+            placeholder="Nombre de la vista"
+            className="linear-input w-full"
+          />
+          <DialogFooter>
+            <button
+              onClick={() => setSaveOpen(false)}
+              className="linear-btn-secondary"
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={() => saveView.mutate()}
+              disabled={!viewName.trim() || saveView.isPending}
+              className="linear-btn-primary inline-flex items-center gap-2 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {saveView.isPending && (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              )}
+              Guardar
+            </button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+function SortHeader({
+  field,
+  label,
+  sort,
+  order,
+  onSort,
+}: {
+  field: SortField;
+  label: string;
+  sort: SortField;
+  order: "asc" | "desc";
+  onSort: (field: SortField) => void;
+}) {
+  return (
+    <th>
+      <button
+        onClick={() => onSort(field)}
+        className="inline-flex items-center gap-1 hover:text-fg-primary"
+      >
+        {label}
+        {sort === field &&
+          (order === "asc" ? (
+            <ArrowUp className="h-3 w-3" />
+          ) : (
+            <ArrowDown className="h-3 w-3" />
+          ))}
+      </button>
+    </th>
+  );
+}
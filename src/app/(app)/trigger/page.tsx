@@ -1,7 +1,8 @@
 "use client";
 
 import { useEffect, useMemo, useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import Link from "next/link";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import {
   Clock,
   CheckCircle,
@@ -14,6 +15,7 @@ import { useSession } from "next-auth/react";
 import Image from "next/image";
 import { cn, formatRelativeTime } from "@/lib/utils";
 import { LogoAnimationLoop } from "@/components/logo-animation-loop";
+import { CancelCallButton } from "@/components/calls/cancel-call-button";
 
 interface InitiatorUser {
   id: string;
@@ -38,6 +40,7 @@ interface Rider {
   urgentFlag: boolean;
   legalIssueFlag: boolean;
   humanRequested: boolean;
+  nextAttemptAt: string | null;
 }
 
 interface RiderCall {
@@ -60,6 +63,9 @@ interface RiderCall {
   metadata: Record<string, unknown> | null;
   rider: Rider;
   initiatedByUser: InitiatorUser | null;
+  canceledAt: string | null;
+  cancelReason: string | null;
+  canceledByUser: InitiatorUser | null;
 }
 
 // HappyRobot Platform URL configuration
@@ -97,7 +103,31 @@ export default function TriggerPage() {
     return () => window.removeEventListener("keydown", handleEsc);
   }, []);
 
-  // Live calls feed (auto-refresh). Backend will poll HappyRobot to advance PENDING/RUNNING when configured.
+  const queryClient = useQueryClient();
+  const [streamConnected, setStreamConnected] = useState(false);
+
+  // Push updates from the SSE stream straight into the live feed cache
+  useEffect(() => {
+    const source = new EventSource("/api/calls/stream");
+    source.onopen = () => setStreamConnected(true);
+    source.onerror = () => setStreamConnected(false);
+    source.addEventListener("call", (e) => {
+      const call = JSON.parse((e as MessageEvent<string>).data) as RiderCall;
+      queryClient.setQueryData<RiderCall[]>(["liveCalls"], (prev = []) =>
+        [call, ...prev.filter((c) => c.id !== call.id)]
+          .sort(
+            (a, b) =>
+              new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+          )
+          .slice(0, 50),
+      );
+      setSelectedCall((current) => (current?.id === call.id ? call : current));
+    });
+    return () => source.close();
+  }, [queryClient]);
+
+  // Live calls feed. A background reconciler advances PENDING/RUNNING calls server-side;
+  // the stream pushes changes, polling only kicks in while it is disconnected.
   const { data: calls = [], isLoading: isLoadingCalls } = useQuery<
     RiderCall[]
   >({
@@ -107,7 +137,7 @@ export default function TriggerPage() {
       if (!res.ok) throw new Error("Error al obtener las llamadas");
       return res.json();
     },
-    refetchInterval: 3000, // Auto-refresh every 3 seconds
+    refetchInterval: streamConnected ? 30000 : 3000,
   });
 
   // Pending (domain) calls: Call Status = PENDING (or null)
@@ -175,7 +205,10 @@ export default function TriggerPage() {
                 Monitor en directo
               </h1>
               <p className="mt-1 text-sm text-fg-muted">
-                Auto-refresh cada 3s. La app no dispara llamadas (las crea tu flujo cada 5 min).
+                {streamConnected
+                  ? "Actualizaciones en directo."
+                  : "Auto-refresh cada 3s."}{" "}
+                La app no dispara llamadas (las crea tu flujo cada 5 min).
               </p>
             </div>
 
@@ -294,8 +327,13 @@ export default function TriggerPage() {
               </h2>
             </div>
             <div className="flex items-center gap-2 text-xs text-fg-muted">
-              <div className="h-2 w-2 animate-pulse rounded-full bg-emerald-500" />
-              Auto-refresh
+              <div
+                className={cn(
+                  "h-2 w-2 animate-pulse rounded-full",
+                  streamConnected ? "bg-emerald-500" : "bg-amber-500",
+                )}
+              />
+              {streamConnected ? "En directo" : "Auto-refresh"}
             </div>
           </div>
 
@@ -382,11 +420,26 @@ export default function TriggerPage() {
                         <span className="pill pill-pending">HUMAN</span>
                       )}
                     </div>
+                    {call.rider.nextAttemptAt && (
+                      <div className="mt-2 flex items-center gap-1.5 text-xs text-fg-muted">
+                        <Clock className="h-3 w-3" />
+                        Próximo intento:{" "}
+                        {new Date(call.rider.nextAttemptAt).toLocaleString(
+                          "es-ES",
+                        )}
+                      </div>
+                    )}
                     {call.errorMsg && (
                       <div className="mt-2 rounded bg-status-danger/10 px-2 py-1 text-xs text-status-danger">
                         {call.errorMsg}
                       </div>
                     )}
+                    {(call.status === "PENDING" ||
+                      call.status === "RUNNING") && (
+                      <div className="mt-2 flex justify-end">
+                        <CancelCallButton callId={call.id} compact />
+                      </div>
+                    )}
                   </div>
                 );
               })}
@@ -413,13 +466,18 @@ export default function TriggerPage() {
             </button>
 
             <h2 className="mb-1 text-lg font-semibold text-fg-primary">
-              {selectedCall.rider.driverName}
+              <Link
+                href={`/riders/${selectedCall.rider.id}`}
+                className="hover:underline"
+              >
+                {selectedCall.rider.driverName}
+              </Link>
             </h2>
             <p className="mb-6 font-mono text-sm text-fg-muted">
               {selectedCall.rider.phoneNumber}
             </p>
 
-            <div className="mb-6">
+            <div className="mb-6 flex items-center justify-between">
               {(() => {
                 const config = statusConfig[selectedCall.status];
                 const StatusIcon = config.icon;
@@ -435,6 +493,10 @@ export default function TriggerPage() {
                   </span>
                 );
               })()}
+              {(selectedCall.status === "PENDING" ||
+                selectedCall.status === "RUNNING") && (
+                <CancelCallButton callId={selectedCall.id} />
+              )}
             </div>
 
             <div className="grid gap-4 sm:grid-cols-2">
@@ -460,6 +522,24 @@ export default function TriggerPage() {
                     : "-"
                 }
               />
+              <DetailField
+                label="Attempt"
+                value={
+                  typeof selectedCall.attempt === "number"
+                    ? String(selectedCall.attempt)
+                    : "-"
+                }
+              />
+              <DetailField
+                label="Próximo intento"
+                value={
+                  selectedCall.rider.nextAttemptAt
+                    ? new Date(selectedCall.rider.nextAttemptAt).toLocaleString(
+                        "es-ES",
+                      )
+                    : "-"
+                }
+              />
               {selectedCall.runId && (
                 <div className="sm:col-span-2">
                   <p className="text-xs font-medium text-fg-muted">Run ID</p>
@@ -514,6 +594,21 @@ export default function TriggerPage() {
               </div>
             )}
 
+            {selectedCall.canceledAt && (
+              <div className="mt-6 rounded-lg border border-border-subtle bg-bg-elevated p-4">
+                <p className="text-sm font-medium text-fg-secondary">
+                  Cancelada{" "}
+                  {new Date(selectedCall.canceledAt).toLocaleString("es-ES")}
+                  {selectedCall.canceledByUser &&
+                    ` por ${selectedCall.canceledByUser.name || selectedCall.canceledByUser.email}`}
+                </p>
+                {selectedCall.cancelReason && (
+                  <p className="mt-1 text-sm text-fg-muted">
+                    {selectedCall.cancelReason}
+                  </p>
+                )}
+              </div>
+            )}
           </div>
         </div>
       )}
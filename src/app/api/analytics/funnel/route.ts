@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { z } from "zod";
+import { authOptions } from "@/lib/auth";
+import { analyticsRangeSchema } from "@/lib/analytics";
+import { getOnboardingFunnel } from "@/lib/onboarding";
+import { searchParamsToObject } from "@/lib/rider-directory";
+
+const funnelQuerySchema = analyticsRangeSchema.and(
+  z.object({ called: z.enum(["yes", "no"]).optional() }),
+);
+
+/**
+ * Onboarding funnel for riders signed up in a date range.
+ *
+ * Query params: from, to (YYYY-MM-DD, inclusive; default: last 30 days),
+ * called (yes | no: riders with / without a completed call).
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = funnelQuerySchema.safeParse(
+      searchParamsToObject(req.nextUrl.searchParams),
+    );
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: result.error.errors },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(
+      await getOnboardingFunnel({
+        range: { from: result.data.from, to: result.data.to },
+        called: result.data.called ?? null,
+      }),
+    );
+  } catch (error) {
+    console.error("Onboarding funnel error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { analyticsRangeSchema, getCallAnalytics } from "@/lib/analytics";
+import { searchParamsToObject } from "@/lib/rider-directory";
+
+/**
+ * Onboarding call analytics. Query params: from, to (YYYY-MM-DD, inclusive;
+ * default: last 30 days).
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = analyticsRangeSchema.safeParse(
+      searchParamsToObject(req.nextUrl.searchParams),
+    );
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: result.error.errors },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(await getCallAnalytics(result.data));
+  } catch (error) {
+    console.error("Analytics error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { callingHolidaySchema } from "@/lib/calling-hours";
+
+/**
+ * Holiday calendar: recurring holidays and the dates still ahead.
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const today = new Date(new Date().toISOString().slice(0, 10));
+    const holidays = await prisma.callingHoliday.findMany({
+      where: { OR: [{ recurring: true }, { date: { gte: today } }] },
+      orderBy: [{ country: "asc" }, { date: "asc" }],
+    });
+    return NextResponse.json(holidays);
+  } catch (error) {
+    console.error("Calling holidays error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Add a day without calls (admin only).
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (session.user.role !== "admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const result = callingHolidaySchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: result.error.errors },
+        { status: 400 },
+      );
+    }
+
+    const holiday = await prisma.callingHoliday.create({ data: result.data });
+    return NextResponse.json(holiday, { status: 201 });
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return NextResponse.json(
+        { error: "That day is already a holiday" },
+        { status: 409 },
+      );
+    }
+    console.error("Create calling holiday error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
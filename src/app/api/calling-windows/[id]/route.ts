@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { callingWindowSchema } from "@/lib/calling-hours";
+
+/**
+ * Replace a calling window (admin only). Windows are deactivated rather than
+ * deleted.
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (session.user.role !== "admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const result = callingWindowSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: result.error.errors },
+        { status: 400 },
+      );
+    }
+
+    const updated = await prisma.callingWindow.updateMany({
+      where: { id: params.id },
+      data: result.data,
+    });
+    if (updated.count === 0) {
+      return NextResponse.json(
+        { error: "Calling window not found" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json(
+      await prisma.callingWindow.findUniqueOrThrow({
+        where: { id: params.id },
+      }),
+    );
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return NextResponse.json(
+        { error: "A window for this country and city already exists" },
+        { status: 409 },
+      );
+    }
+    console.error("Update calling window error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
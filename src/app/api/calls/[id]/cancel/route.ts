@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { z } from "zod";
+import { authOptions } from "@/lib/auth";
+import { cancelRiderCall } from "@/lib/call-cancel";
+
+const cancelSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+});
+
+/**
+ * Cancel a PENDING or RUNNING call (provider run + RiderCall status).
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const result = cancelSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: result.error.errors },
+        { status: 400 },
+      );
+    }
+
+    const canceled = await cancelRiderCall({
+      callId: params.id,
+      userId: (session.user?.id as string | undefined) ?? null,
+      reason: result.data.reason || null,
+    });
+    if (!canceled.ok) {
+      return NextResponse.json(
+        { error: canceled.error },
+        { status: canceled.status },
+      );
+    }
+
+    return NextResponse.json({ call: canceled.call });
+  } catch (error) {
+    console.error("Cancel call error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import prisma from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+
+/**
+ * Event log for a single call (callbacks and reconciler updates), oldest first.
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const call = await prisma.riderCall.findUnique({
+      where: { id: params.id },
+      select: { id: true },
+    });
+    if (!call) {
+      return NextResponse.json({ error: "Call not found" }, { status: 404 });
+    }
+
+    const events = await prisma.callEvent.findMany({
+      where: { riderCallId: call.id },
+      orderBy: { receivedAt: "asc" },
+    });
+
+    return NextResponse.json(events);
+  } catch (error) {
+    console.error("Call events error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
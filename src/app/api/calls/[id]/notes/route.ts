@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { noteInclude } from "@/lib/notes";
+
+const noteSchema = z.object({
+  body: z.string().trim().min(1).max(5000),
+});
+
+/**
+ * Notes on a single call (newest first).
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const notes = await prisma.note.findMany({
+      where: { riderCallId: params.id },
+      orderBy: { createdAt: "desc" },
+      include: noteInclude,
+    });
+
+    return NextResponse.json(notes);
+  } catch (error) {
+    console.error("Call notes error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const result = noteSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: result.error.errors },
+        { status: 400 },
+      );
+    }
+
+    const call = await prisma.riderCall.findUnique({
+      where: { id: params.id },
+      select: { id: true, riderId: true },
+    });
+    if (!call) {
+      return NextResponse.json({ error: "Call not found" }, { status: 404 });
+    }
+
+    const note = await prisma.note.create({
+      data: {
+        body: result.data.body,
+        riderId: call.riderId,
+        riderCallId: call.id,
+        authorId: session.user.id,
+      },
+      include: noteInclude,
+    });
+
+    return NextResponse.json(note, { status: 201 });
+  } catch (error) {
+    console.error("Create call note error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
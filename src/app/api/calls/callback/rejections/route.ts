@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import prisma from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+
+/**
+ * Callback deliveries refused by signature verification (admin only).
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role !== "admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const searchParams = req.nextUrl.searchParams;
+    const page = parseInt(searchParams.get("page") || "1");
+    const pageSize = parseInt(searchParams.get("pageSize") || "25");
+    const reason = searchParams.get("reason") || "";
+
+    const skip = (page - 1) * pageSize;
+    const where = reason ? { reason } : {};
+
+    const [rejections, total] = await Promise.all([
+      prisma.callbackRejection.findMany({
+        where,
+        orderBy: { receivedAt: "desc" },
+        skip,
+        take: pageSize,
+      }),
+      prisma.callbackRejection.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      rejections,
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize),
+    });
+  } catch (error) {
+    console.error("List callback rejections error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
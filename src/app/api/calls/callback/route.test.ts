@@ -0,0 +1,96 @@
+import { CallStatus } from "@prisma/client";
+import { NextRequest } from "next/server";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/calls/callback/route";
+
+const db = vi.hoisted(() => {
+  const tx = {
+    riderCall: { findUnique: vi.fn().mockResolvedValue(null) },
+    rider: { findUnique: vi.fn().mockResolvedValue(null) },
+  };
+  return {
+    tx,
+    callEvent: { findUnique: vi.fn(), create: vi.fn() },
+    $transaction: vi.fn((fn: (client: typeof tx) => unknown) => fn(tx)),
+  };
+});
+
+vi.mock("@/lib/prisma", () => ({ default: db }));
+vi.mock("@/lib/callback-signature", () => ({
+  verifyCallbackRequest: () => ({ ok: true }),
+  logCallbackRejection: vi.fn(),
+}));
+vi.mock("@/lib/voice", () => ({
+  getVoiceProvider: () => ({
+    name: "happyrobot",
+    parseCallback: () => ({
+      eventId: "evt-1",
+      riderCallId: "call-1",
+      runId: null,
+      externalId: null,
+      status: CallStatus.COMPLETED,
+      contactStatus: null,
+      summary: null,
+      transcript: null,
+      urgentFlag: null,
+      legalIssueFlag: null,
+      humanRequested: null,
+      consent: null,
+      optOut: null,
+    }),
+  }),
+}));
+vi.mock("@/lib/call-events", () => ({ publishCallUpdate: vi.fn() }));
+vi.mock("@/lib/consent", () => ({
+  callbackConsent: () => null,
+  recordConsent: vi.fn(),
+}));
+vi.mock("@/lib/escalations", () => ({ escalateRaisedFlags: vi.fn() }));
+vi.mock("@/lib/onboarding", () => ({ syncOnboardingStage: vi.fn() }));
+vi.mock("@/lib/retry-scheduler", () => ({ scheduleNextAttempt: vi.fn() }));
+vi.mock("@/lib/rider-flags", () => ({ recordFlagChanges: vi.fn() }));
+
+function callback() {
+  return new NextRequest("http://localhost/api/calls/callback", {
+    method: "POST",
+    body: JSON.stringify({ event_id: "evt-1" }),
+  });
+}
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("POST /api/calls/callback", () => {
+  it("logs an unmatched delivery without its dedupe key", async () => {
+    db.callEvent.findUnique.mockResolvedValue(null);
+
+    const res = await POST(callback());
+
+    expect(res.status).toBe(404);
+    expect(db.callEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ dedupeKey: null, outcome: "unmatched" }),
+    });
+  });
+
+  it("processes the retry of an unmatched delivery", async () => {
+    db.callEvent.findUnique.mockResolvedValue(null);
+
+    await POST(callback());
+    await POST(callback());
+
+    expect(db.callEvent.findUnique).toHaveBeenCalledWith({
+      where: { dedupeKey: "event:evt-1" },
+    });
+    expect(db.$transaction).toHaveBeenCalledTimes(2);
+  });
+
+  it("acknowledges a redelivery of a processed event", async () => {
+    db.callEvent.findUnique.mockResolvedValue({ id: "event-row" });
+
+    const res = await POST(callback());
+
+    expect(await res.json()).toEqual({ ok: true, duplicate: true });
+    expect(db.$transaction).not.toHaveBeenCalled();
+  });
+});
@@ -1,49 +1,39 @@
+import { createHash } from "node:crypto";
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
 import { CallStatus, ContactStatus, Prisma } from "@prisma/client";
+import { publishCallUpdate } from "@/lib/call-events";
+import { getTransitionError, TERMINAL_CALL_STATUSES } from "@/lib/call-state";
+import {
+  logCallbackRejection,
+  verifyCallbackRequest,
+} from "@/lib/callback-signature";
+import { callbackConsent, recordConsent } from "@/lib/consent";
+import { escalateRaisedFlags } from "@/lib/escalations";
+import { syncOnboardingStage } from "@/lib/onboarding";
+import { scheduleNextAttempt } from "@/lib/retry-scheduler";
+import { recordFlagChanges } from "@/lib/rider-flags";
+import { getVoiceProvider } from "@/lib/voice";
+
+type CallbackResult =
+  | { kind: "unmatched" }
+  | { kind: "rejected"; callId: string; reason: string }
+  | { kind: "applied"; callId: string; status: CallStatus };
 
-function normalizeStatus(status: unknown): CallStatus | null {
-  if (typeof status !== "string") return null;
-  const s = status.toLowerCase();
-  if (s === "pending") return CallStatus.PENDING;
-  if (s === "running") return CallStatus.RUNNING;
-  if (s === "completed" || s === "success") return CallStatus.COMPLETED;
-  if (s === "failed" || s === "error") return CallStatus.FAILED;
-  if (s === "canceled" || s === "cancelled") return CallStatus.CANCELED;
-  return null;
-}
-
-function normalizeContactStatus(status: unknown): ContactStatus | null {
-  if (typeof status !== "string") return null;
-  const s = status.trim().toLowerCase();
-  if (s === "pending") return ContactStatus.PENDING;
-  if (s === "completed" || s === "success") return ContactStatus.COMPLETED;
-  if (s === "voicemail") return ContactStatus.VOICEMAIL;
-  if (s === "no_answer" || s === "no answer") return ContactStatus.NO_ANSWER;
-  return null;
-}
-
-function asString(v: unknown): string | null {
-  return typeof v === "string" && v.trim() ? v : null;
-}
-
-function asInt(v: unknown): number | null {
-  if (typeof v === "number" && Number.isInteger(v)) return v;
-  if (typeof v === "string" && v.trim() && /^\d+$/.test(v.trim())) {
-    return Number(v.trim());
-  }
-  return null;
+/**
+ * Stable key per delivery: the provider event id when the payload carries one,
+ * otherwise a hash of the raw body (identical redeliveries collapse).
+ */
+function getDedupeKey(eventId: string | null, rawBody: string): string {
+  if (eventId) return `event:${eventId}`;
+  return `sha256:${createHash("sha256").update(rawBody).digest("hex")}`;
 }
 
-function asBoolean(v: unknown): boolean | null {
-  if (typeof v === "boolean") return v;
-  if (typeof v === "number") return v !== 0;
-  if (typeof v === "string") {
-    const s = v.trim().toLowerCase();
-    if (["true", "yes", "y", "1"].includes(s)) return true;
-    if (["false", "no", "n", "0"].includes(s)) return false;
-  }
-  return null;
+function isUniqueViolation(error: unknown): boolean {
+  return (
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    error.code === "P2002"
+  );
 }
 
 /**
@@ -53,51 +43,67 @@ function asBoolean(v: unknown): boolean | null {
  * Correlation:
  * - Prefer sending `context.source.rider_call_id` (we set this when triggering).
  * - Optionally include `run_id` as well.
+ * Field extraction is provider-specific (`parseCallback` in src/lib/voice).
  *
- * Optional security:
- * - Set env HAPPYROBOT_CALLBACK_SECRET and send header `x-happyrobot-callback-secret`.
+ * Idempotency:
+ * - Every delivery is stored in `call_events` keyed by `x-happyrobot-event-id` /
+ *   `event_id` (or a hash of the body). Redeliveries are acknowledged and ignored;
+ *   unmatched deliveries are logged without the key, so their retries are processed.
+ * - Status changes go through the CallStatus / ContactStatus state machine;
+ *   illegal transitions (e.g. RUNNING after COMPLETED) are logged as rejected.
+ *
+ * Security (see src/lib/callback-signature.ts):
+ * - Set HAPPYROBOT_CALLBACK_SIGNING_SECRET and sign each delivery with
+ *   `x-happyrobot-timestamp` + `x-happyrobot-signature` (HMAC-SHA256).
+ * - Legacy: HAPPYROBOT_CALLBACK_SECRET + header `x-happyrobot-callback-secret`.
+ * Refused deliveries are stored in `callback_rejections`, up to a per-minute quota.
  */
 export async function POST(req: NextRequest) {
   try {
-    const requiredSecret = process.env.HAPPYROBOT_CALLBACK_SECRET;
-    if (requiredSecret) {
-      const provided =
-        req.headers.get("x-happyrobot-callback-secret") ||
-        req.headers.get("x-callback-secret");
-      if (provided !== requiredSecret) {
-        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-      }
+    // Keep the raw body: the signature covers it and it is hashed for deduplication
+    const rawBody = await req.text();
+
+    const verification = verifyCallbackRequest(req.headers, rawBody);
+    if (!verification.ok) {
+      console.warn("[HappyRobot Callback] refused:", verification.reason);
+      await logCallbackRejection(req.headers, rawBody, verification.reason);
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const body = await req.json().catch(() => null);
+    let body: unknown = null;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      body = null;
+    }
     if (!body || typeof body !== "object") {
-      return NextResponse.json({ error: "Invalid JSON payload" }, { status: 400 });
+      return NextResponse.json(
+        { error: "Invalid JSON payload" },
+        { status: 400 },
+      );
     }
 
-    const anyBody = body as any;
-    console.log("[HappyRobot Callback] received payload keys:", Object.keys(anyBody || {}));
-
-    const riderCallId =
-      asString(anyBody?.context?.source?.rider_call_id) ||
-      asString(anyBody?.context?.source?.call_id) || // legacy
-      asString(anyBody?.call_id) ||
-      asString(anyBody?.callId) ||
-      asString(anyBody?.metadata?.callId);
-
-    const runId =
-      asString(anyBody?.run_id) || asString(anyBody?.runId) || asString(anyBody?.id);
-
-    // Support cron/workflow sending "context" as external id (CSV row id)
-    // Examples:
-    // - { context: "11", ... }
-    // - { context: { external_id: 11 }, ... }
-    // - { external_id: 11, ... }
-    const externalId =
-      asInt(anyBody?.external_id) ||
-      asInt(anyBody?.externalId) ||
-      asInt(anyBody?.context?.external_id) ||
-      asInt(anyBody?.context?.externalId) ||
-      asInt(anyBody?.context);
+    const provider = getVoiceProvider();
+    const {
+      eventId,
+      riderCallId,
+      runId,
+      externalId,
+      status,
+      contactStatus,
+      summary,
+      transcript,
+      urgentFlag,
+      legalIssueFlag,
+      humanRequested,
+      consent,
+      optOut,
+    } = provider.parseCallback(body, req.headers);
+    const consentStatus = callbackConsent({ consent, optOut });
+    console.log(
+      "[HappyRobot Callback] received payload keys:",
+      Object.keys(body),
+    );
 
     if (!riderCallId && !runId && !externalId) {
       return NextResponse.json(
@@ -109,174 +115,270 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const status = normalizeStatus(anyBody?.status);
-    const contactStatus =
-      normalizeContactStatus(anyBody?.contact_status) ||
-      normalizeContactStatus(anyBody?.call_status) ||
-      normalizeContactStatus(anyBody?.result?.call_status) ||
-      normalizeContactStatus(anyBody?.result?.contact_status);
-
-    // Flexible extraction for your workflow outputs
-    const summary =
-      asString(anyBody?.result?.summary) ||
-      asString(anyBody?.summary) ||
-      asString(anyBody?.outputs?.summary) ||
-      asString(anyBody?.extracted?.summary);
-
-    const transcript =
-      asString(anyBody?.result?.transcript) ||
-      asString(anyBody?.transcript) ||
-      asString(anyBody?.outputs?.transcript) ||
-      asString(anyBody?.extracted?.transcript);
-
-    const urgentFlag =
-      asBoolean(anyBody?.urgent_flag) ??
-      asBoolean(anyBody?.urgent) ??
-      asBoolean(anyBody?.result?.urgent_flag) ??
-      asBoolean(anyBody?.result?.urgent);
-
-    const legalIssueFlag =
-      asBoolean(anyBody?.legal_issue_flag) ??
-      asBoolean(anyBody?.legal_issue) ??
-      asBoolean(anyBody?.result?.legal_issue_flag) ??
-      asBoolean(anyBody?.result?.legal_issue);
-
-    const humanRequested =
-      asBoolean(anyBody?.human_requested) ??
-      asBoolean(anyBody?.humanRequested) ??
-      asBoolean(anyBody?.result?.human_requested) ??
-      asBoolean(anyBody?.result?.humanRequested);
-
     const now = new Date();
+    const dedupeKey = getDedupeKey(eventId, rawBody);
 
-    const updated = await prisma.$transaction(async (tx) => {
-      let where: { id?: string; runId?: string } = {};
-      if (riderCallId) where = { id: riderCallId };
-      else if (runId) where = { runId: runId! };
-
-      let existing = Object.keys(where).length
-        ? await tx.riderCall.findUnique({ where: where as any })
-        : null;
-
-      // If we only have externalId, or if riderCallId/runId didn't match, correlate via Rider.externalId
-      if (!existing && externalId) {
-        const rider = await tx.rider.findUnique({
-          where: { externalId },
-        });
-        if (!rider) return null;
+    // Fast path for redeliveries; the unique index still guards concurrent ones
+    const seen = await prisma.callEvent.findUnique({ where: { dedupeKey } });
+    if (seen) {
+      return NextResponse.json({ ok: true, duplicate: true });
+    }
 
-        existing =
-          (await tx.riderCall.findFirst({
-            where: {
-              riderId: rider.id,
-              OR: [
-                { status: CallStatus.PENDING },
-                { status: CallStatus.RUNNING },
-                { contactStatus: null },
-                { contactStatus: ContactStatus.PENDING },
-              ],
+    const eventData = {
+      dedupeKey,
+      source: `${provider.name}_callback`,
+      status,
+      contactStatus,
+      payload: body as Prisma.InputJsonValue,
+      receivedAt: now,
+    };
+
+    let result: CallbackResult;
+    try {
+      result = await prisma.$transaction(
+        async (tx): Promise<CallbackResult> => {
+          let where: { id?: string; runId?: string } = {};
+          if (riderCallId) where = { id: riderCallId };
+          else if (runId) where = { runId: runId! };
+
+          let existing = Object.keys(where).length
+            ? await tx.riderCall.findUnique({ where: where as any })
+            : null;
+          let created = false;
+
+          // If we only have externalId, or if riderCallId/runId didn't match, correlate via Rider.externalId
+          if (!existing && externalId) {
+            const rider = await tx.rider.findUnique({
+              where: { externalId },
+            });
+            if (!rider) return { kind: "unmatched" };
+
+            existing =
+              (await tx.riderCall.findFirst({
+                where: {
+                  riderId: rider.id,
+                  OR: [
+                    { status: CallStatus.PENDING },
+                    { status: CallStatus.RUNNING },
+                    { contactStatus: null },
+                    { contactStatus: ContactStatus.PENDING },
+                  ],
+                },
+                orderBy: { createdAt: "desc" },
+              })) ||
+              (await tx.riderCall.findFirst({
+                where: { riderId: rider.id },
+                orderBy: { createdAt: "desc" },
+              }));
+
+            // If no calls exist yet, create one so the callback can persist the outcome.
+            if (!existing) {
+              created = true;
+              existing = await tx.riderCall.create({
+                data: {
+                  riderId: rider.id,
+                  status: status || CallStatus.COMPLETED,
+                  contactStatus: contactStatus || ContactStatus.COMPLETED,
+                  contactedAt: now,
+                  summary: summary || null,
+                  transcript: transcript || null,
+                  urgentFlag: urgentFlag ?? false,
+                  legalIssueFlag: legalIssueFlag ?? false,
+                  humanRequested: humanRequested ?? false,
+                  ...(runId ? { runId } : {}),
+                  metadata: {
+                    source: "callback_external_id",
+                    externalId,
+                  } as unknown as Prisma.InputJsonValue,
+                },
+              });
+            }
+          }
+
+          if (!existing) return { kind: "unmatched" };
+
+          // Out-of-order or duplicate-with-different-body deliveries must not regress state
+          const transitionError = getTransitionError(existing, {
+            status,
+            contactStatus,
+          });
+          if (transitionError) {
+            await tx.callEvent.create({
+              data: {
+                ...eventData,
+                riderCallId: existing.id,
+                outcome: "rejected",
+                rejectedReason: transitionError,
+              },
+            });
+            return {
+              kind: "rejected",
+              callId: existing.id,
+              reason: transitionError,
+            };
+          }
+
+          const existingMetadata =
+            (existing.metadata as Record<string, unknown> | null) || {};
+
+          const mergedMetadata: Record<string, unknown> = {
+            ...existingMetadata,
+            workflowResult: {
+              ...(typeof (existingMetadata as any).workflowResult === "object"
+                ? (existingMetadata as any).workflowResult
+                : {}),
+              ...(summary ? { summary } : {}),
+              ...(transcript ? { transcript } : {}),
+              ...(contactStatus ? { contactStatus } : {}),
+              ...(urgentFlag !== null ? { urgentFlag } : {}),
+              ...(legalIssueFlag !== null ? { legalIssueFlag } : {}),
+              ...(humanRequested !== null ? { humanRequested } : {}),
+              ...(consentStatus ? { consentStatus } : {}),
+              lastCallbackAt: now.toISOString(),
+            },
+            happyrobotCallback: {
+              receivedAt: now.toISOString(),
+              runId: runId || existing.runId,
             },
-            orderBy: { createdAt: "desc" },
-          })) ||
-          (await tx.riderCall.findFirst({
-            where: { riderId: rider.id },
-            orderBy: { createdAt: "desc" },
-          }));
+          };
 
-        // If no calls exist yet, create one so the callback can persist the outcome.
-        if (!existing) {
-          existing = await tx.riderCall.create({
+          const terminalStatus =
+            !!status &&
+            status !== existing.status &&
+            TERMINAL_CALL_STATUSES.includes(status);
+
+          const updatedCall = await tx.riderCall.update({
+            where: { id: existing.id },
             data: {
-              riderId: rider.id,
-              status: status || CallStatus.COMPLETED,
-              contactStatus: contactStatus || ContactStatus.COMPLETED,
+              ...(runId && !existing.runId ? { runId } : {}),
+              ...(status ? { status } : {}),
+              ...(terminalStatus ? { completedAt: now } : {}),
+              ...(contactStatus ? { contactStatus } : {}),
               contactedAt: now,
-              summary: summary || null,
-              transcript: transcript || null,
-              urgentFlag: urgentFlag ?? false,
-              legalIssueFlag: legalIssueFlag ?? false,
-              humanRequested: humanRequested ?? false,
-              ...(runId ? { runId } : {}),
-              metadata: {
-                source: "callback_external_id",
-                externalId,
-              } as unknown as Prisma.InputJsonValue,
+              ...(summary ? { summary } : {}),
+              ...(transcript ? { transcript } : {}),
+              ...(urgentFlag !== null ? { urgentFlag } : {}),
+              ...(legalIssueFlag !== null ? { legalIssueFlag } : {}),
+              ...(humanRequested !== null ? { humanRequested } : {}),
+              metadata: mergedMetadata as unknown as Prisma.InputJsonValue,
             },
           });
-        }
-      }
 
-      if (!existing) return null;
-
-      const existingMetadata =
-        (existing.metadata as Record<string, unknown> | null) || {};
+          // Also update rider derived fields for fast filtering
+          const riderBefore = await tx.rider.findUniqueOrThrow({
+            where: { id: updatedCall.riderId },
+          });
+          const riderAfter = await tx.rider.update({
+            where: { id: updatedCall.riderId },
+            data: {
+              lastContactAt: now,
+              ...(contactStatus ? { lastContactStatus: contactStatus } : {}),
+              ...(urgentFlag !== null ? { urgentFlag } : {}),
+              ...(legalIssueFlag !== null ? { legalIssueFlag } : {}),
+              ...(humanRequested !== null ? { humanRequested } : {}),
+            },
+          });
+          const raisedFlags = await recordFlagChanges(tx, {
+            riderId: updatedCall.riderId,
+            before: riderBefore,
+            after: { urgentFlag, legalIssueFlag, humanRequested },
+            source: "callback",
+            riderCallId: updatedCall.id,
+          });
+          await escalateRaisedFlags(tx, {
+            riderId: updatedCall.riderId,
+            riderCallId: updatedCall.id,
+            flags: raisedFlags,
+            now,
+          });
+          await syncOnboardingStage(tx, {
+            rider: riderAfter,
+            source: "callback",
+            riderCallId: updatedCall.id,
+            now,
+          });
+          // Declines and opt-outs put the number on the do-not-call list
+          if (consentStatus) {
+            await recordConsent(tx, {
+              rider: riderAfter,
+              status: consentStatus,
+              source: "callback",
+              riderCallId: updatedCall.id,
+              now,
+            });
+          }
+
+          // NO_ANSWER / VOICEMAIL schedule the next attempt; any other outcome clears it.
+          // Only on the first delivery of an outcome, so resends don't push the schedule.
+          if (
+            contactStatus &&
+            (created || contactStatus !== existing.contactStatus)
+          ) {
+            await scheduleNextAttempt(tx, {
+              riderId: updatedCall.riderId,
+              attempt: updatedCall.attempt,
+              contactStatus,
+              now,
+            });
+          }
+
+          await tx.callEvent.create({
+            data: {
+              ...eventData,
+              riderCallId: updatedCall.id,
+              outcome: "applied",
+            },
+          });
 
-      const mergedMetadata: Record<string, unknown> = {
-        ...existingMetadata,
-        workflowResult: {
-          ...(typeof (existingMetadata as any).workflowResult === "object"
-            ? (existingMetadata as any).workflowResult
-            : {}),
-          ...(summary ? { summary } : {}),
-          ...(transcript ? { transcript } : {}),
-          ...(contactStatus ? { contactStatus } : {}),
-          ...(urgentFlag !== null ? { urgentFlag } : {}),
-          ...(legalIssueFlag !== null ? { legalIssueFlag } : {}),
-          ...(humanRequested !== null ? { humanRequested } : {}),
-          lastCallbackAt: now.toISOString(),
-        },
-        happyrobotCallback: {
-          receivedAt: now.toISOString(),
-          runId: runId || existing.runId,
+          return {
+            kind: "applied",
+            callId: updatedCall.id,
+            status: updatedCall.status,
+          };
         },
-      };
-
-      const terminalStatus =
-        status === CallStatus.COMPLETED ||
-        status === CallStatus.FAILED ||
-        status === CallStatus.CANCELED;
+      );
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        // A concurrent delivery of the same event won the race
+        return NextResponse.json({ ok: true, duplicate: true });
+      }
+      throw error;
+    }
 
-      const updatedCall = await tx.riderCall.update({
-        where: { id: existing.id },
-        data: {
-          ...(runId && !existing.runId ? { runId } : {}),
-          ...(status ? { status } : {}),
-          ...(terminalStatus ? { completedAt: now } : {}),
-          ...(contactStatus ? { contactStatus } : {}),
-          contactedAt: now,
-          ...(summary ? { summary } : {}),
-          ...(transcript ? { transcript } : {}),
-          ...(urgentFlag !== null ? { urgentFlag } : {}),
-          ...(legalIssueFlag !== null ? { legalIssueFlag } : {}),
-          ...(humanRequested !== null ? { humanRequested } : {}),
-          metadata: mergedMetadata as unknown as Prisma.InputJsonValue,
-        },
+    if (result.kind === "unmatched") {
+      // Logged without the dedupe key: a retry may arrive once the call can
+      // be matched, and must not be taken for a redelivery
+      await prisma.callEvent.create({
+        data: { ...eventData, dedupeKey: null, outcome: "unmatched" },
       });
+      return NextResponse.json({ error: "Call not found" }, { status: 404 });
+    }
 
-      // Also update rider derived fields for fast filtering
-      await tx.rider.update({
-        where: { id: updatedCall.riderId },
-        data: {
-          lastContactAt: now,
-          ...(contactStatus ? { lastContactStatus: contactStatus } : {}),
-          ...(urgentFlag !== null ? { urgentFlag } : {}),
-          ...(legalIssueFlag !== null ? { legalIssueFlag } : {}),
-          ...(humanRequested !== null ? { humanRequested } : {}),
-        },
+    if (result.kind === "rejected") {
+      console.warn("[HappyRobot Callback] rejected:", {
+        id: result.callId,
+        reason: result.reason,
+      });
+      // 2xx so the sender doesn't keep retrying a stale event
+      return NextResponse.json({
+        ok: true,
+        applied: false,
+        reason: result.reason,
       });
-
-      return updatedCall;
-    });
-
-    if (!updated) {
-      return NextResponse.json({ error: "Call not found" }, { status: 404 });
     }
 
-    console.log("[HappyRobot Callback] updated call:", { id: updated.id, status: updated.status });
-    return NextResponse.json({ ok: true });
+    await publishCallUpdate(result.callId);
+
+    console.log("[HappyRobot Callback] updated call:", {
+      id: result.callId,
+      status: result.status,
+    });
+    return NextResponse.json({ ok: true, applied: true });
   } catch (error) {
     console.error("HappyRobot callback error:", error);
-    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
   }
 }
-
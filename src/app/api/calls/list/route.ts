@@ -3,6 +3,9 @@ import { getServerSession } from "next-auth";
 import prisma from "@/lib/prisma";
 import { authOptions } from "@/lib/auth";
 import { CallStatus, ContactStatus } from "@prisma/client";
+import { parseTagFilter } from "@/lib/tags";
+import { buildCallDrillDownWhere, callDrillDownSchema } from "@/lib/analytics";
+import { searchParamsToObject } from "@/lib/rider-directory";
 
 export async function GET(req: NextRequest) {
   try {
@@ -17,6 +20,18 @@ export async function GET(req: NextRequest) {
     const search = searchParams.get("search") || "";
     const status = searchParams.get("status") || "";
     const contactStatus = searchParams.get("contactStatus") || "";
+    const tags = parseTagFilter(searchParams.get("tags"));
+
+    // Analytics drill-down (from, to, attempt, segment, sentiment...)
+    const drillDown = callDrillDownSchema.safeParse(
+      searchParamsToObject(searchParams),
+    );
+    if (!drillDown.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: drillDown.error.errors },
+        { status: 400 },
+      );
+    }
 
     const skip = (page - 1) * pageSize;
 
@@ -42,6 +57,14 @@ export async function GET(req: NextRequest) {
       where.contactStatus = contactStatus as ContactStatus;
     }
 
+    // Each tag must be on the call or on its rider, plus drill-down filters
+    where.AND = [
+      ...tags.map((tag) => ({
+        OR: [{ tags: { has: tag } }, { rider: { tags: { has: tag } } }],
+      })),
+      ...buildCallDrillDownWhere(drillDown.data),
+    ];
+
     const [calls, total] = await Promise.all([
       prisma.riderCall.findMany({
         where,
@@ -50,6 +73,7 @@ export async function GET(req: NextRequest) {
         take: pageSize,
         include: {
           rider: true,
+          canceledByUser: { select: { id: true, email: true, name: true } },
         },
       }),
       prisma.riderCall.count({ where }),
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { subscribeToCallUpdates } from "@/lib/call-events";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+// Keeps proxies (Railway, nginx) from closing idle connections
+const HEARTBEAT_MS = 25_000;
+
+/**
+ * Server-Sent Events stream of RiderCall changes.
+ *
+ * Emits `event: call` with the full call (rider + initiatedByUser included)
+ * whenever a call is created or updated by the trigger route, the callback
+ * route or the background reconciler.
+ */
+export async function GET(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup: (() => void) | null = null;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // Stream already closed
+          cleanup?.();
+        }
+      };
+
+      // Client reconnect delay + initial comment so the browser fires `open`
+      send("retry: 5000\n: connected\n\n");
+
+      const unsubscribe = subscribeToCallUpdates((call) => {
+        send(`event: call\ndata: ${JSON.stringify(call)}\n\n`);
+      });
+      const heartbeat = setInterval(() => send(": ping\n\n"), HEARTBEAT_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        cleanup = null;
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      };
+
+      req.signal.addEventListener("abort", () => cleanup?.());
+    },
+    cancel() {
+      cleanup?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
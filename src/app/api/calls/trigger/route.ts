@@ -3,19 +3,36 @@ import { getServerSession } from "next-auth";
 import { z } from "zod";
 import prisma from "@/lib/prisma";
 import { authOptions } from "@/lib/auth";
+import { startManualCall } from "@/lib/dispatch-outbox";
+import { parsePhone } from "@/lib/phone";
+import { getVoiceProvider } from "@/lib/voice";
 
 const triggerSchema = z.object({
   externalId: z.number().int().positive().optional(),
   driverName: z.string().min(1),
+  // Normalized to E.164; national numbers are read in DEFAULT_PHONE_COUNTRY
   phoneNumber: z
     .string()
     .min(1)
-    .regex(/^\+\d/, "phoneNumber must be in E.164 format (e.g. +34612345678)"),
+    .transform((value, ctx) => {
+      const parsed = parsePhone(value);
+      if (!parsed.ok) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `${parsed.error} (e.g. +351912345678)`,
+        });
+        return z.NEVER;
+      }
+      return parsed.phone.e164;
+    }),
   signUpDate: z.string().optional(),
   flowType: z.string().optional(),
   documentsUploaded: z.enum(["NO", "PARTIAL", "YES"]).optional(),
   licenseCountry: z.string().optional(),
   residentPermitStatus: z.string().optional(),
+  // Outside the rider's calling hours, schedule the call for the next slot
+  // instead of refusing it
+  deferOutsideHours: z.boolean().optional(),
 });
 
 export async function POST(req: NextRequest) {
@@ -40,20 +57,16 @@ export async function POST(req: NextRequest) {
     // Get userId from session
     const userId = session.user?.id as string | undefined;
 
-    // Require HappyRobot endpoint
-    const endpoint =
-      process.env.HAPPYROBOT_ENDPOINT || process.env.HAPPYROBOT_WEBHOOK_URL;
-    if (!endpoint || endpoint.trim() === "") {
+    // Require a configured voice provider
+    if (!getVoiceProvider().isConfigured()) {
       return NextResponse.json(
         {
           error: "HappyRobot endpoint not configured",
-          hint: "Set HAPPYROBOT_ENDPOINT (or HAPPYROBOT_WEBHOOK_URL) in your environment variables.",
+          hint: "Set HAPPYROBOT_ENDPOINT (or HAPPYROBOT_WEBHOOK_URL) in your environment variables, or VOICE_PROVIDER=mock for local development.",
         },
         { status: 500 },
       );
     }
-    const apiKey = process.env.HAPPYROBOT_X_API_KEY;
-    const appUrl = process.env.APP_URL;
 
     const signUpDate = data.signUpDate ? new Date(data.signUpDate) : null;
     if (data.signUpDate && Number.isNaN(signUpDate?.getTime())) {
@@ -67,7 +80,7 @@ export async function POST(req: NextRequest) {
       ? await prisma.rider.upsert({
           where: { externalId: data.externalId },
           update: {
-            phoneNumber: data.phoneNumber.trim(),
+            phoneNumber: data.phoneNumber,
             driverName: data.driverName.trim(),
             signUpDate,
             flowType: data.flowType?.trim() || null,
@@ -77,7 +90,7 @@ export async function POST(req: NextRequest) {
           },
           create: {
             externalId: data.externalId,
-            phoneNumber: data.phoneNumber.trim(),
+            phoneNumber: data.phoneNumber,
             driverName: data.driverName.trim(),
             signUpDate,
             flowType: data.flowType?.trim() || null,
@@ -88,7 +101,7 @@ export async function POST(req: NextRequest) {
         })
       : await prisma.rider.create({
           data: {
-            phoneNumber: data.phoneNumber.trim(),
+            phoneNumber: data.phoneNumber,
             driverName: data.driverName.trim(),
             signUpDate,
             flowType: data.flowType?.trim() || null,
@@ -98,118 +111,53 @@ export async function POST(req: NextRequest) {
           },
         });
 
-    const riderCall = await prisma.riderCall.create({
-      data: {
-        riderId: rider.id,
-        initiatedByUserId: userId || null,
-        status: "PENDING",
-        metadata: {
-          source: { app: "uber-rider-onboarding", initiated_by_user_id: userId },
-          riderSnapshot: {
-            externalId: rider.externalId,
-            driverName: rider.driverName,
-            phoneNumber: rider.phoneNumber,
-            signUpDate: rider.signUpDate?.toISOString() || null,
-            flowType: rider.flowType,
-            documentsUploaded: rider.documentsUploaded,
-            licenseCountry: rider.licenseCountry,
-            residentPermitStatus: rider.residentPermitStatus,
-          },
-        },
-      },
-      include: {
-        rider: true,
-        initiatedByUser: { select: { id: true, email: true, name: true } },
-      },
+    // Call HappyRobot webhook (through the dispatch outbox)
+    const started = await startManualCall({
+      rider,
+      userId,
+      deferOutsideHours: data.deferOutsideHours,
     });
-
-    // Call HappyRobot webhook
-    try {
-      const workflowContext = {
-        rider: {
-          id: rider.id,
-          external_id: rider.externalId,
-          driver_name: rider.driverName,
-          phone_number: rider.phoneNumber,
-          sign_up_date: rider.signUpDate?.toISOString() || null,
-          flow_type: rider.flowType,
-          documents_uploaded: rider.documentsUploaded,
-          license_country: rider.licenseCountry,
-          resident_permit_status: rider.residentPermitStatus,
-        },
-        source: {
-          app: "uber-rider-onboarding",
-          rider_call_id: riderCall.id,
-          rider_id: rider.id,
-          initiated_by_user_id: userId,
-        },
-      };
-
-      const response = await fetch(endpoint, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          ...(apiKey ? { "X-API-KEY": apiKey } : {}),
+    if (!started.ok) {
+      // Do-not-call list, calling hours and other dial guard refusals
+      return NextResponse.json(
+        {
+          error: started.error,
+          reason: started.reason,
+          ...(started.nextAllowedAt
+            ? { nextAllowedAt: started.nextAllowedAt }
+            : {}),
         },
-        body: JSON.stringify({
-          phone_number: data.phoneNumber.trim(),
-          ...(appUrl ? { callback_url: `${appUrl.replace(/\/$/, "")}/api/calls/callback` } : {}),
-          context: workflowContext,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        await prisma.riderCall.update({
-          where: { id: riderCall.id },
-          data: {
-            status: "FAILED",
-            errorMsg: "HappyRobot API error: " + errorText,
-          },
-        });
-        return NextResponse.json(
-          { error: "Failed to trigger call", details: errorText },
-          { status: 500 },
-        );
-      }
-
-      const result = await response.json();
-      console.log(
-        "[Trigger] HappyRobot response:",
-        JSON.stringify(result, null, 2),
+        { status: 409 },
       );
-
-      // HappyRobot returns queued_run_ids array
-      const runId = result.queued_run_ids?.[0] || result.run_id || result.id;
-      console.log("[Trigger] Extracted runId:", runId);
-
-      // Update call with run ID
-      const updated = await prisma.riderCall.update({
-        where: { id: riderCall.id },
-        data: {
-          runId: runId,
-          status: "RUNNING",
-        },
-        include: {
-          rider: true,
-          initiatedByUser: { select: { id: true, email: true, name: true } },
+    }
+    const { riderCall, dispatch } = started;
+    if (!dispatch.ok) {
+      return NextResponse.json(
+        {
+          error: dispatch.error,
+          callId: riderCall.id,
+          ...(dispatch.details ? { details: dispatch.details } : {}),
         },
-      });
+        { status: 502 },
+      );
+    }
 
-      return NextResponse.json({ call: updated });
-    } catch (error) {
-      await prisma.riderCall.update({
-        where: { id: riderCall.id },
-        data: {
-          status: "FAILED",
-          errorMsg: "Failed to connect to HappyRobot API: " + String(error),
-        },
-      });
+    // 202: the call is persisted and the trigger will be retried, or made at
+    // the next calling slot, in the background
+    if (dispatch.queued) {
       return NextResponse.json(
-        { error: "Failed to trigger call" },
-        { status: 500 },
+        {
+          call: dispatch.call,
+          queued: true,
+          ...(dispatch.scheduledFor
+            ? { scheduledFor: dispatch.scheduledFor }
+            : {}),
+        },
+        { status: 202 },
       );
     }
+
+    return NextResponse.json({ call: dispatch.call });
   } catch (error) {
     console.error("Trigger error:", error);
     return NextResponse.json(
@@ -0,0 +1,193 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { z } from "zod";
+import { CampaignItemStatus, CampaignStatus } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { publishCallUpdate } from "@/lib/call-events";
+import { cancelWaitingCalls } from "@/lib/call-cancel";
+import { getCampaignProgress } from "@/lib/campaigns";
+
+const actionSchema = z.object({
+  action: z.enum(["pause", "resume", "cancel"]),
+});
+
+// Which campaign states each action is allowed from
+const allowedFrom: Record<
+  z.infer<typeof actionSchema>["action"],
+  CampaignStatus[]
+> = {
+  pause: [CampaignStatus.RUNNING],
+  resume: [CampaignStatus.PAUSED],
+  cancel: [CampaignStatus.RUNNING, CampaignStatus.PAUSED],
+};
+
+/**
+ * Campaign detail with progress and per-rider results.
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const campaign = await prisma.campaign.findUnique({
+      where: { id: params.id },
+      include: {
+        createdByUser: { select: { id: true, email: true, name: true } },
+        items: {
+          orderBy: { createdAt: "asc" },
+          include: {
+            rider: {
+              select: {
+                id: true,
+                driverName: true,
+                phoneNumber: true,
+                city: true,
+              },
+            },
+            riderCall: {
+              select: {
+                id: true,
+                status: true,
+                contactStatus: true,
+                runId: true,
+                errorMsg: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!campaign) {
+      return NextResponse.json(
+        { error: "Campaign not found" },
+        { status: 404 },
+      );
+    }
+
+    const progress = await getCampaignProgress([campaign.id]);
+
+    return NextResponse.json({ ...campaign, progress: progress[campaign.id] });
+  } catch (error) {
+    console.error("Campaign detail error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Pause, resume or cancel a campaign.
+ * Canceling marks every still-queued rider as CANCELED and cancels the calls
+ * still waiting in the dispatch outbox; calls already dialed keep running.
+ * The outbox holds a paused campaign's waiting calls until it resumes.
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const result = actionSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: result.error.errors },
+        { status: 400 },
+      );
+    }
+
+    const { action } = result.data;
+    const now = new Date();
+    let canceledCallIds: string[] = [];
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const campaign = await tx.campaign.findUnique({
+        where: { id: params.id },
+      });
+      if (!campaign) return null;
+
+      if (!allowedFrom[action].includes(campaign.status)) {
+        return { conflict: campaign.status };
+      }
+
+      if (action === "cancel") {
+        await tx.campaignItem.updateMany({
+          where: { campaignId: campaign.id, status: CampaignItemStatus.QUEUED },
+          data: { status: CampaignItemStatus.CANCELED },
+        });
+
+        const dispatched = await tx.campaignItem.findMany({
+          where: {
+            campaignId: campaign.id,
+            status: CampaignItemStatus.DISPATCHED,
+            riderCallId: { not: null },
+          },
+          select: { riderCallId: true },
+        });
+        canceledCallIds = await cancelWaitingCalls(
+          tx,
+          dispatched.map((item) => item.riderCallId as string),
+          {
+            userId: (session.user?.id as string | undefined) ?? null,
+            reason: "Campaign canceled",
+            now,
+          },
+        );
+        if (canceledCallIds.length > 0) {
+          await tx.campaignItem.updateMany({
+            where: { riderCallId: { in: canceledCallIds } },
+            data: { status: CampaignItemStatus.CANCELED },
+          });
+        }
+      }
+
+      return tx.campaign.update({
+        where: { id: campaign.id },
+        data:
+          action === "pause"
+            ? { status: CampaignStatus.PAUSED }
+            : action === "resume"
+              ? { status: CampaignStatus.RUNNING }
+              : { status: CampaignStatus.CANCELED, completedAt: now },
+      });
+    });
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: "Campaign not found" },
+        { status: 404 },
+      );
+    }
+    if ("conflict" in updated) {
+      return NextResponse.json(
+        { error: `Cannot ${action} a ${updated.conflict} campaign` },
+        { status: 409 },
+      );
+    }
+
+    for (const callId of canceledCallIds) {
+      await publishCallUpdate(callId);
+    }
+
+    return NextResponse.json({ campaign: updated });
+  } catch (error) {
+    console.error("Campaign action error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import prisma from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { buildPendingRiderWhere, campaignFiltersSchema } from "@/lib/campaigns";
+
+/**
+ * Preview the rider set a campaign would target.
+ *
+ * Query params: city, flowType, documentsUploaded, licenseCountry
+ */
+export async function GET(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const params = req.nextUrl.searchParams;
+  const result = campaignFiltersSchema.safeParse({
+    city: params.get("city") || undefined,
+    flowType: params.get("flowType") || undefined,
+    documentsUploaded: params.get("documentsUploaded") || undefined,
+    licenseCountry: params.get("licenseCountry") || undefined,
+  });
+
+  if (!result.success) {
+    return NextResponse.json(
+      { error: "Validation failed", details: result.error.errors },
+      { status: 400 },
+    );
+  }
+
+  const where = buildPendingRiderWhere(result.data);
+
+  const [count, riders] = await Promise.all([
+    prisma.rider.count({ where }),
+    prisma.rider.findMany({
+      where,
+      orderBy: [{ urgentFlag: "desc" }, { updatedAt: "desc" }],
+      take: 20,
+      select: {
+        id: true,
+        driverName: true,
+        phoneNumber: true,
+        city: true,
+        flowType: true,
+        documentsUploaded: true,
+        licenseCountry: true,
+      },
+    }),
+  ]);
+
+  return NextResponse.json({ count, riders });
+}
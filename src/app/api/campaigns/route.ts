@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { getVoiceProvider } from "@/lib/voice";
+import {
+  buildPendingRiderWhere,
+  campaignFiltersSchema,
+  getCampaignProgress,
+} from "@/lib/campaigns";
+
+const createCampaignSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  filters: campaignFiltersSchema.default({}),
+  concurrency: z.number().int().min(1).max(50).default(5),
+  ratePerMinute: z.number().int().min(1).max(120).default(10),
+});
+
+/**
+ * List campaigns (most recent first) with per-status progress counts.
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const campaigns = await prisma.campaign.findMany({
+      orderBy: { createdAt: "desc" },
+      take: 50,
+      include: {
+        createdByUser: { select: { id: true, email: true, name: true } },
+      },
+    });
+
+    const progress = await getCampaignProgress(campaigns.map((c) => c.id));
+
+    return NextResponse.json(
+      campaigns.map((c) => ({ ...c, progress: progress[c.id] })),
+    );
+  } catch (error) {
+    console.error("List campaigns error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Create a campaign over the pending riders matching `filters`.
+ * The background worker starts dispatching immediately.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const result = createCampaignSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: result.error.errors },
+        { status: 400 },
+      );
+    }
+
+    if (!getVoiceProvider().isConfigured()) {
+      return NextResponse.json(
+        {
+          error: "HappyRobot endpoint not configured",
+          hint: "Set HAPPYROBOT_ENDPOINT (or HAPPYROBOT_WEBHOOK_URL) in your environment variables, or VOICE_PROVIDER=mock for local development.",
+        },
+        { status: 500 },
+      );
+    }
+
+    const { name, filters, concurrency, ratePerMinute } = result.data;
+    const userId = session.user?.id as string | undefined;
+
+    const riders = await prisma.rider.findMany({
+      where: buildPendingRiderWhere(filters),
+      orderBy: [{ urgentFlag: "desc" }, { updatedAt: "desc" }],
+      select: { id: true },
+    });
+
+    if (riders.length === 0) {
+      return NextResponse.json(
+        { error: "No pending riders match these filters" },
+        { status: 400 },
+      );
+    }
+
+    const campaign = await prisma.$transaction(async (tx) => {
+      const created = await tx.campaign.create({
+        data: {
+          name,
+          filters: filters as Prisma.InputJsonValue,
+          concurrency,
+          ratePerMinute,
+          totalCount: riders.length,
+          createdByUserId: userId || null,
+        },
+      });
+      await tx.campaignItem.createMany({
+        data: riders.map((r) => ({ campaignId: created.id, riderId: r.id })),
+      });
+      return created;
+    });
+
+    return NextResponse.json({ campaign }, { status: 201 });
+  } catch (error) {
+    console.error("Create campaign error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+
+const PAGE_SIZE = 50;
+
+const querySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+});
+
+/** Dial attempts refused by the dial guard, newest first. */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const query = querySchema.safeParse(
+      Object.fromEntries(req.nextUrl.searchParams),
+    );
+    if (!query.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: query.error.errors },
+        { status: 400 },
+      );
+    }
+    const { page } = query.data;
+
+    const [blocks, total] = await Promise.all([
+      prisma.dialBlock.findMany({
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * PAGE_SIZE,
+        take: PAGE_SIZE,
+        include: {
+          rider: { select: { id: true, driverName: true } },
+          user: { select: { id: true, email: true, name: true } },
+        },
+      }),
+      prisma.dialBlock.count(),
+    ]);
+
+    return NextResponse.json({
+      blocks,
+      pagination: {
+        page,
+        pageSize: PAGE_SIZE,
+        total,
+        totalPages: Math.max(1, Math.ceil(total / PAGE_SIZE)),
+      },
+    });
+  } catch (error) {
+    console.error("List dial blocks error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { replayDeadDispatch } from "@/lib/dispatch-outbox";
+
+/**
+ * Re-queue a dead-lettered dispatch and attempt it immediately (admin only).
+ */
+export async function POST(
+  _req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role !== "admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const replay = await replayDeadDispatch(params.id);
+    if (!replay.ok) {
+      return NextResponse.json(
+        { error: replay.error },
+        { status: replay.error === "Dispatch not found" ? 404 : 409 },
+      );
+    }
+
+    const { result } = replay;
+    if (!result.ok) {
+      return NextResponse.json(
+        {
+          error: result.error,
+          ...(result.details ? { details: result.details } : {}),
+        },
+        { status: 502 },
+      );
+    }
+
+    return NextResponse.json({ call: result.call, queued: result.queued });
+  } catch (error) {
+    console.error("Replay dispatch error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { DispatchJobStatus } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+
+/**
+ * Outbound dispatch jobs (admin only). Defaults to dead-lettered jobs.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (session.user.role !== "admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const searchParams = req.nextUrl.searchParams;
+    const page = parseInt(searchParams.get("page") || "1");
+    const pageSize = parseInt(searchParams.get("pageSize") || "25");
+    const statusParam = searchParams.get("status") || DispatchJobStatus.DEAD;
+
+    if (
+      !Object.values(DispatchJobStatus).includes(
+        statusParam as DispatchJobStatus,
+      )
+    ) {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+    }
+
+    const skip = (page - 1) * pageSize;
+    const where = { status: statusParam as DispatchJobStatus };
+
+    const [jobs, total] = await Promise.all([
+      prisma.dispatchJob.findMany({
+        where,
+        orderBy: { updatedAt: "desc" },
+        skip,
+        take: pageSize,
+        include: {
+          riderCall: {
+            select: {
+              id: true,
+              status: true,
+              attempt: true,
+              errorMsg: true,
+              createdAt: true,
+              rider: {
+                select: { id: true, driverName: true, phoneNumber: true },
+              },
+            },
+          },
+        },
+      }),
+      prisma.dispatchJob.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      jobs,
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize),
+    });
+  } catch (error) {
+    console.error("List dispatches error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
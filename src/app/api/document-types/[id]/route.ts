@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { documentTypeSchema } from "@/lib/documents";
+
+const updateSchema = documentTypeSchema.partial();
+
+/**
+ * Edit a catalog document type (admin only). Types are deactivated rather
+ * than deleted, so riders' statuses are kept.
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (session.user.role !== "admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const result = updateSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: result.error.errors },
+        { status: 400 },
+      );
+    }
+
+    const updated = await prisma.documentType.updateMany({
+      where: { id: params.id },
+      data: result.data,
+    });
+    if (updated.count === 0) {
+      return NextResponse.json(
+        { error: "Document type not found" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json(
+      await prisma.documentType.findUniqueOrThrow({ where: { id: params.id } }),
+    );
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return NextResponse.json(
+        { error: "Key or import column already in use" },
+        { status: 409 },
+      );
+    }
+    console.error("Update document type error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
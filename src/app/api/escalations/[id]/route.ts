@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import {
+  addEscalationNote,
+  claimEscalation,
+  ESCALATION_OUTCOMES,
+  escalationInclude,
+  releaseEscalation,
+  resolveEscalation,
+  type EscalationActionResult,
+} from "@/lib/escalations";
+
+const actionSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("claim") }),
+  z.object({ action: z.literal("release") }),
+  z.object({
+    action: z.literal("note"),
+    note: z.string().trim().min(1).max(2000),
+  }),
+  z.object({
+    action: z.literal("resolve"),
+    outcome: z.enum(ESCALATION_OUTCOMES),
+    note: z.string().trim().max(2000).optional(),
+  }),
+]);
+
+/**
+ * Escalation detail with its audit trail.
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const escalation = await prisma.escalation.findUnique({
+      where: { id: params.id },
+      include: {
+        ...escalationInclude,
+        events: {
+          orderBy: { createdAt: "asc" },
+          include: { user: { select: { id: true, email: true, name: true } } },
+        },
+      },
+    });
+
+    if (!escalation) {
+      return NextResponse.json(
+        { error: "Escalation not found" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json(escalation);
+  } catch (error) {
+    console.error("Escalation detail error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Claim, release, add a note to or resolve an escalation.
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const result = actionSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: result.error.errors },
+        { status: 400 },
+      );
+    }
+
+    const data = result.data;
+    const userId = session.user.id;
+    const isAdmin = session.user.role === "admin";
+
+    let outcome: EscalationActionResult;
+    switch (data.action) {
+      case "claim":
+        outcome = await claimEscalation({ id: params.id, userId });
+        break;
+      case "release":
+        outcome = await releaseEscalation({ id: params.id, userId, isAdmin });
+        break;
+      case "note":
+        outcome = await addEscalationNote({
+          id: params.id,
+          userId,
+          note: data.note,
+        });
+        break;
+      case "resolve":
+        outcome = await resolveEscalation({
+          id: params.id,
+          userId,
+          isAdmin,
+          outcome: data.outcome,
+          note: data.note || null,
+        });
+        break;
+    }
+
+    if (!outcome.ok) {
+      return NextResponse.json(
+        { error: outcome.error },
+        { status: outcome.status },
+      );
+    }
+
+    return NextResponse.json(outcome.escalation);
+  } catch (error) {
+    console.error("Escalation action error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { EscalationStatus, Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { escalationInclude } from "@/lib/escalations";
+
+/**
+ * Escalation queue.
+ *
+ * Query params: status (OPEN | CLAIMED | RESOLVED; default: OPEN and CLAIMED),
+ * mine=1 (claimed by the current user), page, pageSize.
+ * Active escalations come most overdue first.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const searchParams = req.nextUrl.searchParams;
+    const page = Math.max(1, parseInt(searchParams.get("page") || "1") || 1);
+    const pageSize = Math.min(
+      100,
+      Math.max(1, parseInt(searchParams.get("pageSize") || "25") || 25),
+    );
+    const status = searchParams.get("status") || "";
+    const mine = searchParams.get("mine") === "1";
+
+    const where: Prisma.EscalationWhereInput = {
+      status: Object.values(EscalationStatus).includes(
+        status as EscalationStatus,
+      )
+        ? (status as EscalationStatus)
+        : { in: [EscalationStatus.OPEN, EscalationStatus.CLAIMED] },
+      ...(mine ? { claimedByUserId: session.user.id } : {}),
+    };
+
+    const orderBy: Prisma.EscalationOrderByWithRelationInput =
+      status === EscalationStatus.RESOLVED
+        ? { resolvedAt: "desc" }
+        : { slaDueAt: "asc" };
+
+    const [escalations, total, counts] = await Promise.all([
+      prisma.escalation.findMany({
+        where,
+        orderBy,
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        include: escalationInclude,
+      }),
+      prisma.escalation.count({ where }),
+      prisma.escalation.groupBy({
+        by: ["status"],
+        where: {
+          status: { in: [EscalationStatus.OPEN, EscalationStatus.CLAIMED] },
+        },
+        _count: { _all: true },
+      }),
+    ]);
+
+    return NextResponse.json({
+      escalations,
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize),
+      counts: Object.fromEntries(counts.map((c) => [c.status, c._count._all])),
+    });
+  } catch (error) {
+    console.error("Escalations list error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
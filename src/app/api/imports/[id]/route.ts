@@ -0,0 +1,171 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { rollbackImportJob } from "@/lib/import-jobs";
+import { resumeImportJob } from "@/lib/import-runner";
+
+const PAGE_SIZE = 100;
+
+const userSelect = { select: { id: true, email: true, name: true } };
+
+const rowsQuerySchema = z.object({
+  // issues: skipped rows and rows with warnings
+  rows: z.enum(["all", "issues"]).default("all"),
+  page: z.coerce.number().int().min(1).default(1),
+});
+
+const actionSchema = z.object({
+  action: z.enum(["rollback", "resume"]),
+});
+
+/**
+ * Import job with its per-row results (paginated) and what it changed.
+ * While the job runs, `processedRows` of `totalRows` is its progress; rows
+ * not imported yet are not listed.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const query = rowsQuerySchema.safeParse(
+      Object.fromEntries(req.nextUrl.searchParams),
+    );
+    if (!query.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: query.error.errors },
+        { status: 400 },
+      );
+    }
+    const { rows, page } = query.data;
+
+    const job = await prisma.importJob.findUnique({
+      where: { id: params.id },
+      include: { uploadedByUser: userSelect, rolledBackByUser: userSelect },
+    });
+    if (!job) {
+      return NextResponse.json({ error: "Import not found" }, { status: 404 });
+    }
+
+    const rowWhere: Prisma.ImportJobRowWhereInput = {
+      jobId: job.id,
+      action: { not: "pending" },
+      ...(rows === "issues"
+        ? { OR: [{ action: "skip" }, { NOT: { warnings: { isEmpty: true } } }] }
+        : {}),
+    };
+    const [rowResults, rowTotal, changes] = await Promise.all([
+      prisma.importJobRow.findMany({
+        where: rowWhere,
+        select: {
+          id: true,
+          row: true,
+          action: true,
+          callAction: true,
+          riderId: true,
+          errors: true,
+          warnings: true,
+        },
+        orderBy: { row: "asc" },
+        skip: (page - 1) * PAGE_SIZE,
+        take: PAGE_SIZE,
+      }),
+      prisma.importJobRow.count({ where: rowWhere }),
+      prisma.importJobChange.groupBy({
+        by: ["entity", "action"],
+        where: { jobId: job.id },
+        _count: { _all: true },
+      }),
+    ]);
+
+    return NextResponse.json({
+      ...job,
+      changes: changes.map((c) => ({
+        entity: c.entity,
+        action: c.action,
+        count: c._count._all,
+      })),
+      rows: rowResults,
+      pagination: {
+        page,
+        pageSize: PAGE_SIZE,
+        total: rowTotal,
+        totalPages: Math.max(1, Math.ceil(rowTotal / PAGE_SIZE)),
+      },
+    });
+  } catch (error) {
+    console.error("Import detail error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Job actions:
+ * - rollback (admin only): delete the riders and calls it created and
+ *   restore the ones it updated.
+ * - resume: queue a failed import again from its last imported row.
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const result = actionSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: result.error.errors },
+        { status: 400 },
+      );
+    }
+
+    if (result.data.action === "resume") {
+      const resumed = await resumeImportJob(params.id);
+      if (!resumed.ok) {
+        return NextResponse.json(
+          { error: resumed.error },
+          { status: resumed.status },
+        );
+      }
+      return NextResponse.json({ job: resumed.job });
+    }
+
+    if (session.user.role !== "admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    const rolledBack = await rollbackImportJob({
+      jobId: params.id,
+      userId: (session.user?.id as string | undefined) ?? null,
+    });
+    if (!rolledBack.ok) {
+      return NextResponse.json(
+        { error: rolledBack.error },
+        { status: rolledBack.status },
+      );
+    }
+
+    return NextResponse.json({ job: rolledBack.job });
+  } catch (error) {
+    console.error("Import action error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import prisma from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+
+const userSelect = { select: { id: true, email: true, name: true } };
+
+/**
+ * Recent rider imports, newest first.
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const jobs = await prisma.importJob.findMany({
+      orderBy: { createdAt: "desc" },
+      take: 100,
+      include: { uploadedByUser: userSelect, rolledBackByUser: userSelect },
+    });
+    return NextResponse.json(jobs);
+  } catch (error) {
+    console.error("List imports error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
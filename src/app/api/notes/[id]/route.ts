@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { z } from "zod";
+import { authOptions } from "@/lib/auth";
+import { editNote } from "@/lib/notes";
+
+const editSchema = z.object({
+  body: z.string().trim().min(1).max(5000),
+});
+
+/**
+ * Edit a note. The previous body is kept in its revision history.
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const result = editSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: result.error.errors },
+        { status: 400 },
+      );
+    }
+
+    const edited = await editNote({
+      id: params.id,
+      body: result.data.body,
+      userId: session.user.id,
+      isAdmin: session.user.role === "admin",
+    });
+    if (!edited.ok) {
+      return NextResponse.json(
+        { error: edited.error },
+        { status: edited.status },
+      );
+    }
+
+    return NextResponse.json(edited.note);
+  } catch (error) {
+    console.error("Edit note error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
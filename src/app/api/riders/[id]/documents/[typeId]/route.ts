@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { RiderDocumentStatus } from "@prisma/client";
+import { z } from "zod";
+import { authOptions } from "@/lib/auth";
+import { missingDocuments, setRiderDocumentStatus } from "@/lib/documents";
+
+const statusSchema = z.object({
+  status: z.nativeEnum(RiderDocumentStatus),
+  note: z.string().trim().max(500).optional(),
+});
+
+/**
+ * Set the status of one of the rider's documents.
+ */
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string; typeId: string } },
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const result = statusSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: result.error.errors },
+        { status: 400 },
+      );
+    }
+
+    const updated = await setRiderDocumentStatus({
+      riderId: params.id,
+      documentTypeId: params.typeId,
+      status: result.data.status,
+      note: result.data.note || null,
+      userId: (session.user?.id as string | undefined) ?? null,
+    });
+    if (!updated.ok) {
+      return NextResponse.json(
+        { error: updated.error },
+        { status: updated.status },
+      );
+    }
+
+    return NextResponse.json({
+      items: updated.items,
+      missing: missingDocuments(updated.items),
+    });
+  } catch (error) {
+    console.error("Rider document status error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
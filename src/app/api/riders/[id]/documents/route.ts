@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import prisma from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { getDocumentChecklist, missingDocuments } from "@/lib/documents";
+
+/**
+ * Rider document checklist, plus the missing documents sent to the agent.
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const checklist = await getDocumentChecklist(prisma, params.id);
+    if (!checklist) {
+      return NextResponse.json({ error: "Rider not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      items: checklist.items,
+      missing: missingDocuments(checklist.items),
+    });
+  } catch (error) {
+    console.error("Rider documents error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
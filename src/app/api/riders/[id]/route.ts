@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { ConsentStatus, OnboardingStage } from "@prisma/client";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import {
+  getCallingHours,
+  isWithinCallingHours,
+  loadCallingPolicy,
+  nextCallingSlot,
+} from "@/lib/calling-hours";
+import { findActiveSuppression, setRiderConsent } from "@/lib/consent";
+import { setOnboardingStage } from "@/lib/onboarding";
+import { clearRiderFlag, RIDER_FLAGS } from "@/lib/rider-flags";
+
+const actionSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("clear_flag"),
+    flag: z.enum(RIDER_FLAGS),
+    note: z.string().trim().max(500).optional(),
+  }),
+  z.object({
+    action: z.literal("set_stage"),
+    stage: z.nativeEnum(OnboardingStage),
+    note: z.string().trim().max(500).optional(),
+  }),
+  z.object({
+    action: z.literal("set_consent"),
+    consent: z.nativeEnum(ConsentStatus),
+    note: z.string().trim().max(500).optional(),
+  }),
+]);
+
+// Most recent blocked dial attempts shown on the profile
+const DIAL_BLOCKS_SHOWN = 20;
+
+/**
+ * Rider profile with every call (oldest first), the flag history, the
+ * onboarding stage history, the do-not-call entry for the rider's number (if
+ * active), the latest blocked dial attempts and the rider's calling hours.
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const rider = await prisma.rider.findUnique({
+      where: { id: params.id },
+      include: {
+        calls: {
+          orderBy: { createdAt: "asc" },
+          include: {
+            initiatedByUser: { select: { id: true, email: true, name: true } },
+            canceledByUser: { select: { id: true, email: true, name: true } },
+          },
+        },
+        flagChanges: {
+          orderBy: { createdAt: "asc" },
+          include: {
+            user: { select: { id: true, email: true, name: true } },
+            riderCall: { select: { id: true, attempt: true } },
+          },
+        },
+        stageChanges: {
+          orderBy: { createdAt: "asc" },
+          include: {
+            user: { select: { id: true, email: true, name: true } },
+            riderCall: { select: { id: true, attempt: true } },
+          },
+        },
+        dialBlocks: {
+          orderBy: { createdAt: "desc" },
+          take: DIAL_BLOCKS_SHOWN,
+          include: { user: { select: { id: true, email: true, name: true } } },
+        },
+      },
+    });
+
+    if (!rider) {
+      return NextResponse.json({ error: "Rider not found" }, { status: 404 });
+    }
+
+    const { calls, flagChanges, stageChanges, dialBlocks, ...profile } = rider;
+    const now = new Date();
+    const hours = getCallingHours(await loadCallingPolicy(prisma, now), rider);
+    return NextResponse.json({
+      rider: profile,
+      calls,
+      flagHistory: flagChanges,
+      stageHistory: stageChanges,
+      suppression: await findActiveSuppression(prisma, rider.phoneNumber),
+      dialBlocks,
+      callingHours: {
+        ...hours,
+        open: isWithinCallingHours(now, hours),
+        nextSlotAt: nextCallingSlot(now, hours),
+      },
+    });
+  } catch (error) {
+    console.error("Rider detail error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Rider actions:
+ * - clear_flag: clear a flag (urgent, legal issue, human requested) once it
+ *   has been handled
+ * - set_stage: move the rider to an onboarding stage by hand
+ * - set_consent: record the rider's consent by hand; declining or opting out
+ *   puts the number on the do-not-call list
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const result = actionSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: result.error.errors },
+        { status: 400 },
+      );
+    }
+
+    const userId = (session.user?.id as string | undefined) ?? null;
+    const note = result.data.note || null;
+    const updated =
+      result.data.action === "clear_flag"
+        ? await clearRiderFlag({
+            riderId: params.id,
+            flag: result.data.flag,
+            userId,
+            note,
+          })
+        : result.data.action === "set_stage"
+          ? await setOnboardingStage({
+              riderId: params.id,
+              stage: result.data.stage,
+              userId,
+              note,
+            })
+          : await setRiderConsent({
+              riderId: params.id,
+              status: result.data.consent,
+              userId,
+              note,
+            });
+    if (!updated.ok) {
+      return NextResponse.json(
+        { error: updated.error },
+        { status: updated.status },
+      );
+    }
+
+    return NextResponse.json({ rider: updated.rider });
+  } catch (error) {
+    console.error("Rider action error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
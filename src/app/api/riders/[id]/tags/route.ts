@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { tagsSchema } from "@/lib/tags";
+
+const tagsBodySchema = z.object({ tags: tagsSchema });
+
+/**
+ * Replace the rider's tags.
+ */
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const result = tagsBodySchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: result.error.errors },
+        { status: 400 },
+      );
+    }
+
+    const updated = await prisma.rider.updateMany({
+      where: { id: params.id },
+      data: { tags: result.data.tags },
+    });
+    if (updated.count === 0) {
+      return NextResponse.json({ error: "Rider not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ tags: result.data.tags });
+  } catch (error) {
+    console.error("Rider tags error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { CallStatus } from "@prisma/client";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { startManualCall } from "@/lib/dispatch-outbox";
+import { getVoiceProvider } from "@/lib/voice";
+
+const triggerSchema = z.object({
+  // Outside the rider's calling hours, schedule the call for the next slot
+  // instead of refusing it
+  deferOutsideHours: z.boolean().optional(),
+});
+
+/**
+ * Call an existing rider now, with the profile already stored.
+ * Refused while the rider has a call in flight.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const result = triggerSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: result.error.errors },
+        { status: 400 },
+      );
+    }
+
+    if (!getVoiceProvider().isConfigured()) {
+      return NextResponse.json(
+        { error: "HappyRobot endpoint not configured" },
+        { status: 500 },
+      );
+    }
+
+    const rider = await prisma.rider.findUnique({ where: { id: params.id } });
+    if (!rider) {
+      return NextResponse.json({ error: "Rider not found" }, { status: 404 });
+    }
+
+    const inFlight = await prisma.riderCall.findFirst({
+      where: {
+        riderId: rider.id,
+        status: { in: [CallStatus.PENDING, CallStatus.RUNNING] },
+      },
+      select: { id: true },
+    });
+    if (inFlight) {
+      return NextResponse.json(
+        { error: "Rider already has a call in progress", callId: inFlight.id },
+        { status: 409 },
+      );
+    }
+
+    const started = await startManualCall({
+      rider,
+      userId: session.user?.id as string | undefined,
+      deferOutsideHours: result.data.deferOutsideHours,
+    });
+    if (!started.ok) {
+      // Do-not-call list, calling hours and other dial guard refusals
+      return NextResponse.json(
+        {
+          error: started.error,
+          reason: started.reason,
+          ...(started.nextAllowedAt
+            ? { nextAllowedAt: started.nextAllowedAt }
+            : {}),
+        },
+        { status: 409 },
+      );
+    }
+    const { riderCall, dispatch } = started;
+    if (!dispatch.ok) {
+      return NextResponse.json(
+        {
+          error: dispatch.error,
+          callId: riderCall.id,
+          ...(dispatch.details ? { details: dispatch.details } : {}),
+        },
+        { status: 502 },
+      );
+    }
+
+    if (dispatch.queued) {
+      return NextResponse.json(
+        {
+          call: dispatch.call,
+          queued: true,
+          ...(dispatch.scheduledFor
+            ? { scheduledFor: dispatch.scheduledFor }
+            : {}),
+        },
+        { status: 202 },
+      );
+    }
+
+    return NextResponse.json({ call: dispatch.call });
+  } catch (error) {
+    console.error("Rider trigger error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
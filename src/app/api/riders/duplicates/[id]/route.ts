@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { dismissDuplicate, mergeRiders } from "@/lib/rider-duplicates";
+
+const actionSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("dismiss") }),
+  z.object({
+    action: z.literal("merge"),
+    // The rider that stays; the other one of the pair is merged into it
+    survivorId: z.string().min(1),
+  }),
+]);
+
+/**
+ * Review a duplicate pair:
+ * - dismiss: not the same rider; the detection job won't propose it again.
+ * - merge (admin only): merge the other rider into `survivorId`.
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const result = actionSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: result.error.errors },
+        { status: 400 },
+      );
+    }
+    const userId = (session.user?.id as string | undefined) ?? null;
+
+    if (result.data.action === "dismiss") {
+      const dismissed = await dismissDuplicate({
+        duplicateId: params.id,
+        userId,
+      });
+      if (!dismissed.ok) {
+        return NextResponse.json(
+          { error: dismissed.error },
+          { status: dismissed.status },
+        );
+      }
+      return NextResponse.json({ ok: true });
+    }
+
+    if (session.user.role !== "admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const duplicate = await prisma.riderDuplicate.findUnique({
+      where: { id: params.id },
+    });
+    if (!duplicate) {
+      return NextResponse.json(
+        { error: "Duplicate not found" },
+        { status: 404 },
+      );
+    }
+    const { survivorId } = result.data;
+    if (
+      survivorId !== duplicate.riderAId &&
+      survivorId !== duplicate.riderBId
+    ) {
+      return NextResponse.json(
+        { error: "survivorId must be one of the pair" },
+        { status: 400 },
+      );
+    }
+
+    const merged = await mergeRiders({
+      survivorId,
+      mergedId:
+        survivorId === duplicate.riderAId
+          ? duplicate.riderBId
+          : duplicate.riderAId,
+      userId,
+    });
+    if (!merged.ok) {
+      return NextResponse.json(
+        { error: merged.error },
+        { status: merged.status },
+      );
+    }
+
+    return NextResponse.json({ rider: merged.rider, merge: merged.merge });
+  } catch (error) {
+    console.error("Duplicate review error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
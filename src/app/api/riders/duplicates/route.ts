@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { RiderDuplicateStatus } from "@prisma/client";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { scanRiderDuplicates } from "@/lib/rider-duplicates";
+
+const PAGE_SIZE = 25;
+
+const querySchema = z.object({
+  status: z.nativeEnum(RiderDuplicateStatus).default("PENDING"),
+  page: z.coerce.number().int().min(1).default(1),
+});
+
+const riderSelect = {
+  select: {
+    id: true,
+    externalId: true,
+    driverName: true,
+    phoneNumber: true,
+    city: true,
+    flowType: true,
+    documentsUploaded: true,
+    onboardingStage: true,
+    lastContactAt: true,
+    lastContactStatus: true,
+    urgentFlag: true,
+    legalIssueFlag: true,
+    humanRequested: true,
+    createdAt: true,
+    _count: { select: { calls: true } },
+  },
+};
+
+/**
+ * Candidate duplicate pairs for review, most likely first, with both
+ * riders side by side.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const query = querySchema.safeParse(
+      Object.fromEntries(req.nextUrl.searchParams),
+    );
+    if (!query.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: query.error.errors },
+        { status: 400 },
+      );
+    }
+    const { status, page } = query.data;
+
+    const [duplicates, total] = await Promise.all([
+      prisma.riderDuplicate.findMany({
+        where: { status },
+        orderBy: [{ score: "desc" }, { detectedAt: "desc" }],
+        skip: (page - 1) * PAGE_SIZE,
+        take: PAGE_SIZE,
+        include: {
+          riderA: riderSelect,
+          riderB: riderSelect,
+          dismissedByUser: { select: { id: true, email: true, name: true } },
+        },
+      }),
+      prisma.riderDuplicate.count({ where: { status } }),
+    ]);
+
+    return NextResponse.json({
+      duplicates,
+      pagination: {
+        page,
+        pageSize: PAGE_SIZE,
+        total,
+        totalPages: Math.max(1, Math.ceil(total / PAGE_SIZE)),
+      },
+    });
+  } catch (error) {
+    console.error("List duplicates error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Run the duplicate detection now (admin only) instead of waiting for the
+ * background worker.
+ */
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (session.user.role !== "admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    return NextResponse.json(await scanRiderDuplicates());
+  } catch (error) {
+    console.error("Duplicate scan error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  IMPORT_FIELDS,
+  IMPORT_FORMATS,
+  RowValidation,
+  authorizeImport,
+  detectFormat,
+  importMappingSchema,
+  mappingErrors,
+  openImportFile,
+  readImportRequest,
+  suggestMapping,
+  validateRows,
+} from "@/lib/rider-import";
+
+const PREVIEW_ROWS = 50;
+const MAX_INVALID_ROWS = 500;
+const READ_BATCH = 1000;
+
+/**
+ * Parse an import file without touching the database: headers, the
+ * suggested (or given) column mapping, the first rows as they would be
+ * imported, and every row with validation errors or warnings.
+ *
+ * Takes the same body as POST /api/riders/import; the file is validated a
+ * batch at a time, so large files are not held in memory. A mapping without
+ * columns (e.g. `{ format: "legacy", columns: {} }`) asks for the suggested
+ * mapping of that format.
+ */
+export async function POST(req: NextRequest) {
+  const auth = await authorizeImport(req);
+  if (!auth.ok) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { source, mapping: rawMapping } = await readImportRequest(req);
+    const file = source ? await openImportFile(source) : null;
+    if (!file?.headers.length) {
+      return NextResponse.json(
+        {
+          error:
+            "Missing CSV. Send it as the request body, multipart field `file` or JSON { csv }.",
+        },
+        { status: 400 },
+      );
+    }
+
+    const { headers } = file;
+    let mapping = suggestMapping(headers);
+    if (rawMapping !== undefined && rawMapping !== null) {
+      const parsed = importMappingSchema.safeParse(rawMapping);
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: "Validation failed", details: parsed.error.errors },
+          { status: 400 },
+        );
+      }
+      mapping =
+        Object.keys(parsed.data.columns).length === 0
+          ? suggestMapping(headers, parsed.data.format)
+          : parsed.data;
+    }
+
+    const errors = mappingErrors(headers, mapping);
+    let totalRows = 0;
+    let validRows = 0;
+    let errorRows = 0;
+    const preview: RowValidation[] = [];
+    const invalidRows: RowValidation[] = [];
+    let invalidRowsTruncated = false;
+
+    for (;;) {
+      const records = await file.read(READ_BATCH);
+      if (!records.length) break;
+      if (!errors.length) {
+        for (const row of validateRows(records, mapping, totalRows + 1)) {
+          if (row.parsed) validRows++;
+          if (row.errors.length) errorRows++;
+          if (preview.length < PREVIEW_ROWS) preview.push(row);
+          if (!row.errors.length && !row.warnings.length) continue;
+          if (invalidRows.length < MAX_INVALID_ROWS) invalidRows.push(row);
+          else invalidRowsTruncated = true;
+        }
+      }
+      totalRows += records.length;
+    }
+
+    return NextResponse.json({
+      formats: IMPORT_FORMATS,
+      detectedFormat: detectFormat(headers),
+      headers,
+      fields: IMPORT_FIELDS[mapping.format],
+      mapping,
+      mappingErrors: errors,
+      totalRows,
+      validRows,
+      errorRows,
+      preview: preview.map(({ parsed: _, ...row }) => row),
+      invalidRows: invalidRows.map(({ parsed: _, ...row }) => row),
+      invalidRowsTruncated,
+    });
+  } catch (error) {
+    console.error("Rider import preview error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
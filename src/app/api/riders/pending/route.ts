@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import prisma from "@/lib/prisma";
 import { authOptions } from "@/lib/auth";
+import { phoneSearchTerm } from "@/lib/phone";
 import { ContactStatus } from "@prisma/client";
 
 /**
@@ -33,7 +34,9 @@ export async function GET(req: NextRequest) {
       {
         OR: [
           { driverName: { contains: search.trim(), mode: "insensitive" } },
-          { phoneNumber: { contains: search.trim() } },
+          {
+            phoneNumber: { contains: phoneSearchTerm(search) ?? search.trim() },
+          },
         ],
       },
     ];
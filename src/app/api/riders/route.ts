@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import {
+  buildRiderWhere,
+  riderDirectoryQuerySchema,
+  searchParamsToObject,
+} from "@/lib/rider-directory";
+
+/**
+ * Riders directory.
+ *
+ * Query params: page, pageSize (max 100), sort, order, plus the filters in
+ * riderFiltersSchema (src/lib/rider-directory.ts).
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = riderDirectoryQuerySchema.safeParse(
+      searchParamsToObject(req.nextUrl.searchParams),
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: result.error.errors },
+        { status: 400 },
+      );
+    }
+
+    const { page, pageSize, sort, order, ...filters } = result.data;
+    const where = buildRiderWhere(filters);
+
+    // Riders missing the sort field go last either way; id keeps pages stable
+    const orderBy: Prisma.RiderOrderByWithRelationInput[] = [
+      sort === "driverName" || sort === "createdAt"
+        ? { [sort]: order }
+        : { [sort]: { sort: order, nulls: "last" } },
+      { id: "asc" },
+    ];
+
+    const [riders, total] = await Promise.all([
+      prisma.rider.findMany({
+        where,
+        orderBy,
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.rider.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      riders,
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize),
+    });
+  } catch (error) {
+    console.error("Riders directory error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
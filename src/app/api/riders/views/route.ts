@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { riderFiltersSchema } from "@/lib/rider-directory";
+
+const viewSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  filters: riderFiltersSchema,
+});
+
+/** The current user's saved directory views. */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const views = await prisma.savedRiderView.findMany({
+      where: { userId: session.user.id },
+      orderBy: { name: "asc" },
+    });
+
+    return NextResponse.json(views);
+  } catch (error) {
+    console.error("Saved views error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+/** Save the current filters under a name (overwrites a view with the same name). */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const result = viewSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: result.error.errors },
+        { status: 400 },
+      );
+    }
+
+    const { name, filters } = result.data;
+    const view = await prisma.savedRiderView.upsert({
+      where: { userId_name: { userId: session.user.id, name } },
+      update: { filters: filters as Prisma.InputJsonValue },
+      create: {
+        userId: session.user.id,
+        name,
+        filters: filters as Prisma.InputJsonValue,
+      },
+    });
+
+    return NextResponse.json(view, { status: 201 });
+  } catch (error) {
+    console.error("Save view error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  cancelSimulatorRun,
+  isAuthorizedSimulatorRequest,
+  isSimulatorEnabled,
+} from "@/lib/simulator/happyrobot";
+
+/** Simulated Platform API `POST /runs/:id/cancel`. */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  if (!isSimulatorEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  if (!isAuthorizedSimulatorRequest(req.headers, "platform")) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!cancelSimulatorRun(params.id)) {
+    return NextResponse.json(
+      { error: "Run not found or already finished" },
+      { status: 409 },
+    );
+  }
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getSimulatorRun,
+  isAuthorizedSimulatorRequest,
+  isSimulatorEnabled,
+} from "@/lib/simulator/happyrobot";
+
+/** Simulated Platform API `GET /runs/:id`. */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  if (!isSimulatorEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  if (!isAuthorizedSimulatorRequest(req.headers, "platform")) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const run = getSimulatorRun(params.id);
+  if (!run) {
+    return NextResponse.json({ error: "Run not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(run);
+}
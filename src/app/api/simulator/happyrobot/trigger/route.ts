@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createSimulatorRun,
+  getDefaultCallbackUrl,
+  isAllowedCallbackUrl,
+  isAuthorizedSimulatorRequest,
+  isSimulatorEnabled,
+} from "@/lib/simulator/happyrobot";
+
+/**
+ * Simulated workflow webhook. Accepts the same body as the real HappyRobot
+ * endpoint and answers with `queued_run_ids`.
+ */
+export async function POST(req: NextRequest) {
+  if (!isSimulatorEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  try {
+    if (!isAuthorizedSimulatorRequest(req.headers, "trigger")) {
+      return NextResponse.json({ error: "Invalid API key" }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body.phone_number !== "string") {
+      return NextResponse.json(
+        { error: "phone_number is required" },
+        { status: 422 },
+      );
+    }
+
+    const callbackUrl =
+      typeof body.callback_url === "string"
+        ? body.callback_url
+        : getDefaultCallbackUrl();
+    if (!isAllowedCallbackUrl(callbackUrl)) {
+      return NextResponse.json(
+        { error: "callback_url must point to this app" },
+        { status: 422 },
+      );
+    }
+
+    const riderCallId = body.context?.source?.rider_call_id;
+    const runId = createSimulatorRun({
+      riderCallId: typeof riderCallId === "string" ? riderCallId : null,
+      callbackUrl,
+    });
+
+    return NextResponse.json({ queued_run_ids: [runId] });
+  } catch (error) {
+    console.error("Simulator trigger error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { z } from "zod";
+import { authOptions } from "@/lib/auth";
+import { liftSuppression } from "@/lib/consent";
+
+const actionSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("lift") }),
+]);
+
+/**
+ * Do-not-call entry actions:
+ * - lift (admin only): the number can be dialed again; the entry is kept.
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (session.user.role !== "admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const result = actionSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: result.error.errors },
+        { status: 400 },
+      );
+    }
+
+    const lifted = await liftSuppression({
+      suppressionId: params.id,
+      userId: (session.user?.id as string | undefined) ?? null,
+    });
+    if (!lifted.ok) {
+      return NextResponse.json(
+        { error: lifted.error },
+        { status: lifted.status },
+      );
+    }
+    return NextResponse.json({ suppression: lifted.suppression });
+  } catch (error) {
+    console.error("Suppression action error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { addManualSuppression } from "@/lib/consent";
+import { phoneSearchTerm } from "@/lib/phone";
+
+const PAGE_SIZE = 25;
+
+const querySchema = z.object({
+  status: z.enum(["active", "lifted"]).default("active"),
+  search: z.string().trim().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+});
+
+const createSchema = z.object({
+  phoneNumber: z.string().trim().min(1),
+  note: z.string().trim().max(500).optional(),
+});
+
+const userSelect = { select: { id: true, email: true, name: true } };
+
+/** The do-not-call list, newest first. */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const query = querySchema.safeParse(
+      Object.fromEntries(req.nextUrl.searchParams),
+    );
+    if (!query.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: query.error.errors },
+        { status: 400 },
+      );
+    }
+    const { status, search, page } = query.data;
+
+    const where: Prisma.PhoneSuppressionWhereInput = {
+      liftedAt: status === "active" ? null : { not: null },
+    };
+    if (search) {
+      where.OR = [
+        { phoneNumber: { contains: phoneSearchTerm(search) ?? search } },
+        { rider: { driverName: { contains: search, mode: "insensitive" } } },
+      ];
+    }
+
+    const [suppressions, total] = await Promise.all([
+      prisma.phoneSuppression.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * PAGE_SIZE,
+        take: PAGE_SIZE,
+        include: {
+          rider: { select: { id: true, driverName: true } },
+          createdByUser: userSelect,
+          liftedByUser: userSelect,
+        },
+      }),
+      prisma.phoneSuppression.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      suppressions,
+      pagination: {
+        page,
+        pageSize: PAGE_SIZE,
+        total,
+        totalPages: Math.max(1, Math.ceil(total / PAGE_SIZE)),
+      },
+    });
+  } catch (error) {
+    console.error("List suppressions error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+/** Add a number to the do-not-call list by hand. */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const result = createSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: result.error.errors },
+        { status: 400 },
+      );
+    }
+
+    const created = await addManualSuppression({
+      phoneNumber: result.data.phoneNumber,
+      note: result.data.note || null,
+      userId: (session.user?.id as string | undefined) ?? null,
+    });
+    if (!created.ok) {
+      return NextResponse.json(
+        { error: created.error },
+        { status: created.status },
+      );
+    }
+    return NextResponse.json(
+      { suppression: created.suppression },
+      { status: 201 },
+    );
+  } catch (error) {
+    console.error("Create suppression error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
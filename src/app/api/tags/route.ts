@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { listTags } from "@/lib/tags";
+
+/**
+ * Tags in use. Query param: scope = rider (default) | call | all.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const param = req.nextUrl.searchParams.get("scope");
+    const scope = param === "call" || param === "all" ? param : "rider";
+    return NextResponse.json(await listTags(scope));
+  } catch (error) {
+    console.error("Tags error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
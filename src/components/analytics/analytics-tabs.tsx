@@ -0,0 +1,33 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { cn } from "@/lib/utils";
+
+const tabs = [
+  { href: "/analitica", label: "Llamadas" },
+  { href: "/analitica/embudo", label: "Embudo" },
+];
+
+export function AnalyticsTabs() {
+  const pathname = usePathname();
+
+  return (
+    <div className="flex items-center gap-1">
+      {tabs.map((tab) => (
+        <Link
+          key={tab.href}
+          href={tab.href}
+          className={cn(
+            "rounded-md px-3 py-1.5 text-sm transition-colors",
+            pathname === tab.href
+              ? "bg-interactive-hover text-fg-primary"
+              : "text-fg-muted hover:text-fg-primary",
+          )}
+        >
+          {tab.label}
+        </Link>
+      ))}
+    </div>
+  );
+}
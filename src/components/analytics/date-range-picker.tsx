@@ -0,0 +1,68 @@
+"use client";
+
+const presets = [
+  { days: 7, label: "7 días" },
+  { days: 30, label: "30 días" },
+  { days: 90, label: "90 días" },
+];
+
+function isoDay(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+export interface DateRange {
+  /** YYYY-MM-DD; empty lets the API pick its default */
+  from: string;
+  to: string;
+}
+
+/**
+ * Inclusive date range with quick presets. `shown` is the range the API
+ * actually used, displayed while the user hasn't picked one.
+ */
+export function DateRangePicker({
+  value,
+  shown,
+  onChange,
+}: {
+  value: DateRange;
+  shown?: DateRange;
+  onChange: (range: DateRange) => void;
+}) {
+  const applyPreset = (days: number) => {
+    const today = new Date();
+    onChange({
+      from: isoDay(new Date(today.getTime() - (days - 1) * 86_400_000)),
+      to: isoDay(today),
+    });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {presets.map((preset) => (
+        <button
+          key={preset.days}
+          onClick={() => applyPreset(preset.days)}
+          className="linear-btn-secondary text-xs"
+        >
+          {preset.label}
+        </button>
+      ))}
+      <input
+        type="date"
+        value={value.from || shown?.from || ""}
+        onChange={(e) => onChange({ ...value, from: e.target.value })}
+        title="Desde"
+        className="linear-input"
+      />
+      <span className="text-fg-muted">–</span>
+      <input
+        type="date"
+        value={value.to || shown?.to || ""}
+        onChange={(e) => onChange({ ...value, to: e.target.value })}
+        title="Hasta"
+        className="linear-input"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface CallEvent {
+  id: string;
+  source: string;
+  outcome: "applied" | "rejected" | "unmatched";
+  rejectedReason: string | null;
+  status: string | null;
+  contactStatus: string | null;
+  receivedAt: string;
+}
+
+const sourceLabels: Record<string, string> = {
+  happyrobot_callback: "Callback",
+  mock_callback: "Callback (mock)",
+  user_cancel: "Cancelación",
+  status_reconciler: "Reconciliador",
+};
+
+const outcomeConfig: Record<
+  CallEvent["outcome"],
+  { label: string; className: string }
+> = {
+  applied: { label: "Aplicado", className: "pill-completed" },
+  rejected: { label: "Rechazado", className: "pill-failed" },
+  unmatched: { label: "Sin llamada", className: "pill-canceled" },
+};
+
+/** Chronological list of the events recorded for a call. */
+export function CallTimeline({ callId }: { callId: string }) {
+  const { data: events, isLoading } = useQuery<CallEvent[]>({
+    queryKey: ["callEvents", callId],
+    queryFn: async () => {
+      const res = await fetch(`/api/calls/${callId}/events`);
+      if (!res.ok) throw new Error("Failed to fetch call events");
+      return res.json();
+    },
+  });
+
+  return (
+    <div className="mt-6">
+      <p className="mb-2 text-sm font-medium text-fg-secondary">Eventos</p>
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-fg-muted">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Cargando...
+        </div>
+      ) : !events || events.length === 0 ? (
+        <p className="text-sm text-fg-muted">Sin eventos registrados</p>
+      ) : (
+        <ol className="space-y-3 border-l border-border-subtle pl-4">
+          {events.map((event) => {
+            const outcome = outcomeConfig[event.outcome];
+            return (
+              <li key={event.id} className="relative">
+                <span className="absolute -left-[21px] top-1.5 h-2 w-2 rounded-full bg-fg-muted" />
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="text-fg-primary">
+                    {sourceLabels[event.source] || event.source}
+                  </span>
+                  <span className={cn("pill", outcome?.className)}>
+                    {outcome?.label || event.outcome}
+                  </span>
+                  <span className="text-xs text-fg-muted">
+                    {new Date(event.receivedAt).toLocaleString("es-ES")}
+                  </span>
+                </div>
+                {(event.status || event.contactStatus) && (
+                  <p className="mt-1 text-xs text-fg-secondary">
+                    {[event.status, event.contactStatus]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </p>
+                )}
+                {event.rejectedReason && (
+                  <p className="mt-1 text-xs text-status-danger">
+                    {event.rejectedReason}
+                  </p>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
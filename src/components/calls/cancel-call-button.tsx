@@ -0,0 +1,112 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Ban, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/toaster";
+
+/** Button + confirmation dialog that cancels an in-flight call. */
+export function CancelCallButton({
+  callId,
+  compact = false,
+  onCanceled,
+}: {
+  callId: string;
+  compact?: boolean;
+  onCanceled?: () => void;
+}) {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState("");
+
+  const cancelCall = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(`/api/calls/${callId}/cancel`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason: reason || undefined }),
+      });
+      const body = await res.json();
+      if (!res.ok)
+        throw new Error(body.error || "Error al cancelar la llamada");
+      return body;
+    },
+    onSuccess: () => {
+      toast.success("Llamada cancelada");
+      setOpen(false);
+      setReason("");
+      queryClient.invalidateQueries({ queryKey: ["liveCalls"] });
+      queryClient.invalidateQueries({ queryKey: ["calls"] });
+      queryClient.invalidateQueries({ queryKey: ["callEvents", callId] });
+      queryClient.invalidateQueries({ queryKey: ["rider"] });
+      onCanceled?.();
+    },
+    onError: (error: Error) => {
+      toast.error("No se pudo cancelar", error.message);
+    },
+  });
+
+  // Portal events bubble through the React tree: keep them away from
+  // clickable parents (feed cards, modal backdrops)
+  return (
+    <span onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={() => setOpen(true)}
+        className={cn(
+          "inline-flex items-center gap-1.5 rounded-md text-status-danger transition-colors hover:bg-status-danger/10",
+          compact ? "px-2 py-1 text-xs" : "px-3 py-1.5 text-sm",
+        )}
+      >
+        <Ban className={compact ? "h-3 w-3" : "h-4 w-4"} />
+        Cancelar
+      </button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancelar llamada</DialogTitle>
+            <DialogDescription>
+              Se detendrá la llamada en curso y quedará marcada como cancelada.
+            </DialogDescription>
+          </DialogHeader>
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            maxLength={500}
+            rows={3}
+            placeholder="Motivo (opcional)"
+            className="linear-input w-full resize-none"
+          />
+          <DialogFooter>
+            <button
+              onClick={() => setOpen(false)}
+              className="linear-btn-secondary"
+            >
+              Volver
+            </button>
+            <button
+              onClick={() => cancelCall.mutate()}
+              disabled={cancelCall.isPending}
+              className="linear-btn-primary inline-flex items-center gap-2"
+            >
+              {cancelCall.isPending && (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              )}
+              Cancelar llamada
+            </button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </span>
+  );
+}
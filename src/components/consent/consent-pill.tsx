@@ -0,0 +1,56 @@
+import { cn } from "@/lib/utils";
+
+export type ConsentStatus = "UNKNOWN" | "GRANTED" | "DECLINED" | "OPTED_OUT";
+
+export type SuppressionReason = "OPT_OUT" | "DECLINED" | "MANUAL";
+
+export type DialBlockReason = "SUPPRESSED" | "CALLING_HOURS" | "FREQUENCY_CAP";
+
+export type DialOrigin = "manual" | "campaign" | "retry_scheduler" | "dispatch";
+
+export const consentConfig: Record<
+  ConsentStatus,
+  { label: string; class: string }
+> = {
+  UNKNOWN: { label: "Sin registrar", class: "pill-canceled" },
+  GRANTED: { label: "Consentimiento", class: "pill-completed" },
+  DECLINED: { label: "Rechazado", class: "pill-failed" },
+  OPTED_OUT: { label: "Baja", class: "pill-failed" },
+};
+
+export const consentOptions = (
+  Object.keys(consentConfig) as ConsentStatus[]
+).map((status) => ({ value: status, label: consentConfig[status].label }));
+
+export const suppressionReasonLabels: Record<SuppressionReason, string> = {
+  OPT_OUT: "Pidió la baja",
+  DECLINED: "Rechazó las llamadas",
+  MANUAL: "Añadido a mano",
+};
+
+export const dialBlockReasonLabels: Record<DialBlockReason, string> = {
+  SUPPRESSED: "Lista de no llamar",
+  CALLING_HOURS: "Fuera de horario",
+  FREQUENCY_CAP: "Límite de llamadas",
+};
+
+export const dialOriginLabels: Record<DialOrigin, string> = {
+  manual: "Manual",
+  campaign: "Campaña",
+  retry_scheduler: "Reintento",
+  dispatch: "Envío",
+};
+
+export function ConsentPill({
+  status,
+  className,
+}: {
+  status: ConsentStatus;
+  className?: string;
+}) {
+  return (
+    <span className={cn("pill", consentConfig[status].class, className)}>
+      {consentConfig[status].label}
+    </span>
+  );
+}
@@ -0,0 +1,153 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { cn, formatRelativeTime } from "@/lib/utils";
+import { useToast } from "@/components/ui/toaster";
+import { FilterDropdown } from "@/components/ui/filter-dropdown";
+
+type DocumentStatus = "MISSING" | "UPLOADED" | "VERIFIED" | "REJECTED";
+
+interface ChecklistItem {
+  documentType: {
+    id: string;
+    key: string;
+    name: string;
+    description: string | null;
+  };
+  required: boolean;
+  status: DocumentStatus;
+  note: string | null;
+  updatedAt: string | null;
+  updatedByUser: { id: string; email: string; name: string | null } | null;
+}
+
+interface ChecklistResponse {
+  items: ChecklistItem[];
+  missing: { key: string; name: string }[];
+}
+
+const statusConfig: Record<DocumentStatus, { class: string; label: string }> = {
+  MISSING: { class: "pill-pending", label: "Pendiente" },
+  UPLOADED: { class: "pill-running", label: "Subido" },
+  VERIFIED: { class: "pill-completed", label: "Verificado" },
+  REJECTED: { class: "pill-failed", label: "Rechazado" },
+};
+
+const statusOptions = (Object.keys(statusConfig) as DocumentStatus[]).map(
+  (status) => ({ value: status, label: statusConfig[status].label }),
+);
+
+/**
+ * A rider's document checklist, with a status selector per document.
+ * Documents that no longer apply to the rider are listed as not required.
+ */
+export function DocumentChecklist({ riderId }: { riderId: string }) {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+
+  const { data, isLoading } = useQuery<ChecklistResponse>({
+    queryKey: ["riderDocuments", riderId],
+    queryFn: async () => {
+      const res = await fetch(`/api/riders/${riderId}/documents`);
+      if (!res.ok) throw new Error("Failed to fetch documents");
+      return res.json();
+    },
+  });
+
+  const setStatus = useMutation({
+    mutationFn: async ({
+      typeId,
+      status,
+    }: {
+      typeId: string;
+      status: DocumentStatus;
+    }) => {
+      const res = await fetch(`/api/riders/${riderId}/documents/${typeId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Error al guardar el estado");
+      return body;
+    },
+    onSuccess: (body: ChecklistResponse) => {
+      queryClient.setQueryData(["riderDocuments", riderId], body);
+      // documentsUploaded and the onboarding stage may have changed
+      queryClient.invalidateQueries({ queryKey: ["rider", riderId] });
+      queryClient.invalidateQueries({ queryKey: ["riders"] });
+    },
+    onError: (error: Error) =>
+      toast.error("No se pudo actualizar el documento", error.message),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="linear-card flex justify-center p-4">
+        <Loader2 className="h-4 w-4 animate-spin text-fg-muted" />
+      </div>
+    );
+  }
+
+  const items = data?.items ?? [];
+  if (items.length === 0) {
+    return (
+      <div className="linear-card p-4 text-sm text-fg-muted">
+        No se exige ningún documento a este rider
+      </div>
+    );
+  }
+
+  return (
+    <ul className="linear-card space-y-3 p-4">
+      {items.map((item) => (
+        <li
+          key={item.documentType.id}
+          className={cn("text-sm", !item.required && "opacity-60")}
+        >
+          <div className="flex items-center justify-between gap-2">
+            <div className="min-w-0">
+              <p
+                className="truncate text-fg-primary"
+                title={item.documentType.description ?? undefined}
+              >
+                {item.documentType.name}
+              </p>
+              <p className="mt-0.5 text-xs text-fg-muted">
+                <span className={cn("pill", statusConfig[item.status].class)}>
+                  {statusConfig[item.status].label}
+                </span>
+                {!item.required && " · no requerido"}
+                {item.updatedAt &&
+                  ` · ${formatRelativeTime(new Date(item.updatedAt))}${
+                    item.updatedByUser
+                      ? ` · ${item.updatedByUser.name || item.updatedByUser.email}`
+                      : ""
+                  }`}
+              </p>
+            </div>
+            <FilterDropdown
+              value={item.status}
+              onChange={(status) => {
+                if (!status || status === item.status) return;
+                setStatus.mutate({
+                  typeId: item.documentType.id,
+                  status: status as DocumentStatus,
+                });
+              }}
+              options={statusOptions}
+              label="Estado"
+              allLabel="Estado"
+              align="right"
+              className="w-36 shrink-0"
+            />
+          </div>
+          {item.note && (
+            <p className="mt-1 text-xs text-fg-secondary">{item.note}</p>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
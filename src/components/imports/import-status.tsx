@@ -0,0 +1,35 @@
+import { cn } from "@/lib/utils";
+
+export type ImportJobStatus =
+  | "UPLOADING"
+  | "QUEUED"
+  | "RUNNING"
+  | "COMPLETED"
+  | "FAILED"
+  | "ROLLED_BACK";
+
+export const importStatusConfig: Record<
+  ImportJobStatus,
+  { label: string; class: string }
+> = {
+  UPLOADING: { label: "Subiendo", class: "pill-pending" },
+  QUEUED: { label: "En cola", class: "pill-pending" },
+  RUNNING: { label: "En curso", class: "pill-running" },
+  COMPLETED: { label: "Completada", class: "pill-completed" },
+  FAILED: { label: "Fallida", class: "pill-failed" },
+  ROLLED_BACK: { label: "Revertida", class: "pill-canceled" },
+};
+
+export function ImportStatusPill({
+  status,
+  className,
+}: {
+  status: ImportJobStatus;
+  className?: string;
+}) {
+  return (
+    <span className={cn("pill", importStatusConfig[status].class, className)}>
+      {importStatusConfig[status].label}
+    </span>
+  );
+}
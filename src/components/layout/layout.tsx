@@ -16,6 +16,14 @@ import {
   Sun,
   Moon,
   Users,
+  Megaphone,
+  Contact,
+  LifeBuoy,
+  BarChart3,
+  ShieldAlert,
+  Inbox,
+  FileText,
+  Clock,
   Menu,
   X,
 } from "lucide-react";
@@ -31,7 +39,7 @@ import { Toaster } from "@/components/ui/toaster";
 const SIDEBAR_COLLAPSED = 72;
 const SIDEBAR_EXPANDED = 180;
 
-// Navigation items - Only Trigger and Llamadas
+// Navigation items
 const navItems: {
   href: string;
   icon: LucideIcon;
@@ -39,13 +47,23 @@ const navItems: {
 }[] = [
   { href: "/trigger", icon: Phone, label: "Onboarding" },
   { href: "/llamadas", icon: List, label: "Historial" },
+  { href: "/riders", icon: Contact, label: "Riders" },
+  { href: "/escalaciones", icon: LifeBuoy, label: "Escalaciones" },
+  { href: "/campanas", icon: Megaphone, label: "Campañas" },
+  { href: "/analitica", icon: BarChart3, label: "Analítica" },
 ];
 
 const adminNavItems: {
   href: string;
   icon: LucideIcon;
   label: string;
-}[] = [{ href: "/usuarios", icon: Users, label: "Usuarios" }];
+}[] = [
+  { href: "/usuarios", icon: Users, label: "Usuarios" },
+  { href: "/rechazos", icon: ShieldAlert, label: "Rechazos" },
+  { href: "/envios", icon: Inbox, label: "Envíos" },
+  { href: "/documentos", icon: FileText, label: "Documentos" },
+  { href: "/horarios", icon: Clock, label: "Horarios" },
+];
 
 export function Layout({ children }: { children: React.ReactNode }) {
   const pathname = usePathname();
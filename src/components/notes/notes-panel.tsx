@@ -0,0 +1,242 @@
+"use client";
+
+import { useState } from "react";
+import { useSession } from "next-auth/react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Pencil } from "lucide-react";
+import { formatRelativeTime } from "@/lib/utils";
+import { useToast } from "@/components/ui/toaster";
+
+interface UserRef {
+  id: string;
+  email: string;
+  name: string | null;
+}
+
+interface Note {
+  id: string;
+  body: string;
+  createdAt: string;
+  editedAt: string | null;
+  author: UserRef | null;
+  riderCall: { id: string; attempt: number | null } | null;
+  revisions: {
+    id: string;
+    body: string;
+    editedAt: string;
+    editedByUser: UserRef | null;
+  }[];
+}
+
+function userLabel(user: UserRef | null) {
+  return user ? user.name || user.email : "Usuario eliminado";
+}
+
+/**
+ * Operator notes on a rider (including its calls' notes) or on one call.
+ * Pass exactly one of riderId / callId.
+ */
+export function NotesPanel({
+  riderId,
+  callId,
+}: {
+  riderId?: string;
+  callId?: string;
+}) {
+  const { data: session } = useSession();
+  const queryClient = useQueryClient();
+  const toast = useToast();
+  const [draft, setDraft] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editBody, setEditBody] = useState("");
+  const [historyId, setHistoryId] = useState<string | null>(null);
+
+  const endpoint = riderId
+    ? `/api/riders/${riderId}/notes`
+    : `/api/calls/${callId}/notes`;
+
+  const { data: notes, isLoading } = useQuery<Note[]>({
+    queryKey: ["notes", endpoint],
+    queryFn: async () => {
+      const res = await fetch(endpoint);
+      if (!res.ok) throw new Error("Failed to fetch notes");
+      return res.json();
+    },
+  });
+
+  // Call notes also show up on the rider's panel
+  const invalidate = () =>
+    queryClient.invalidateQueries({ queryKey: ["notes"] });
+
+  const addNote = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ body: draft }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Error al guardar la nota");
+      return body;
+    },
+    onSuccess: () => {
+      setDraft("");
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast.error("No se pudo guardar la nota", error.message);
+    },
+  });
+
+  const editNote = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await fetch(`/api/notes/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ body: editBody }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Error al editar la nota");
+      return body;
+    },
+    onSuccess: () => {
+      setEditingId(null);
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast.error("No se pudo editar la nota", error.message);
+    },
+  });
+
+  const canEdit = (note: Note) =>
+    note.author?.id === session?.user?.id || session?.user?.role === "admin";
+
+  return (
+    <div className="mt-6">
+      <p className="mb-2 text-sm font-medium text-fg-secondary">Notas</p>
+
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        maxLength={5000}
+        rows={2}
+        placeholder="Añadir una nota..."
+        className="linear-input w-full resize-none"
+      />
+      <div className="mt-2 flex justify-end">
+        <button
+          onClick={() => addNote.mutate()}
+          disabled={!draft.trim() || addNote.isPending}
+          className="linear-btn-secondary inline-flex items-center gap-2 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {addNote.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+          Guardar nota
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-fg-muted">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Cargando...
+        </div>
+      ) : !notes || notes.length === 0 ? (
+        <p className="text-sm text-fg-muted">Sin notas</p>
+      ) : (
+        <ol className="mt-2 space-y-3">
+          {notes.map((note) => (
+            <li
+              key={note.id}
+              className="rounded-lg border border-border-subtle p-3"
+            >
+              <div className="flex items-center justify-between gap-2 text-xs text-fg-muted">
+                <span>
+                  {userLabel(note.author)} ·{" "}
+                  {formatRelativeTime(new Date(note.createdAt))}
+                  {riderId && note.riderCall && (
+                    <>
+                      {" "}
+                      · llamada
+                      {note.riderCall.attempt
+                        ? ` #${note.riderCall.attempt}`
+                        : ""}
+                    </>
+                  )}
+                  {note.editedAt && (
+                    <button
+                      onClick={() =>
+                        setHistoryId(historyId === note.id ? null : note.id)
+                      }
+                      className="ml-1 underline hover:text-fg-primary"
+                    >
+                      (editada)
+                    </button>
+                  )}
+                </span>
+                {canEdit(note) && editingId !== note.id && (
+                  <button
+                    onClick={() => {
+                      setEditingId(note.id);
+                      setEditBody(note.body);
+                    }}
+                    title="Editar"
+                    className="rounded p-1 hover:bg-interactive-hover hover:text-fg-primary"
+                  >
+                    <Pencil className="h-3 w-3" />
+                  </button>
+                )}
+              </div>
+
+              {editingId === note.id ? (
+                <>
+                  <textarea
+                    value={editBody}
+                    onChange={(e) => setEditBody(e.target.value)}
+                    maxLength={5000}
+                    rows={3}
+                    className="linear-input mt-2 w-full resize-none"
+                  />
+                  <div className="mt-2 flex justify-end gap-2">
+                    <button
+                      onClick={() => setEditingId(null)}
+                      className="linear-btn-secondary"
+                    >
+                      Cancelar
+                    </button>
+                    <button
+                      onClick={() => editNote.mutate(note.id)}
+                      disabled={!editBody.trim() || editNote.isPending}
+                      className="linear-btn-primary disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      Guardar
+                    </button>
+                  </div>
+                </>
+              ) : (
+                <p className="mt-1 whitespace-pre-wrap break-words text-sm text-fg-primary">
+                  {note.body}
+                </p>
+              )}
+
+              {historyId === note.id && note.revisions.length > 0 && (
+                <ol className="mt-3 space-y-2 border-l border-border-subtle pl-3">
+                  {note.revisions.map((revision) => (
+                    <li key={revision.id}>
+                      <p className="text-xs text-fg-muted">
+                        Reemplazada{" "}
+                        {new Date(revision.editedAt).toLocaleString("es-ES")}{" "}
+                        por {userLabel(revision.editedByUser)}
+                      </p>
+                      <p className="whitespace-pre-wrap break-words text-sm text-fg-secondary line-through decoration-fg-disabled">
+                        {revision.body}
+                      </p>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
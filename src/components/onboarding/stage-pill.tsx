@@ -0,0 +1,40 @@
+import { cn } from "@/lib/utils";
+
+export type OnboardingStage =
+  | "SIGNED_UP"
+  | "CONTACTED"
+  | "DOCUMENTS_PARTIAL"
+  | "DOCUMENTS_COMPLETE"
+  | "PERMIT_VERIFIED"
+  | "ACTIVATED";
+
+// Funnel order (same as the OnboardingStage enum)
+export const stageConfig: Record<
+  OnboardingStage,
+  { label: string; class: string }
+> = {
+  SIGNED_UP: { label: "Registrado", class: "pill-canceled" },
+  CONTACTED: { label: "Contactado", class: "pill-running" },
+  DOCUMENTS_PARTIAL: { label: "Docs parciales", class: "pill-pending" },
+  DOCUMENTS_COMPLETE: { label: "Docs completos", class: "pill-running" },
+  PERMIT_VERIFIED: { label: "Permiso verificado", class: "pill-running" },
+  ACTIVATED: { label: "Activado", class: "pill-completed" },
+};
+
+export const stageOptions = (Object.keys(stageConfig) as OnboardingStage[]).map(
+  (stage) => ({ value: stage, label: stageConfig[stage].label }),
+);
+
+export function StagePill({
+  stage,
+  className,
+}: {
+  stage: OnboardingStage;
+  className?: string;
+}) {
+  return (
+    <span className={cn("pill", stageConfig[stage].class, className)}>
+      {stageConfig[stage].label}
+    </span>
+  );
+}
@@ -0,0 +1,110 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Plus, X } from "lucide-react";
+import { useToast } from "@/components/ui/toaster";
+
+/**
+ * Editable tag chips for a rider or a call. Every change saves the full list.
+ */
+export function TagEditor({
+  tags,
+  endpoint,
+  invalidateKeys = [],
+}: {
+  tags: string[];
+  /** PUT endpoint taking { tags } */
+  endpoint: string;
+  invalidateKeys?: string[][];
+}) {
+  const queryClient = useQueryClient();
+  const toast = useToast();
+  const [current, setCurrent] = useState(tags);
+  const [input, setInput] = useState("");
+
+  // Follow refetches of the parent
+  const tagsKey = tags.join(",");
+  useEffect(() => {
+    setCurrent(tagsKey ? tagsKey.split(",") : []);
+  }, [tagsKey]);
+
+  const save = useMutation({
+    mutationFn: async (next: string[]) => {
+      const res = await fetch(endpoint, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ tags: next }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Error al guardar los tags");
+      return body as { tags: string[] };
+    },
+    onSuccess: (body) => {
+      setCurrent(body.tags);
+      queryClient.invalidateQueries({ queryKey: ["tags"] });
+      for (const key of invalidateKeys) {
+        queryClient.invalidateQueries({ queryKey: key });
+      }
+    },
+    onError: (error: Error) => {
+      setCurrent(tags);
+      toast.error("No se pudieron guardar los tags", error.message);
+    },
+  });
+
+  const update = (next: string[]) => {
+    setCurrent(next);
+    save.mutate(next);
+  };
+
+  // "a, b" adds two tags; same normalization as the server
+  const add = (e: React.FormEvent) => {
+    e.preventDefault();
+    const added = input
+      .split(",")
+      .map((t) => t.trim().toLowerCase().replace(/\s+/g, "-"))
+      .filter((t) => t && !current.includes(t));
+    setInput("");
+    if (added.length > 0) update([...current, ...added]);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      {current.map((tag) => (
+        <span
+          key={tag}
+          className="inline-flex items-center gap-1 rounded-md bg-bg-surface px-2 py-0.5 text-xs text-fg-secondary"
+        >
+          {tag}
+          <button
+            onClick={() => update(current.filter((t) => t !== tag))}
+            disabled={save.isPending}
+            title="Quitar tag"
+            className="hover:text-fg-primary"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </span>
+      ))}
+      <form onSubmit={add} className="inline-flex items-center gap-1">
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          maxLength={40}
+          placeholder="Añadir tag"
+          className="w-28 rounded-md border border-border-subtle bg-transparent px-2 py-0.5 text-xs text-fg-primary placeholder:text-fg-disabled focus:border-accent-primary/40 focus:outline-none"
+        />
+        <button
+          type="submit"
+          disabled={!input.trim() || save.isPending}
+          title="Añadir tag"
+          className="rounded p-0.5 text-fg-muted hover:text-fg-primary disabled:opacity-30"
+        >
+          <Plus className="h-3.5 w-3.5" />
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+/**
+ * Next.js instrumentation hook: runs once when the server boots.
+ * Only the Node.js runtime starts the background worker.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startBackgroundWorker } = await import("@/lib/worker");
+    startBackgroundWorker();
+  }
+}
@@ -0,0 +1,279 @@
+import { ContactStatus, Prisma } from "@prisma/client";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+
+/**
+ * Onboarding call analytics over RiderCall (+ Rider for segment breakdowns).
+ *
+ * Calls are bucketed by creation date (UTC days). Rates use calls with a
+ * final outcome (COMPLETED, VOICEMAIL or NO_ANSWER) as denominator, except
+ * the human-request rate, which is over contacted (COMPLETED) calls.
+ * Segment values are compared case-insensitively, as in the call list
+ * drill-down.
+ */
+
+const dateString = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD")
+  // Rejects days the calendar doesn't have (2026-02-31, 2026-13-01)
+  .refine((value) => {
+    const date = new Date(`${value}T00:00:00.000Z`);
+    return !Number.isNaN(date.getTime()) && isoDay(date) === value;
+  }, "Invalid date");
+
+const MAX_RANGE_DAYS = 366;
+const DEFAULT_RANGE_DAYS = 30;
+
+function isoDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** Inclusive date range; defaults to the last 30 days. */
+export const analyticsRangeSchema = z
+  .object({
+    from: dateString.optional(),
+    to: dateString.optional(),
+  })
+  .transform(({ from, to }) => {
+    const toDay = to ?? isoDay(new Date());
+    const fromDay =
+      from ??
+      isoDay(
+        new Date(
+          new Date(`${toDay}T00:00:00.000Z`).getTime() -
+            (DEFAULT_RANGE_DAYS - 1) * 86_400_000,
+        ),
+      );
+    return { from: fromDay, to: toDay };
+  })
+  .refine(({ from, to }) => from <= to, {
+    message: "from must not be after to",
+    path: ["from"],
+  })
+  .refine(
+    ({ from, to }) =>
+      (Date.parse(to) - Date.parse(from)) / 86_400_000 < MAX_RANGE_DAYS,
+    { message: `Range is limited to ${MAX_RANGE_DAYS} days`, path: ["to"] },
+  );
+
+export type AnalyticsRange = z.infer<typeof analyticsRangeSchema>;
+
+function rangeBounds({ from, to }: AnalyticsRange) {
+  return {
+    gte: new Date(`${from}T00:00:00.000Z`),
+    // Inclusive: the whole "to" day
+    lte: new Date(`${to}T23:59:59.999Z`),
+  };
+}
+
+export const ANALYTICS_SEGMENTS = [
+  "city",
+  "flowType",
+  "licenseCountry",
+] as const;
+
+export type AnalyticsSegment = (typeof ANALYTICS_SEGMENTS)[number];
+
+const segmentColumns: Record<AnalyticsSegment, Prisma.Sql> = {
+  city: Prisma.sql`r."city"`,
+  flowType: Prisma.sql`r."flow_type"`,
+  licenseCountry: Prisma.sql`r."license_country"`,
+};
+
+export interface OutcomeCounts {
+  calls: number;
+  withOutcome: number;
+  completed: number;
+  voicemail: number;
+  noAnswer: number;
+  humanRequested: number;
+}
+
+interface OutcomeRow extends OutcomeCounts {
+  key: string | null;
+}
+
+async function outcomesBy(
+  key: Prisma.Sql,
+  range: AnalyticsRange,
+  group: Prisma.Sql = Prisma.sql`1`,
+): Promise<OutcomeRow[]> {
+  const { gte, lte } = rangeBounds(range);
+  return prisma.$queryRaw<OutcomeRow[]>`
+    SELECT
+      ${key} AS "key",
+      COUNT(*)::int AS "calls",
+      COUNT(*) FILTER (
+        WHERE c."contact_status" IN ('COMPLETED', 'VOICEMAIL', 'NO_ANSWER')
+      )::int AS "withOutcome",
+      COUNT(*) FILTER (WHERE c."contact_status" = 'COMPLETED')::int AS "completed",
+      COUNT(*) FILTER (WHERE c."contact_status" = 'VOICEMAIL')::int AS "voicemail",
+      COUNT(*) FILTER (WHERE c."contact_status" = 'NO_ANSWER')::int AS "noAnswer",
+      COUNT(*) FILTER (
+        WHERE c."contact_status" = 'COMPLETED' AND c."human_requested"
+      )::int AS "humanRequested"
+    FROM "rider_calls" c
+    JOIN "riders" r ON r."id" = c."rider_id"
+    WHERE c."created_at" >= ${gte} AND c."created_at" <= ${lte}
+    GROUP BY ${group}
+    ORDER BY "calls" DESC, 1`;
+}
+
+function withoutKey({ key: _key, ...counts }: OutcomeRow): OutcomeCounts {
+  return counts;
+}
+
+const EMPTY_COUNTS: OutcomeCounts = {
+  calls: 0,
+  withOutcome: 0,
+  completed: 0,
+  voicemail: 0,
+  noAnswer: 0,
+  humanRequested: 0,
+};
+
+export interface CallAnalytics {
+  range: AnalyticsRange;
+  totals: OutcomeCounts;
+  byAttempt: (OutcomeCounts & { attempt: number | null })[];
+  bySegment: Record<
+    AnalyticsSegment,
+    (OutcomeCounts & { value: string | null })[]
+  >;
+  sentiment: { sentiment: string | null; count: number }[];
+  perDay: (OutcomeCounts & { date: string })[];
+}
+
+export async function getCallAnalytics(
+  range: AnalyticsRange,
+): Promise<CallAnalytics> {
+  const [totals, byAttempt, perDay, sentiment, ...segments] = await Promise.all(
+    [
+      outcomesBy(Prisma.sql`NULL`, range),
+      outcomesBy(Prisma.sql`c."attempt"::text`, range),
+      outcomesBy(
+        Prisma.sql`to_char(date_trunc('day', c."created_at"), 'YYYY-MM-DD')`,
+        range,
+      ),
+      outcomesBy(Prisma.sql`c."sentiment"`, range),
+      ...ANALYTICS_SEGMENTS.map((segment) =>
+        outcomesBy(
+          Prisma.sql`MIN(${segmentColumns[segment]})`,
+          range,
+          Prisma.sql`LOWER(${segmentColumns[segment]})`,
+        ),
+      ),
+    ],
+  );
+
+  // Fill days without calls so the chart has no gaps
+  const dayCounts = new Map(perDay.map((row) => [row.key, withoutKey(row)]));
+  const days: CallAnalytics["perDay"] = [];
+  for (
+    let day = new Date(`${range.from}T00:00:00.000Z`);
+    isoDay(day) <= range.to;
+    day = new Date(day.getTime() + 86_400_000)
+  ) {
+    const date = isoDay(day);
+    days.push({ date, ...(dayCounts.get(date) ?? EMPTY_COUNTS) });
+  }
+
+  return {
+    range,
+    totals: totals[0] ? withoutKey(totals[0]) : EMPTY_COUNTS,
+    byAttempt: byAttempt
+      .map((row) => ({
+        attempt: row.key === null ? null : Number(row.key),
+        ...withoutKey(row),
+      }))
+      .sort((a, b) => (a.attempt ?? 0) - (b.attempt ?? 0)),
+    bySegment: Object.fromEntries(
+      ANALYTICS_SEGMENTS.map((segment, i) => [
+        segment,
+        segments[i].map((row) => ({ value: row.key, ...withoutKey(row) })),
+      ]),
+    ) as CallAnalytics["bySegment"],
+    sentiment: sentiment.map((row) => ({
+      sentiment: row.key,
+      count: row.calls,
+    })),
+    perDay: days,
+  };
+}
+
+// Drill-down
+
+const NONE = "NONE";
+
+/**
+ * Call list filters matching an analytics bucket. Segment and sentiment
+ * filters take "NONE" for calls whose value is empty.
+ */
+export const callDrillDownSchema = z.object({
+  from: dateString.optional(),
+  to: dateString.optional(),
+  attempt: z
+    .union([z.literal(NONE), z.coerce.number().int().min(0)])
+    .optional(),
+  city: z.string().trim().min(1).optional(),
+  flowType: z.string().trim().min(1).optional(),
+  licenseCountry: z.string().trim().min(1).optional(),
+  sentiment: z.string().trim().min(1).optional(),
+  humanRequested: z.enum(["true", "false"]).optional(),
+  outcome: z.enum(["final"]).optional(),
+});
+
+export type CallDrillDown = z.infer<typeof callDrillDownSchema>;
+
+function orNone(value: string): Prisma.StringNullableFilter | null {
+  return value === NONE ? null : { equals: value, mode: "insensitive" };
+}
+
+export function buildCallDrillDownWhere(
+  filters: CallDrillDown,
+): Prisma.RiderCallWhereInput[] {
+  const and: Prisma.RiderCallWhereInput[] = [];
+
+  if (filters.from || filters.to) {
+    and.push({
+      createdAt: {
+        ...(filters.from
+          ? { gte: new Date(`${filters.from}T00:00:00.000Z`) }
+          : {}),
+        ...(filters.to ? { lte: new Date(`${filters.to}T23:59:59.999Z`) } : {}),
+      },
+    });
+  }
+  if (filters.attempt !== undefined) {
+    and.push({ attempt: filters.attempt === NONE ? null : filters.attempt });
+  }
+  if (filters.city) and.push({ rider: { city: orNone(filters.city) } });
+  if (filters.flowType) {
+    and.push({ rider: { flowType: orNone(filters.flowType) } });
+  }
+  if (filters.licenseCountry) {
+    and.push({ rider: { licenseCountry: orNone(filters.licenseCountry) } });
+  }
+  if (filters.sentiment) {
+    // Sentiment is stored as reported by the agent; match it exactly
+    and.push({
+      sentiment: filters.sentiment === NONE ? null : filters.sentiment,
+    });
+  }
+  if (filters.humanRequested) {
+    and.push({ humanRequested: filters.humanRequested === "true" });
+  }
+  if (filters.outcome === "final") {
+    and.push({
+      contactStatus: {
+        in: [
+          ContactStatus.COMPLETED,
+          ContactStatus.VOICEMAIL,
+          ContactStatus.NO_ANSWER,
+        ],
+      },
+    });
+  }
+
+  return and;
+}
@@ -0,0 +1,86 @@
+import { CallStatus, DispatchJobStatus, Prisma } from "@prisma/client";
+import { describe, expect, it, vi } from "vitest";
+import { cancelWaitingCalls } from "@/lib/call-cancel";
+
+vi.mock("@/lib/prisma", () => ({ default: {} }));
+vi.mock("@/lib/call-events", () => ({ publishCallUpdate: vi.fn() }));
+vi.mock("@/lib/voice", () => ({ getVoiceProvider: vi.fn() }));
+
+const NOW = new Date("2026-10-19T12:00:00.000Z");
+
+function fakeTx(waiting: string[]) {
+  const tx = {
+    dispatchJob: { updateMany: vi.fn().mockResolvedValue({ count: 0 }) },
+    riderCall: {
+      findMany: vi.fn().mockResolvedValue(waiting.map((id) => ({ id }))),
+      updateMany: vi.fn().mockResolvedValue({ count: waiting.length }),
+    },
+    callEvent: { createMany: vi.fn() },
+  };
+  return { tx, db: tx as unknown as Prisma.TransactionClient };
+}
+
+describe("cancelWaitingCalls", () => {
+  it("cancels the jobs still queued, then their calls", async () => {
+    const { tx, db } = fakeTx(["call-1"]);
+
+    const ids = await cancelWaitingCalls(db, ["call-1", "call-2"], {
+      userId: "user-1",
+      reason: "Campaign canceled",
+      now: NOW,
+    });
+
+    expect(ids).toEqual(["call-1"]);
+    expect(tx.dispatchJob.updateMany).toHaveBeenCalledWith({
+      where: {
+        riderCallId: { in: ["call-1", "call-2"] },
+        status: DispatchJobStatus.QUEUED,
+        riderCall: { status: CallStatus.PENDING, runId: null },
+      },
+      data: { status: DispatchJobStatus.CANCELED, completedAt: NOW },
+    });
+    // Only calls whose job we canceled: the outbox may have claimed others
+    expect(tx.riderCall.findMany.mock.calls[0][0].where).toEqual({
+      id: { in: ["call-1", "call-2"] },
+      status: CallStatus.PENDING,
+      runId: null,
+      dispatchJob: { is: { status: DispatchJobStatus.CANCELED } },
+    });
+    expect(tx.riderCall.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ["call-1"] } },
+      data: {
+        status: CallStatus.CANCELED,
+        completedAt: NOW,
+        canceledAt: NOW,
+        canceledByUserId: "user-1",
+        cancelReason: "Campaign canceled",
+      },
+    });
+    expect(tx.callEvent.createMany.mock.calls[0][0].data).toEqual([
+      expect.objectContaining({
+        dedupeKey: "cancel:call-1",
+        riderCallId: "call-1",
+        status: CallStatus.CANCELED,
+      }),
+    ]);
+  });
+
+  it("leaves calls alone when none is waiting", async () => {
+    const { tx, db } = fakeTx([]);
+
+    expect(
+      await cancelWaitingCalls(db, ["call-1"], { userId: null, reason: null }),
+    ).toEqual([]);
+    expect(tx.riderCall.updateMany).not.toHaveBeenCalled();
+    expect(tx.callEvent.createMany).not.toHaveBeenCalled();
+  });
+
+  it("does nothing without calls", async () => {
+    const { tx, db } = fakeTx([]);
+
+    expect(
+      await cancelWaitingCalls(db, [], { userId: null, reason: null }),
+    ).toEqual([]);
+    expect(tx.dispatchJob.updateMany).not.toHaveBeenCalled();
+  });
+});
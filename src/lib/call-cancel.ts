@@ -0,0 +1,215 @@
+import { CallStatus, DispatchJobStatus, Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { publishCallUpdate } from "@/lib/call-events";
+import {
+  riderCallInclude,
+  type RiderCallWithRelations,
+} from "@/lib/rider-calls";
+import { getVoiceProvider } from "@/lib/voice";
+
+export type CancelCallResult =
+  | { ok: true; call: RiderCallWithRelations }
+  | { ok: false; status: 404 | 409 | 502; error: string };
+
+const CANCELABLE_STATUSES: CallStatus[] = [
+  CallStatus.PENDING,
+  CallStatus.RUNNING,
+];
+
+/**
+ * Cancel a PENDING or RUNNING call.
+ *
+ * Calls with a run are canceled at the provider first; a call still waiting
+ * in the dispatch outbox just has its job canceled, in the same transaction
+ * and only while the job is QUEUED, so the outbox can't dial the rider after
+ * the call is marked. The call is only marked CANCELED if its status hasn't
+ * changed meanwhile.
+ */
+export async function cancelRiderCall({
+  callId,
+  userId,
+  reason,
+}: {
+  callId: string;
+  userId: string | null;
+  reason: string | null;
+}): Promise<CancelCallResult> {
+  const call = await prisma.riderCall.findUnique({
+    where: { id: callId },
+    include: { dispatchJob: { select: { status: true } } },
+  });
+  if (!call) return { ok: false, status: 404, error: "Call not found" };
+
+  if (!CANCELABLE_STATUSES.includes(call.status)) {
+    return {
+      ok: false,
+      status: 409,
+      error: `Call is already ${call.status}`,
+    };
+  }
+
+  // The trigger is being sent right now; we'd have no run id to cancel yet
+  if (call.dispatchJob?.status === DispatchJobStatus.PROCESSING) {
+    return {
+      ok: false,
+      status: 409,
+      error: "Call is being dispatched, try again in a moment",
+    };
+  }
+  // Sent, but the provider gave no run id: nothing we can cancel there
+  if (!call.runId && call.dispatchJob?.status === DispatchJobStatus.SUCCEEDED) {
+    return {
+      ok: false,
+      status: 409,
+      error: "Call was already sent to the provider without a run id",
+    };
+  }
+
+  if (call.runId) {
+    const canceled = await getVoiceProvider().cancelRun(call.runId);
+    if (!canceled.ok) {
+      console.error(
+        `[Cancel] Provider cancel failed for call ${call.id}: ${canceled.error}`,
+      );
+      return {
+        ok: false,
+        status: 502,
+        error: `Provider could not cancel the run: ${canceled.error}`,
+      };
+    }
+  }
+
+  const now = new Date();
+  const applied = await prisma.$transaction(async (tx) => {
+    // Claim the job first: if the outbox got to it since we read the call,
+    // the trigger is on its way
+    const job = call.dispatchJob
+      ? await tx.dispatchJob.updateMany({
+          where: { riderCallId: call.id, status: DispatchJobStatus.QUEUED },
+          data: { status: DispatchJobStatus.CANCELED, completedAt: now },
+        })
+      : null;
+    if (!call.runId && job?.count === 0) return "dispatching";
+
+    const res = await tx.riderCall.updateMany({
+      where: { id: call.id, status: call.status },
+      data: {
+        status: CallStatus.CANCELED,
+        completedAt: now,
+        canceledAt: now,
+        canceledByUserId: userId,
+        cancelReason: reason,
+      },
+    });
+    if (res.count === 0) {
+      // Leave the job as it was
+      if (job?.count) {
+        await tx.dispatchJob.updateMany({
+          where: { riderCallId: call.id, status: DispatchJobStatus.CANCELED },
+          data: { status: DispatchJobStatus.QUEUED, completedAt: null },
+        });
+      }
+      return "changed";
+    }
+
+    await tx.callEvent.create({
+      data: {
+        dedupeKey: `cancel:${call.id}`,
+        source: "user_cancel",
+        outcome: "applied",
+        status: CallStatus.CANCELED,
+        payload: { userId, reason },
+        riderCallId: call.id,
+        receivedAt: now,
+      },
+    });
+    return "applied";
+  });
+
+  if (applied === "dispatching") {
+    return {
+      ok: false,
+      status: 409,
+      error: "Call is being dispatched, try again in a moment",
+    };
+  }
+  if (applied === "changed") {
+    return {
+      ok: false,
+      status: 409,
+      error: "Call status changed while canceling",
+    };
+  }
+
+  await publishCallUpdate(call.id);
+
+  const updated = await prisma.riderCall.findUniqueOrThrow({
+    where: { id: call.id },
+    include: riderCallInclude,
+  });
+  return { ok: true, call: updated };
+}
+
+/**
+ * Cancel the calls among `riderCallIds` that are still waiting in the
+ * dispatch outbox (PENDING, job QUEUED), inside the caller's transaction.
+ * Calls the outbox has claimed or sent are left alone. Returns the ids of
+ * the canceled calls; publishing their updates is up to the caller, after
+ * commit.
+ */
+export async function cancelWaitingCalls(
+  tx: Prisma.TransactionClient,
+  riderCallIds: string[],
+  {
+    userId,
+    reason,
+    now = new Date(),
+  }: { userId: string | null; reason: string | null; now?: Date },
+): Promise<string[]> {
+  if (riderCallIds.length === 0) return [];
+
+  // Claim the jobs first, as cancelRiderCall does
+  await tx.dispatchJob.updateMany({
+    where: {
+      riderCallId: { in: riderCallIds },
+      status: DispatchJobStatus.QUEUED,
+      riderCall: { status: CallStatus.PENDING, runId: null },
+    },
+    data: { status: DispatchJobStatus.CANCELED, completedAt: now },
+  });
+  const waiting = await tx.riderCall.findMany({
+    where: {
+      id: { in: riderCallIds },
+      status: CallStatus.PENDING,
+      runId: null,
+      dispatchJob: { is: { status: DispatchJobStatus.CANCELED } },
+    },
+    select: { id: true },
+  });
+  const ids = waiting.map((c) => c.id);
+  if (ids.length === 0) return [];
+
+  await tx.riderCall.updateMany({
+    where: { id: { in: ids } },
+    data: {
+      status: CallStatus.CANCELED,
+      completedAt: now,
+      canceledAt: now,
+      canceledByUserId: userId,
+      cancelReason: reason,
+    },
+  });
+  await tx.callEvent.createMany({
+    data: ids.map((id) => ({
+      dedupeKey: `cancel:${id}`,
+      source: "user_cancel",
+      outcome: "applied",
+      status: CallStatus.CANCELED,
+      payload: { userId, reason },
+      riderCallId: id,
+      receivedAt: now,
+    })),
+    skipDuplicates: true,
+  });
+  return ids;
+}
@@ -0,0 +1,51 @@
+import { EventEmitter } from "node:events";
+import prisma from "@/lib/prisma";
+import {
+  riderCallInclude,
+  type RiderCallWithRelations,
+} from "@/lib/rider-calls";
+
+/**
+ * In-process pub/sub for RiderCall changes, consumed by the SSE stream
+ * (GET /api/calls/stream).
+ *
+ * Kept on globalThis so API routes and the background worker share one
+ * emitter. Events only reach browsers connected to the same server instance;
+ * clients fall back to polling otherwise.
+ */
+
+type CallListener = (call: RiderCallWithRelations) => void;
+
+const globalForCallEvents = globalThis as unknown as {
+  callEvents: EventEmitter | undefined;
+};
+
+const callEvents = globalForCallEvents.callEvents ?? new EventEmitter();
+// One listener per open browser tab
+callEvents.setMaxListeners(0);
+globalForCallEvents.callEvents = callEvents;
+
+export function subscribeToCallUpdates(listener: CallListener): () => void {
+  callEvents.on("call", listener);
+  return () => {
+    callEvents.off("call", listener);
+  };
+}
+
+/**
+ * Broadcast the current state of a call. Never throws: a failed publish must
+ * not break the write path that triggered it.
+ */
+export async function publishCallUpdate(callId: string): Promise<void> {
+  if (callEvents.listenerCount("call") === 0) return;
+
+  try {
+    const call = await prisma.riderCall.findUnique({
+      where: { id: callId },
+      include: riderCallInclude,
+    });
+    if (call) callEvents.emit("call", call);
+  } catch (error) {
+    console.error(`[Call Events] Failed to publish ${callId}:`, error);
+  }
+}
@@ -0,0 +1,213 @@
+import { Prisma } from "@prisma/client";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  FrequencyCaps,
+  checkCallFrequency,
+  getFrequencyCaps,
+  reserveDial,
+} from "@/lib/call-frequency";
+
+const tx = vi.hoisted(() => ({
+  $executeRaw: vi.fn(),
+  riderCall: { findMany: vi.fn(), update: vi.fn() },
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  default: {
+    $transaction: (fn: (client: typeof tx) => Promise<unknown>) => fn(tx),
+  },
+}));
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const NOW = new Date("2026-10-19T12:00:00.000Z");
+const CAPS: FrequencyCaps = { perDay: 3, perWeek: 7, minGapMinutes: 60 };
+const PHONE = "+351912345678";
+
+/** Calls dialed `ago` ms before NOW, most recent first like the query. */
+function dialed(...ago: number[]) {
+  return ago
+    .sort((a, b) => a - b)
+    .map((ms) => ({ dialedAt: new Date(NOW.getTime() - ms) }));
+}
+
+function dbWith(rows: { dialedAt: Date }[]) {
+  const findMany = vi.fn().mockResolvedValue(rows);
+  const db = { riderCall: { findMany } } as unknown as Prisma.TransactionClient;
+  return { db, findMany };
+}
+
+describe("checkCallFrequency", () => {
+  it("allows a number under every cap", async () => {
+    const { db } = dbWith(dialed(2 * HOUR, 2 * DAY));
+    expect(
+      await checkCallFrequency(db, PHONE, { now: NOW, caps: CAPS }),
+    ).toEqual({ ok: true });
+  });
+
+  it("looks back a week on the number, leaving out the call being dialed", async () => {
+    const { db, findMany } = dbWith([]);
+    // Stored in national form, as legacy riders may be
+    await checkCallFrequency(db, "912345678", {
+      now: NOW,
+      caps: CAPS,
+      excludeCallId: "call-1",
+    });
+    expect(findMany.mock.calls[0][0].where).toEqual({
+      rider: {
+        phoneNumber: { in: ["+351912345678", "351912345678", "912345678"] },
+      },
+      dialedAt: { gt: new Date(NOW.getTime() - 7 * DAY) },
+      id: { not: "call-1" },
+    });
+  });
+
+  it("enforces the minimum gap", async () => {
+    const { db } = dbWith(dialed(20 * MINUTE));
+    expect(
+      await checkCallFrequency(db, PHONE, { now: NOW, caps: CAPS }),
+    ).toEqual({
+      ok: false,
+      error:
+        "Call frequency cap reached (Minimum gap of 60 min between calls to this number)",
+      nextAllowedAt: new Date(NOW.getTime() + 40 * MINUTE),
+    });
+  });
+
+  it("counts the day cap over a rolling 24 h", async () => {
+    const { db } = dbWith(dialed(2 * HOUR, 5 * HOUR, 20 * HOUR, 30 * HOUR));
+    const check = await checkCallFrequency(db, PHONE, {
+      now: NOW,
+      caps: CAPS,
+    });
+    expect(check).toEqual({
+      ok: false,
+      error: "Call frequency cap reached (3 calls per day to this number)",
+      // The call 20 h ago leaves the window in 4 h
+      nextAllowedAt: new Date(NOW.getTime() + 4 * HOUR),
+    });
+  });
+
+  it("counts the week cap over a rolling 7 days", async () => {
+    const { db } = dbWith(
+      dialed(2 * DAY, 3 * DAY, 4 * DAY, 5 * DAY, 6 * DAY, 6.5 * DAY),
+    );
+    const check = await checkCallFrequency(db, PHONE, {
+      now: NOW,
+      caps: { ...CAPS, perWeek: 5 },
+    });
+    expect(check).toEqual({
+      ok: false,
+      error: "Call frequency cap reached (5 calls per week to this number)",
+      nextAllowedAt: new Date(NOW.getTime() + DAY),
+    });
+  });
+
+  it("waits for the latest of several caps", async () => {
+    const { db } = dbWith(dialed(10 * MINUTE, 1 * HOUR, 2 * HOUR));
+    const check = await checkCallFrequency(db, PHONE, {
+      now: NOW,
+      caps: CAPS,
+    });
+    expect(check.ok).toBe(false);
+    if (check.ok) return;
+    expect(check.error).toBe(
+      "Call frequency cap reached (Minimum gap of 60 min between calls to this number; 3 calls per day to this number)",
+    );
+    expect(check.nextAllowedAt).toEqual(new Date(NOW.getTime() + 22 * HOUR));
+  });
+
+  it("skips caps set to 0", async () => {
+    const { db } = dbWith(dialed(1 * MINUTE, 2 * MINUTE, 3 * MINUTE));
+    expect(
+      await checkCallFrequency(db, PHONE, {
+        now: NOW,
+        caps: { perDay: 0, perWeek: 0, minGapMinutes: 0 },
+      }),
+    ).toEqual({ ok: true });
+  });
+});
+
+describe("getFrequencyCaps", () => {
+  const NAMES = [
+    "CALL_CAP_PER_DAY",
+    "CALL_CAP_PER_WEEK",
+    "CALL_MIN_GAP_MINUTES",
+  ];
+  const original = NAMES.map((name) => process.env[name]);
+
+  afterEach(() => {
+    NAMES.forEach((name, i) => {
+      if (original[i] === undefined) delete process.env[name];
+      else process.env[name] = original[i];
+    });
+  });
+
+  it("defaults to 3 a day, 7 a week and an hour apart", () => {
+    NAMES.forEach((name) => delete process.env[name]);
+    expect(getFrequencyCaps()).toEqual(CAPS);
+  });
+
+  it("reads the env overrides, 0 included", () => {
+    process.env.CALL_CAP_PER_DAY = "2";
+    process.env.CALL_CAP_PER_WEEK = "0";
+    process.env.CALL_MIN_GAP_MINUTES = " 90 ";
+    expect(getFrequencyCaps()).toEqual({
+      perDay: 2,
+      perWeek: 0,
+      minGapMinutes: 90,
+    });
+  });
+
+  it("ignores invalid overrides", () => {
+    process.env.CALL_CAP_PER_DAY = "-1";
+    process.env.CALL_CAP_PER_WEEK = "2.5";
+    process.env.CALL_MIN_GAP_MINUTES = "soon";
+    expect(getFrequencyCaps()).toEqual(CAPS);
+  });
+});
+
+describe("reserveDial", () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("stamps dialedAt under the number's lock", async () => {
+    tx.riderCall.findMany.mockResolvedValue([]);
+    const check = await reserveDial({
+      riderCallId: "call-1",
+      phoneNumber: PHONE,
+      now: NOW,
+    });
+    expect(check).toEqual({ ok: true });
+    expect(tx.$executeRaw).toHaveBeenCalledTimes(1);
+    expect(tx.$executeRaw.mock.calls[0][1]).toBe(PHONE);
+    expect(tx.riderCall.update).toHaveBeenCalledWith({
+      where: { id: "call-1" },
+      data: { dialedAt: NOW },
+    });
+  });
+
+  it("locks the number whatever its spelling", async () => {
+    tx.riderCall.findMany.mockResolvedValue([]);
+    await reserveDial({
+      riderCallId: "call-1",
+      phoneNumber: "912 345 678",
+      now: NOW,
+    });
+    expect(tx.$executeRaw.mock.calls[0][1]).toBe(PHONE);
+  });
+
+  it("leaves the call alone when a cap is hit", async () => {
+    tx.riderCall.findMany.mockResolvedValue(dialed(5 * MINUTE));
+    const check = await reserveDial({
+      riderCallId: "call-1",
+      phoneNumber: PHONE,
+      now: NOW,
+    });
+    expect(check.ok).toBe(false);
+    expect(tx.riderCall.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,150 @@
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { suppressionKey } from "@/lib/consent";
+import { phoneNumberForms } from "@/lib/phone";
+
+/**
+ * Call frequency caps per phone number.
+ *
+ * Counted over every rider sharing the number (the legacy data reuses
+ * numbers, stored in E.164 or national form), on the calls actually dialed (`RiderCall.dialedAt`), in rolling
+ * 24 h / 7 day windows. The dial guard checks the caps before a call is
+ * created; the dispatch outbox re-checks them and stamps `dialedAt` in one
+ * transaction, holding a lock on the number, right before the provider is
+ * called, so concurrent triggers can't both slip under a cap.
+ *
+ * Env overrides (0 disables a cap):
+ * - CALL_CAP_PER_DAY: calls per number in any 24 h (default 3)
+ * - CALL_CAP_PER_WEEK: calls per number in any 7 days (default 7)
+ * - CALL_MIN_GAP_MINUTES: minutes between two calls to a number (default 60)
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+const DEFAULT_CAPS: FrequencyCaps = {
+  perDay: 3,
+  perWeek: 7,
+  minGapMinutes: 60,
+};
+
+export interface FrequencyCaps {
+  perDay: number;
+  perWeek: number;
+  minGapMinutes: number;
+}
+
+export type FrequencyCheck =
+  | { ok: true }
+  | { ok: false; error: string; nextAllowedAt: Date };
+
+function capFromEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === "") return fallback;
+  const n = Number(raw);
+  return Number.isInteger(n) && n >= 0 ? n : fallback;
+}
+
+export function getFrequencyCaps(): FrequencyCaps {
+  return {
+    perDay: capFromEnv("CALL_CAP_PER_DAY", DEFAULT_CAPS.perDay),
+    perWeek: capFromEnv("CALL_CAP_PER_WEEK", DEFAULT_CAPS.perWeek),
+    minGapMinutes: capFromEnv(
+      "CALL_MIN_GAP_MINUTES",
+      DEFAULT_CAPS.minGapMinutes,
+    ),
+  };
+}
+
+/**
+ * Whether the number may be dialed at `now`. When a cap is hit,
+ * `nextAllowedAt` is when every cap allows a call again.
+ */
+export async function checkCallFrequency(
+  db: Prisma.TransactionClient,
+  phoneNumber: string,
+  {
+    now = new Date(),
+    excludeCallId,
+    caps = getFrequencyCaps(),
+  }: {
+    now?: Date;
+    // The call being dialed, when it is re-checked at dispatch
+    excludeCallId?: string;
+    caps?: FrequencyCaps;
+  } = {},
+): Promise<FrequencyCheck> {
+  const calls = await db.riderCall.findMany({
+    where: {
+      rider: { phoneNumber: { in: phoneNumberForms(phoneNumber) } },
+      dialedAt: { gt: new Date(now.getTime() - WEEK_MS) },
+      ...(excludeCallId ? { id: { not: excludeCallId } } : {}),
+    },
+    orderBy: { dialedAt: "desc" },
+    select: { dialedAt: true },
+  });
+  // Most recent first
+  const dialed = calls.map((c) => (c.dialedAt as Date).getTime());
+
+  const limits: { error: string; until: number }[] = [];
+  const gapMs = caps.minGapMinutes * 60 * 1000;
+  if (gapMs > 0 && dialed.length > 0 && now.getTime() - dialed[0] < gapMs) {
+    limits.push({
+      error: `Minimum gap of ${caps.minGapMinutes} min between calls to this number`,
+      until: dialed[0] + gapMs,
+    });
+  }
+  const lastDay = dialed.filter((t) => now.getTime() - t < DAY_MS);
+  if (caps.perDay > 0 && lastDay.length >= caps.perDay) {
+    limits.push({
+      error: `${caps.perDay} calls per day to this number`,
+      // When the oldest call that keeps the count at the cap drops out
+      until: lastDay[caps.perDay - 1] + DAY_MS,
+    });
+  }
+  if (caps.perWeek > 0 && dialed.length >= caps.perWeek) {
+    limits.push({
+      error: `${caps.perWeek} calls per week to this number`,
+      until: dialed[caps.perWeek - 1] + WEEK_MS,
+    });
+  }
+  if (limits.length === 0) return { ok: true };
+
+  return {
+    ok: false,
+    error: `Call frequency cap reached (${limits.map((l) => l.error).join("; ")})`,
+    nextAllowedAt: new Date(Math.max(...limits.map((l) => l.until))),
+  };
+}
+
+/**
+ * Re-check the caps for a call about to be dialed and, when they allow it,
+ * stamp its `dialedAt`, holding a per-number lock so concurrent dispatches
+ * are counted one after the other.
+ */
+export async function reserveDial({
+  riderCallId,
+  phoneNumber,
+  now = new Date(),
+}: {
+  riderCallId: string;
+  phoneNumber: string;
+  now?: Date;
+}): Promise<FrequencyCheck> {
+  return prisma.$transaction(async (tx): Promise<FrequencyCheck> => {
+    // Keyed like the do-not-call list, so every spelling shares the lock
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${suppressionKey(phoneNumber)}))`;
+
+    const check = await checkCallFrequency(tx, phoneNumber, {
+      now,
+      excludeCallId: riderCallId,
+    });
+    if (!check.ok) return check;
+
+    await tx.riderCall.update({
+      where: { id: riderCallId },
+      data: { dialedAt: now },
+    });
+    return check;
+  });
+}
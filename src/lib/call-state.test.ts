@@ -0,0 +1,125 @@
+import { CallStatus, ContactStatus } from "@prisma/client";
+import { describe, expect, it } from "vitest";
+import {
+  canTransitionCallStatus,
+  canTransitionContactStatus,
+  getTransitionError,
+} from "@/lib/call-state";
+
+const CALL_STATUSES = Object.values(CallStatus);
+const CONTACT_STATUSES = Object.values(ContactStatus);
+
+describe("canTransitionCallStatus", () => {
+  it("always allows re-applying the current status", () => {
+    for (const status of CALL_STATUSES) {
+      expect(canTransitionCallStatus(status, status)).toBe(true);
+    }
+  });
+
+  it.each([
+    [CallStatus.PENDING, CallStatus.RUNNING],
+    [CallStatus.PENDING, CallStatus.COMPLETED],
+    [CallStatus.PENDING, CallStatus.FAILED],
+    [CallStatus.PENDING, CallStatus.CANCELED],
+    [CallStatus.RUNNING, CallStatus.COMPLETED],
+    [CallStatus.RUNNING, CallStatus.FAILED],
+    [CallStatus.RUNNING, CallStatus.CANCELED],
+    [CallStatus.FAILED, CallStatus.COMPLETED],
+  ])("allows %s -> %s", (from, to) => {
+    expect(canTransitionCallStatus(from, to)).toBe(true);
+  });
+
+  it.each([
+    [CallStatus.RUNNING, CallStatus.PENDING],
+    [CallStatus.FAILED, CallStatus.RUNNING],
+    [CallStatus.FAILED, CallStatus.PENDING],
+    [CallStatus.COMPLETED, CallStatus.FAILED],
+    [CallStatus.COMPLETED, CallStatus.RUNNING],
+    [CallStatus.CANCELED, CallStatus.RUNNING],
+    [CallStatus.CANCELED, CallStatus.COMPLETED],
+  ])("rejects %s -> %s", (from, to) => {
+    expect(canTransitionCallStatus(from, to)).toBe(false);
+  });
+
+  it("never leaves COMPLETED or CANCELED", () => {
+    for (const from of [CallStatus.COMPLETED, CallStatus.CANCELED]) {
+      for (const to of CALL_STATUSES.filter((s) => s !== from)) {
+        expect(canTransitionCallStatus(from, to)).toBe(false);
+      }
+    }
+  });
+});
+
+describe("canTransitionContactStatus", () => {
+  it("allows any first outcome", () => {
+    for (const status of CONTACT_STATUSES) {
+      expect(canTransitionContactStatus(null, status)).toBe(true);
+    }
+  });
+
+  it("moves PENDING to a final outcome", () => {
+    expect(
+      canTransitionContactStatus(
+        ContactStatus.PENDING,
+        ContactStatus.COMPLETED,
+      ),
+    ).toBe(true);
+  });
+
+  it("keeps final outcomes final", () => {
+    for (const from of [
+      ContactStatus.NO_ANSWER,
+      ContactStatus.VOICEMAIL,
+      ContactStatus.COMPLETED,
+    ]) {
+      for (const to of CONTACT_STATUSES.filter((s) => s !== from)) {
+        expect(canTransitionContactStatus(from, to)).toBe(false);
+      }
+      expect(canTransitionContactStatus(from, from)).toBe(true);
+    }
+  });
+});
+
+describe("getTransitionError", () => {
+  it("accepts a legal update", () => {
+    expect(
+      getTransitionError(
+        { status: CallStatus.RUNNING, contactStatus: ContactStatus.PENDING },
+        {
+          status: CallStatus.COMPLETED,
+          contactStatus: ContactStatus.NO_ANSWER,
+        },
+      ),
+    ).toBeNull();
+  });
+
+  it("ignores the parts the update leaves out", () => {
+    expect(
+      getTransitionError(
+        { status: CallStatus.COMPLETED, contactStatus: null },
+        { status: null, contactStatus: ContactStatus.VOICEMAIL },
+      ),
+    ).toBeNull();
+  });
+
+  it("names the illegal status transition", () => {
+    expect(
+      getTransitionError(
+        { status: CallStatus.COMPLETED, contactStatus: null },
+        { status: CallStatus.RUNNING },
+      ),
+    ).toBe("Illegal status transition COMPLETED -> RUNNING");
+  });
+
+  it("names the illegal contact status transition", () => {
+    expect(
+      getTransitionError(
+        {
+          status: CallStatus.COMPLETED,
+          contactStatus: ContactStatus.COMPLETED,
+        },
+        { contactStatus: ContactStatus.NO_ANSWER },
+      ),
+    ).toBe("Illegal contact status transition COMPLETED -> NO_ANSWER");
+  });
+});
@@ -0,0 +1,75 @@
+import { CallStatus, ContactStatus } from "@prisma/client";
+
+/**
+ * State machines for RiderCall.status (run lifecycle) and
+ * RiderCall.contactStatus (domain outcome).
+ *
+ * Re-applying the current state is always allowed so duplicate deliveries are
+ * harmless; anything that would move a call backwards is rejected.
+ */
+
+const callStatusTransitions: Record<CallStatus, CallStatus[]> = {
+  PENDING: [
+    CallStatus.RUNNING,
+    CallStatus.COMPLETED,
+    CallStatus.FAILED,
+    CallStatus.CANCELED,
+  ],
+  RUNNING: [CallStatus.COMPLETED, CallStatus.FAILED, CallStatus.CANCELED],
+  // A dispatch can be marked FAILED (e.g. timeout) while the run actually went through
+  FAILED: [CallStatus.COMPLETED],
+  COMPLETED: [],
+  CANCELED: [],
+};
+
+const contactStatusTransitions: Record<ContactStatus, ContactStatus[]> = {
+  PENDING: [
+    ContactStatus.NO_ANSWER,
+    ContactStatus.VOICEMAIL,
+    ContactStatus.COMPLETED,
+  ],
+  NO_ANSWER: [],
+  VOICEMAIL: [],
+  COMPLETED: [],
+};
+
+export const TERMINAL_CALL_STATUSES: CallStatus[] = [
+  CallStatus.COMPLETED,
+  CallStatus.FAILED,
+  CallStatus.CANCELED,
+];
+
+export function canTransitionCallStatus(
+  from: CallStatus,
+  to: CallStatus,
+): boolean {
+  return from === to || callStatusTransitions[from].includes(to);
+}
+
+export function canTransitionContactStatus(
+  from: ContactStatus | null,
+  to: ContactStatus,
+): boolean {
+  if (from === null || from === to) return true;
+  return contactStatusTransitions[from].includes(to);
+}
+
+/**
+ * Validate a proposed update. Returns a human-readable reason when any part
+ * of it is illegal, or null when it can be applied.
+ */
+export function getTransitionError(
+  current: { status: CallStatus; contactStatus: ContactStatus | null },
+  next: { status?: CallStatus | null; contactStatus?: ContactStatus | null },
+): string | null {
+  if (next.status && !canTransitionCallStatus(current.status, next.status)) {
+    return `Illegal status transition ${current.status} -> ${next.status}`;
+  }
+  if (
+    next.contactStatus &&
+    !canTransitionContactStatus(current.contactStatus, next.contactStatus)
+  ) {
+    return `Illegal contact status transition ${current.contactStatus} -> ${next.contactStatus}`;
+  }
+  return null;
+}
@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  logCallbackRejection,
+  signCallbackPayload,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  verifyCallbackRequest,
+} from "@/lib/callback-signature";
+
+const db = vi.hoisted(() => ({
+  callbackRejection: { create: vi.fn() },
+}));
+
+vi.mock("@/lib/prisma", () => ({ default: db }));
+
+const ENV_NAMES = [
+  "HAPPYROBOT_CALLBACK_SIGNING_SECRET",
+  "HAPPYROBOT_CALLBACK_SIGNING_SECRET_PREVIOUS",
+  "HAPPYROBOT_CALLBACK_SECRET",
+  "HAPPYROBOT_CALLBACK_REJECTION_LOG_PER_MINUTE",
+];
+const ORIGINAL_ENV = ENV_NAMES.map((name) => process.env[name]);
+
+const NOW = new Date("2026-10-19T12:00:00.000Z");
+const TIMESTAMP = String(NOW.getTime() / 1000);
+const BODY = '{"event_id":"evt-1"}';
+
+beforeEach(() => {
+  ENV_NAMES.forEach((name) => delete process.env[name]);
+});
+
+afterEach(() => {
+  ENV_NAMES.forEach((name, i) => {
+    if (ORIGINAL_ENV[i] === undefined) delete process.env[name];
+    else process.env[name] = ORIGINAL_ENV[i];
+  });
+  vi.restoreAllMocks();
+  db.callbackRejection.create.mockReset();
+});
+
+function signed(secret: string, timestamp = TIMESTAMP): Headers {
+  return new Headers({
+    [TIMESTAMP_HEADER]: timestamp,
+    [SIGNATURE_HEADER]: signCallbackPayload(secret, timestamp, BODY),
+  });
+}
+
+describe("verifyCallbackRequest", () => {
+  it("accepts deliveries signed with the current or previous secret", () => {
+    process.env.HAPPYROBOT_CALLBACK_SIGNING_SECRET = "current";
+    process.env.HAPPYROBOT_CALLBACK_SIGNING_SECRET_PREVIOUS = "previous";
+    for (const secret of ["current", "previous"]) {
+      expect(verifyCallbackRequest(signed(secret), BODY, NOW)).toEqual({
+        ok: true,
+        mode: "hmac",
+      });
+    }
+  });
+
+  it("refuses bad signatures and stale timestamps", () => {
+    process.env.HAPPYROBOT_CALLBACK_SIGNING_SECRET = "current";
+    expect(verifyCallbackRequest(signed("other"), BODY, NOW)).toEqual({
+      ok: false,
+      reason: "signature_mismatch",
+    });
+    const stale = String(Number(TIMESTAMP) - 301);
+    expect(verifyCallbackRequest(signed("current", stale), BODY, NOW)).toEqual({
+      ok: false,
+      reason: "timestamp_out_of_tolerance",
+    });
+    expect(verifyCallbackRequest(new Headers(), BODY, NOW)).toEqual({
+      ok: false,
+      reason: "missing_signature",
+    });
+  });
+
+  it("falls back to the legacy shared secret", () => {
+    process.env.HAPPYROBOT_CALLBACK_SECRET = "shared";
+    expect(
+      verifyCallbackRequest(
+        new Headers({ "x-happyrobot-callback-secret": "shared" }),
+        BODY,
+        NOW,
+      ),
+    ).toEqual({ ok: true, mode: "secret" });
+    expect(verifyCallbackRequest(new Headers(), BODY, NOW)).toEqual({
+      ok: false,
+      reason: "secret_mismatch",
+    });
+  });
+});
+
+describe("logCallbackRejection", () => {
+  it("stores rejections up to the quota, then only logs them", async () => {
+    process.env.HAPPYROBOT_CALLBACK_REJECTION_LOG_PER_MINUTE = "2";
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const headers = new Headers({
+      "x-forwarded-for": "203.0.113.7, 10.0.0.1",
+      "x-happyrobot-callback-secret": "guess",
+    });
+    const at = (seconds: number) => new Date(NOW.getTime() + seconds * 1000);
+
+    for (const seconds of [0, 10, 20]) {
+      await logCallbackRejection(headers, BODY, "secret_mismatch", at(seconds));
+    }
+    expect(db.callbackRejection.create).toHaveBeenCalledTimes(2);
+    expect(db.callbackRejection.create.mock.calls[0][0].data).toMatchObject({
+      reason: "secret_mismatch",
+      ip: "203.0.113.7",
+      headers: { "x-happyrobot-callback-secret": "[redacted]" },
+    });
+    expect(warn).toHaveBeenCalledWith(
+      "[HappyRobot Callback] rejection not stored (quota reached): secret_mismatch from 203.0.113.7",
+    );
+
+    // The next minute has a fresh quota
+    await logCallbackRejection(headers, BODY, "secret_mismatch", at(61));
+    expect(db.callbackRejection.create).toHaveBeenCalledTimes(3);
+  });
+});
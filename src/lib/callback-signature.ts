@@ -0,0 +1,211 @@
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+
+/**
+ * HappyRobot callback authentication.
+ *
+ * Signed mode (preferred), enabled by HAPPYROBOT_CALLBACK_SIGNING_SECRET:
+ * - `x-happyrobot-timestamp`: unix seconds when the delivery was signed
+ * - `x-happyrobot-signature`: hex HMAC-SHA256 of `${timestamp}.${rawBody}`
+ *   (an optional `sha256=` prefix is accepted)
+ * Deliveries outside the tolerance window are refused, so a captured request
+ * can't be replayed later; replays inside the window are collapsed by the
+ * call event dedupe key.
+ *
+ * During rotation both HAPPYROBOT_CALLBACK_SIGNING_SECRET and
+ * HAPPYROBOT_CALLBACK_SIGNING_SECRET_PREVIOUS are accepted.
+ *
+ * Legacy mode: HAPPYROBOT_CALLBACK_SECRET compared against
+ * `x-happyrobot-callback-secret` (constant-time). Only used when no signing
+ * secret is configured.
+ *
+ * Refused deliveries are stored for inspection, at most
+ * HAPPYROBOT_CALLBACK_REJECTION_LOG_PER_MINUTE (default 20) per process; past
+ * that they only go to the server log, so unauthenticated clients can't fill
+ * the table.
+ */
+
+export const SIGNATURE_HEADER = "x-happyrobot-signature";
+export const TIMESTAMP_HEADER = "x-happyrobot-timestamp";
+
+const DEFAULT_TOLERANCE_SECONDS = 300;
+const BODY_PREVIEW_LENGTH = 4096;
+const DEFAULT_REJECTION_LOG_PER_MINUTE = 20;
+
+export type CallbackRejectionReason =
+  | "missing_signature"
+  | "invalid_timestamp"
+  | "timestamp_out_of_tolerance"
+  | "signature_mismatch"
+  | "secret_mismatch";
+
+export type CallbackVerification =
+  | { ok: true; mode: "hmac" | "secret" | "none" }
+  | { ok: false; reason: CallbackRejectionReason };
+
+export function getCallbackSigningSecrets(): string[] {
+  return [
+    process.env.HAPPYROBOT_CALLBACK_SIGNING_SECRET,
+    process.env.HAPPYROBOT_CALLBACK_SIGNING_SECRET_PREVIOUS,
+  ].filter((s): s is string => !!s && s.trim() !== "");
+}
+
+function getToleranceSeconds(): number {
+  const n = Number(process.env.HAPPYROBOT_CALLBACK_TOLERANCE_SECONDS);
+  return Number.isFinite(n) && n > 0 ? n : DEFAULT_TOLERANCE_SECONDS;
+}
+
+export function signCallbackPayload(
+  secret: string,
+  timestamp: string,
+  rawBody: string,
+): string {
+  return createHmac("sha256", secret)
+    .update(`${timestamp}.${rawBody}`)
+    .digest("hex");
+}
+
+/**
+ * Headers that authenticate a delivery with the current configuration. Used
+ * by the local mock provider and simulator when they call back into the app.
+ */
+export function signedCallbackHeaders(
+  rawBody: string,
+  now = new Date(),
+): Record<string, string> {
+  const [secret] = getCallbackSigningSecrets();
+  if (secret) {
+    const timestamp = String(Math.floor(now.getTime() / 1000));
+    return {
+      [TIMESTAMP_HEADER]: timestamp,
+      [SIGNATURE_HEADER]: signCallbackPayload(secret, timestamp, rawBody),
+    };
+  }
+  const legacySecret = process.env.HAPPYROBOT_CALLBACK_SECRET;
+  return legacySecret ? { "x-happyrobot-callback-secret": legacySecret } : {};
+}
+
+// Hash both sides first so timingSafeEqual always gets equal-length buffers
+export function safeEqual(a: string, b: string): boolean {
+  const da = createHash("sha256").update(a).digest();
+  const db = createHash("sha256").update(b).digest();
+  return timingSafeEqual(da, db);
+}
+
+export function verifyCallbackRequest(
+  headers: Headers,
+  rawBody: string,
+  now = new Date(),
+): CallbackVerification {
+  const secrets = getCallbackSigningSecrets();
+
+  if (secrets.length > 0) {
+    const signature = headers.get(SIGNATURE_HEADER)?.replace(/^sha256=/, "");
+    const timestamp = headers.get(TIMESTAMP_HEADER);
+    if (!signature) return { ok: false, reason: "missing_signature" };
+    if (!timestamp || !/^\d+$/.test(timestamp)) {
+      return { ok: false, reason: "invalid_timestamp" };
+    }
+
+    const skew = Math.abs(now.getTime() / 1000 - Number(timestamp));
+    if (skew > getToleranceSeconds()) {
+      return { ok: false, reason: "timestamp_out_of_tolerance" };
+    }
+
+    // Check every secret (no early exit) so timing doesn't reveal which matched
+    let matched = false;
+    for (const secret of secrets) {
+      const expected = signCallbackPayload(secret, timestamp, rawBody);
+      if (safeEqual(expected, signature.toLowerCase())) matched = true;
+    }
+    return matched
+      ? { ok: true, mode: "hmac" }
+      : { ok: false, reason: "signature_mismatch" };
+  }
+
+  const legacySecret = process.env.HAPPYROBOT_CALLBACK_SECRET;
+  if (legacySecret) {
+    const provided =
+      headers.get("x-happyrobot-callback-secret") ||
+      headers.get("x-callback-secret") ||
+      "";
+    return safeEqual(provided, legacySecret)
+      ? { ok: true, mode: "secret" }
+      : { ok: false, reason: "secret_mismatch" };
+  }
+
+  return { ok: true, mode: "none" };
+}
+
+// Never persist credentials sent alongside a delivery
+const REDACTED_HEADERS = new Set([
+  "authorization",
+  "cookie",
+  "x-api-key",
+  "x-happyrobot-callback-secret",
+  "x-callback-secret",
+]);
+
+const globalForRejections = globalThis as unknown as {
+  callbackRejectionWindow: { startedAt: number; stored: number } | undefined;
+};
+
+function getRejectionLogPerMinute(): number {
+  const n = Number(process.env.HAPPYROBOT_CALLBACK_REJECTION_LOG_PER_MINUTE);
+  return Number.isInteger(n) && n >= 0 ? n : DEFAULT_REJECTION_LOG_PER_MINUTE;
+}
+
+/** Whether another rejection may be stored in the current minute. */
+function takeRejectionSlot(now: number): boolean {
+  let window = globalForRejections.callbackRejectionWindow;
+  if (!window || now - window.startedAt >= 60_000) {
+    window = { startedAt: now, stored: 0 };
+    globalForRejections.callbackRejectionWindow = window;
+  }
+  if (window.stored >= getRejectionLogPerMinute()) return false;
+  window.stored++;
+  return true;
+}
+
+/**
+ * Store a refused delivery for inspection, or only log it once this
+ * minute's quota is used up. Never throws.
+ */
+export async function logCallbackRejection(
+  headers: Headers,
+  rawBody: string,
+  reason: CallbackRejectionReason,
+  now = new Date(),
+): Promise<void> {
+  const ip =
+    headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+    headers.get("x-real-ip") ||
+    null;
+  if (!takeRejectionSlot(now.getTime())) {
+    console.warn(
+      `[HappyRobot Callback] rejection not stored (quota reached): ${reason} from ${ip ?? "unknown"}`,
+    );
+    return;
+  }
+
+  const headerRecord: Record<string, string> = {};
+  headers.forEach((value, key) => {
+    headerRecord[key] = REDACTED_HEADERS.has(key) ? "[redacted]" : value;
+  });
+
+  try {
+    await prisma.callbackRejection.create({
+      data: {
+        reason,
+        ip,
+        signature: headers.get(SIGNATURE_HEADER),
+        timestamp: headers.get(TIMESTAMP_HEADER),
+        headers: headerRecord as Prisma.InputJsonValue,
+        bodyPreview: rawBody.slice(0, BODY_PREVIEW_LENGTH),
+      },
+    });
+  } catch (error) {
+    console.error("[HappyRobot Callback] failed to log rejection:", error);
+  }
+}
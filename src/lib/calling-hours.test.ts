@@ -0,0 +1,266 @@
+import { CallingHoliday, CallingWindow } from "@prisma/client";
+import { describe, expect, it, vi } from "vitest";
+import {
+  CallingHours,
+  CallingPolicy,
+  describeCallingHours,
+  getCallingHours,
+  getLocalTime,
+  isWithinCallingHours,
+  nextCallingSlot,
+} from "@/lib/calling-hours";
+
+vi.mock("@/lib/prisma", () => ({ default: {} }));
+
+function window(fields: Partial<CallingWindow>): CallingWindow {
+  return {
+    id: "w",
+    country: "PT",
+    city: "",
+    timeZone: "Europe/Lisbon",
+    weekdays: [1, 2, 3, 4, 5],
+    startMinute: 9 * 60,
+    endMinute: 20 * 60,
+    active: true,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+    ...fields,
+  } as CallingWindow;
+}
+
+function holiday(fields: Partial<CallingHoliday>): CallingHoliday {
+  return {
+    id: "h",
+    country: "PT",
+    city: "",
+    date: new Date("2026-12-25T00:00:00.000Z"),
+    name: "Natal",
+    recurring: false,
+    createdAt: new Date(0),
+    ...fields,
+  } as CallingHoliday;
+}
+
+const LISBON: CallingHours = {
+  scope: "PT",
+  timeZone: "Europe/Lisbon",
+  weekdays: [1, 2, 3, 4, 5],
+  startMinute: 9 * 60,
+  endMinute: 20 * 60,
+  holidays: [],
+};
+
+const PT_MOBILE = "+351912345678";
+const ES_MOBILE = "+34612345678";
+
+describe("getCallingHours", () => {
+  const policy: CallingPolicy = {
+    windows: [
+      window({ id: "pt", country: "PT" }),
+      window({
+        id: "es",
+        country: "ES",
+        timeZone: "Europe/Madrid",
+        startMinute: 10 * 60,
+      }),
+      window({ id: "porto", country: "PT", city: "porto", endMinute: 19 * 60 }),
+    ],
+    holidays: [
+      holiday({ country: "PT" }),
+      holiday({
+        country: "PT",
+        city: "porto",
+        date: new Date("2026-06-24T00:00:00.000Z"),
+        name: "São João",
+        recurring: true,
+      }),
+      holiday({ country: "ES", date: new Date("2026-10-12T00:00:00.000Z") }),
+    ],
+  };
+
+  it("prefers the rider's city window", () => {
+    const hours = getCallingHours(policy, {
+      city: " Porto ",
+      phoneNumber: PT_MOBILE,
+    });
+    expect(hours.scope).toBe("porto");
+    expect(hours.endMinute).toBe(19 * 60);
+    expect(hours.holidays).toEqual(["2026-12-25", "06-24"]);
+  });
+
+  it("prefers the city window of the phone's country", () => {
+    const hours = getCallingHours(
+      {
+        ...policy,
+        windows: [
+          window({ id: "es-porto", country: "ES", city: "porto" }),
+          ...policy.windows,
+        ],
+      },
+      { city: "porto", phoneNumber: PT_MOBILE },
+    );
+    expect(hours.scope).toBe("porto");
+    expect(hours.endMinute).toBe(19 * 60);
+  });
+
+  it("falls back to the window of the phone's country", () => {
+    const hours = getCallingHours(policy, {
+      city: "Valencia",
+      phoneNumber: ES_MOBILE,
+    });
+    expect(hours.scope).toBe("ES");
+    expect(hours.timeZone).toBe("Europe/Madrid");
+    expect(hours.startMinute).toBe(10 * 60);
+    expect(hours.holidays).toEqual(["2026-10-12"]);
+  });
+
+  it("uses the default hours with the phone country's holidays", () => {
+    const hours = getCallingHours(
+      { ...policy, windows: [] },
+      { city: null, phoneNumber: PT_MOBILE },
+    );
+    expect(hours.scope).toBeNull();
+    expect(hours.startMinute).toBe(9 * 60);
+    expect(hours.endMinute).toBe(20 * 60);
+    expect(hours.holidays).toEqual(["2026-12-25"]);
+  });
+
+  it("uses the default hours for an unparseable number", () => {
+    const hours = getCallingHours(policy, { city: "", phoneNumber: "abc" });
+    expect(hours.scope).toBeNull();
+    expect(hours.holidays).toEqual([]);
+  });
+});
+
+describe("getLocalTime", () => {
+  it("crosses midnight in the rider's zone", () => {
+    // 00:30 CEST on Tuesday
+    expect(
+      getLocalTime(new Date("2026-10-19T22:30:00.000Z"), "Europe/Madrid"),
+    ).toEqual({ date: "2026-10-20", weekday: 2, minute: 30 });
+  });
+});
+
+describe("isWithinCallingHours", () => {
+  it("includes the start and excludes the end", () => {
+    // Monday, WEST (UTC+1)
+    expect(
+      isWithinCallingHours(new Date("2026-10-19T07:59:00.000Z"), LISBON),
+    ).toBe(false);
+    expect(
+      isWithinCallingHours(new Date("2026-10-19T08:00:00.000Z"), LISBON),
+    ).toBe(true);
+    expect(
+      isWithinCallingHours(new Date("2026-10-19T18:59:00.000Z"), LISBON),
+    ).toBe(true);
+    expect(
+      isWithinCallingHours(new Date("2026-10-19T19:00:00.000Z"), LISBON),
+    ).toBe(false);
+  });
+
+  it("follows the daylight saving change in spring", () => {
+    // Friday 27 March, WET (UTC+0)
+    expect(
+      isWithinCallingHours(new Date("2026-03-27T08:30:00.000Z"), LISBON),
+    ).toBe(false);
+    // Monday 30 March, WEST (UTC+1)
+    expect(
+      isWithinCallingHours(new Date("2026-03-30T08:30:00.000Z"), LISBON),
+    ).toBe(true);
+  });
+
+  it("follows the daylight saving change in autumn", () => {
+    const madrid = { ...LISBON, timeZone: "Europe/Madrid" };
+    // Friday 23 October, CEST (UTC+2): 20:30 local
+    expect(
+      isWithinCallingHours(new Date("2026-10-23T18:30:00.000Z"), madrid),
+    ).toBe(false);
+    // Monday 26 October, CET (UTC+1): 19:30 local
+    expect(
+      isWithinCallingHours(new Date("2026-10-26T18:30:00.000Z"), madrid),
+    ).toBe(true);
+  });
+
+  it("skips days outside the window's weekdays", () => {
+    // Saturday 24 October, 12:00 local
+    expect(
+      isWithinCallingHours(new Date("2026-10-24T11:00:00.000Z"), LISBON),
+    ).toBe(false);
+  });
+
+  it("allows a window that runs to midnight", () => {
+    const late = { ...LISBON, startMinute: 22 * 60, endMinute: 24 * 60 };
+    expect(
+      isWithinCallingHours(new Date("2026-10-19T22:59:00.000Z"), late),
+    ).toBe(true);
+    expect(
+      isWithinCallingHours(new Date("2026-10-19T23:00:00.000Z"), late),
+    ).toBe(false);
+  });
+
+  it("skips dated and recurring holidays in local time", () => {
+    const noon = new Date("2026-10-20T11:00:00.000Z");
+    expect(isWithinCallingHours(noon, LISBON)).toBe(true);
+    expect(
+      isWithinCallingHours(noon, { ...LISBON, holidays: ["2026-10-20"] }),
+    ).toBe(false);
+    expect(isWithinCallingHours(noon, { ...LISBON, holidays: ["10-20"] })).toBe(
+      false,
+    );
+    // 00:30 on the 20th in Lisbon is still the 19th in UTC
+    const late = { ...LISBON, startMinute: 0, holidays: ["10-20"] };
+    expect(
+      isWithinCallingHours(new Date("2026-10-19T23:30:00.000Z"), late),
+    ).toBe(false);
+  });
+});
+
+describe("nextCallingSlot", () => {
+  it("returns an allowed time unchanged", () => {
+    const from = new Date("2026-10-19T10:07:00.000Z");
+    expect(nextCallingSlot(from, LISBON)).toBe(from);
+  });
+
+  it("waits for the window to open", () => {
+    expect(
+      nextCallingSlot(new Date("2026-10-19T06:52:00.000Z"), LISBON),
+    ).toEqual(new Date("2026-10-19T08:00:00.000Z"));
+  });
+
+  it("aligns to a 15-minute slot", () => {
+    const hours = { ...LISBON, startMinute: 9 * 60 + 5 };
+    expect(
+      nextCallingSlot(new Date("2026-10-19T07:00:00.000Z"), hours),
+    ).toEqual(new Date("2026-10-19T08:15:00.000Z"));
+  });
+
+  it("skips the weekend and holidays", () => {
+    // Friday 20:05 local
+    const from = new Date("2026-10-23T19:05:00.000Z");
+    expect(nextCallingSlot(from, LISBON)).toEqual(
+      new Date("2026-10-26T09:00:00.000Z"),
+    );
+    expect(
+      nextCallingSlot(from, { ...LISBON, holidays: ["2026-10-26"] }),
+    ).toEqual(new Date("2026-10-27T09:00:00.000Z"));
+  });
+
+  it("returns null when the window never opens", () => {
+    const from = new Date("2026-10-19T06:00:00.000Z");
+    expect(nextCallingSlot(from, { ...LISBON, weekdays: [] })).toBeNull();
+    expect(
+      nextCallingSlot(from, { ...LISBON, startMinute: 600, endMinute: 600 }),
+    ).toBeNull();
+  });
+});
+
+describe("describeCallingHours", () => {
+  it("names the scope, window and zone", () => {
+    expect(describeCallingHours({ ...LISBON, scope: "lisboa" })).toBe(
+      "lisboa, 09:00-20:00 Europe/Lisbon",
+    );
+    expect(
+      describeCallingHours({ ...LISBON, scope: null, endMinute: 24 * 60 }),
+    ).toBe("default, 09:00-24:00 Europe/Lisbon");
+  });
+});
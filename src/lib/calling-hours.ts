@@ -0,0 +1,253 @@
+import { CallingHoliday, CallingWindow, Prisma, Rider } from "@prisma/client";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { parsePhone } from "@/lib/phone";
+
+/**
+ * Allowed calling hours (rider local time).
+ *
+ * Windows (CallingWindow) are set per country and, optionally, per city; a
+ * city window wins over its country's. `Rider.city` is matched
+ * case-insensitively; riders without a city window get the window of their
+ * phone number's country, and riders matching no window fall back to
+ * DEFAULT_CALLING_HOURS. No calls are made on the national holidays of the
+ * window's country (the phone's country without a window), nor on the
+ * rider's city holidays (CallingHoliday).
+ */
+
+export interface CallingHours {
+  /** City or country the window was configured for; null for the default */
+  scope: string | null;
+  timeZone: string;
+  // ISO weekdays (1 = Monday … 7 = Sunday)
+  weekdays: number[];
+  // Inclusive start / exclusive end, in local minutes after midnight
+  startMinute: number;
+  endMinute: number;
+  // Local dates without calls: YYYY-MM-DD, or MM-DD every year
+  holidays: string[];
+}
+
+export interface CallingPolicy {
+  windows: CallingWindow[];
+  holidays: CallingHoliday[];
+}
+
+const DEFAULT_CALLING_HOURS: CallingHours = {
+  scope: null,
+  timeZone: "Europe/Madrid",
+  weekdays: [1, 2, 3, 4, 5, 6, 7],
+  startMinute: 9 * 60,
+  endMinute: 20 * 60,
+  holidays: [],
+};
+
+// Slot granularity when searching for the next allowed time
+const SLOT_MINUTES = 15;
+// Long enough to get past a holiday bridging a weekend
+const MAX_LOOKAHEAD_DAYS = 15;
+
+const WEEKDAYS: Record<string, number> = {
+  Mon: 1,
+  Tue: 2,
+  Wed: 3,
+  Thu: 4,
+  Fri: 5,
+  Sat: 6,
+  Sun: 7,
+};
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let fmt = formatterCache.get(timeZone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat("en-GB", {
+      timeZone,
+      weekday: "short",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    });
+    formatterCache.set(timeZone, fmt);
+  }
+  return fmt;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-GB", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const countrySchema = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z]{2}$/, "Use a two-letter country code")
+  .transform((value) => value.toUpperCase());
+
+const citySchema = z
+  .string()
+  .trim()
+  .max(60)
+  .transform((value) => value.toLowerCase())
+  .default("");
+
+const minuteSchema = z
+  .number()
+  .int()
+  .min(0)
+  .max(24 * 60);
+
+export const callingWindowSchema = z
+  .object({
+    country: countrySchema,
+    city: citySchema,
+    timeZone: z.string().trim().refine(isValidTimeZone, "Unknown time zone"),
+    weekdays: z
+      .array(z.number().int().min(1).max(7))
+      .min(1)
+      .max(7)
+      .transform((days) => Array.from(new Set(days)).sort((a, b) => a - b)),
+    startMinute: minuteSchema,
+    endMinute: minuteSchema,
+    active: z.boolean().default(true),
+  })
+  .refine((window) => window.startMinute < window.endMinute, {
+    message: "The window must end after it starts",
+    path: ["endMinute"],
+  });
+
+export const callingHolidaySchema = z.object({
+  country: countrySchema,
+  city: citySchema,
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD")
+    .transform((value) => new Date(`${value}T00:00:00.000Z`))
+    .refine((date) => !Number.isNaN(date.getTime()), "Invalid date"),
+  name: z.string().trim().min(1).max(120),
+  recurring: z.boolean().default(false),
+});
+
+/**
+ * Active windows and the holidays still ahead (recurring ones always).
+ */
+export async function loadCallingPolicy(
+  db: Prisma.TransactionClient = prisma,
+  now = new Date(),
+): Promise<CallingPolicy> {
+  const yesterday = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+  const [windows, holidays] = await Promise.all([
+    db.callingWindow.findMany({ where: { active: true } }),
+    db.callingHoliday.findMany({
+      where: { OR: [{ recurring: true }, { date: { gte: yesterday } }] },
+    }),
+  ]);
+  return { windows, holidays };
+}
+
+function holidayKey(holiday: CallingHoliday): string {
+  const date = holiday.date.toISOString().slice(0, 10);
+  return holiday.recurring ? date.slice(5) : date;
+}
+
+export function getCallingHours(
+  policy: CallingPolicy,
+  rider: Pick<Rider, "city" | "phoneNumber">,
+): CallingHours {
+  const city = (rider.city || "").trim().toLowerCase();
+  const phone = parsePhone(rider.phoneNumber);
+  const country = phone.ok ? phone.phone.country : null;
+
+  const cityWindows = city ? policy.windows.filter((w) => w.city === city) : [];
+  const window =
+    cityWindows.find((w) => w.country === country) ??
+    cityWindows[0] ??
+    policy.windows.find((w) => w.city === "" && w.country === country);
+  const holidaysOf = (holidayCountry: string | null) =>
+    policy.holidays
+      .filter(
+        (h) =>
+          h.country === holidayCountry && (h.city === "" || h.city === city),
+      )
+      .map(holidayKey);
+  if (!window) {
+    return { ...DEFAULT_CALLING_HOURS, holidays: holidaysOf(country) };
+  }
+
+  return {
+    scope: window.city || window.country,
+    timeZone: window.timeZone,
+    weekdays: window.weekdays,
+    startMinute: window.startMinute,
+    endMinute: window.endMinute,
+    holidays: holidaysOf(window.country),
+  };
+}
+
+/** Local date (YYYY-MM-DD), ISO weekday and minute of `date` in the zone. */
+export function getLocalTime(
+  date: Date,
+  timeZone: string,
+): { date: string; weekday: number; minute: number } {
+  const parts = getFormatter(timeZone).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value || "";
+  return {
+    date: `${part("year")}-${part("month")}-${part("day")}`,
+    weekday: WEEKDAYS[part("weekday")] || 0,
+    minute: Number(part("hour")) * 60 + Number(part("minute")),
+  };
+}
+
+export function isWithinCallingHours(date: Date, hours: CallingHours): boolean {
+  const local = getLocalTime(date, hours.timeZone);
+  return (
+    hours.weekdays.indexOf(local.weekday) !== -1 &&
+    local.minute >= hours.startMinute &&
+    local.minute < hours.endMinute &&
+    hours.holidays.indexOf(local.date) === -1 &&
+    hours.holidays.indexOf(local.date.slice(5)) === -1
+  );
+}
+
+/**
+ * Earliest time >= `from` that falls inside the calling hours.
+ * Returns `from` unchanged when it is already allowed, and null when no slot
+ * turns up within MAX_LOOKAHEAD_DAYS.
+ */
+export function nextCallingSlot(from: Date, hours: CallingHours): Date | null {
+  if (isWithinCallingHours(from, hours)) return from;
+
+  // Align to the slot grid, then walk forward until we hit an allowed slot.
+  const slotMs = SLOT_MINUTES * 60 * 1000;
+  let t = Math.ceil(from.getTime() / slotMs) * slotMs;
+  const limit = from.getTime() + MAX_LOOKAHEAD_DAYS * 24 * 60 * 60 * 1000;
+
+  while (t <= limit) {
+    const candidate = new Date(t);
+    if (isWithinCallingHours(candidate, hours)) return candidate;
+    t += slotMs;
+  }
+
+  // Misconfigured window (e.g. no weekdays left): no slot to wait for
+  return null;
+}
+
+function formatMinute(minute: number): string {
+  const h = Math.floor(minute / 60);
+  const m = minute % 60;
+  return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`;
+}
+
+/** e.g. "lisboa, 09:00-20:00 Europe/Lisbon" */
+export function describeCallingHours(hours: CallingHours): string {
+  return `${hours.scope ?? "default"}, ${formatMinute(hours.startMinute)}-${formatMinute(hours.endMinute)} ${hours.timeZone}`;
+}
@@ -0,0 +1,145 @@
+import {
+  CampaignItemStatus,
+  CampaignStatus,
+  DialBlockReason,
+} from "@prisma/client";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { runCampaigns } from "@/lib/campaigns";
+import { guardDial } from "@/lib/dial-guard";
+import { dispatchRiderCall } from "@/lib/dispatch-outbox";
+import { createRiderCall } from "@/lib/rider-calls";
+
+const db = vi.hoisted(() => ({
+  campaign: { findMany: vi.fn(), findUnique: vi.fn(), updateMany: vi.fn() },
+  campaignItem: {
+    count: vi.fn(),
+    findMany: vi.fn(),
+    updateMany: vi.fn(),
+    update: vi.fn(),
+  },
+  riderCall: { findFirst: vi.fn() },
+}));
+
+vi.mock("@/lib/prisma", () => ({ default: db }));
+vi.mock("@/lib/voice", () => ({
+  getVoiceProvider: () => ({ isConfigured: () => true }),
+}));
+vi.mock("@/lib/dial-guard", () => ({
+  DEFERRABLE_REASONS: ["CALLING_HOURS", "FREQUENCY_CAP"],
+  guardDial: vi.fn(),
+}));
+vi.mock("@/lib/dispatch-outbox", () => ({ dispatchRiderCall: vi.fn() }));
+vi.mock("@/lib/rider-calls", () => ({
+  createRiderCall: vi.fn(),
+  getNextAttemptNumber: vi.fn().mockResolvedValue(1),
+}));
+
+const NOW = new Date("2026-10-19T12:00:00.000Z");
+
+const CAMPAIGN = {
+  id: "campaign-1",
+  status: CampaignStatus.RUNNING,
+  concurrency: 2,
+  ratePerMinute: 10,
+  createdByUserId: "user-1",
+};
+
+function item(id: string) {
+  return {
+    id,
+    status: CampaignItemStatus.QUEUED,
+    rider: { id: `rider-${id}`, lastContactStatus: null },
+  };
+}
+
+/** Counts in the order runCampaign asks: in flight, recent, remaining, active. */
+function counts(inFlight: number, recent = 0, remaining = 1, active = 0) {
+  for (const n of [inFlight, recent, remaining, active]) {
+    db.campaignItem.count.mockResolvedValueOnce(n);
+  }
+}
+
+function setUp(items: ReturnType<typeof item>[]) {
+  db.campaign.findMany.mockResolvedValue([{ id: CAMPAIGN.id }]);
+  db.campaign.findUnique.mockResolvedValue(CAMPAIGN);
+  db.campaignItem.findMany.mockResolvedValue(items);
+  db.campaignItem.updateMany.mockResolvedValue({ count: 1 });
+  db.riderCall.findFirst.mockResolvedValue(null);
+  vi.mocked(createRiderCall).mockImplementation(
+    async ({ rider }) => ({ id: `call-${rider.id}` }) as never,
+  );
+  vi.mocked(dispatchRiderCall).mockResolvedValue({
+    ok: true,
+    queued: false,
+  } as never);
+}
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("runCampaigns", () => {
+  it("leaves a deferred rider queued without creating a call", async () => {
+    setUp([item("a")]);
+    counts(0);
+    const until = new Date("2026-10-20T08:00:00.000Z");
+    vi.mocked(guardDial).mockResolvedValue({
+      ok: true,
+      deferred: {
+        until,
+        reason: DialBlockReason.CALLING_HOURS,
+        error: "Outside calling hours",
+      },
+    });
+
+    expect(await runCampaigns(NOW)).toBe(0);
+
+    expect(db.campaignItem.update).toHaveBeenCalledWith({
+      where: { id: "a" },
+      data: {
+        status: CampaignItemStatus.QUEUED,
+        dispatchedAt: null,
+        notBefore: until,
+      },
+    });
+    expect(createRiderCall).not.toHaveBeenCalled();
+    expect(dispatchRiderCall).not.toHaveBeenCalled();
+    expect(db.campaign.updateMany).not.toHaveBeenCalled();
+  });
+
+  it("only picks queued riders whose wait is over", async () => {
+    setUp([]);
+    counts(0);
+
+    await runCampaigns(NOW);
+
+    expect(db.campaignItem.findMany.mock.calls[0][0].where).toEqual({
+      campaignId: CAMPAIGN.id,
+      status: CampaignItemStatus.QUEUED,
+      OR: [{ notBefore: null }, { notBefore: { lte: NOW } }],
+    });
+  });
+
+  it("dispatches allowed riders up to the concurrency cap", async () => {
+    setUp([item("a")]);
+    counts(1);
+    vi.mocked(guardDial).mockResolvedValue({ ok: true });
+
+    expect(await runCampaigns(NOW)).toBe(1);
+
+    expect(db.campaignItem.findMany.mock.calls[0][0].take).toBe(1);
+    expect(dispatchRiderCall).toHaveBeenCalledWith({ id: "call-rider-a" });
+    expect(db.campaignItem.update).toHaveBeenCalledWith({
+      where: { id: "a" },
+      data: { riderCallId: "call-rider-a" },
+    });
+  });
+
+  it("dispatches nothing while the cap is full", async () => {
+    setUp([]);
+    counts(2);
+
+    expect(await runCampaigns(NOW)).toBe(0);
+    expect(db.campaignItem.findMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,268 @@
+import {
+  CallStatus,
+  CampaignItemStatus,
+  CampaignStatus,
+  ContactStatus,
+  Prisma,
+} from "@prisma/client";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { DEFERRABLE_REASONS, guardDial } from "@/lib/dial-guard";
+import { dispatchRiderCall } from "@/lib/dispatch-outbox";
+import { getVoiceProvider } from "@/lib/voice";
+import { createRiderCall, getNextAttemptNumber } from "@/lib/rider-calls";
+
+export const campaignFiltersSchema = z.object({
+  city: z.string().trim().min(1).optional(),
+  flowType: z.string().trim().min(1).optional(),
+  documentsUploaded: z.enum(["NO", "PARTIAL", "YES"]).optional(),
+  licenseCountry: z.string().trim().min(1).optional(),
+});
+
+export type CampaignFilters = z.infer<typeof campaignFiltersSchema>;
+
+const ACTIVE_CALL_STATUSES = [CallStatus.PENDING, CallStatus.RUNNING];
+
+/**
+ * Pending riders (lastContactStatus NULL or PENDING) matching the campaign filters.
+ * Same definition as GET /api/riders/pending.
+ */
+export function buildPendingRiderWhere(
+  filters: CampaignFilters,
+): Prisma.RiderWhereInput {
+  return {
+    OR: [
+      { lastContactStatus: null },
+      { lastContactStatus: ContactStatus.PENDING },
+    ],
+    ...(filters.city
+      ? { city: { equals: filters.city, mode: "insensitive" } }
+      : {}),
+    ...(filters.flowType
+      ? { flowType: { equals: filters.flowType, mode: "insensitive" } }
+      : {}),
+    ...(filters.documentsUploaded
+      ? { documentsUploaded: filters.documentsUploaded }
+      : {}),
+    ...(filters.licenseCountry
+      ? {
+          licenseCountry: {
+            equals: filters.licenseCountry,
+            mode: "insensitive",
+          },
+        }
+      : {}),
+  };
+}
+
+export type CampaignProgress = Record<CampaignItemStatus, number>;
+
+export async function getCampaignProgress(
+  campaignIds: string[],
+): Promise<Record<string, CampaignProgress>> {
+  const grouped = await prisma.campaignItem.groupBy({
+    by: ["campaignId", "status"],
+    where: { campaignId: { in: campaignIds } },
+    _count: { _all: true },
+  });
+
+  const progress: Record<string, CampaignProgress> = {};
+  for (const id of campaignIds) {
+    progress[id] = {
+      QUEUED: 0,
+      DISPATCHED: 0,
+      FAILED: 0,
+      SKIPPED: 0,
+      CANCELED: 0,
+    };
+  }
+  for (const g of grouped) {
+    progress[g.campaignId][g.status] = g._count._all;
+  }
+  return progress;
+}
+
+/**
+ * Dispatch the next batch of riders for one campaign, honouring its
+ * concurrency cap (calls dialed and not finished) and rate limit (dispatches
+ * in the last minute). A rider outside calling hours or over a frequency cap
+ * stays queued, with no call created, until the guard allows the call, so
+ * deferred riders can't all be dialed at once when the window opens.
+ */
+async function runCampaign(campaignId: string, now: Date): Promise<number> {
+  const campaign = await prisma.campaign.findUnique({
+    where: { id: campaignId },
+  });
+  if (!campaign || campaign.status !== CampaignStatus.RUNNING) return 0;
+
+  const [inFlight, recent] = await Promise.all([
+    prisma.campaignItem.count({
+      where: {
+        campaignId,
+        status: CampaignItemStatus.DISPATCHED,
+        riderCall: {
+          OR: [
+            { status: CallStatus.RUNNING },
+            {
+              status: CallStatus.PENDING,
+              OR: [{ dialedAt: { not: null } }, { runId: { not: null } }],
+            },
+          ],
+        },
+      },
+    }),
+    prisma.campaignItem.count({
+      where: {
+        campaignId,
+        dispatchedAt: { gte: new Date(now.getTime() - 60_000) },
+      },
+    }),
+  ]);
+
+  const slots = Math.min(
+    campaign.concurrency - inFlight,
+    campaign.ratePerMinute - recent,
+  );
+
+  const queued =
+    slots > 0
+      ? await prisma.campaignItem.findMany({
+          where: {
+            campaignId,
+            status: CampaignItemStatus.QUEUED,
+            OR: [{ notBefore: null }, { notBefore: { lte: now } }],
+          },
+          orderBy: { createdAt: "asc" },
+          take: slots,
+          include: { rider: true },
+        })
+      : [];
+
+  let dispatched = 0;
+
+  for (const item of queued) {
+    // Claim the item so a concurrent tick can't dispatch it too
+    const claimed = await prisma.campaignItem.updateMany({
+      where: { id: item.id, status: CampaignItemStatus.QUEUED },
+      data: { status: CampaignItemStatus.DISPATCHED, dispatchedAt: now },
+    });
+    if (claimed.count === 0) continue;
+
+    const rider = item.rider;
+    const stillPending =
+      rider.lastContactStatus === null ||
+      rider.lastContactStatus === ContactStatus.PENDING;
+    const activeCall = await prisma.riderCall.findFirst({
+      where: { riderId: rider.id, status: { in: ACTIVE_CALL_STATUSES } },
+      select: { id: true },
+    });
+
+    if (!stillPending || activeCall) {
+      await prisma.campaignItem.update({
+        where: { id: item.id },
+        data: {
+          status: CampaignItemStatus.SKIPPED,
+          error: activeCall
+            ? "Rider already has a call in progress"
+            : "Rider is no longer pending",
+        },
+      });
+      continue;
+    }
+
+    const guard = await guardDial({
+      rider,
+      origin: "campaign",
+      userId: campaign.createdByUserId,
+      defer: DEFERRABLE_REASONS,
+    });
+    if (!guard.ok) {
+      await prisma.campaignItem.update({
+        where: { id: item.id },
+        data: { status: CampaignItemStatus.SKIPPED, error: guard.error },
+      });
+      continue;
+    }
+    // Outside calling hours or over a frequency cap: back in the queue
+    // until then, without using up the rate limit
+    if (guard.deferred) {
+      await prisma.campaignItem.update({
+        where: { id: item.id },
+        data: {
+          status: CampaignItemStatus.QUEUED,
+          dispatchedAt: null,
+          notBefore: guard.deferred.until,
+        },
+      });
+      continue;
+    }
+
+    const riderCall = await createRiderCall({
+      rider,
+      userId: campaign.createdByUserId,
+      attempt: await getNextAttemptNumber(rider.id),
+      source: { initiated_by: "campaign", campaign_id: campaign.id },
+    });
+
+    const result = await dispatchRiderCall(riderCall);
+
+    await prisma.campaignItem.update({
+      where: { id: item.id },
+      data: {
+        riderCallId: riderCall.id,
+        ...(result.ok
+          ? {}
+          : {
+              status: CampaignItemStatus.FAILED,
+              error: result.details
+                ? `${result.error}: ${result.details}`
+                : result.error,
+            }),
+      },
+    });
+
+    if (result.ok && !result.scheduledFor) dispatched++;
+  }
+
+  // Finished once nothing is queued and no dispatched call is still active
+  const [remaining, stillActive] = await Promise.all([
+    prisma.campaignItem.count({
+      where: { campaignId, status: CampaignItemStatus.QUEUED },
+    }),
+    prisma.campaignItem.count({
+      where: {
+        campaignId,
+        status: CampaignItemStatus.DISPATCHED,
+        riderCall: { status: { in: ACTIVE_CALL_STATUSES } },
+      },
+    }),
+  ]);
+  if (remaining === 0 && stillActive === 0) {
+    await prisma.campaign.updateMany({
+      where: { id: campaignId, status: CampaignStatus.RUNNING },
+      data: { status: CampaignStatus.COMPLETED, completedAt: now },
+    });
+  }
+
+  return dispatched;
+}
+
+/** Background job: advance every RUNNING campaign. */
+export async function runCampaigns(now = new Date()): Promise<number> {
+  if (!getVoiceProvider().isConfigured()) return 0;
+
+  const campaigns = await prisma.campaign.findMany({
+    where: { status: CampaignStatus.RUNNING },
+    orderBy: { createdAt: "asc" },
+    select: { id: true },
+  });
+
+  let dispatched = 0;
+  for (const c of campaigns) {
+    dispatched += await runCampaign(c.id, now);
+  }
+  if (dispatched > 0) {
+    console.log(`[Campaigns] Dispatched ${dispatched} calls`);
+  }
+  return dispatched;
+}
@@ -0,0 +1,264 @@
+import {
+  ConsentStatus,
+  PhoneSuppression,
+  Prisma,
+  Rider,
+  SuppressionReason,
+} from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { normalizePhone, parsePhone } from "@/lib/phone";
+
+/**
+ * Rider consent and the do-not-call list.
+ *
+ * A rider who declines or opts out (workflow outputs on the callback, or set
+ * by hand) gets their number on the suppression list, and the dial guard
+ * (src/lib/dial-guard.ts) refuses to call suppressed numbers. Entries are
+ * keyed by E.164 number, so other riders sharing it are covered too. Lifting
+ * an entry keeps it for the record.
+ */
+
+export type ConsentSource = "callback" | "manual";
+
+// Consent outcomes that put the rider's number on the list
+const SUPPRESSING: Partial<Record<ConsentStatus, SuppressionReason>> = {
+  DECLINED: SuppressionReason.DECLINED,
+  OPTED_OUT: SuppressionReason.OPT_OUT,
+};
+
+/** List key for a stored number: E.164 when it parses, otherwise as is. */
+export function suppressionKey(phoneNumber: string): string {
+  return normalizePhone(phoneNumber) ?? phoneNumber.trim();
+}
+
+export async function findActiveSuppression(
+  db: Prisma.TransactionClient,
+  phoneNumber: string,
+): Promise<PhoneSuppression | null> {
+  return db.phoneSuppression.findFirst({
+    where: { phoneNumber: suppressionKey(phoneNumber), liftedAt: null },
+  });
+}
+
+/**
+ * Put a number on the do-not-call list. An active entry is kept as it is; a
+ * lifted one is re-activated with the new reason.
+ */
+export async function suppressPhone(
+  tx: Prisma.TransactionClient,
+  {
+    phoneNumber,
+    reason,
+    source,
+    riderId = null,
+    riderCallId = null,
+    userId = null,
+    note = null,
+    now = new Date(),
+  }: {
+    phoneNumber: string;
+    reason: SuppressionReason;
+    source: ConsentSource;
+    riderId?: string | null;
+    riderCallId?: string | null;
+    userId?: string | null;
+    note?: string | null;
+    now?: Date;
+  },
+): Promise<PhoneSuppression> {
+  const key = suppressionKey(phoneNumber);
+  const active = await findActiveSuppression(tx, key);
+  if (active) return active;
+
+  const data = {
+    reason,
+    source,
+    note,
+    riderId,
+    riderCallId,
+    createdByUserId: userId,
+    createdAt: now,
+    liftedAt: null,
+    liftedByUserId: null,
+  };
+  return tx.phoneSuppression.upsert({
+    where: { phoneNumber: key },
+    update: data,
+    create: { phoneNumber: key, ...data },
+  });
+}
+
+/** Consent stated in a callback's outputs; an opt-out wins. */
+export function callbackConsent({
+  consent,
+  optOut,
+}: {
+  consent: boolean | null;
+  optOut: boolean | null;
+}): ConsentStatus | null {
+  if (optOut) return ConsentStatus.OPTED_OUT;
+  if (consent === false) return ConsentStatus.DECLINED;
+  if (consent === true) return ConsentStatus.GRANTED;
+  return null;
+}
+
+/**
+ * Record a rider's consent. Declining or opting out also suppresses the
+ * rider's number and drops any scheduled retry. Returns the rider after the
+ * update.
+ */
+export async function recordConsent(
+  tx: Prisma.TransactionClient,
+  {
+    rider,
+    status,
+    source,
+    riderCallId = null,
+    userId = null,
+    note = null,
+    now = new Date(),
+  }: {
+    rider: Rider;
+    status: ConsentStatus;
+    source: ConsentSource;
+    riderCallId?: string | null;
+    userId?: string | null;
+    note?: string | null;
+    now?: Date;
+  },
+): Promise<Rider> {
+  const reason = SUPPRESSING[status];
+  if (reason) {
+    await suppressPhone(tx, {
+      phoneNumber: rider.phoneNumber,
+      reason,
+      source,
+      riderId: rider.id,
+      riderCallId,
+      userId,
+      note,
+      now,
+    });
+  }
+  const dropRetry = Boolean(reason && rider.nextAttemptAt);
+  if (rider.consentStatus === status && !dropRetry) return rider;
+
+  return tx.rider.update({
+    where: { id: rider.id },
+    data: {
+      consentStatus: status,
+      consentSource: source,
+      consentAt: now,
+      ...(dropRetry ? { nextAttemptAt: null } : {}),
+    },
+  });
+}
+
+export type SetConsentResult =
+  | { ok: true; rider: Rider }
+  | { ok: false; status: 404; error: string };
+
+/**
+ * Set a rider's consent by hand. Granting consent does not lift a
+ * suppression; that is done on the do-not-call list.
+ */
+export async function setRiderConsent({
+  riderId,
+  status,
+  userId,
+  note,
+}: {
+  riderId: string;
+  status: ConsentStatus;
+  userId: string | null;
+  note: string | null;
+}): Promise<SetConsentResult> {
+  return prisma.$transaction(async (tx): Promise<SetConsentResult> => {
+    const rider = await tx.rider.findUnique({ where: { id: riderId } });
+    if (!rider) return { ok: false, status: 404, error: "Rider not found" };
+
+    const updated = await recordConsent(tx, {
+      rider,
+      status,
+      source: "manual",
+      userId,
+      note,
+    });
+    return { ok: true, rider: updated };
+  });
+}
+
+export type SuppressionResult =
+  | { ok: true; suppression: PhoneSuppression }
+  | { ok: false; status: 400 | 404 | 409; error: string };
+
+/** Add a number to the do-not-call list by hand. */
+export async function addManualSuppression({
+  phoneNumber,
+  note,
+  userId,
+}: {
+  phoneNumber: string;
+  note: string | null;
+  userId: string | null;
+}): Promise<SuppressionResult> {
+  const parsed = parsePhone(phoneNumber);
+  if (!parsed.ok) return { ok: false, status: 400, error: parsed.error };
+
+  return prisma.$transaction(async (tx): Promise<SuppressionResult> => {
+    const e164 = parsed.phone.e164;
+    if (await findActiveSuppression(tx, e164)) {
+      return {
+        ok: false,
+        status: 409,
+        error: "Phone number is already on the do-not-call list",
+      };
+    }
+    // Link the rider with this number, when there is exactly one
+    const riders = await tx.rider.findMany({
+      where: { phoneNumber: e164 },
+      select: { id: true },
+      take: 2,
+    });
+    const suppression = await suppressPhone(tx, {
+      phoneNumber: e164,
+      reason: SuppressionReason.MANUAL,
+      source: "manual",
+      riderId: riders.length === 1 ? riders[0].id : null,
+      userId,
+      note,
+    });
+    return { ok: true, suppression };
+  });
+}
+
+/** Take a number off the do-not-call list (the entry is kept, lifted). */
+export async function liftSuppression({
+  suppressionId,
+  userId,
+}: {
+  suppressionId: string;
+  userId: string | null;
+}): Promise<SuppressionResult> {
+  const suppression = await prisma.phoneSuppression.findUnique({
+    where: { id: suppressionId },
+  });
+  if (!suppression) {
+    return { ok: false, status: 404, error: "Suppression not found" };
+  }
+
+  // Conditional: a concurrent lift wins once
+  const lifted = await prisma.phoneSuppression.updateMany({
+    where: { id: suppressionId, liftedAt: null },
+    data: { liftedAt: new Date(), liftedByUserId: userId },
+  });
+  if (lifted.count === 0) {
+    return { ok: false, status: 409, error: "Suppression is already lifted" };
+  }
+  return {
+    ok: true,
+    suppression: await prisma.phoneSuppression.findUniqueOrThrow({
+      where: { id: suppressionId },
+    }),
+  };
+}
@@ -0,0 +1,151 @@
+import { DialBlockReason, Rider } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { checkCallFrequency } from "@/lib/call-frequency";
+import {
+  describeCallingHours,
+  getCallingHours,
+  isWithinCallingHours,
+  loadCallingPolicy,
+  nextCallingSlot,
+} from "@/lib/calling-hours";
+import { findActiveSuppression } from "@/lib/consent";
+
+/**
+ * Last check before a rider is dialed.
+ *
+ * Every trigger path (manual, campaign, retry scheduler) asks before it
+ * creates the call, and the dispatch outbox asks again right before the
+ * provider is called, since a call can wait in the outbox. Refused attempts
+ * are logged as DialBlocks.
+ *
+ * Outside the rider's calling hours (src/lib/calling-hours.ts) or over the
+ * number's frequency caps (src/lib/call-frequency.ts) a caller may defer the
+ * call to the next allowed time instead; deferred calls are not logged as
+ * blocked.
+ */
+
+export type DialOrigin = "manual" | "campaign" | "retry_scheduler" | "dispatch";
+
+export interface DialDeferral {
+  until: Date;
+  reason: DialBlockReason;
+  error: string;
+}
+
+export type DialCheck =
+  // `deferred`: allowed, but not before `deferred.until`
+  | { ok: true; deferred?: DialDeferral }
+  | {
+      ok: false;
+      reason: DialBlockReason;
+      error: string;
+      // Set when the call may be deferred to this time instead
+      nextAllowedAt?: Date;
+    };
+
+export type DialBlocked = Extract<DialCheck, { ok: false }>;
+
+// What automated callers (campaigns, retries, the outbox) wait out
+export const DEFERRABLE_REASONS: DialBlockReason[] = [
+  DialBlockReason.CALLING_HOURS,
+  DialBlockReason.FREQUENCY_CAP,
+];
+
+const SUPPRESSION_LABELS = {
+  OPT_OUT: "the rider opted out",
+  DECLINED: "the rider declined",
+  MANUAL: "added by hand",
+} as const;
+
+/** Whether the rider may be dialed now. */
+export async function checkDial(
+  rider: Rider,
+  now = new Date(),
+): Promise<DialCheck> {
+  const suppression = await findActiveSuppression(prisma, rider.phoneNumber);
+  if (suppression) {
+    return {
+      ok: false,
+      reason: DialBlockReason.SUPPRESSED,
+      error: `Phone number is on the do-not-call list (${SUPPRESSION_LABELS[suppression.reason]})`,
+    };
+  }
+
+  const hours = getCallingHours(await loadCallingPolicy(prisma, now), rider);
+  if (!isWithinCallingHours(now, hours)) {
+    const nextAllowedAt = nextCallingSlot(now, hours);
+    if (!nextAllowedAt) {
+      return {
+        ok: false,
+        reason: DialBlockReason.CALLING_HOURS,
+        error: `Outside calling hours (${describeCallingHours(hours)}); no slot in the coming days, check the calling window`,
+      };
+    }
+    return {
+      ok: false,
+      reason: DialBlockReason.CALLING_HOURS,
+      error: `Outside calling hours (${describeCallingHours(hours)}); next slot at ${nextAllowedAt.toISOString()}`,
+      nextAllowedAt,
+    };
+  }
+
+  const frequency = await checkCallFrequency(prisma, rider.phoneNumber, {
+    now,
+  });
+  if (!frequency.ok) {
+    return {
+      ok: false,
+      reason: DialBlockReason.FREQUENCY_CAP,
+      error: `${frequency.error}; next call allowed at ${frequency.nextAllowedAt.toISOString()}`,
+      nextAllowedAt: frequency.nextAllowedAt,
+    };
+  }
+  return { ok: true };
+}
+
+/**
+ * `checkDial`, logging the attempt when it is refused. Blocks for a reason in
+ * `defer` are allowed instead, deferred to the next allowed time.
+ */
+export async function guardDial({
+  rider,
+  origin,
+  riderCallId = null,
+  userId = null,
+  defer = [],
+}: {
+  rider: Rider;
+  origin: DialOrigin;
+  riderCallId?: string | null;
+  userId?: string | null;
+  defer?: DialBlockReason[];
+}): Promise<DialCheck> {
+  const check = await checkDial(rider);
+  if (check.ok) return check;
+  if (check.nextAllowedAt && defer.indexOf(check.reason) !== -1) {
+    return {
+      ok: true,
+      deferred: {
+        until: check.nextAllowedAt,
+        reason: check.reason,
+        error: check.error,
+      },
+    };
+  }
+
+  await prisma.dialBlock.create({
+    data: {
+      riderId: rider.id,
+      reason: check.reason,
+      origin,
+      phoneNumber: rider.phoneNumber,
+      detail: check.error,
+      riderCallId,
+      userId,
+    },
+  });
+  console.warn(
+    `[Dial Guard] Blocked ${origin} call to rider ${rider.id}: ${check.error}`,
+  );
+  return check;
+}
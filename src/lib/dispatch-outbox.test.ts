@@ -0,0 +1,53 @@
+import { CampaignStatus, DispatchJobStatus } from "@prisma/client";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { runDispatchOutbox } from "@/lib/dispatch-outbox";
+
+const db = vi.hoisted(() => ({
+  dispatchJob: { updateMany: vi.fn(), findMany: vi.fn() },
+}));
+
+vi.mock("@/lib/prisma", () => ({ default: db }));
+vi.mock("@/lib/call-events", () => ({ publishCallUpdate: vi.fn() }));
+vi.mock("@/lib/voice", () => ({ getVoiceProvider: vi.fn() }));
+
+const NOW = new Date("2026-10-19T12:00:00.000Z");
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("runDispatchOutbox", () => {
+  it("picks due jobs, skipping paused campaigns", async () => {
+    db.dispatchJob.updateMany.mockResolvedValue({ count: 0 });
+    db.dispatchJob.findMany.mockResolvedValue([]);
+
+    expect(await runDispatchOutbox(NOW)).toBe(0);
+
+    expect(db.dispatchJob.findMany.mock.calls[0][0].where).toEqual({
+      status: DispatchJobStatus.QUEUED,
+      nextAttemptAt: { lte: NOW },
+      NOT: {
+        riderCall: {
+          campaignItem: {
+            is: { campaign: { status: CampaignStatus.PAUSED } },
+          },
+        },
+      },
+    });
+  });
+
+  it("releases jobs abandoned mid-attempt", async () => {
+    db.dispatchJob.updateMany.mockResolvedValue({ count: 1 });
+    db.dispatchJob.findMany.mockResolvedValue([]);
+
+    await runDispatchOutbox(NOW);
+
+    expect(db.dispatchJob.updateMany).toHaveBeenCalledWith({
+      where: {
+        status: DispatchJobStatus.PROCESSING,
+        lockedAt: { lt: new Date(NOW.getTime() - 5 * 60_000) },
+      },
+      data: { status: DispatchJobStatus.QUEUED, lockedAt: null },
+    });
+  });
+});
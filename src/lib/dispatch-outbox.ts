@@ -0,0 +1,456 @@
+import {
+  CallStatus,
+  CampaignStatus,
+  DialBlockReason,
+  DispatchJobStatus,
+  Rider,
+  RiderCall,
+} from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { publishCallUpdate } from "@/lib/call-events";
+import { reserveDial } from "@/lib/call-frequency";
+import {
+  DEFERRABLE_REASONS,
+  guardDial,
+  type DialBlocked,
+  type DialDeferral,
+} from "@/lib/dial-guard";
+import { getMissingDocumentsForRider } from "@/lib/documents";
+import { parsePhone } from "@/lib/phone";
+import { getVoiceProvider, type TriggerResult } from "@/lib/voice";
+import {
+  createRiderCall,
+  getNextAttemptNumber,
+  riderCallInclude,
+  type RiderCallWithRelations,
+} from "@/lib/rider-calls";
+
+/**
+ * Durable outbox for voice provider triggers.
+ *
+ * Every dispatch is persisted as a DispatchJob before the webhook is called.
+ * 5xx / 429 / network errors are retried with exponential backoff by the
+ * background worker; after DISPATCH_MAX_ATTEMPTS (or on a non-retryable 4xx)
+ * the job is dead-lettered and its call marked FAILED until an admin replays it.
+ * Calls outside the rider's calling hours or over the number's frequency caps
+ * wait in the outbox until they are allowed; a paused campaign's calls wait
+ * until it resumes.
+ *
+ * Env:
+ * - DISPATCH_MAX_ATTEMPTS (default 5)
+ * - DISPATCH_BACKOFF_BASE_MS: delay after the first failure, doubled each time (default 30000)
+ */
+
+const BATCH_SIZE = 10;
+const BACKOFF_MAX_MS = 30 * 60_000;
+// A PROCESSING job older than this is assumed abandoned (crash mid-request)
+const STALE_LOCK_MS = 5 * 60_000;
+
+export type DispatchResult =
+  | {
+      ok: true;
+      call: RiderCallWithRelations;
+      queued: boolean;
+      // Set when the call was deferred (calling hours, frequency caps)
+      scheduledFor?: Date;
+    }
+  | { ok: false; error: string; details?: string };
+
+export type StartCallResult =
+  | { ok: true; riderCall: RiderCall; dispatch: DispatchResult }
+  | DialBlocked;
+
+export type ReplayResult =
+  | { ok: true; result: DispatchResult }
+  | { ok: false; error: string };
+
+function numberFromEnv(name: string, fallback: number): number {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+function backoffMs(attempts: number): number {
+  const base = numberFromEnv("DISPATCH_BACKOFF_BASE_MS", 30_000);
+  return Math.min(base * 2 ** Math.max(attempts - 1, 0), BACKOFF_MAX_MS);
+}
+
+function deferredMessage(deferred: DialDeferral): string {
+  return `Deferred to ${deferred.until.toISOString()}: ${deferred.error}`;
+}
+
+/**
+ * Queue the trigger for an existing PENDING RiderCall and make the first
+ * attempt right away, or when `deferred` allows it (see guardDial).
+ *
+ * Resolves ok with `queued: true` when the first attempt failed transiently
+ * and a retry is scheduled, or when the call is deferred; the call stays
+ * PENDING meanwhile.
+ */
+export async function dispatchRiderCall(
+  riderCall: RiderCall,
+  { deferred }: { deferred?: DialDeferral } = {},
+): Promise<DispatchResult> {
+  if (deferred) {
+    await prisma.dispatchJob.upsert({
+      where: { riderCallId: riderCall.id },
+      update: { nextAttemptAt: deferred.until },
+      create: { riderCallId: riderCall.id, nextAttemptAt: deferred.until },
+    });
+    const call = await prisma.riderCall.update({
+      where: { id: riderCall.id },
+      data: { errorMsg: deferredMessage(deferred) },
+      include: riderCallInclude,
+    });
+    await publishCallUpdate(riderCall.id);
+    return { ok: true, call, queued: true, scheduledFor: deferred.until };
+  }
+
+  const job = await prisma.dispatchJob.upsert({
+    where: { riderCallId: riderCall.id },
+    update: {},
+    create: { riderCallId: riderCall.id },
+  });
+  return attemptDispatch(job.id);
+}
+
+/**
+ * Start a user-initiated call to a rider: create the RiderCall, drop any
+ * scheduled retry (the manual call supersedes it) and dispatch it. Refused
+ * (and logged) when the dial guard blocks the rider, frequency caps
+ * included; outside calling hours the call is deferred to the next slot
+ * instead when `deferOutsideHours`.
+ */
+export async function startManualCall({
+  rider,
+  userId,
+  deferOutsideHours = false,
+}: {
+  rider: Rider;
+  userId?: string | null;
+  deferOutsideHours?: boolean;
+}): Promise<StartCallResult> {
+  const guard = await guardDial({
+    rider,
+    origin: "manual",
+    userId,
+    defer: deferOutsideHours ? [DialBlockReason.CALLING_HOURS] : [],
+  });
+  if (!guard.ok) return guard;
+
+  const riderCall = await createRiderCall({
+    rider,
+    userId,
+    attempt: await getNextAttemptNumber(rider.id),
+  });
+  await publishCallUpdate(riderCall.id);
+
+  if (rider.nextAttemptAt) {
+    await prisma.rider.update({
+      where: { id: rider.id },
+      data: { nextAttemptAt: null },
+    });
+  }
+
+  return {
+    ok: true,
+    riderCall,
+    dispatch: await dispatchRiderCall(riderCall, {
+      deferred: guard.deferred,
+    }),
+  };
+}
+
+/** Put a claimed job back on the queue until the deferral, attempt unused. */
+async function deferJob(
+  jobId: string,
+  riderCallId: string,
+  deferred: DialDeferral,
+): Promise<DispatchResult> {
+  const [, updated] = await prisma.$transaction([
+    prisma.dispatchJob.update({
+      where: { id: jobId },
+      data: {
+        status: DispatchJobStatus.QUEUED,
+        lockedAt: null,
+        attempts: { decrement: 1 },
+        nextAttemptAt: deferred.until,
+      },
+    }),
+    prisma.riderCall.update({
+      where: { id: riderCallId },
+      data: { errorMsg: deferredMessage(deferred) },
+      include: riderCallInclude,
+    }),
+  ]);
+  await publishCallUpdate(riderCallId);
+  return {
+    ok: true,
+    call: updated,
+    queued: true,
+    scheduledFor: deferred.until,
+  };
+}
+
+async function attemptDispatch(
+  jobId: string,
+  now = new Date(),
+): Promise<DispatchResult> {
+  // Claim: only one process may send a given job at a time
+  const claimed = await prisma.dispatchJob.updateMany({
+    where: { id: jobId, status: DispatchJobStatus.QUEUED },
+    data: {
+      status: DispatchJobStatus.PROCESSING,
+      lockedAt: now,
+      attempts: { increment: 1 },
+    },
+  });
+  if (claimed.count === 0) {
+    return { ok: false, error: "Dispatch already in progress" };
+  }
+
+  const job = await prisma.dispatchJob.findUniqueOrThrow({
+    where: { id: jobId },
+    include: { riderCall: { include: { rider: true } } },
+  });
+  const { riderCall } = job;
+
+  // The call was canceled (or otherwise resolved) while the job waited
+  if (riderCall.status !== CallStatus.PENDING) {
+    await prisma.dispatchJob.update({
+      where: { id: job.id },
+      data: {
+        status: DispatchJobStatus.CANCELED,
+        lockedAt: null,
+        completedAt: new Date(),
+      },
+    });
+    return { ok: false, error: `Call is already ${riderCall.status}` };
+  }
+
+  // Blocked since the call was created (e.g. the number was suppressed)
+  const guard = await guardDial({
+    rider: riderCall.rider,
+    origin: "dispatch",
+    riderCallId: riderCall.id,
+    userId: riderCall.initiatedByUserId,
+    defer: DEFERRABLE_REASONS,
+  });
+  // Outside calling hours (e.g. a retry backoff ran past them) or over a
+  // frequency cap: wait without using up an attempt
+  if (guard.ok && guard.deferred) {
+    return deferJob(job.id, riderCall.id, guard.deferred);
+  }
+  if (!guard.ok) {
+    const blockedAt = new Date();
+    await prisma.$transaction([
+      prisma.dispatchJob.update({
+        where: { id: job.id },
+        data: {
+          status: DispatchJobStatus.CANCELED,
+          lockedAt: null,
+          completedAt: blockedAt,
+          lastError: guard.error,
+        },
+      }),
+      prisma.riderCall.update({
+        where: { id: riderCall.id },
+        data: {
+          status: CallStatus.CANCELED,
+          completedAt: blockedAt,
+          canceledAt: blockedAt,
+          cancelReason: guard.error,
+        },
+      }),
+    ]);
+    await publishCallUpdate(riderCall.id);
+    return { ok: false, error: "Call blocked", details: guard.error };
+  }
+
+  // Invalid numbers are never dialed; the call fails without retries until
+  // the number is fixed and the dispatch replayed
+  const phone = parsePhone(riderCall.rider.phoneNumber);
+
+  // Frequency caps again, counted under a lock on the number: a concurrent
+  // dispatch to it may have been dialed since the guard ran
+  if (phone.ok) {
+    const reserved = await reserveDial({
+      riderCallId: riderCall.id,
+      phoneNumber: riderCall.rider.phoneNumber,
+    });
+    if (!reserved.ok) {
+      return deferJob(job.id, riderCall.id, {
+        until: reserved.nextAllowedAt,
+        reason: DialBlockReason.FREQUENCY_CAP,
+        error: reserved.error,
+      });
+    }
+  }
+
+  const sent: TriggerResult = phone.ok
+    ? await getVoiceProvider().trigger({
+        riderCall,
+        rider: { ...riderCall.rider, phoneNumber: phone.phone.e164 },
+        userId: riderCall.initiatedByUserId,
+        missingDocuments: await getMissingDocumentsForRider(riderCall.riderId),
+      })
+    : {
+        ok: false,
+        retryable: false,
+        error: `Invalid phone number "${riderCall.rider.phoneNumber}": ${phone.error}`,
+      };
+  const finishedAt = new Date();
+
+  if (sent.ok) {
+    const [, updated] = await prisma.$transaction([
+      prisma.dispatchJob.update({
+        where: { id: job.id },
+        data: {
+          status: DispatchJobStatus.SUCCEEDED,
+          lockedAt: null,
+          completedAt: finishedAt,
+        },
+      }),
+      prisma.riderCall.update({
+        where: { id: riderCall.id },
+        data: { runId: sent.runId, status: CallStatus.RUNNING, errorMsg: null },
+        include: riderCallInclude,
+      }),
+    ]);
+    await publishCallUpdate(riderCall.id);
+    return { ok: true, call: updated, queued: false };
+  }
+
+  const maxAttempts = numberFromEnv("DISPATCH_MAX_ATTEMPTS", 5);
+
+  if (sent.retryable && job.attempts < maxAttempts) {
+    const nextAttemptAt = new Date(
+      finishedAt.getTime() + backoffMs(job.attempts),
+    );
+    const [, updated] = await prisma.$transaction([
+      prisma.dispatchJob.update({
+        where: { id: job.id },
+        data: {
+          status: DispatchJobStatus.QUEUED,
+          lockedAt: null,
+          nextAttemptAt,
+          lastError: sent.error,
+          lastStatusCode: sent.statusCode ?? null,
+        },
+      }),
+      prisma.riderCall.update({
+        where: { id: riderCall.id },
+        data: {
+          // The provider didn't place it: don't count it against the caps
+          dialedAt: null,
+          errorMsg: `Dispatch attempt ${job.attempts} failed, retrying at ${nextAttemptAt.toISOString()}: ${sent.error}`,
+        },
+        include: riderCallInclude,
+      }),
+    ]);
+    await publishCallUpdate(riderCall.id);
+    console.warn(
+      `[Dispatch Outbox] Attempt ${job.attempts} failed for call ${riderCall.id}, retrying at ${nextAttemptAt.toISOString()}`,
+    );
+    return { ok: true, call: updated, queued: true };
+  }
+
+  await prisma.$transaction([
+    prisma.dispatchJob.update({
+      where: { id: job.id },
+      data: {
+        status: DispatchJobStatus.DEAD,
+        lockedAt: null,
+        deadAt: finishedAt,
+        lastError: sent.error,
+        lastStatusCode: sent.statusCode ?? null,
+      },
+    }),
+    prisma.riderCall.update({
+      where: { id: riderCall.id },
+      data: { status: CallStatus.FAILED, dialedAt: null, errorMsg: sent.error },
+    }),
+  ]);
+  await publishCallUpdate(riderCall.id);
+  console.error(
+    `[Dispatch Outbox] Dead-lettered call ${riderCall.id} after ${job.attempts} attempt(s): ${sent.error}`,
+  );
+  return { ok: false, error: "Failed to trigger call", details: sent.error };
+}
+
+/** Retry queued dispatches whose backoff has elapsed. */
+export async function runDispatchOutbox(now = new Date()): Promise<number> {
+  // Release jobs left PROCESSING by a crashed attempt
+  await prisma.dispatchJob.updateMany({
+    where: {
+      status: DispatchJobStatus.PROCESSING,
+      lockedAt: { lt: new Date(now.getTime() - STALE_LOCK_MS) },
+    },
+    data: { status: DispatchJobStatus.QUEUED, lockedAt: null },
+  });
+
+  const due = await prisma.dispatchJob.findMany({
+    where: {
+      status: DispatchJobStatus.QUEUED,
+      nextAttemptAt: { lte: now },
+      NOT: {
+        riderCall: {
+          campaignItem: { is: { campaign: { status: CampaignStatus.PAUSED } } },
+        },
+      },
+    },
+    orderBy: { nextAttemptAt: "asc" },
+    take: BATCH_SIZE,
+    select: { id: true },
+  });
+
+  let dispatched = 0;
+  for (const job of due) {
+    const result = await attemptDispatch(job.id);
+    if (result.ok && !result.queued) dispatched++;
+  }
+  return dispatched;
+}
+
+/**
+ * Put a dead-lettered job back on the queue and attempt it immediately.
+ * The call goes back to PENDING with a fresh attempt budget.
+ */
+export async function replayDeadDispatch(jobId: string): Promise<ReplayResult> {
+  const job = await prisma.dispatchJob.findUnique({
+    where: { id: jobId },
+    include: { riderCall: { select: { status: true } } },
+  });
+  if (!job) return { ok: false, error: "Dispatch not found" };
+  if (job.status !== DispatchJobStatus.DEAD) {
+    return { ok: false, error: `Dispatch is ${job.status}, not DEAD` };
+  }
+  if (job.riderCall.status !== CallStatus.FAILED) {
+    return {
+      ok: false,
+      error: `Call is ${job.riderCall.status}; only FAILED calls can be replayed`,
+    };
+  }
+
+  const reset = await prisma.$transaction(async (tx) => {
+    const res = await tx.dispatchJob.updateMany({
+      where: { id: job.id, status: DispatchJobStatus.DEAD },
+      data: {
+        status: DispatchJobStatus.QUEUED,
+        attempts: 0,
+        nextAttemptAt: new Date(),
+        deadAt: null,
+      },
+    });
+    if (res.count === 0) return false;
+
+    await tx.riderCall.update({
+      where: { id: job.riderCallId },
+      data: { status: CallStatus.PENDING, errorMsg: null, completedAt: null },
+    });
+    return true;
+  });
+  if (!reset) return { ok: false, error: "Dispatch was replayed concurrently" };
+
+  await publishCallUpdate(job.riderCallId);
+  return { ok: true, result: await attemptDispatch(job.id) };
+}
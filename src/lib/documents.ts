@@ -0,0 +1,292 @@
+import {
+  DocumentsUploadedStatus,
+  DocumentType,
+  Prisma,
+  Rider,
+  RiderDocumentStatus,
+} from "@prisma/client";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { syncOnboardingStage } from "@/lib/onboarding";
+
+/**
+ * Document checklist.
+ *
+ * DocumentType is the catalog of onboarding documents; each one can be
+ * limited to some flow types and/or cities. A rider's checklist is every
+ * active type that applies to its flow type and city, with the status from
+ * RiderDocument (MISSING when there is no row yet).
+ *
+ * `Rider.documentsUploaded` stays as the NO / PARTIAL / YES summary of the
+ * checklist, so existing filters and campaigns keep working.
+ */
+
+const SATISFIED_STATUSES: RiderDocumentStatus[] = [
+  RiderDocumentStatus.UPLOADED,
+  RiderDocumentStatus.VERIFIED,
+];
+
+const lowercaseList = z
+  .array(z.string().trim().min(1).max(60))
+  .max(50)
+  .transform((items) => Array.from(new Set(items.map((i) => i.toLowerCase()))));
+
+export const documentTypeSchema = z.object({
+  key: z
+    .string()
+    .trim()
+    .regex(/^[a-z0-9_]+$/, "Use lowercase letters, digits and _")
+    .max(60),
+  name: z.string().trim().min(1).max(120),
+  description: z.string().trim().max(500).nullable().optional(),
+  flowTypes: lowercaseList.default([]),
+  cities: lowercaseList.default([]),
+  importColumn: z.number().int().min(1).max(100).nullable().optional(),
+  sortOrder: z.number().int().default(0),
+  active: z.boolean().default(true),
+});
+
+export type DocumentTypeInput = z.infer<typeof documentTypeSchema>;
+
+/** Whether a catalog document is required for the rider's flow type and city. */
+export function documentAppliesTo(
+  type: Pick<DocumentType, "active" | "flowTypes" | "cities">,
+  rider: Pick<Rider, "flowType" | "city">,
+): boolean {
+  if (!type.active) return false;
+  const flowType = rider.flowType?.trim().toLowerCase();
+  const city = rider.city?.trim().toLowerCase();
+  return (
+    (type.flowTypes.length === 0 ||
+      (!!flowType && type.flowTypes.includes(flowType))) &&
+    (type.cities.length === 0 || (!!city && type.cities.includes(city)))
+  );
+}
+
+const checklistInclude = {
+  documentChecklist: {
+    include: {
+      updatedByUser: { select: { id: true, email: true, name: true } },
+    },
+  },
+} satisfies Prisma.RiderInclude;
+
+type RiderDocumentWithUser = Prisma.RiderDocumentGetPayload<{
+  include: typeof checklistInclude.documentChecklist.include;
+}>;
+
+export interface ChecklistItem {
+  documentType: DocumentType;
+  required: boolean;
+  status: RiderDocumentStatus;
+  note: string | null;
+  updatedAt: Date | null;
+  updatedByUser: RiderDocumentWithUser["updatedByUser"];
+}
+
+/**
+ * The rider's checklist: required documents first (catalog order), then
+ * documents with a status that no longer apply to the rider.
+ */
+export async function getDocumentChecklist(
+  tx: Prisma.TransactionClient,
+  riderId: string,
+): Promise<{ rider: Rider; items: ChecklistItem[] } | null> {
+  const [found, types] = await Promise.all([
+    tx.rider.findUnique({ where: { id: riderId }, include: checklistInclude }),
+    tx.documentType.findMany({
+      orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
+    }),
+  ]);
+  if (!found) return null;
+
+  const { documentChecklist, ...rider } = found;
+  const byType = new Map(documentChecklist.map((d) => [d.documentTypeId, d]));
+  const items = types
+    .map((documentType): ChecklistItem | null => {
+      const doc = byType.get(documentType.id);
+      const required = documentAppliesTo(documentType, rider);
+      if (!required && !doc) return null;
+      return {
+        documentType,
+        required,
+        status: doc?.status ?? RiderDocumentStatus.MISSING,
+        note: doc?.note ?? null,
+        updatedAt: doc?.updatedAt ?? null,
+        updatedByUser: doc?.updatedByUser ?? null,
+      };
+    })
+    .filter((item): item is ChecklistItem => item !== null)
+    .sort((a, b) => Number(b.required) - Number(a.required));
+
+  return { rider, items };
+}
+
+/** Required documents that are not uploaded yet (or were rejected). */
+export function missingDocuments(
+  items: ChecklistItem[],
+): { key: string; name: string }[] {
+  return items
+    .filter(
+      (item) => item.required && !SATISFIED_STATUSES.includes(item.status),
+    )
+    .map((item) => ({
+      key: item.documentType.key,
+      name: item.documentType.name,
+    }));
+}
+
+/** NO / PARTIAL / YES over the required documents; null when none apply. */
+function summarize(items: ChecklistItem[]): DocumentsUploadedStatus | null {
+  const required = items.filter((item) => item.required);
+  if (required.length === 0) return null;
+  const done = required.filter((item) =>
+    SATISFIED_STATUSES.includes(item.status),
+  ).length;
+  if (done === 0) return DocumentsUploadedStatus.NO;
+  return done === required.length
+    ? DocumentsUploadedStatus.YES
+    : DocumentsUploadedStatus.PARTIAL;
+}
+
+/**
+ * Recompute `documentsUploaded` from the checklist. Riders with no
+ * applicable catalog documents keep their value.
+ */
+export async function refreshDocumentsUploaded(
+  tx: Prisma.TransactionClient,
+  riderId: string,
+): Promise<Rider> {
+  const checklist = await getDocumentChecklist(tx, riderId);
+  if (!checklist) throw new Error(`Rider ${riderId} not found`);
+
+  const summary = summarize(checklist.items);
+  if (summary === null || summary === checklist.rider.documentsUploaded) {
+    return checklist.rider;
+  }
+  return tx.rider.update({
+    where: { id: riderId },
+    data: { documentsUploaded: summary },
+  });
+}
+
+/** Catalog documents fed by a dataset_v2 "Document N" column. */
+export function importDocumentTypes(
+  tx: Prisma.TransactionClient,
+): Promise<DocumentType[]> {
+  return tx.documentType.findMany({
+    where: { importColumn: { not: null } },
+  });
+}
+
+/**
+ * Apply the positional "Document N" flags of a dataset_v2 import to the
+ * catalog documents mapped to those columns (DocumentType.importColumn).
+ * Only MISSING and UPLOADED documents follow the file: VERIFIED and
+ * REJECTED ones are review decisions and are left alone.
+ *
+ * Returns the rider with `documentsUploaded` refreshed. Batch imports pass
+ * the mapped document types (importDocumentTypes) to load them once.
+ */
+export async function applyImportedDocumentFlags(
+  tx: Prisma.TransactionClient,
+  {
+    riderId,
+    flags,
+    types,
+  }: {
+    riderId: string;
+    flags: (boolean | null)[];
+    types?: DocumentType[];
+  },
+): Promise<Rider> {
+  types ??= await importDocumentTypes(tx);
+
+  for (const type of types) {
+    const flag = flags[(type.importColumn as number) - 1];
+    if (flag === null || flag === undefined) continue;
+
+    const where = {
+      riderId_documentTypeId: { riderId, documentTypeId: type.id },
+    };
+    const existing = await tx.riderDocument.findUnique({ where });
+    if (
+      existing?.status === RiderDocumentStatus.VERIFIED ||
+      existing?.status === RiderDocumentStatus.REJECTED
+    ) {
+      continue;
+    }
+    const status = flag
+      ? RiderDocumentStatus.UPLOADED
+      : RiderDocumentStatus.MISSING;
+    await tx.riderDocument.upsert({
+      where,
+      update: { status },
+      create: { riderId, documentTypeId: type.id, status },
+    });
+  }
+
+  return refreshDocumentsUploaded(tx, riderId);
+}
+
+export type SetDocumentStatusResult =
+  | { ok: true; items: ChecklistItem[] }
+  | { ok: false; status: 404; error: string };
+
+/**
+ * Set one document's status by hand. Refreshes `documentsUploaded` and
+ * moves the rider forward in the funnel if the checklist now proves it.
+ */
+export async function setRiderDocumentStatus({
+  riderId,
+  documentTypeId,
+  status,
+  note,
+  userId,
+}: {
+  riderId: string;
+  documentTypeId: string;
+  status: RiderDocumentStatus;
+  note: string | null;
+  userId: string | null;
+}): Promise<SetDocumentStatusResult> {
+  return prisma.$transaction(async (tx): Promise<SetDocumentStatusResult> => {
+    const [rider, type] = await Promise.all([
+      tx.rider.findUnique({ where: { id: riderId }, select: { id: true } }),
+      tx.documentType.findUnique({ where: { id: documentTypeId } }),
+    ]);
+    if (!rider) return { ok: false, status: 404, error: "Rider not found" };
+    if (!type) {
+      return { ok: false, status: 404, error: "Document type not found" };
+    }
+
+    await tx.riderDocument.upsert({
+      where: { riderId_documentTypeId: { riderId, documentTypeId } },
+      update: { status, note, updatedByUserId: userId },
+      create: {
+        riderId,
+        documentTypeId,
+        status,
+        note,
+        updatedByUserId: userId,
+      },
+    });
+    const updated = await refreshDocumentsUploaded(tx, riderId);
+    await syncOnboardingStage(tx, {
+      rider: updated,
+      source: "manual",
+      userId,
+    });
+
+    const checklist = await getDocumentChecklist(tx, riderId);
+    return { ok: true, items: checklist?.items ?? [] };
+  });
+}
+
+/** Missing documents for the trigger payload, so the agent can name them. */
+export async function getMissingDocumentsForRider(
+  riderId: string,
+): Promise<{ key: string; name: string }[]> {
+  const checklist = await getDocumentChecklist(prisma, riderId);
+  return checklist ? missingDocuments(checklist.items) : [];
+}
@@ -0,0 +1,171 @@
+import { EscalationStatus, Prisma } from "@prisma/client";
+import { describe, expect, it, vi } from "vitest";
+import {
+  escalateRaisedFlags,
+  foldEscalationsForMerge,
+} from "@/lib/escalations";
+
+vi.mock("@/lib/prisma", () => ({ default: {} }));
+
+const NOW = new Date("2026-10-19T12:00:00.000Z");
+const MINUTE = 60_000;
+
+function escalation(
+  id: string,
+  riderId: string,
+  reasons: string[],
+  slaDueAt: Date,
+) {
+  return {
+    id,
+    riderId,
+    reasons,
+    slaDueAt,
+    status: EscalationStatus.OPEN,
+    openedAt: NOW,
+  };
+}
+
+/** Fake transaction logging the order of lock and escalation calls. */
+function fakeTx(active: Record<string, ReturnType<typeof escalation>>) {
+  const calls: string[] = [];
+  const tx = {
+    $executeRaw: vi.fn(async (_sql: TemplateStringsArray, key: string) => {
+      calls.push(`lock ${key}`);
+    }),
+    escalation: {
+      findFirst: vi.fn(async ({ where }: { where: { riderId: string } }) => {
+        calls.push(`find ${where.riderId}`);
+        return active[where.riderId] ?? null;
+      }),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+  };
+  return { tx, calls, db: tx as unknown as Prisma.TransactionClient };
+}
+
+describe("escalateRaisedFlags", () => {
+  it("locks the rider before looking for an active escalation", async () => {
+    const { tx, calls, db } = fakeTx({});
+
+    await escalateRaisedFlags(db, {
+      riderId: "rider-1",
+      riderCallId: "call-1",
+      flags: ["urgent"],
+      now: NOW,
+    });
+
+    expect(calls).toEqual(["lock escalation:rider-1", "find rider-1"]);
+    expect(tx.escalation.create).toHaveBeenCalledWith({
+      data: {
+        riderId: "rider-1",
+        riderCallId: "call-1",
+        reasons: ["urgent"],
+        slaDueAt: new Date(NOW.getTime() + 15 * MINUTE),
+        openedAt: NOW,
+        events: {
+          create: { action: "opened", payload: { flags: ["urgent"] } },
+        },
+      },
+    });
+  });
+
+  it("adds new reasons to the active escalation, tightening its SLA", async () => {
+    const due = new Date(NOW.getTime() + 4 * 60 * MINUTE);
+    const { tx, db } = fakeTx({
+      "rider-1": escalation("esc-1", "rider-1", ["legal_issue"], due),
+    });
+
+    await escalateRaisedFlags(db, {
+      riderId: "rider-1",
+      riderCallId: "call-2",
+      flags: ["human_requested", "legal_issue"],
+      now: NOW,
+    });
+
+    expect(tx.escalation.create).not.toHaveBeenCalled();
+    expect(tx.escalation.update).toHaveBeenCalledWith({
+      where: { id: "esc-1" },
+      data: {
+        reasons: ["legal_issue", "human_requested"],
+        slaDueAt: new Date(NOW.getTime() + 60 * MINUTE),
+        events: {
+          create: {
+            action: "flags_raised",
+            payload: {
+              flags: ["human_requested", "legal_issue"],
+              riderCallId: "call-2",
+            },
+          },
+        },
+      },
+    });
+  });
+
+  it("does nothing without raised flags", async () => {
+    const { tx, calls, db } = fakeTx({});
+
+    await escalateRaisedFlags(db, {
+      riderId: "rider-1",
+      riderCallId: null,
+      flags: [],
+    });
+
+    expect(calls).toEqual([]);
+    expect(tx.escalation.create).not.toHaveBeenCalled();
+  });
+});
+
+describe("foldEscalationsForMerge", () => {
+  const merge = {
+    survivorId: "rider-b",
+    mergedId: "rider-a",
+    userId: "user-1",
+    note: "Duplicate",
+    now: NOW,
+  };
+
+  it("folds the merged rider's active escalation into the survivor's", async () => {
+    const soon = new Date(NOW.getTime() + 10 * MINUTE);
+    const later = new Date(NOW.getTime() + 50 * MINUTE);
+    const { tx, calls, db } = fakeTx({
+      "rider-b": escalation("esc-b", "rider-b", ["human_requested"], later),
+      "rider-a": escalation("esc-a", "rider-a", ["urgent"], soon),
+    });
+
+    await foldEscalationsForMerge(db, merge);
+
+    // Both riders are locked, in a fixed order, before either is read
+    expect(calls.slice(0, 2)).toEqual([
+      "lock escalation:rider-a",
+      "lock escalation:rider-b",
+    ]);
+    expect(tx.escalation.update).toHaveBeenNthCalledWith(1, {
+      where: { id: "esc-b" },
+      data: expect.objectContaining({
+        reasons: ["human_requested", "urgent"],
+        slaDueAt: soon,
+      }),
+    });
+    expect(tx.escalation.update).toHaveBeenNthCalledWith(2, {
+      where: { id: "esc-a" },
+      data: expect.objectContaining({
+        status: EscalationStatus.RESOLVED,
+        outcome: "not_needed",
+        resolvedByUserId: "user-1",
+      }),
+    });
+  });
+
+  it("leaves a single active escalation alone", async () => {
+    const due = new Date(NOW.getTime() + 10 * MINUTE);
+    const { tx, db } = fakeTx({
+      "rider-a": escalation("esc-a", "rider-a", ["urgent"], due),
+    });
+
+    await foldEscalationsForMerge(db, merge);
+
+    expect(tx.escalation.update).not.toHaveBeenCalled();
+  });
+});
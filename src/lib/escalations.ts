@@ -0,0 +1,429 @@
+import { EscalationStatus, Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { clearFlags, RIDER_FLAGS, type RiderFlag } from "@/lib/rider-flags";
+
+/**
+ * Human handoff queue.
+ *
+ * A rider flag going from unset to set (urgent, legal issue, human requested)
+ * opens an escalation, or adds the reason to the rider's active one; a rider
+ * has at most one active escalation, kept so by a per-rider lock. Agents
+ * claim it (which clears the flags it was raised for), add notes and resolve
+ * it with an outcome. Every step is kept in EscalationEvent.
+ *
+ * SLA: each reason has a target time to claim; an escalation is due at the
+ * earliest target of its reasons. Env (minutes):
+ * - ESCALATION_SLA_URGENT_MINUTES (default 15)
+ * - ESCALATION_SLA_HUMAN_REQUESTED_MINUTES (default 60)
+ * - ESCALATION_SLA_LEGAL_ISSUE_MINUTES (default 240)
+ */
+
+export const ESCALATION_OUTCOMES = [
+  "resolved",
+  "documents_pending",
+  "referred_legal",
+  "unreachable",
+  "not_needed",
+] as const;
+
+export type EscalationOutcome = (typeof ESCALATION_OUTCOMES)[number];
+
+const DEFAULT_SLA_MINUTES: Record<RiderFlag, number> = {
+  urgent: 15,
+  human_requested: 60,
+  legal_issue: 240,
+};
+
+const ACTIVE_STATUSES = [EscalationStatus.OPEN, EscalationStatus.CLAIMED];
+
+export const escalationInclude = {
+  rider: {
+    select: {
+      id: true,
+      driverName: true,
+      phoneNumber: true,
+      city: true,
+      urgentFlag: true,
+      legalIssueFlag: true,
+      humanRequested: true,
+    },
+  },
+  riderCall: { select: { id: true, attempt: true, summary: true } },
+  claimedByUser: { select: { id: true, email: true, name: true } },
+  resolvedByUser: { select: { id: true, email: true, name: true } },
+} satisfies Prisma.EscalationInclude;
+
+export type EscalationWithRelations = Prisma.EscalationGetPayload<{
+  include: typeof escalationInclude;
+}>;
+
+export type EscalationActionResult =
+  | { ok: true; escalation: EscalationWithRelations }
+  | { ok: false; status: 403 | 404 | 409; error: string };
+
+function getSlaMinutes(flag: RiderFlag): number {
+  const n = Number(process.env[`ESCALATION_SLA_${flag.toUpperCase()}_MINUTES`]);
+  return Number.isFinite(n) && n > 0 ? n : DEFAULT_SLA_MINUTES[flag];
+}
+
+function slaDueAt(flags: readonly RiderFlag[], from: Date): Date {
+  const minutes = Math.min(...flags.map(getSlaMinutes));
+  return new Date(from.getTime() + minutes * 60_000);
+}
+
+function asRiderFlags(reasons: string[]): RiderFlag[] {
+  return RIDER_FLAGS.filter((flag) => reasons.includes(flag));
+}
+
+/**
+ * Serialize changes to the riders' active escalations until the transaction
+ * ends, so concurrent callbacks can't each open one. Locks in a fixed order.
+ */
+async function lockRiderEscalations(
+  tx: Prisma.TransactionClient,
+  riderIds: string[],
+): Promise<void> {
+  for (const riderId of [...riderIds].sort()) {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`escalation:${riderId}`}))`;
+  }
+}
+
+/**
+ * Open an escalation for newly raised flags, or add them to the rider's
+ * active escalation (tightening its SLA if a new reason is stricter).
+ */
+export async function escalateRaisedFlags(
+  tx: Prisma.TransactionClient,
+  {
+    riderId,
+    riderCallId,
+    flags,
+    now = new Date(),
+  }: {
+    riderId: string;
+    riderCallId: string | null;
+    flags: RiderFlag[];
+    now?: Date;
+  },
+): Promise<void> {
+  if (flags.length === 0) return;
+
+  await lockRiderEscalations(tx, [riderId]);
+  const active = await tx.escalation.findFirst({
+    where: { riderId, status: { in: ACTIVE_STATUSES } },
+    orderBy: { openedAt: "desc" },
+  });
+
+  if (!active) {
+    await tx.escalation.create({
+      data: {
+        riderId,
+        riderCallId,
+        reasons: flags,
+        slaDueAt: slaDueAt(flags, now),
+        openedAt: now,
+        events: { create: { action: "opened", payload: { flags } } },
+      },
+    });
+    return;
+  }
+
+  const added = flags.filter((flag) => !active.reasons.includes(flag));
+  const due = slaDueAt(flags, now);
+  await tx.escalation.update({
+    where: { id: active.id },
+    data: {
+      reasons: [...active.reasons, ...added],
+      ...(due < active.slaDueAt ? { slaDueAt: due } : {}),
+      events: {
+        create: { action: "flags_raised", payload: { flags, riderCallId } },
+      },
+    },
+  });
+}
+
+/**
+ * Before a rider merge moves the merged rider's escalations to the survivor:
+ * when both have an active one, the merged rider's reasons are added to the
+ * survivor's and its escalation is resolved, so the survivor keeps a single
+ * active escalation.
+ */
+export async function foldEscalationsForMerge(
+  tx: Prisma.TransactionClient,
+  {
+    survivorId,
+    mergedId,
+    userId,
+    note,
+    now = new Date(),
+  }: {
+    survivorId: string;
+    mergedId: string;
+    userId: string | null;
+    note: string;
+    now?: Date;
+  },
+): Promise<void> {
+  await lockRiderEscalations(tx, [survivorId, mergedId]);
+  const [survivorActive, mergedActive] = await Promise.all(
+    [survivorId, mergedId].map((riderId) =>
+      tx.escalation.findFirst({
+        where: { riderId, status: { in: ACTIVE_STATUSES } },
+        orderBy: { openedAt: "desc" },
+      }),
+    ),
+  );
+  if (!survivorActive || !mergedActive) return;
+
+  const added = mergedActive.reasons.filter(
+    (reason) => !survivorActive.reasons.includes(reason),
+  );
+  await tx.escalation.update({
+    where: { id: survivorActive.id },
+    data: {
+      reasons: [...survivorActive.reasons, ...added],
+      ...(mergedActive.slaDueAt < survivorActive.slaDueAt
+        ? { slaDueAt: mergedActive.slaDueAt }
+        : {}),
+      events: {
+        create: {
+          action: "merged",
+          note,
+          payload: { escalationId: mergedActive.id, flags: added },
+          userId,
+          createdAt: now,
+        },
+      },
+    },
+  });
+  await tx.escalation.update({
+    where: { id: mergedActive.id },
+    data: {
+      status: EscalationStatus.RESOLVED,
+      resolvedAt: now,
+      resolvedByUserId: userId,
+      outcome: "not_needed",
+      events: {
+        create: {
+          action: "merged",
+          note,
+          payload: { intoEscalationId: survivorActive.id },
+          userId,
+          createdAt: now,
+        },
+      },
+    },
+  });
+}
+
+function canActOnClaim(
+  escalation: { claimedByUserId: string | null },
+  userId: string,
+  isAdmin: boolean,
+): boolean {
+  return isAdmin || escalation.claimedByUserId === userId;
+}
+
+async function loadEscalation(id: string) {
+  return prisma.escalation.findUniqueOrThrow({
+    where: { id },
+    include: escalationInclude,
+  });
+}
+
+/** Take an OPEN escalation; clears the rider flags it was raised for. */
+export async function claimEscalation({
+  id,
+  userId,
+}: {
+  id: string;
+  userId: string;
+}): Promise<EscalationActionResult> {
+  const now = new Date();
+  const result = await prisma.$transaction(async (tx) => {
+    const escalation = await tx.escalation.findUnique({
+      where: { id },
+      include: { rider: true },
+    });
+    if (!escalation) return "not_found" as const;
+
+    // Conditional: two agents claiming at once, only one wins
+    const claimed = await tx.escalation.updateMany({
+      where: { id, status: EscalationStatus.OPEN },
+      data: {
+        status: EscalationStatus.CLAIMED,
+        claimedAt: now,
+        claimedByUserId: userId,
+      },
+    });
+    if (claimed.count === 0) return "conflict" as const;
+
+    await clearFlags(tx, {
+      rider: escalation.rider,
+      flags: asRiderFlags(escalation.reasons),
+      source: "escalation",
+      userId,
+    });
+    await tx.escalationEvent.create({
+      data: { escalationId: id, action: "claimed", userId, createdAt: now },
+    });
+    return "ok" as const;
+  });
+
+  if (result === "not_found") {
+    return { ok: false, status: 404, error: "Escalation not found" };
+  }
+  if (result === "conflict") {
+    return { ok: false, status: 409, error: "Escalation is not open" };
+  }
+  return { ok: true, escalation: await loadEscalation(id) };
+}
+
+/** Put a CLAIMED escalation back in the queue (claimer or admin). */
+export async function releaseEscalation({
+  id,
+  userId,
+  isAdmin,
+}: {
+  id: string;
+  userId: string;
+  isAdmin: boolean;
+}): Promise<EscalationActionResult> {
+  const escalation = await prisma.escalation.findUnique({ where: { id } });
+  if (!escalation) {
+    return { ok: false, status: 404, error: "Escalation not found" };
+  }
+  if (escalation.status !== EscalationStatus.CLAIMED) {
+    return { ok: false, status: 409, error: "Escalation is not claimed" };
+  }
+  if (!canActOnClaim(escalation, userId, isAdmin)) {
+    return {
+      ok: false,
+      status: 403,
+      error: "Escalation is claimed by another user",
+    };
+  }
+
+  const released = await prisma.$transaction(async (tx) => {
+    const res = await tx.escalation.updateMany({
+      where: {
+        id,
+        status: EscalationStatus.CLAIMED,
+        claimedByUserId: escalation.claimedByUserId,
+      },
+      data: {
+        status: EscalationStatus.OPEN,
+        claimedAt: null,
+        claimedByUserId: null,
+      },
+    });
+    if (res.count === 0) return false;
+    await tx.escalationEvent.create({
+      data: { escalationId: id, action: "released", userId },
+    });
+    return true;
+  });
+
+  if (!released) {
+    return { ok: false, status: 409, error: "Escalation changed meanwhile" };
+  }
+  return { ok: true, escalation: await loadEscalation(id) };
+}
+
+export async function addEscalationNote({
+  id,
+  userId,
+  note,
+}: {
+  id: string;
+  userId: string;
+  note: string;
+}): Promise<EscalationActionResult> {
+  const escalation = await prisma.escalation.findUnique({ where: { id } });
+  if (!escalation) {
+    return { ok: false, status: 404, error: "Escalation not found" };
+  }
+
+  await prisma.escalationEvent.create({
+    data: { escalationId: id, action: "note", note, userId },
+  });
+  return { ok: true, escalation: await loadEscalation(id) };
+}
+
+/**
+ * Close an escalation with an outcome. A claimed escalation can only be
+ * resolved by its claimer or an admin. Flags raised again while it was
+ * claimed are cleared too.
+ */
+export async function resolveEscalation({
+  id,
+  userId,
+  isAdmin,
+  outcome,
+  note,
+}: {
+  id: string;
+  userId: string;
+  isAdmin: boolean;
+  outcome: EscalationOutcome;
+  note: string | null;
+}): Promise<EscalationActionResult> {
+  const escalation = await prisma.escalation.findUnique({ where: { id } });
+  if (!escalation) {
+    return { ok: false, status: 404, error: "Escalation not found" };
+  }
+  if (escalation.status === EscalationStatus.RESOLVED) {
+    return { ok: false, status: 409, error: "Escalation is already resolved" };
+  }
+  if (
+    escalation.status === EscalationStatus.CLAIMED &&
+    !canActOnClaim(escalation, userId, isAdmin)
+  ) {
+    return {
+      ok: false,
+      status: 403,
+      error: "Escalation is claimed by another user",
+    };
+  }
+
+  const now = new Date();
+  const resolved = await prisma.$transaction(async (tx) => {
+    const res = await tx.escalation.updateMany({
+      where: { id, status: escalation.status },
+      data: {
+        status: EscalationStatus.RESOLVED,
+        resolvedAt: now,
+        resolvedByUserId: userId,
+        outcome,
+      },
+    });
+    if (res.count === 0) return false;
+
+    const rider = await tx.rider.findUniqueOrThrow({
+      where: { id: escalation.riderId },
+    });
+    await clearFlags(tx, {
+      rider,
+      flags: asRiderFlags(escalation.reasons),
+      source: "escalation",
+      userId,
+      note,
+    });
+    await tx.escalationEvent.create({
+      data: {
+        escalationId: id,
+        action: "resolved",
+        note,
+        payload: { outcome },
+        userId,
+        createdAt: now,
+      },
+    });
+    return true;
+  });
+
+  if (!resolved) {
+    return { ok: false, status: 409, error: "Escalation changed meanwhile" };
+  }
+  return { ok: true, escalation: await loadEscalation(id) };
+}
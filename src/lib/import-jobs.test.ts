@@ -0,0 +1,180 @@
+import { CallStatus, ContactStatus, ImportJobStatus } from "@prisma/client";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { rollbackImportJob, type RollbackSummary } from "@/lib/import-jobs";
+
+const tx = vi.hoisted(() => ({
+  importJob: { findUnique: vi.fn(), updateMany: vi.fn(), update: vi.fn() },
+  importJobChange: { findMany: vi.fn(), findFirst: vi.fn() },
+  riderCall: { findUnique: vi.fn(), deleteMany: vi.fn(), update: vi.fn() },
+}));
+
+vi.mock("@/lib/prisma", () => ({
+  default: {
+    $transaction: (fn: (client: typeof tx) => Promise<unknown>) => fn(tx),
+  },
+}));
+
+const IMPORTED_AT = new Date("2026-10-18T09:00:00.000Z");
+
+function importedCall(id: string, fields: Record<string, unknown> = {}) {
+  return {
+    id,
+    status: CallStatus.COMPLETED as CallStatus,
+    contactStatus: ContactStatus.NO_ANSWER as ContactStatus,
+    contactedAt: IMPORTED_AT,
+    transcript: null,
+    summary: null,
+    sentiment: null,
+    attempt: 1,
+    runId: `run-${id}`,
+    urgentFlag: false,
+    legalIssueFlag: false,
+    humanRequested: false,
+    metadata: null,
+    tags: [] as string[],
+    canceledAt: null as Date | null,
+    dispatchJob: null,
+    campaignItem: null,
+    _count: {
+      events: 0,
+      notes: 0,
+      escalations: 0,
+      flagChanges: 0,
+      stageChanges: 0,
+      phoneSuppressions: 0,
+      dialBlocks: 0,
+    },
+    ...fields,
+  };
+}
+
+/** What recordCallResult stored for the call as the import wrote it. */
+function snapshot(call: ReturnType<typeof importedCall>) {
+  const {
+    tags: _tags,
+    canceledAt: _canceledAt,
+    dispatchJob: _dispatchJob,
+    campaignItem: _campaignItem,
+    _count,
+    id: _id,
+    ...fields
+  } = call;
+  return JSON.parse(JSON.stringify(fields));
+}
+
+function created(call: ReturnType<typeof importedCall>, after = true) {
+  return {
+    entity: "rider_call",
+    entityId: call.id,
+    action: "create",
+    before: null,
+    after: after ? snapshot(call) : null,
+  };
+}
+
+async function rollBack(
+  calls: ReturnType<typeof importedCall>[],
+  changes: ReturnType<typeof created>[],
+): Promise<RollbackSummary> {
+  tx.importJob.findUnique.mockResolvedValue({
+    id: "job-1",
+    status: ImportJobStatus.COMPLETED,
+    createdAt: IMPORTED_AT,
+    completedAt: IMPORTED_AT,
+  });
+  tx.importJobChange.findMany.mockResolvedValue(changes);
+  tx.importJobChange.findFirst.mockResolvedValue(null);
+  tx.importJob.updateMany.mockResolvedValue({ count: 1 });
+  tx.riderCall.findUnique.mockImplementation(
+    async ({ where }: { where: { id: string } }) =>
+      calls.find((c) => c.id === where.id) ?? null,
+  );
+  tx.riderCall.deleteMany.mockResolvedValue({ count: 1 });
+  tx.importJob.update.mockImplementation(async ({ data }) => data);
+
+  const result = await rollbackImportJob({ jobId: "job-1", userId: "user-1" });
+  if (!result.ok) throw new Error(result.error);
+  return (result.job as unknown as { rollbackResult: RollbackSummary })
+    .rollbackResult;
+}
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("rollbackImportJob", () => {
+  it("deletes a created call the import left as it was", async () => {
+    const call = importedCall("call-1");
+
+    const summary = await rollBack([call], [created(call)]);
+
+    expect(tx.riderCall.deleteMany).toHaveBeenCalledWith({
+      where: { id: "call-1" },
+    });
+    expect(summary).toMatchObject({
+      callsDeleted: 1,
+      callsKept: 0,
+      conflicts: [],
+    });
+  });
+
+  it("keeps a created call a callback has changed since", async () => {
+    const call = importedCall("call-1");
+    const change = created(call);
+    const current = {
+      ...call,
+      contactStatus: ContactStatus.COMPLETED,
+      _count: { ...call._count, events: 1 },
+    };
+
+    const summary = await rollBack([current], [change]);
+
+    expect(tx.riderCall.deleteMany).not.toHaveBeenCalled();
+    expect(summary.callsKept).toBe(1);
+    expect(summary.conflicts).toEqual([
+      {
+        entity: "rider_call",
+        entityId: "call-1",
+        detail: "Kept, changed since the import: contactStatus",
+      },
+    ]);
+  });
+
+  it("keeps a created call with notes or escalations", async () => {
+    const call = importedCall("call-1", {
+      _count: { ...importedCall("x")._count, notes: 2, escalations: 1 },
+    });
+
+    const summary = await rollBack([call], [created(call)]);
+
+    expect(tx.riderCall.deleteMany).not.toHaveBeenCalled();
+    expect(summary.conflicts[0].detail).toBe(
+      "Kept, it has notes, escalations from elsewhere",
+    );
+  });
+
+  it("keeps a canceled call", async () => {
+    const call = importedCall("call-1");
+    const change = created(call);
+
+    const summary = await rollBack(
+      [{ ...call, canceledAt: new Date() }],
+      [change],
+    );
+
+    expect(summary.conflicts[0].detail).toBe(
+      "Kept, changed since the import: canceledAt",
+    );
+  });
+
+  it("keeps created calls recorded without a snapshot", async () => {
+    const call = importedCall("call-1");
+
+    const summary = await rollBack([call], [created(call, false)]);
+
+    expect(tx.riderCall.deleteMany).not.toHaveBeenCalled();
+    expect(summary.conflicts[0].detail).toBe(
+      "Kept, no record of what the import wrote",
+    );
+  });
+});
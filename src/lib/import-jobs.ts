@@ -0,0 +1,602 @@
+import {
+  ImportJob,
+  ImportJobStatus,
+  Prisma,
+  Rider,
+  RiderCall,
+  RiderDocumentStatus,
+} from "@prisma/client";
+import prisma from "@/lib/prisma";
+
+/**
+ * Import job history and rollback.
+ *
+ * Every (non dry run) import is an ImportJob with one ImportJobRow per file
+ * row (see src/lib/import-runner.ts for how jobs are queued and processed).
+ * Before the import first writes a rider or call it records an
+ * ImportJobChange: "create" for new records, or "update" with the imported
+ * fields as they were (riders also keep their document checklist) and, once
+ * the row is written, as the import left them (created calls too).
+ *
+ * Rolling a job back deletes what it created and restores the fields it
+ * changed, calls first. Records changed since the import (callbacks,
+ * operators, merges) are left as they are and reported as conflicts, and so
+ * are created calls with notes, events or escalations and created riders
+ * that have calls or operator work from elsewhere. A job can't be rolled
+ * back while a later job that touched the same records stands.
+ */
+
+export type ImportEntity = "rider" | "rider_call";
+
+/** Rider fields an import writes (restored on rollback). */
+const RIDER_IMPORT_FIELDS = [
+  "driverName",
+  "phoneNumber",
+  "city",
+  "signUpDate",
+  "flowType",
+  "documentsUploaded",
+  "documents",
+  "licenseCountry",
+  "residentPermitStatus",
+  "lastContactAt",
+  "lastContactStatus",
+  "urgentFlag",
+  "legalIssueFlag",
+  "humanRequested",
+  "onboardingStage",
+  "onboardingStageAt",
+] as const satisfies readonly (keyof Rider)[];
+
+/** RiderCall fields an import writes (restored on rollback). */
+const CALL_IMPORT_FIELDS = [
+  "status",
+  "contactStatus",
+  "contactedAt",
+  "transcript",
+  "summary",
+  "sentiment",
+  "attempt",
+  "runId",
+  "urgentFlag",
+  "legalIssueFlag",
+  "humanRequested",
+  "metadata",
+] as const satisfies readonly (keyof RiderCall)[];
+
+/** Json columns: a null snapshot value must be restored as DbNull */
+const JSON_FIELDS = new Set<string>(["documents", "metadata"]);
+
+export interface ImportJobTracker {
+  jobId: string;
+  /** `${entity}:${id}` of the records already recorded by this worker run */
+  recorded: Set<string>;
+}
+
+function pick<T extends object, K extends keyof T>(
+  record: T,
+  fields: readonly K[],
+): Pick<T, K> {
+  const picked = {} as Pick<T, K>;
+  for (const field of fields) picked[field] = record[field];
+  return picked;
+}
+
+/**
+ * Insert a change unless the record already has one for this job: the
+ * first snapshot wins, also when a resumed job meets a record recorded
+ * before the restart.
+ */
+async function saveChange(
+  db: Prisma.TransactionClient,
+  tracker: ImportJobTracker,
+  data: Omit<Prisma.ImportJobChangeCreateManyInput, "jobId">,
+): Promise<void> {
+  tracker.recorded.add(`${data.entity}:${data.entityId}`);
+  await db.importJobChange.createMany({
+    data: [{ jobId: tracker.jobId, ...data }],
+    skipDuplicates: true,
+  });
+}
+
+/** Record that the import created a record. */
+export async function recordCreated(
+  db: Prisma.TransactionClient,
+  tracker: ImportJobTracker | null,
+  entity: ImportEntity,
+  entityId: string,
+): Promise<void> {
+  if (!tracker || tracker.recorded.has(`${entity}:${entityId}`)) return;
+  await saveChange(db, tracker, { entity, entityId, action: "create" });
+}
+
+async function riderSnapshot(
+  db: Prisma.TransactionClient,
+  rider: Rider,
+): Promise<Prisma.InputJsonValue> {
+  const checklist = await db.riderDocument.findMany({
+    where: { riderId: rider.id },
+  });
+  return JSON.parse(
+    JSON.stringify({ ...pick(rider, RIDER_IMPORT_FIELDS), checklist }),
+  );
+}
+
+function callSnapshot(call: RiderCall): Prisma.InputJsonValue {
+  return JSON.parse(JSON.stringify(pick(call, CALL_IMPORT_FIELDS)));
+}
+
+/** Snapshot a rider before the import first updates it. */
+export async function recordRiderUpdate(
+  db: Prisma.TransactionClient,
+  tracker: ImportJobTracker | null,
+  rider: Rider,
+): Promise<void> {
+  if (!tracker || tracker.recorded.has(`rider:${rider.id}`)) return;
+  await saveChange(db, tracker, {
+    entity: "rider",
+    entityId: rider.id,
+    action: "update",
+    before: await riderSnapshot(db, rider),
+  });
+}
+
+/**
+ * Snapshot an updated rider as the import left it, once its row is written
+ * (documents and onboarding stage included).
+ */
+export async function recordRiderResult(
+  db: Prisma.TransactionClient,
+  tracker: ImportJobTracker | null,
+  riderId: string,
+): Promise<void> {
+  if (!tracker) return;
+  const change = await db.importJobChange.findUnique({
+    where: {
+      jobId_entity_entityId: {
+        jobId: tracker.jobId,
+        entity: "rider",
+        entityId: riderId,
+      },
+    },
+    select: { id: true, action: true },
+  });
+  if (change?.action !== "update") return;
+
+  const rider = await db.rider.findUniqueOrThrow({ where: { id: riderId } });
+  await db.importJobChange.update({
+    where: { id: change.id },
+    data: { after: await riderSnapshot(db, rider) },
+  });
+}
+
+/** Snapshot a call before the import first updates it. */
+export async function recordCallUpdate(
+  db: Prisma.TransactionClient,
+  tracker: ImportJobTracker | null,
+  call: RiderCall,
+): Promise<void> {
+  if (!tracker || tracker.recorded.has(`rider_call:${call.id}`)) return;
+  await saveChange(db, tracker, {
+    entity: "rider_call",
+    entityId: call.id,
+    action: "update",
+    before: callSnapshot(call),
+  });
+}
+
+/** Snapshot a created or updated call as the import left it. */
+export async function recordCallResult(
+  db: Prisma.TransactionClient,
+  tracker: ImportJobTracker | null,
+  call: RiderCall,
+): Promise<void> {
+  if (!tracker) return;
+  await db.importJobChange.updateMany({
+    where: {
+      jobId: tracker.jobId,
+      entity: "rider_call",
+      entityId: call.id,
+    },
+    data: { after: callSnapshot(call) },
+  });
+}
+
+// Rollback
+
+/** A record rollback left as it is */
+export interface RollbackConflict {
+  entity: ImportEntity;
+  entityId: string;
+  detail: string;
+}
+
+export interface RollbackSummary {
+  ridersDeleted: number;
+  ridersRestored: number;
+  /** Created riders kept because they have calls or operator work from elsewhere */
+  ridersKept: number;
+  callsDeleted: number;
+  /** Created calls kept because they changed or gathered work since the import */
+  callsKept: number;
+  callsRestored: number;
+  conflicts: RollbackConflict[];
+}
+
+export type RollbackImportResult =
+  | { ok: true; job: ImportJob }
+  | { ok: false; status: 404 | 409; error: string };
+
+type Snapshot = Record<string, unknown>;
+
+interface DocumentSnapshot {
+  id: string;
+  status: RiderDocumentStatus;
+  note: string | null;
+  updatedAt: string;
+  documentTypeId: string;
+  updatedByUserId: string | null;
+}
+
+/** JSON with sorted keys: jsonb doesn't keep key order */
+function canonical(value: unknown): string {
+  return JSON.stringify(value ?? null, (_key, v: unknown) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.keys(v)
+          .sort()
+          .reduce<Snapshot>((sorted, key) => {
+            sorted[key] = (v as Snapshot)[key];
+            return sorted;
+          }, {})
+      : v,
+  );
+}
+
+/** Fields whose value differs between two snapshots */
+function diffFields(fields: readonly string[], a: Snapshot, b: Snapshot) {
+  return fields.filter((field) => canonical(a[field]) !== canonical(b[field]));
+}
+
+function documentsByType(snapshot: Snapshot): Map<string, DocumentSnapshot> {
+  const checklist = (snapshot.checklist ?? []) as DocumentSnapshot[];
+  return new Map(checklist.map((doc) => [doc.documentTypeId, doc]));
+}
+
+function sameDocument(a?: DocumentSnapshot, b?: DocumentSnapshot): boolean {
+  return (
+    (a?.status ?? null) === (b?.status ?? null) &&
+    (a?.note ?? null) === (b?.note ?? null)
+  );
+}
+
+function restoreData(
+  fields: readonly string[],
+  before: Snapshot,
+): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
+  for (const field of fields) {
+    const value = before[field] ?? null;
+    data[field] =
+      value === null && JSON_FIELDS.has(field) ? Prisma.DbNull : value;
+  }
+  return data;
+}
+
+export async function rollbackImportJob({
+  jobId,
+  userId,
+}: {
+  jobId: string;
+  userId: string | null;
+}): Promise<RollbackImportResult> {
+  return prisma.$transaction(
+    async (tx): Promise<RollbackImportResult> => {
+      const job = await tx.importJob.findUnique({ where: { id: jobId } });
+      if (!job) return { ok: false, status: 404, error: "Import not found" };
+      if (
+        job.status === ImportJobStatus.UPLOADING ||
+        job.status === ImportJobStatus.QUEUED ||
+        job.status === ImportJobStatus.RUNNING
+      ) {
+        return { ok: false, status: 409, error: "Import is still running" };
+      }
+      if (job.status === ImportJobStatus.ROLLED_BACK) {
+        return {
+          ok: false,
+          status: 409,
+          error: "Import is already rolled back",
+        };
+      }
+
+      // Calls ("rider_call") before riders, so a created rider's calls are
+      // deleted before the rider; changes of one batch share a timestamp
+      const changes = await tx.importJobChange.findMany({
+        where: { jobId },
+        orderBy: [{ entity: "desc" }, { createdAt: "desc" }],
+      });
+      const idsOf = (entity: ImportEntity) =>
+        changes.filter((c) => c.entity === entity).map((c) => c.entityId);
+
+      const later = await tx.importJobChange.findFirst({
+        where: {
+          jobId: { not: jobId },
+          job: {
+            createdAt: { gt: job.createdAt },
+            status: { not: ImportJobStatus.ROLLED_BACK },
+          },
+          OR: [
+            { entity: "rider", entityId: { in: idsOf("rider") } },
+            { entity: "rider_call", entityId: { in: idsOf("rider_call") } },
+          ],
+        },
+        include: { job: { select: { id: true, createdAt: true } } },
+      });
+      if (later) {
+        return {
+          ok: false,
+          status: 409,
+          error: `A later import (${later.job.createdAt.toISOString()}) changed the same riders; roll it back first`,
+        };
+      }
+
+      // Conditional: only one rollback wins
+      const claimed = await tx.importJob.updateMany({
+        where: {
+          id: jobId,
+          status: { in: [ImportJobStatus.COMPLETED, ImportJobStatus.FAILED] },
+        },
+        data: { status: ImportJobStatus.ROLLED_BACK },
+      });
+      if (claimed.count === 0) {
+        return { ok: false, status: 409, error: "Import changed, try again" };
+      }
+
+      const summary: RollbackSummary = {
+        ridersDeleted: 0,
+        ridersRestored: 0,
+        ridersKept: 0,
+        callsDeleted: 0,
+        callsKept: 0,
+        callsRestored: 0,
+        conflicts: [],
+      };
+      const conflict = (
+        entity: ImportEntity,
+        entityId: string,
+        detail: string,
+      ) => summary.conflicts.push({ entity, entityId, detail });
+      const jobEnd = job.completedAt ?? new Date();
+
+      for (const change of changes) {
+        const before = (change.before ?? {}) as Snapshot;
+        const after = change.after as Snapshot | null;
+
+        if (change.entity === "rider_call") {
+          if (change.action === "create") {
+            const call = await tx.riderCall.findUnique({
+              where: { id: change.entityId },
+              include: {
+                _count: {
+                  select: {
+                    events: true,
+                    notes: true,
+                    escalations: true,
+                    flagChanges: true,
+                    stageChanges: true,
+                    phoneSuppressions: true,
+                    dialBlocks: true,
+                  },
+                },
+                dispatchJob: { select: { id: true } },
+                campaignItem: { select: { id: true } },
+              },
+            });
+            if (!call) continue;
+            const work = Object.entries(call._count)
+              .filter(([, count]) => count > 0)
+              .map(([relation]) => relation);
+            if (call.dispatchJob) work.push("dispatchJob");
+            if (call.campaignItem) work.push("campaignItem");
+            if (call.tags.length) work.push("tags");
+            const drifted = after
+              ? diffFields(
+                  CALL_IMPORT_FIELDS,
+                  callSnapshot(call) as Snapshot,
+                  after,
+                )
+              : [];
+            if (call.canceledAt) drifted.push("canceledAt");
+            if (!after || drifted.length || work.length) {
+              summary.callsKept++;
+              conflict(
+                "rider_call",
+                call.id,
+                !after
+                  ? "Kept, no record of what the import wrote"
+                  : drifted.length
+                    ? `Kept, changed since the import: ${drifted.join(", ")}`
+                    : `Kept, it has ${work.join(", ")} from elsewhere`,
+              );
+              continue;
+            }
+            const deleted = await tx.riderCall.deleteMany({
+              where: { id: call.id },
+            });
+            summary.callsDeleted += deleted.count;
+            continue;
+          }
+          const call = await tx.riderCall.findUnique({
+            where: { id: change.entityId },
+          });
+          if (!call) continue;
+          if (!after) {
+            conflict(
+              "rider_call",
+              call.id,
+              "No record of what the import wrote",
+            );
+            continue;
+          }
+          const current = callSnapshot(call) as Snapshot;
+          const changed = diffFields(CALL_IMPORT_FIELDS, before, after);
+          const drifted = diffFields(changed, current, after);
+          if (drifted.length) {
+            conflict(
+              "rider_call",
+              call.id,
+              `Changed since the import: ${drifted.join(", ")}`,
+            );
+            continue;
+          }
+          if (changed.length) {
+            await tx.riderCall.update({
+              where: { id: call.id },
+              data: restoreData(changed, before),
+            });
+          }
+          summary.callsRestored++;
+          continue;
+        }
+
+        if (change.action === "create") {
+          // Calls the job created are gone by now unless kept above; anything
+          // left keeps the rider
+          const rider = await tx.rider.findUnique({
+            where: { id: change.entityId },
+            select: {
+              tags: true,
+              _count: {
+                select: {
+                  calls: true,
+                  notes: true,
+                  escalations: true,
+                  phoneSuppressions: true,
+                  merges: true,
+                  flagChanges: true,
+                  stageChanges: { where: { source: { not: "import" } } },
+                  documentChecklist: {
+                    where: { updatedByUserId: { not: null } },
+                  },
+                },
+              },
+            },
+          });
+          if (!rider) continue;
+          const work = Object.entries(rider._count)
+            .filter(([, count]) => count > 0)
+            .map(([relation]) => relation);
+          if (rider.tags.length) work.push("tags");
+          if (work.length) {
+            summary.ridersKept++;
+            conflict(
+              "rider",
+              change.entityId,
+              `Kept, it has ${work.join(", ")} from elsewhere`,
+            );
+            continue;
+          }
+          const deleted = await tx.rider.deleteMany({
+            where: { id: change.entityId },
+          });
+          summary.ridersDeleted += deleted.count;
+          continue;
+        }
+
+        const rider = await tx.rider.findUnique({
+          where: { id: change.entityId },
+        });
+        if (!rider) continue;
+        if (!after) {
+          conflict("rider", rider.id, "No record of what the import wrote");
+          continue;
+        }
+        const current = (await riderSnapshot(tx, rider)) as Snapshot;
+        const changed = diffFields(RIDER_IMPORT_FIELDS, before, after);
+        const drifted = diffFields(changed, current, after);
+
+        const beforeDocs = documentsByType(before);
+        const afterDocs = documentsByType(after);
+        const currentDocs = documentsByType(current);
+        const changedTypes = Array.from(
+          new Set([
+            ...Array.from(beforeDocs.keys()),
+            ...Array.from(afterDocs.keys()),
+          ]),
+        ).filter(
+          (type) => !sameDocument(beforeDocs.get(type), afterDocs.get(type)),
+        );
+        if (
+          changedTypes.some(
+            (type) => !sameDocument(currentDocs.get(type), afterDocs.get(type)),
+          )
+        ) {
+          drifted.push("checklist");
+        }
+        if (drifted.length) {
+          conflict(
+            "rider",
+            rider.id,
+            `Changed since the import: ${drifted.join(", ")}`,
+          );
+          continue;
+        }
+
+        if (changed.length) {
+          await tx.rider.update({
+            where: { id: rider.id },
+            data: restoreData(changed, before),
+          });
+        }
+        summary.ridersRestored++;
+
+        // Skip document types deleted from the catalog since
+        const types = new Set(
+          (
+            await tx.documentType.findMany({
+              where: { id: { in: changedTypes } },
+              select: { id: true },
+            })
+          ).map((t) => t.id),
+        );
+        for (const type of changedTypes) {
+          const doc = beforeDocs.get(type);
+          if (!doc) {
+            await tx.riderDocument.deleteMany({
+              where: { riderId: rider.id, documentTypeId: type },
+            });
+          } else if (types.has(type)) {
+            await tx.riderDocument.upsert({
+              where: {
+                riderId_documentTypeId: {
+                  riderId: rider.id,
+                  documentTypeId: type,
+                },
+              },
+              update: { status: doc.status, note: doc.note },
+              create: { ...doc, riderId: rider.id },
+            });
+          }
+        }
+        // Stage moves made by this import go with it (the stage itself is restored above)
+        await tx.riderStageChange.deleteMany({
+          where: {
+            riderId: change.entityId,
+            source: "import",
+            createdAt: { gte: job.createdAt, lte: jobEnd },
+          },
+        });
+      }
+
+      const updated = await tx.importJob.update({
+        where: { id: jobId },
+        data: {
+          rolledBackAt: new Date(),
+          rolledBackByUserId: userId,
+          rollbackResult: JSON.parse(JSON.stringify(summary)),
+        },
+      });
+      return { ok: true, job: updated };
+    },
+    { timeout: 120_000 },
+  );
+}
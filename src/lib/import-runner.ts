@@ -0,0 +1,234 @@
+import { ImportJob, ImportJobStatus } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { ImportJobTracker } from "@/lib/import-jobs";
+import {
+  ImportFileReader,
+  ImportMapping,
+  createImportContext,
+  importMappingSchema,
+  importRows,
+  mappedHeaders,
+  validateRows,
+} from "@/lib/rider-import";
+
+/**
+ * Background rider imports.
+ *
+ * The upload request only reads the file (streamed, a batch at a time) into
+ * pending ImportJobRows holding the mapped columns, then queues the job. The
+ * worker imports the pending rows in batches of BATCH_SIZE, one transaction
+ * per batch: the rows' results, the job counts and its `processedRows`
+ * cursor are written with the batch, so a job stopped half way (crash,
+ * deploy, a failing batch) resumes after the last committed batch.
+ *
+ * Env:
+ * - IMPORT_BATCH_SIZE (default 200): rows per transaction
+ */
+
+const STAGE_BATCH = 1000;
+const BATCH_SIZE = Math.max(1, Number(process.env.IMPORT_BATCH_SIZE) || 200);
+const PENDING = "pending";
+// Jobs RUNNING without progress for this long are assumed abandoned
+const STALE_LOCK_MS = 5 * 60_000;
+
+/**
+ * Create the job and stage every file row; the worker picks it up once the
+ * whole file is staged.
+ */
+export async function queueImportJob({
+  file,
+  fileName,
+  mapping,
+  userId,
+}: {
+  file: ImportFileReader;
+  fileName: string | null;
+  mapping: ImportMapping;
+  userId: string | null;
+}): Promise<ImportJob> {
+  const job = await prisma.importJob.create({
+    data: {
+      status: ImportJobStatus.UPLOADING,
+      fileName,
+      format: mapping.format,
+      mapping,
+      uploadedByUserId: userId,
+    },
+  });
+
+  const headers = mappedHeaders(mapping);
+  let totalRows = 0;
+  try {
+    for (;;) {
+      const records = await file.read(STAGE_BATCH);
+      if (!records.length) break;
+      await prisma.importJobRow.createMany({
+        data: records.map((record, i) => ({
+          jobId: job.id,
+          row: totalRows + i + 1,
+          record: Object.fromEntries(headers.map((h) => [h, record[h] ?? ""])),
+        })),
+      });
+      totalRows += records.length;
+    }
+  } catch (error) {
+    // Without the whole file the job can't run; drop what was staged
+    await prisma.importJobRow.deleteMany({ where: { jobId: job.id } });
+    await prisma.importJob.update({
+      where: { id: job.id },
+      data: {
+        status: ImportJobStatus.FAILED,
+        completedAt: new Date(),
+        error: `Upload failed: ${error instanceof Error ? error.message : String(error)}`,
+      },
+    });
+    throw error;
+  }
+
+  return prisma.importJob.update({
+    where: { id: job.id },
+    data: { status: ImportJobStatus.QUEUED, totalRows },
+  });
+}
+
+async function processImportJob(job: ImportJob): Promise<void> {
+  const mapping = importMappingSchema.parse(job.mapping);
+  const tracker: ImportJobTracker = { jobId: job.id, recorded: new Set() };
+  const ctx = createImportContext({
+    initiatedByUserId: job.uploadedByUserId,
+    job: tracker,
+  });
+  let cursor = job.processedRows;
+
+  for (;;) {
+    const pending = await prisma.importJobRow.findMany({
+      where: { jobId: job.id, action: PENDING, row: { gt: cursor } },
+      orderBy: { row: "asc" },
+      take: BATCH_SIZE,
+    });
+    if (!pending.length) break;
+
+    const rows = pending.flatMap((p) =>
+      validateRows([p.record as Record<string, string>], mapping, p.row),
+    );
+    const lastRow = pending[pending.length - 1].row;
+
+    await prisma.$transaction(
+      async (tx) => {
+        const result = await importRows(tx, rows, ctx);
+        await tx.importJobRow.deleteMany({
+          where: { id: { in: pending.map((p) => p.id) } },
+        });
+        await tx.importJobRow.createMany({
+          data: result.rows.map((row) => ({ jobId: job.id, ...row })),
+        });
+        await tx.importJob.update({
+          where: { id: job.id },
+          data: {
+            processedRows: lastRow,
+            lockedAt: new Date(),
+            ridersCreated: { increment: result.ridersCreated },
+            ridersUpdated: { increment: result.ridersUpdated },
+            callsCreated: { increment: result.callsCreated },
+            callsUpdated: { increment: result.callsUpdated },
+            skipped: { increment: result.skipped },
+          },
+        });
+      },
+      { timeout: 120_000 },
+    );
+    cursor = lastRow;
+  }
+
+  await prisma.importJob.update({
+    where: { id: job.id },
+    data: {
+      status: ImportJobStatus.COMPLETED,
+      completedAt: new Date(),
+      lockedAt: null,
+    },
+  });
+}
+
+/** Run the oldest queued import to completion (one job per tick). */
+export async function runImportJobs(now = new Date()): Promise<number> {
+  // Release jobs left RUNNING by a crashed worker; they resume at their cursor
+  await prisma.importJob.updateMany({
+    where: {
+      status: ImportJobStatus.RUNNING,
+      lockedAt: { lt: new Date(now.getTime() - STALE_LOCK_MS) },
+    },
+    data: { status: ImportJobStatus.QUEUED, lockedAt: null },
+  });
+
+  const next = await prisma.importJob.findFirst({
+    where: { status: ImportJobStatus.QUEUED },
+    orderBy: { createdAt: "asc" },
+  });
+  if (!next) return 0;
+
+  // Conditional: only one worker claims the job
+  const claimed = await prisma.importJob.updateMany({
+    where: { id: next.id, status: ImportJobStatus.QUEUED },
+    data: {
+      status: ImportJobStatus.RUNNING,
+      lockedAt: new Date(),
+      startedAt: next.startedAt ?? new Date(),
+    },
+  });
+  if (claimed.count === 0) return 0;
+
+  try {
+    await processImportJob(next);
+  } catch (error) {
+    console.error(`[Import Runner] Import ${next.id} failed:`, error);
+    // The failing batch was rolled back; the job can be resumed from there
+    await prisma.importJob.update({
+      where: { id: next.id },
+      data: {
+        status: ImportJobStatus.FAILED,
+        completedAt: new Date(),
+        lockedAt: null,
+        error: error instanceof Error ? error.message : String(error),
+      },
+    });
+  }
+  return 1;
+}
+
+export type ResumeImportResult =
+  | { ok: true; job: ImportJob }
+  | { ok: false; status: 404 | 409; error: string };
+
+/** Queue a failed import again; it continues after its last imported row. */
+export async function resumeImportJob(
+  jobId: string,
+): Promise<ResumeImportResult> {
+  const job = await prisma.importJob.findUnique({ where: { id: jobId } });
+  if (!job) return { ok: false, status: 404, error: "Import not found" };
+
+  // Conditional; a job that failed while uploading has no pending rows left
+  const resumed = await prisma.importJob.updateMany({
+    where: {
+      id: jobId,
+      status: ImportJobStatus.FAILED,
+      rows: { some: { action: PENDING } },
+    },
+    data: {
+      status: ImportJobStatus.QUEUED,
+      error: null,
+      completedAt: null,
+    },
+  });
+  if (resumed.count === 0) {
+    return {
+      ok: false,
+      status: 409,
+      error: "Only failed imports with rows left can resume",
+    };
+  }
+  return {
+    ok: true,
+    job: await prisma.importJob.findUniqueOrThrow({ where: { id: jobId } }),
+  };
+}
@@ -0,0 +1,70 @@
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+
+export const noteInclude = {
+  author: { select: { id: true, email: true, name: true } },
+  riderCall: { select: { id: true, attempt: true } },
+  revisions: {
+    orderBy: { editedAt: "desc" },
+    include: {
+      editedByUser: { select: { id: true, email: true, name: true } },
+    },
+  },
+} satisfies Prisma.NoteInclude;
+
+export type NoteWithRelations = Prisma.NoteGetPayload<{
+  include: typeof noteInclude;
+}>;
+
+export type EditNoteResult =
+  | { ok: true; note: NoteWithRelations }
+  | { ok: false; status: 403 | 404; error: string };
+
+/**
+ * Replace a note's body, keeping the previous one as a revision.
+ * Only the author (or an admin) may edit.
+ */
+export async function editNote({
+  id,
+  body,
+  userId,
+  isAdmin,
+}: {
+  id: string;
+  body: string;
+  userId: string;
+  isAdmin: boolean;
+}): Promise<EditNoteResult> {
+  const note = await prisma.note.findUnique({ where: { id } });
+  if (!note) return { ok: false, status: 404, error: "Note not found" };
+  if (note.authorId !== userId && !isAdmin) {
+    return { ok: false, status: 403, error: "Only the author can edit a note" };
+  }
+  if (note.body === body) {
+    return {
+      ok: true,
+      note: await prisma.note.findUniqueOrThrow({
+        where: { id },
+        include: noteInclude,
+      }),
+    };
+  }
+
+  const now = new Date();
+  const [, updated] = await prisma.$transaction([
+    prisma.noteRevision.create({
+      data: {
+        noteId: id,
+        body: note.body,
+        editedByUserId: userId,
+        editedAt: now,
+      },
+    }),
+    prisma.note.update({
+      where: { id },
+      data: { body, editedAt: now },
+      include: noteInclude,
+    }),
+  ]);
+  return { ok: true, note: updated };
+}
@@ -0,0 +1,275 @@
+import { OnboardingStage, Prisma, Rider } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import type { AnalyticsRange } from "@/lib/analytics";
+
+/**
+ * Onboarding funnel.
+ *
+ * Each rider has a current stage and a history of the stages it entered
+ * (RiderStageChange). Imports and callbacks move riders forward based on
+ * their data (see deriveOnboardingStage); they never move a rider back.
+ * Operators can set any stage by hand, e.g. ACTIVATED, which no data source
+ * reports.
+ */
+
+export const ONBOARDING_STAGES = [
+  OnboardingStage.SIGNED_UP,
+  OnboardingStage.CONTACTED,
+  OnboardingStage.DOCUMENTS_PARTIAL,
+  OnboardingStage.DOCUMENTS_COMPLETE,
+  OnboardingStage.PERMIT_VERIFIED,
+  OnboardingStage.ACTIVATED,
+] as const;
+
+export type StageChangeSource = "import" | "callback" | "manual" | "merge";
+
+export function stageRank(stage: OnboardingStage): number {
+  return ONBOARDING_STAGES.indexOf(stage);
+}
+
+/**
+ * Furthest stage a rider's data proves. Keep in sync with the backfill in
+ * prisma/migrations/20261018200000_onboarding_stages.
+ */
+export function deriveOnboardingStage(
+  rider: Pick<
+    Rider,
+    "documentsUploaded" | "residentPermitStatus" | "lastContactStatus"
+  >,
+): OnboardingStage {
+  if (rider.documentsUploaded === "YES") {
+    return rider.residentPermitStatus?.trim().toLowerCase() === "active"
+      ? OnboardingStage.PERMIT_VERIFIED
+      : OnboardingStage.DOCUMENTS_COMPLETE;
+  }
+  if (rider.documentsUploaded === "PARTIAL") {
+    return OnboardingStage.DOCUMENTS_PARTIAL;
+  }
+  if (rider.lastContactStatus === "COMPLETED") {
+    return OnboardingStage.CONTACTED;
+  }
+  return OnboardingStage.SIGNED_UP;
+}
+
+/**
+ * Move a rider forward to the stage its data proves, recording the change.
+ * Returns the new stage, or null when the rider stays where it is.
+ */
+export async function syncOnboardingStage(
+  tx: Prisma.TransactionClient,
+  {
+    rider,
+    source,
+    riderCallId = null,
+    userId = null,
+    now = new Date(),
+  }: {
+    rider: Rider;
+    source: StageChangeSource;
+    riderCallId?: string | null;
+    userId?: string | null;
+    now?: Date;
+  },
+): Promise<OnboardingStage | null> {
+  const stage = deriveOnboardingStage(rider);
+  if (stageRank(stage) <= stageRank(rider.onboardingStage)) return null;
+
+  // Conditional: skip if the stage changed since the rider was read
+  const moved = await tx.rider.updateMany({
+    where: { id: rider.id, onboardingStage: rider.onboardingStage },
+    data: { onboardingStage: stage, onboardingStageAt: now },
+  });
+  if (moved.count === 0) return null;
+
+  await tx.riderStageChange.create({
+    data: {
+      riderId: rider.id,
+      fromStage: rider.onboardingStage,
+      toStage: stage,
+      source,
+      riderCallId,
+      userId,
+      createdAt: now,
+    },
+  });
+  return stage;
+}
+
+export type SetStageResult =
+  | { ok: true; rider: Rider }
+  | { ok: false; status: 404 | 409; error: string };
+
+/** Set a rider's stage by hand (forward or back), recording who did it. */
+export async function setOnboardingStage({
+  riderId,
+  stage,
+  userId,
+  note,
+}: {
+  riderId: string;
+  stage: OnboardingStage;
+  userId: string | null;
+  note: string | null;
+}): Promise<SetStageResult> {
+  return prisma.$transaction(async (tx): Promise<SetStageResult> => {
+    const rider = await tx.rider.findUnique({ where: { id: riderId } });
+    if (!rider) return { ok: false, status: 404, error: "Rider not found" };
+    if (rider.onboardingStage === stage) {
+      return { ok: false, status: 409, error: `Rider is already ${stage}` };
+    }
+
+    const now = new Date();
+    const updated = await tx.rider.update({
+      where: { id: riderId },
+      data: { onboardingStage: stage, onboardingStageAt: now },
+    });
+    await tx.riderStageChange.create({
+      data: {
+        riderId,
+        fromStage: rider.onboardingStage,
+        toStage: stage,
+        source: "manual",
+        note,
+        userId,
+        createdAt: now,
+      },
+    });
+    return { ok: true, rider: updated };
+  });
+}
+
+// Funnel report
+
+export interface FunnelStage {
+  stage: OnboardingStage;
+  /** Riders that reached this stage or a later one */
+  reached: number;
+  /** Riders currently in this stage */
+  current: number;
+  /** reached / reached of the previous stage (null for the first) */
+  conversion: number | null;
+  /** Time spent in the stage by riders that moved on from it */
+  exits: number;
+  avgHours: number | null;
+  medianHours: number | null;
+}
+
+export interface OnboardingFunnel {
+  range: AnalyticsRange;
+  called: "yes" | "no" | null;
+  riders: number;
+  stages: FunnelStage[];
+}
+
+/**
+ * Funnel for the riders that signed up in the range (sign-up date, or
+ * creation date when unknown).
+ *
+ * `called` narrows the cohort to riders with (yes) or without (no) a
+ * completed call, to compare how far each group gets.
+ *
+ * Time-in-stage runs from entering a stage to entering the next one.
+ * Every rider enters SIGNED_UP at sign-up; intervals touching a backfilled
+ * change are skipped since their real time is unknown.
+ */
+export async function getOnboardingFunnel({
+  range,
+  called,
+}: {
+  range: AnalyticsRange;
+  called: "yes" | "no" | null;
+}): Promise<OnboardingFunnel> {
+  const gte = new Date(`${range.from}T00:00:00.000Z`);
+  const lte = new Date(`${range.to}T23:59:59.999Z`);
+  const calledFilter =
+    called === null
+      ? Prisma.empty
+      : Prisma.sql`AND ${called === "yes" ? Prisma.empty : Prisma.sql`NOT`} EXISTS (
+          SELECT 1 FROM "rider_calls" rc
+          WHERE rc."rider_id" = r."id" AND rc."contact_status" = 'COMPLETED'
+        )`;
+
+  const cohort = Prisma.sql`
+    SELECT r."id", r."onboarding_stage",
+      COALESCE(r."sign_up_date", r."created_at") AS "started_at"
+    FROM "riders" r
+    WHERE COALESCE(r."sign_up_date", r."created_at") >= ${gte}
+      AND COALESCE(r."sign_up_date", r."created_at") <= ${lte}
+      ${calledFilter}`;
+
+  const [reachedRows, durationRows] = await Promise.all([
+    prisma.$queryRaw<
+      { stage: OnboardingStage; reached: number; current: number }[]
+    >`
+      WITH cohort AS (${cohort}),
+      furthest AS (
+        SELECT co."id", co."onboarding_stage",
+          GREATEST(co."onboarding_stage", MAX(c."to_stage")) AS "furthest"
+        FROM cohort co
+        LEFT JOIN "rider_stage_changes" c ON c."rider_id" = co."id"
+        GROUP BY co."id", co."onboarding_stage"
+      )
+      SELECT s."stage",
+        COUNT(f."id") FILTER (WHERE f."furthest" >= s."stage")::int AS "reached",
+        COUNT(f."id") FILTER (WHERE f."onboarding_stage" = s."stage")::int AS "current"
+      FROM unnest(enum_range(NULL::"OnboardingStage")) AS s("stage")
+      CROSS JOIN furthest f
+      GROUP BY s."stage"`,
+    prisma.$queryRaw<
+      {
+        stage: OnboardingStage;
+        exits: number;
+        avgHours: number | null;
+        medianHours: number | null;
+      }[]
+    >`
+      WITH cohort AS (${cohort}),
+      timeline AS (
+        SELECT co."id" AS "rider_id", 'SIGNED_UP'::"OnboardingStage" AS "stage",
+          co."started_at" AS "at", false AS "backfill"
+        FROM cohort co
+        UNION ALL
+        SELECT c."rider_id", c."to_stage", c."created_at", c."source" = 'backfill'
+        FROM "rider_stage_changes" c
+        JOIN cohort co ON co."id" = c."rider_id"
+        -- The implicit entry already covers a backfilled SIGNED_UP
+        WHERE NOT (c."source" = 'backfill' AND c."to_stage" = 'SIGNED_UP')
+      ),
+      intervals AS (
+        SELECT "stage", "backfill",
+          LEAD("at") OVER w - "at" AS "spent",
+          LEAD("backfill") OVER w AS "next_backfill"
+        FROM timeline
+        WINDOW w AS (PARTITION BY "rider_id" ORDER BY "at", "backfill")
+      )
+      SELECT "stage",
+        COUNT(*)::int AS "exits",
+        (AVG(EXTRACT(EPOCH FROM "spent")) / 3600)::float8 AS "avgHours",
+        (percentile_cont(0.5) WITHIN GROUP (ORDER BY EXTRACT(EPOCH FROM "spent")) / 3600)::float8 AS "medianHours"
+      FROM intervals
+      WHERE "spent" IS NOT NULL AND NOT "backfill" AND NOT "next_backfill"
+      GROUP BY "stage"`,
+  ]);
+
+  const reachedBy = new Map(reachedRows.map((row) => [row.stage, row]));
+  const durationBy = new Map(durationRows.map((row) => [row.stage, row]));
+  const riders = reachedBy.get(OnboardingStage.SIGNED_UP)?.reached ?? 0;
+
+  const stages = ONBOARDING_STAGES.map((stage, i): FunnelStage => {
+    const reached = reachedBy.get(stage)?.reached ?? 0;
+    const previous =
+      i === 0 ? null : (reachedBy.get(ONBOARDING_STAGES[i - 1])?.reached ?? 0);
+    const duration = durationBy.get(stage);
+    return {
+      stage,
+      reached,
+      current: reachedBy.get(stage)?.current ?? 0,
+      conversion: previous === null ? null : previous ? reached / previous : 0,
+      exits: duration?.exits ?? 0,
+      avgHours: duration?.avgHours ?? null,
+      medianHours: duration?.medianHours ?? null,
+    };
+  });
+
+  return { range, called, riders, stages };
+}
@@ -0,0 +1,163 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  defaultPhoneCountry,
+  normalizePhone,
+  parsePhone,
+  phoneNumberForms,
+  phoneSearchTerm,
+} from "@/lib/phone";
+
+const ORIGINAL_DEFAULT = process.env.DEFAULT_PHONE_COUNTRY;
+
+afterEach(() => {
+  if (ORIGINAL_DEFAULT === undefined) delete process.env.DEFAULT_PHONE_COUNTRY;
+  else process.env.DEFAULT_PHONE_COUNTRY = ORIGINAL_DEFAULT;
+});
+
+describe("parsePhone", () => {
+  it("reads international numbers written with + or 00", () => {
+    for (const input of ["+351 912 345 678", "00351912345678"]) {
+      const result = parsePhone(input);
+      expect(result).toEqual({
+        ok: true,
+        phone: {
+          e164: "+351912345678",
+          country: "PT",
+          nationalNumber: "912345678",
+          lineType: "mobile",
+        },
+      });
+    }
+  });
+
+  it("prefers the longest calling code", () => {
+    // +351 (PT), not +35 or +3
+    const result = parsePhone("+351212345678");
+    expect(result.ok && result.phone.country).toBe("PT");
+    expect(result.ok && result.phone.lineType).toBe("landline");
+  });
+
+  it("reads national numbers in the default country", () => {
+    expect(normalizePhone("912 345 678")).toBe("+351912345678");
+    expect(normalizePhone("618-953-592", "ES")).toBe("+34618953592");
+  });
+
+  it("drops the trunk prefix of national numbers", () => {
+    expect(normalizePhone("(011) 98765-4321", "BR")).toBe("+5511987654321");
+    expect(normalizePhone("07911 123456", "GB")).toBe("+447911123456");
+    expect(normalizePhone("06 12 34 56 78", "FR")).toBe("+33612345678");
+  });
+
+  it("accepts an international number written without the +", () => {
+    expect(normalizePhone("351912345678")).toBe("+351912345678");
+  });
+
+  it("keeps the leading 0 of Italian landlines", () => {
+    const result = parsePhone("+39 06 1234 5678");
+    expect(result.ok && result.phone.e164).toBe("+390612345678");
+    expect(result.ok && result.phone.lineType).toBe("landline");
+  });
+
+  it("tells Spanish mobiles from landlines", () => {
+    const mobile = parsePhone("+34 712 345 678");
+    const landline = parsePhone("+34 912 345 678");
+    expect(mobile.ok && mobile.phone.lineType).toBe("mobile");
+    expect(landline.ok && landline.phone.lineType).toBe("landline");
+  });
+
+  it("rejects Portuguese premium-rate and special numbers", () => {
+    for (const input of ["612345678", "707123456", "808123456"]) {
+      expect(parsePhone(input, "PT")).toEqual({
+        ok: false,
+        error: "Not a valid PT phone number",
+      });
+    }
+  });
+
+  it("rejects numbers of the wrong length for their plan", () => {
+    expect(parsePhone("+35191234567").ok).toBe(false);
+    expect(parsePhone("+3519123456789").ok).toBe(false);
+    expect(parsePhone("+1 212 555 012").ok).toBe(false);
+  });
+
+  it("accepts structurally valid numbers of other countries", () => {
+    expect(parsePhone("+81 90 1234 5678")).toEqual({
+      ok: true,
+      phone: {
+        e164: "+819012345678",
+        country: null,
+        nationalNumber: "819012345678",
+        lineType: "unknown",
+      },
+    });
+  });
+
+  it("rejects unknown-country numbers outside E.164 bounds", () => {
+    expect(parsePhone("+8112345").ok).toBe(false);
+    expect(parsePhone("+8112345678901234").ok).toBe(false);
+    expect(parsePhone("+0123456789").ok).toBe(false);
+  });
+
+  it("rejects empty input and letters", () => {
+    expect(parsePhone("  ")).toEqual({
+      ok: false,
+      error: "Phone number is empty",
+    });
+    expect(parsePhone("+351 91x 345 678")).toEqual({
+      ok: false,
+      error: "Phone number has invalid characters",
+    });
+  });
+});
+
+describe("defaultPhoneCountry", () => {
+  it("uses DEFAULT_PHONE_COUNTRY when it is a known country", () => {
+    process.env.DEFAULT_PHONE_COUNTRY = " es ";
+    expect(defaultPhoneCountry()).toBe("ES");
+    expect(normalizePhone("618953592")).toBe("+34618953592");
+  });
+
+  it("falls back to PT", () => {
+    process.env.DEFAULT_PHONE_COUNTRY = "XX";
+    expect(defaultPhoneCountry()).toBe("PT");
+  });
+});
+
+describe("phoneNumberForms", () => {
+  it("lists the stored spellings of a default-country number", () => {
+    const forms = ["+351912345678", "351912345678", "912345678"];
+    expect(phoneNumberForms("912345678")).toEqual(forms);
+    expect(phoneNumberForms("+351 912 345 678")).toEqual(forms);
+  });
+
+  it("adds the trunk prefix where the plan has one", () => {
+    expect(phoneNumberForms("+44 7911 123456", "GB")).toEqual([
+      "+447911123456",
+      "447911123456",
+      "7911123456",
+      "07911123456",
+    ]);
+  });
+
+  it("keeps other countries' numbers international", () => {
+    expect(phoneNumberForms("+34 618 953 592")).toEqual([
+      "+34618953592",
+      "34618953592",
+    ]);
+  });
+
+  it("falls back to the input for invalid numbers", () => {
+    expect(phoneNumberForms(" 123 ")).toEqual(["123"]);
+  });
+});
+
+describe("phoneSearchTerm", () => {
+  it("compacts a phone-like term", () => {
+    expect(phoneSearchTerm(" 618 953-592 ")).toBe("618953592");
+    expect(phoneSearchTerm("+34 (618) 953 592")).toBe("+34618953592");
+  });
+
+  it("returns null for other terms", () => {
+    expect(phoneSearchTerm("María 618")).toBeNull();
+  });
+});
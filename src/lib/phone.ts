@@ -0,0 +1,279 @@
+/**
+ * Phone number normalization to E.164 (`+<country code><national number>`).
+ *
+ * Numbers are checked against the numbering plan of the countries we call
+ * (length, leading digits and, where the plan tells them apart, mobile vs
+ * landline). Numbers of other countries are accepted with an international
+ * prefix when they are structurally valid E.164; their line type is unknown.
+ * National numbers (no `+` or `00`) are read in the default country.
+ *
+ * Env:
+ * - DEFAULT_PHONE_COUNTRY (default PT): country of numbers without a prefix
+ */
+
+export type PhoneLineType = "mobile" | "landline" | "unknown";
+
+interface NumberingPlan {
+  callingCode: string;
+  /** Lengths of the national significant number */
+  lengths: number[];
+  /** Dialed before national numbers and dropped in E.164 (e.g. 0 in Brazil) */
+  trunkPrefix?: string;
+  /** Valid national numbers start like this */
+  pattern: RegExp;
+  mobile?: RegExp;
+  landline?: RegExp;
+}
+
+const PLANS = {
+  PT: {
+    callingCode: "351",
+    lengths: [9],
+    // Subscriber ranges only: 6xx, 7xx and 8xx are premium-rate, shared-cost
+    // and free-phone numbers
+    pattern: /^[239]/,
+    mobile: /^9[1236]/,
+    landline: /^2/,
+  },
+  ES: {
+    callingCode: "34",
+    lengths: [9],
+    pattern: /^[5-9]/,
+    mobile: /^(6|7[1-4])/,
+    landline: /^[89][1-8]/,
+  },
+  BR: {
+    callingCode: "55",
+    lengths: [10, 11],
+    trunkPrefix: "0",
+    // Two-digit area code without zeros, then 9 + 8 digits or 8 digits
+    pattern: /^[1-9]{2}(9\d{8}|[2-5]\d{7})$/,
+    mobile: /^[1-9]{2}9\d{8}$/,
+    landline: /^[1-9]{2}[2-5]\d{7}$/,
+  },
+  FR: {
+    callingCode: "33",
+    lengths: [9],
+    trunkPrefix: "0",
+    pattern: /^[1-9]/,
+    mobile: /^[67]/,
+    landline: /^[1-5]/,
+  },
+  IT: {
+    // Italian landlines keep their leading 0 in E.164
+    callingCode: "39",
+    lengths: [6, 7, 8, 9, 10, 11],
+    pattern: /^[0138]/,
+    mobile: /^3\d{8,9}$/,
+    landline: /^0/,
+  },
+  GB: {
+    callingCode: "44",
+    lengths: [9, 10],
+    trunkPrefix: "0",
+    pattern: /^[1-9]/,
+    mobile: /^7[1-9]\d{8}$/,
+    landline: /^[12]/,
+  },
+  DE: {
+    callingCode: "49",
+    lengths: [6, 7, 8, 9, 10, 11, 12, 13],
+    trunkPrefix: "0",
+    pattern: /^[1-9]/,
+    mobile: /^1[5-7]/,
+    landline: /^[2-9]/,
+  },
+  US: {
+    // NANP (US, Canada, …): mobile and landline share the same ranges
+    callingCode: "1",
+    lengths: [10],
+    trunkPrefix: "1",
+    pattern: /^[2-9]\d{2}[2-9]/,
+  },
+  MX: {
+    callingCode: "52",
+    lengths: [10],
+    pattern: /^[1-9]/,
+  },
+  AO: {
+    callingCode: "244",
+    lengths: [9],
+    pattern: /^[29]/,
+    mobile: /^9/,
+    landline: /^2/,
+  },
+} satisfies Record<string, NumberingPlan>;
+
+export type PhoneCountry = keyof typeof PLANS;
+
+export const PHONE_COUNTRIES = Object.keys(PLANS) as PhoneCountry[];
+
+// Longest first, so "+351…" is Portugal and not a 2-digit code
+const BY_CALLING_CODE = PHONE_COUNTRIES.map((country) => ({
+  country,
+  plan: PLANS[country] as NumberingPlan,
+})).sort((a, b) => b.plan.callingCode.length - a.plan.callingCode.length);
+
+// E.164 allows up to 15 digits; shorter than 8 is not a subscriber number
+const E164_MIN_DIGITS = 8;
+const E164_MAX_DIGITS = 15;
+
+export interface ParsedPhone {
+  /** e.g. +351912345678 */
+  e164: string;
+  /** Null for countries without a known numbering plan */
+  country: PhoneCountry | null;
+  /** Without a known country, every digit after the + */
+  nationalNumber: string;
+  lineType: PhoneLineType;
+}
+
+export type PhoneParseResult =
+  | { ok: true; phone: ParsedPhone }
+  | { ok: false; error: string };
+
+export function isPhoneCountry(value: string): value is PhoneCountry {
+  return Object.prototype.hasOwnProperty.call(PLANS, value);
+}
+
+export function defaultPhoneCountry(): PhoneCountry {
+  const configured = (process.env.DEFAULT_PHONE_COUNTRY || "")
+    .trim()
+    .toUpperCase();
+  return isPhoneCountry(configured) ? configured : "PT";
+}
+
+function lineTypeOf(plan: NumberingPlan, national: string): PhoneLineType {
+  if (plan.mobile?.test(national)) return "mobile";
+  if (plan.landline?.test(national)) return "landline";
+  return "unknown";
+}
+
+function isValidNational(plan: NumberingPlan, national: string): boolean {
+  return (
+    plan.lengths.indexOf(national.length) !== -1 && plan.pattern.test(national)
+  );
+}
+
+function planNumber(country: PhoneCountry, national: string): PhoneParseResult {
+  const plan: NumberingPlan = PLANS[country];
+  if (!isValidNational(plan, national)) {
+    return { ok: false, error: `Not a valid ${country} phone number` };
+  }
+  return {
+    ok: true,
+    phone: {
+      e164: `+${plan.callingCode}${national}`,
+      country,
+      nationalNumber: national,
+      lineType: lineTypeOf(plan, national),
+    },
+  };
+}
+
+function internationalNumber(digits: string): PhoneParseResult {
+  for (const { country, plan } of BY_CALLING_CODE) {
+    if (digits.startsWith(plan.callingCode)) {
+      return planNumber(country, digits.slice(plan.callingCode.length));
+    }
+  }
+  if (
+    digits.length < E164_MIN_DIGITS ||
+    digits.length > E164_MAX_DIGITS ||
+    digits.startsWith("0")
+  ) {
+    return { ok: false, error: "Not a valid international phone number" };
+  }
+  return {
+    ok: true,
+    phone: {
+      e164: `+${digits}`,
+      country: null,
+      nationalNumber: digits,
+      lineType: "unknown",
+    },
+  };
+}
+
+function nationalNumber(
+  digits: string,
+  country: PhoneCountry,
+): PhoneParseResult {
+  const plan: NumberingPlan = PLANS[country];
+  if (isValidNational(plan, digits)) return planNumber(country, digits);
+
+  if (plan.trunkPrefix && digits.startsWith(plan.trunkPrefix)) {
+    const national = digits.slice(plan.trunkPrefix.length);
+    if (isValidNational(plan, national)) return planNumber(country, national);
+  }
+  // International number written without the + (e.g. 351912345678)
+  if (digits.startsWith(plan.callingCode)) {
+    const national = digits.slice(plan.callingCode.length);
+    if (isValidNational(plan, national)) return planNumber(country, national);
+  }
+  return { ok: false, error: `Not a valid ${country} phone number` };
+}
+
+/**
+ * Parse a phone number as typed or imported ("+34 618 953 592",
+ * "00351 912 345 678", "(11) 98765-4321"). Numbers without an international
+ * prefix are read in `defaultCountry`.
+ */
+export function parsePhone(
+  input: string,
+  defaultCountry: PhoneCountry = defaultPhoneCountry(),
+): PhoneParseResult {
+  const trimmed = input.trim();
+  if (!trimmed) return { ok: false, error: "Phone number is empty" };
+
+  const plus = trimmed.startsWith("+");
+  const rest = (plus ? trimmed.slice(1) : trimmed).replace(/[\s().\/-]/g, "");
+  if (!/^\d+$/.test(rest)) {
+    return { ok: false, error: "Phone number has invalid characters" };
+  }
+
+  if (plus) return internationalNumber(rest);
+  if (rest.startsWith("00")) return internationalNumber(rest.slice(2));
+  return nationalNumber(rest, defaultCountry);
+}
+
+/** The E.164 form, or null when the number is not valid. */
+export function normalizePhone(
+  input: string,
+  defaultCountry?: PhoneCountry,
+): string | null {
+  const result = parsePhone(input, defaultCountry);
+  return result.ok ? result.phone.e164 : null;
+}
+
+/**
+ * How a stored number may spell the same line as `input`: the E.164 form,
+ * its digits without the +, and for numbers of the default country the
+ * national number, with and without the trunk prefix. Just the trimmed input
+ * when it is not valid.
+ */
+export function phoneNumberForms(
+  input: string,
+  defaultCountry: PhoneCountry = defaultPhoneCountry(),
+): string[] {
+  const result = parsePhone(input, defaultCountry);
+  if (!result.ok) return [input.trim()];
+
+  const { e164, country, nationalNumber } = result.phone;
+  const forms = [e164, e164.slice(1)];
+  if (country === defaultCountry) {
+    const plan: NumberingPlan = PLANS[country];
+    forms.push(nationalNumber);
+    if (plan.trunkPrefix) forms.push(plan.trunkPrefix + nationalNumber);
+  }
+  return forms;
+}
+
+/**
+ * A search term as stored digits, so "618 953 592" finds +34618953592.
+ * Null when the term is not (part of) a phone number.
+ */
+export function phoneSearchTerm(search: string): string | null {
+  const compact = search.trim().replace(/[\s().\/-]/g, "");
+  return /^\+?\d+$/.test(compact) ? compact : null;
+}
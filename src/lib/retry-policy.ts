@@ -0,0 +1,74 @@
+import { ContactStatus } from "@prisma/client";
+import { nextCallingSlot, type CallingHours } from "@/lib/calling-hours";
+
+/**
+ * Retry policy for unanswered onboarding calls.
+ *
+ * Env overrides:
+ * - RETRY_MAX_ATTEMPTS: total attempts per rider, including the first call (default 3)
+ * - RETRY_BACKOFF_MINUTES: comma-separated delay after attempt 1, 2, ... (default "120,1440").
+ *   The last value is reused for any further attempts.
+ */
+
+export const RETRYABLE_CONTACT_STATUSES: ContactStatus[] = [
+  ContactStatus.NO_ANSWER,
+  ContactStatus.VOICEMAIL,
+];
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BACKOFF_MINUTES = [120, 1440];
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  backoffMinutes: number[];
+}
+
+export function getRetryPolicy(): RetryPolicy {
+  const maxRaw = Number(process.env.RETRY_MAX_ATTEMPTS);
+  const maxAttempts =
+    Number.isInteger(maxRaw) && maxRaw > 0 ? maxRaw : DEFAULT_MAX_ATTEMPTS;
+
+  const backoffMinutes = (process.env.RETRY_BACKOFF_MINUTES || "")
+    .split(",")
+    .map((v) => Number(v.trim()))
+    .filter((n) => Number.isFinite(n) && n > 0);
+
+  return {
+    maxAttempts,
+    backoffMinutes: backoffMinutes.length
+      ? backoffMinutes
+      : DEFAULT_BACKOFF_MINUTES,
+  };
+}
+
+export function isRetryableContactStatus(
+  status: ContactStatus | null | undefined,
+): boolean {
+  return !!status && RETRYABLE_CONTACT_STATUSES.includes(status);
+}
+
+/**
+ * When should the next attempt happen after `attempt` ended unanswered?
+ * Returns null when the rider has used up all attempts.
+ */
+export function computeNextAttemptAt({
+  attempt,
+  hours,
+  from = new Date(),
+  policy = getRetryPolicy(),
+}: {
+  attempt: number;
+  /** The rider's calling hours (see getCallingHours) */
+  hours: CallingHours;
+  from?: Date;
+  policy?: RetryPolicy;
+}): Date | null {
+  if (attempt >= policy.maxAttempts) return null;
+
+  const idx = Math.min(attempt - 1, policy.backoffMinutes.length - 1);
+  const delayMinutes = policy.backoffMinutes[Math.max(idx, 0)];
+  const earliest = new Date(from.getTime() + delayMinutes * 60 * 1000);
+
+  // No slot at all: the dial guard refuses (and logs) the retry when it's due
+  return nextCallingSlot(earliest, hours) ?? earliest;
+}
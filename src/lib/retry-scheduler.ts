@@ -0,0 +1,133 @@
+import { CallStatus, ContactStatus, Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { getCallingHours, loadCallingPolicy } from "@/lib/calling-hours";
+import { DEFERRABLE_REASONS, guardDial } from "@/lib/dial-guard";
+import { dispatchRiderCall } from "@/lib/dispatch-outbox";
+import { getVoiceProvider } from "@/lib/voice";
+import { createRiderCall, getNextAttemptNumber } from "@/lib/rider-calls";
+import {
+  computeNextAttemptAt,
+  isRetryableContactStatus,
+} from "@/lib/retry-policy";
+
+// Max riders dispatched per scheduler tick
+const BATCH_SIZE = 10;
+
+/**
+ * Compute the rider's next attempt after a call outcome was recorded.
+ * Runs inside the callback transaction so the schedule is updated atomically
+ * with the outcome.
+ */
+export async function scheduleNextAttempt(
+  tx: Prisma.TransactionClient,
+  {
+    riderId,
+    attempt,
+    contactStatus,
+    now = new Date(),
+  }: {
+    riderId: string;
+    attempt: number | null;
+    contactStatus: ContactStatus | null;
+    now?: Date;
+  },
+): Promise<Date | null> {
+  if (!contactStatus) return null;
+
+  const rider = await tx.rider.findUnique({ where: { id: riderId } });
+  if (!rider) return null;
+
+  const nextAttemptAt = isRetryableContactStatus(contactStatus)
+    ? computeNextAttemptAt({
+        attempt: attempt ?? 1,
+        hours: getCallingHours(await loadCallingPolicy(tx, now), rider),
+        from: now,
+      })
+    : null;
+
+  await tx.rider.update({
+    where: { id: riderId },
+    data: { nextAttemptAt },
+  });
+
+  return nextAttemptAt;
+}
+
+/**
+ * Dispatch retries whose scheduled time has passed.
+ *
+ * Each rider is claimed by clearing `nextAttemptAt` with a conditional update,
+ * so concurrent ticks (or multiple instances) never dial the same rider twice.
+ */
+export async function runDueRetries(now = new Date()): Promise<number> {
+  if (!getVoiceProvider().isConfigured()) return 0;
+
+  const due = await prisma.rider.findMany({
+    where: {
+      nextAttemptAt: { lte: now },
+      calls: {
+        none: { status: { in: [CallStatus.PENDING, CallStatus.RUNNING] } },
+      },
+    },
+    orderBy: { nextAttemptAt: "asc" },
+    take: BATCH_SIZE,
+  });
+
+  let dispatched = 0;
+
+  for (const rider of due) {
+    const claimed = await prisma.rider.updateMany({
+      where: { id: rider.id, nextAttemptAt: rider.nextAttemptAt },
+      data: { nextAttemptAt: null },
+    });
+    if (claimed.count === 0) continue;
+
+    // Blocked riders lose this retry; the block is logged by the guard
+    const guard = await guardDial({
+      rider,
+      origin: "retry_scheduler",
+      defer: DEFERRABLE_REASONS,
+    });
+    if (!guard.ok) continue;
+
+    // Outside calling hours (e.g. a holiday added since it was scheduled) or
+    // over a frequency cap: move the retry to when it is allowed, unless
+    // something else set one
+    if (guard.deferred) {
+      await prisma.rider.updateMany({
+        where: { id: rider.id, nextAttemptAt: null },
+        data: { nextAttemptAt: guard.deferred.until },
+      });
+      continue;
+    }
+
+    const previous = await prisma.riderCall.findFirst({
+      where: { riderId: rider.id },
+      orderBy: { createdAt: "desc" },
+      select: { id: true },
+    });
+
+    const riderCall = await createRiderCall({
+      rider,
+      attempt: await getNextAttemptNumber(rider.id),
+      source: {
+        initiated_by: "retry_scheduler",
+        retry_of_call_id: previous?.id ?? null,
+      },
+    });
+
+    const result = await dispatchRiderCall(riderCall);
+    if (result.ok) {
+      dispatched++;
+      console.log(
+        `[Retry Scheduler] Dispatched attempt ${riderCall.attempt} for rider ${rider.id}`,
+      );
+    } else {
+      console.error(
+        `[Retry Scheduler] Dispatch failed for rider ${rider.id}: ${result.error}`,
+      );
+    }
+  }
+
+  return dispatched;
+}
@@ -0,0 +1,66 @@
+import { Prisma, Rider } from "@prisma/client";
+import prisma from "@/lib/prisma";
+
+// Relations returned to the UI for every RiderCall
+export const riderCallInclude = {
+  rider: true,
+  initiatedByUser: { select: { id: true, email: true, name: true } },
+  canceledByUser: { select: { id: true, email: true, name: true } },
+} satisfies Prisma.RiderCallInclude;
+
+export type RiderCallWithRelations = Prisma.RiderCallGetPayload<{
+  include: typeof riderCallInclude;
+}>;
+
+/** Attempt number for the next call to this rider (1-based). */
+export async function getNextAttemptNumber(riderId: string): Promise<number> {
+  const agg = await prisma.riderCall.aggregate({
+    where: { riderId },
+    _max: { attempt: true },
+    _count: { _all: true },
+  });
+  return Math.max(agg._max.attempt ?? 0, agg._count._all) + 1;
+}
+
+/**
+ * Create a PENDING RiderCall for a rider, snapshotting the rider fields
+ * that were sent to the workflow.
+ */
+export async function createRiderCall({
+  rider,
+  userId,
+  attempt,
+  source,
+}: {
+  rider: Rider;
+  userId?: string | null;
+  attempt: number;
+  source?: Record<string, unknown>;
+}): Promise<RiderCallWithRelations> {
+  return prisma.riderCall.create({
+    data: {
+      riderId: rider.id,
+      initiatedByUserId: userId || null,
+      status: "PENDING",
+      attempt,
+      metadata: {
+        source: {
+          app: "uber-rider-onboarding",
+          initiated_by_user_id: userId,
+          ...source,
+        },
+        riderSnapshot: {
+          externalId: rider.externalId,
+          driverName: rider.driverName,
+          phoneNumber: rider.phoneNumber,
+          signUpDate: rider.signUpDate?.toISOString() || null,
+          flowType: rider.flowType,
+          documentsUploaded: rider.documentsUploaded,
+          licenseCountry: rider.licenseCountry,
+          residentPermitStatus: rider.residentPermitStatus,
+        },
+      } as Prisma.InputJsonValue,
+    },
+    include: riderCallInclude,
+  });
+}
@@ -0,0 +1,131 @@
+import { ContactStatus, OnboardingStage, Prisma } from "@prisma/client";
+import { z } from "zod";
+import { phoneSearchTerm } from "@/lib/phone";
+import { parseTagFilter } from "@/lib/tags";
+
+const dateString = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD")
+  .optional();
+const flagFilter = z.enum(["true", "false"]).optional();
+
+/**
+ * Riders directory filters, in query param form (saved views store this
+ * same object).
+ *
+ * lastContactStatus "NONE" matches riders never contacted.
+ */
+export const riderFiltersSchema = z.object({
+  search: z.string().trim().min(1).optional(),
+  city: z.string().trim().min(1).optional(),
+  flowType: z.string().trim().min(1).optional(),
+  documentsUploaded: z.enum(["NO", "PARTIAL", "YES"]).optional(),
+  licenseCountry: z.string().trim().min(1).optional(),
+  residentPermitStatus: z.string().trim().min(1).optional(),
+  lastContactStatus: z
+    .enum(["NONE", "PENDING", "NO_ANSWER", "VOICEMAIL", "COMPLETED"])
+    .optional(),
+  onboardingStage: z.nativeEnum(OnboardingStage).optional(),
+  signUpFrom: dateString,
+  signUpTo: dateString,
+  urgent: flagFilter,
+  legalIssue: flagFilter,
+  humanRequested: flagFilter,
+  // Comma-separated; riders must carry all of them
+  tags: z.string().trim().min(1).optional(),
+});
+
+export type RiderFilters = z.infer<typeof riderFiltersSchema>;
+
+export const RIDER_SORT_FIELDS = [
+  "driverName",
+  "city",
+  "signUpDate",
+  "lastContactAt",
+  "createdAt",
+] as const;
+
+export const riderDirectoryQuerySchema = riderFiltersSchema.extend({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(25),
+  sort: z.enum(RIDER_SORT_FIELDS).default("createdAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+});
+
+/** Non-blank query params as an object, for schema parsing. */
+export function searchParamsToObject(
+  params: URLSearchParams,
+): Record<string, string> {
+  const obj: Record<string, string> = {};
+  params.forEach((value, key) => {
+    if (value.trim() !== "") obj[key] = value;
+  });
+  return obj;
+}
+
+function insensitive(value: string): Prisma.StringFilter {
+  return { equals: value, mode: "insensitive" };
+}
+
+export function buildRiderWhere(filters: RiderFilters): Prisma.RiderWhereInput {
+  const and: Prisma.RiderWhereInput[] = [];
+
+  if (filters.search) {
+    const phone = phoneSearchTerm(filters.search);
+    and.push({
+      OR: [
+        { driverName: { contains: filters.search, mode: "insensitive" } },
+        { phoneNumber: { contains: phone ?? filters.search } },
+      ],
+    });
+  }
+  if (filters.city) and.push({ city: insensitive(filters.city) });
+  if (filters.flowType) and.push({ flowType: insensitive(filters.flowType) });
+  if (filters.documentsUploaded) {
+    and.push({ documentsUploaded: filters.documentsUploaded });
+  }
+  if (filters.licenseCountry) {
+    and.push({ licenseCountry: insensitive(filters.licenseCountry) });
+  }
+  if (filters.residentPermitStatus) {
+    and.push({
+      residentPermitStatus: insensitive(filters.residentPermitStatus),
+    });
+  }
+  if (filters.lastContactStatus) {
+    and.push({
+      lastContactStatus:
+        filters.lastContactStatus === "NONE"
+          ? null
+          : ContactStatus[filters.lastContactStatus],
+    });
+  }
+  if (filters.onboardingStage) {
+    and.push({ onboardingStage: filters.onboardingStage });
+  }
+  if (filters.signUpFrom || filters.signUpTo) {
+    and.push({
+      signUpDate: {
+        ...(filters.signUpFrom
+          ? { gte: new Date(`${filters.signUpFrom}T00:00:00.000Z`) }
+          : {}),
+        // Inclusive: the whole "to" day
+        ...(filters.signUpTo
+          ? { lte: new Date(`${filters.signUpTo}T23:59:59.999Z`) }
+          : {}),
+      },
+    });
+  }
+  if (filters.urgent) and.push({ urgentFlag: filters.urgent === "true" });
+  if (filters.legalIssue) {
+    and.push({ legalIssueFlag: filters.legalIssue === "true" });
+  }
+  if (filters.humanRequested) {
+    and.push({ humanRequested: filters.humanRequested === "true" });
+  }
+
+  const tags = parseTagFilter(filters.tags);
+  if (tags.length > 0) and.push({ tags: { hasEvery: tags } });
+
+  return and.length ? { AND: and } : {};
+}
@@ -0,0 +1,533 @@
+import {
+  DocumentsUploadedStatus,
+  Prisma,
+  Rider,
+  RiderDocumentStatus,
+  RiderDuplicateStatus,
+  RiderMerge,
+} from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { refreshDocumentsUploaded } from "@/lib/documents";
+import { foldEscalationsForMerge } from "@/lib/escalations";
+import { stageRank, syncOnboardingStage } from "@/lib/onboarding";
+import { recordFlagChanges } from "@/lib/rider-flags";
+
+/**
+ * Duplicate riders.
+ *
+ * The detection job compares riders pairwise within two kinds of blocks:
+ * - same normalized phone (digits of the national number, so "+351 910…",
+ *   "00351910…" and "910…" match) with similar names. A shared phone alone
+ *   is not enough: in some exports one number belongs to many riders.
+ * - same normalized name (accents, case, punctuation and word order
+ *   ignored) in the same city, whatever the phone.
+ * Riders with two different legacy externalIds are never paired: the
+ * legacy export has one row per rider.
+ *
+ * Candidate pairs are stored for review. Merging moves everything that
+ * belongs to the merged rider (calls, notes, escalations, history, document
+ * checklist, campaign items) to the survivor, reconciles the derived fields
+ * and deletes the merged rider. The survivor keeps one active escalation.
+ */
+
+// Name similarity (0-1) needed to pair riders sharing a phone
+const PHONE_NAME_THRESHOLD = 0.8;
+// Blocks larger than this are skipped (a placeholder phone, a common name)
+const MAX_BLOCK = 500;
+const CREATE_BATCH = 1000;
+
+/** Digits of the national number: the last 9 (Spain and Portugal). */
+export function phoneKey(phone: string): string | null {
+  const digits = phone.replace(/\D/g, "");
+  return digits.length >= 9 ? digits.slice(-9) : null;
+}
+
+/** Lowercase words without accents or punctuation, sorted. */
+export function nameKey(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .sort()
+    .join(" ");
+}
+
+function levenshtein(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(
+        prev[j] + 1,
+        curr[j - 1] + 1,
+        prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+/**
+ * Similarity of two name keys: 1 - edit distance / length, or 0.9 when all
+ * the words of a name (two or more) appear in the other ("Ana Silva" and
+ * "Ana Maria Silva").
+ */
+export function nameSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  const wordsA = a.split(" ");
+  const wordsB = b.split(" ");
+  const [shorter, longer] =
+    wordsA.length <= wordsB.length ? [wordsA, wordsB] : [wordsB, wordsA];
+  if (shorter.length >= 2 && shorter.every((w) => longer.includes(w))) {
+    return 0.9;
+  }
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+}
+
+type DuplicateReason = "phone" | "name" | "city";
+
+interface Candidate {
+  riderAId: string;
+  riderBId: string;
+  score: number;
+  reasons: DuplicateReason[];
+}
+
+type ScanRider = Pick<
+  Rider,
+  "id" | "phoneNumber" | "driverName" | "city" | "externalId"
+> & { name: string };
+
+function groupBy(
+  riders: ScanRider[],
+  key: (rider: ScanRider) => string | null,
+): ScanRider[][] {
+  const groups = new Map<string, ScanRider[]>();
+  for (const rider of riders) {
+    const k = key(rider);
+    if (!k) continue;
+    const group = groups.get(k);
+    if (group) group.push(rider);
+    else groups.set(k, [rider]);
+  }
+  return Array.from(groups.values()).filter(
+    (g) => g.length > 1 && g.length <= MAX_BLOCK,
+  );
+}
+
+/** Find candidate pairs among all riders (pure, see the module comment). */
+export function findDuplicateCandidates(
+  riders: Pick<
+    Rider,
+    "id" | "phoneNumber" | "driverName" | "city" | "externalId"
+  >[],
+): Candidate[] {
+  const scan = riders.map((r) => ({ ...r, name: nameKey(r.driverName) }));
+  const candidates = new Map<string, Candidate>();
+
+  const add = (
+    a: ScanRider,
+    b: ScanRider,
+    candidate: Omit<Candidate, "riderAId" | "riderBId">,
+  ) => {
+    if (a.externalId !== null && b.externalId !== null) return;
+    const [riderAId, riderBId] = a.id < b.id ? [a.id, b.id] : [b.id, a.id];
+    const key = `${riderAId}:${riderBId}`;
+    const existing = candidates.get(key);
+    if (!existing || existing.score < candidate.score) {
+      candidates.set(key, { riderAId, riderBId, ...candidate });
+    }
+  };
+
+  for (const group of groupBy(scan, (r) => phoneKey(r.phoneNumber))) {
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        const similarity = nameSimilarity(group[i].name, group[j].name);
+        if (similarity < PHONE_NAME_THRESHOLD) continue;
+        const sameCity =
+          !!group[i].city &&
+          nameKey(group[i].city ?? "") === nameKey(group[j].city ?? "");
+        add(group[i], group[j], {
+          score: Math.round((0.5 + similarity / 2) * 100) / 100,
+          reasons: sameCity ? ["phone", "name", "city"] : ["phone", "name"],
+        });
+      }
+    }
+  }
+
+  const byNameAndCity = groupBy(scan, (r) =>
+    r.name && r.city ? `${r.name}|${nameKey(r.city)}` : null,
+  );
+  for (const group of byNameAndCity) {
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        add(group[i], group[j], { score: 0.6, reasons: ["name", "city"] });
+      }
+    }
+  }
+
+  return Array.from(candidates.values());
+}
+
+export interface DuplicateScanSummary {
+  riders: number;
+  candidates: number;
+  created: number;
+  /** Pending pairs no longer detected (e.g. a rider was edited) */
+  removed: number;
+}
+
+/**
+ * Detect duplicates and sync the pending pairs: new pairs are added, pending
+ * pairs that no longer match are removed, dismissed pairs stay dismissed.
+ */
+export async function scanRiderDuplicates(): Promise<DuplicateScanSummary> {
+  const riders = await prisma.rider.findMany({
+    select: {
+      id: true,
+      phoneNumber: true,
+      driverName: true,
+      city: true,
+      externalId: true,
+    },
+  });
+  const candidates = findDuplicateCandidates(riders);
+
+  const existing = await prisma.riderDuplicate.findMany({
+    select: { id: true, riderAId: true, riderBId: true, status: true },
+  });
+  const existingKeys = new Set(
+    existing.map((d) => `${d.riderAId}:${d.riderBId}`),
+  );
+  const candidateKeys = new Set(
+    candidates.map((c) => `${c.riderAId}:${c.riderBId}`),
+  );
+
+  const fresh = candidates.filter(
+    (c) => !existingKeys.has(`${c.riderAId}:${c.riderBId}`),
+  );
+  let created = 0;
+  for (let i = 0; i < fresh.length; i += CREATE_BATCH) {
+    const result = await prisma.riderDuplicate.createMany({
+      data: fresh.slice(i, i + CREATE_BATCH),
+      skipDuplicates: true,
+    });
+    created += result.count;
+  }
+
+  const stale = existing.filter(
+    (d) =>
+      d.status === RiderDuplicateStatus.PENDING &&
+      !candidateKeys.has(`${d.riderAId}:${d.riderBId}`),
+  );
+  const removed = await prisma.riderDuplicate.deleteMany({
+    where: {
+      id: { in: stale.map((d) => d.id) },
+      status: RiderDuplicateStatus.PENDING,
+    },
+  });
+
+  return {
+    riders: riders.length,
+    candidates: candidates.length,
+    created,
+    removed: removed.count,
+  };
+}
+
+export type DuplicateActionResult =
+  | { ok: true }
+  | { ok: false; status: 404 | 409; error: string };
+
+export async function dismissDuplicate({
+  duplicateId,
+  userId,
+}: {
+  duplicateId: string;
+  userId: string | null;
+}): Promise<DuplicateActionResult> {
+  // Conditional: only a pending pair can be dismissed
+  const dismissed = await prisma.riderDuplicate.updateMany({
+    where: { id: duplicateId, status: RiderDuplicateStatus.PENDING },
+    data: {
+      status: RiderDuplicateStatus.DISMISSED,
+      dismissedAt: new Date(),
+      dismissedByUserId: userId,
+    },
+  });
+  if (dismissed.count > 0) return { ok: true };
+
+  const exists = await prisma.riderDuplicate.count({
+    where: { id: duplicateId },
+  });
+  return exists
+    ? { ok: false, status: 409, error: "Duplicate is already dismissed" }
+    : { ok: false, status: 404, error: "Duplicate not found" };
+}
+
+// Merge
+
+const DOCUMENT_STATUS_RANK: Record<RiderDocumentStatus, number> = {
+  MISSING: 0,
+  REJECTED: 1,
+  UPLOADED: 2,
+  VERIFIED: 3,
+};
+
+const DOCUMENTS_UPLOADED_RANK: Record<DocumentsUploadedStatus, number> = {
+  NO: 0,
+  PARTIAL: 1,
+  YES: 2,
+};
+
+export interface MergeMoved {
+  calls: number;
+  notes: number;
+  escalations: number;
+  flagChanges: number;
+  stageChanges: number;
+  documents: number;
+  campaignItems: number;
+}
+
+export type MergeRidersResult =
+  | { ok: true; rider: Rider; merge: RiderMerge }
+  | { ok: false; status: 400 | 404; error: string };
+
+/** The later of the two riders' last contacts. */
+function lastContact(survivor: Rider, merged: Rider) {
+  const source =
+    (merged.lastContactAt?.getTime() ?? -Infinity) >
+    (survivor.lastContactAt?.getTime() ?? -Infinity)
+      ? merged
+      : survivor;
+  return {
+    lastContactAt: source.lastContactAt,
+    lastContactStatus: source.lastContactStatus,
+  };
+}
+
+/** The later of the two riders' recorded consents. */
+function latestConsent(survivor: Rider, merged: Rider) {
+  const source =
+    (merged.consentAt?.getTime() ?? -Infinity) >
+    (survivor.consentAt?.getTime() ?? -Infinity)
+      ? merged
+      : survivor;
+  return {
+    consentStatus: source.consentStatus,
+    consentSource: source.consentSource,
+    consentAt: source.consentAt,
+  };
+}
+
+/** Survivor fields after the merge: its own values, gaps filled from merged. */
+function mergedFields(survivor: Rider, merged: Rider) {
+  const documentsUploaded =
+    survivor.documentsUploaded && merged.documentsUploaded
+      ? DOCUMENTS_UPLOADED_RANK[merged.documentsUploaded] >
+        DOCUMENTS_UPLOADED_RANK[survivor.documentsUploaded]
+        ? merged.documentsUploaded
+        : survivor.documentsUploaded
+      : (survivor.documentsUploaded ?? merged.documentsUploaded);
+  const signUpDates = [survivor.signUpDate, merged.signUpDate].filter(
+    (d): d is Date => d !== null,
+  );
+
+  return {
+    externalId: survivor.externalId ?? merged.externalId,
+    city: survivor.city ?? merged.city,
+    signUpDate: signUpDates.length
+      ? new Date(Math.min(...signUpDates.map((d) => d.getTime())))
+      : null,
+    flowType: survivor.flowType ?? merged.flowType,
+    documentsUploaded,
+    documents: (survivor.documents ?? merged.documents ?? Prisma.DbNull) as
+      | Prisma.InputJsonValue
+      | typeof Prisma.DbNull,
+    licenseCountry: survivor.licenseCountry ?? merged.licenseCountry,
+    residentPermitStatus:
+      survivor.residentPermitStatus ?? merged.residentPermitStatus,
+    ...lastContact(survivor, merged),
+    ...latestConsent(survivor, merged),
+    // Derived flags: set if either rider has them
+    urgentFlag: survivor.urgentFlag || merged.urgentFlag,
+    legalIssueFlag: survivor.legalIssueFlag || merged.legalIssueFlag,
+    humanRequested: survivor.humanRequested || merged.humanRequested,
+    nextAttemptAt: survivor.nextAttemptAt ?? merged.nextAttemptAt,
+    tags: Array.from(new Set([...survivor.tags, ...merged.tags])).sort(),
+  };
+}
+
+/**
+ * Merge `mergedId` into `survivorId`: re-parent the merged rider's rows,
+ * reconcile the survivor's fields and flags (recorded in the flag and stage
+ * history as source "merge"), log the merge and delete the merged rider.
+ */
+export async function mergeRiders({
+  survivorId,
+  mergedId,
+  userId,
+}: {
+  survivorId: string;
+  mergedId: string;
+  userId: string | null;
+}): Promise<MergeRidersResult> {
+  if (survivorId === mergedId) {
+    return {
+      ok: false,
+      status: 400,
+      error: "Cannot merge a rider into itself",
+    };
+  }
+
+  return prisma.$transaction(
+    async (tx): Promise<MergeRidersResult> => {
+      const [survivor, merged] = await Promise.all([
+        tx.rider.findUnique({ where: { id: survivorId } }),
+        tx.rider.findUnique({ where: { id: mergedId } }),
+      ]);
+      if (!survivor || !merged) {
+        return { ok: false, status: 404, error: "Rider not found" };
+      }
+      // Shown as is in the rider's history
+      const note = `Fusionado con ${merged.driverName} (${merged.phoneNumber})`;
+      const fromMerged = { where: { riderId: mergedId } };
+      const toSurvivor = { data: { riderId: survivorId } };
+
+      await foldEscalationsForMerge(tx, {
+        survivorId,
+        mergedId,
+        userId,
+        note,
+      });
+
+      const [calls, notes, escalations, flagChanges, stageChanges] =
+        await Promise.all([
+          tx.riderCall.updateMany({ ...fromMerged, ...toSurvivor }),
+          tx.note.updateMany({ ...fromMerged, ...toSurvivor }),
+          tx.escalation.updateMany({ ...fromMerged, ...toSurvivor }),
+          tx.riderFlagChange.updateMany({ ...fromMerged, ...toSurvivor }),
+          tx.riderStageChange.updateMany({ ...fromMerged, ...toSurvivor }),
+        ]);
+      // Import history links follow the rider (not a foreign key)
+      await tx.importJobRow.updateMany({ ...fromMerged, ...toSurvivor });
+      // Do-not-call entries and blocked dials stay with the person
+      await Promise.all([
+        tx.phoneSuppression.updateMany({ ...fromMerged, ...toSurvivor }),
+        tx.dialBlock.updateMany({ ...fromMerged, ...toSurvivor }),
+      ]);
+
+      // Campaign items: one per campaign and rider; the survivor's wins
+      const survivorCampaigns = (
+        await tx.campaignItem.findMany({
+          where: { riderId: survivorId },
+          select: { campaignId: true },
+        })
+      ).map((i) => i.campaignId);
+      const campaignItems = await tx.campaignItem.updateMany({
+        where: { riderId: mergedId, campaignId: { notIn: survivorCampaigns } },
+        ...toSurvivor,
+      });
+
+      // Document checklist: one per document type; the furthest status wins
+      const survivorDocs = new Map(
+        (
+          await tx.riderDocument.findMany({ where: { riderId: survivorId } })
+        ).map((d) => [d.documentTypeId, d]),
+      );
+      let documents = 0;
+      for (const doc of await tx.riderDocument.findMany(fromMerged)) {
+        const current = survivorDocs.get(doc.documentTypeId);
+        if (
+          current &&
+          DOCUMENT_STATUS_RANK[current.status] >=
+            DOCUMENT_STATUS_RANK[doc.status]
+        ) {
+          continue;
+        }
+        if (current) {
+          await tx.riderDocument.delete({ where: { id: current.id } });
+        }
+        await tx.riderDocument.update({
+          where: { id: doc.id },
+          data: { riderId: survivorId },
+        });
+        documents++;
+      }
+
+      const moved: MergeMoved = {
+        calls: calls.count,
+        notes: notes.count,
+        escalations: escalations.count,
+        flagChanges: flagChanges.count,
+        stageChanges: stageChanges.count,
+        documents,
+        campaignItems: campaignItems.count,
+      };
+      const mergeLog = await tx.riderMerge.create({
+        data: {
+          survivorId,
+          mergedRiderId: mergedId,
+          mergedRider: JSON.parse(JSON.stringify(merged)),
+          moved: { ...moved },
+          userId,
+        },
+      });
+
+      await tx.riderMerge.updateMany({
+        where: { survivorId: mergedId },
+        data: { survivorId },
+      });
+      // Also frees the merged rider's externalId before the survivor takes it
+      await tx.rider.delete({ where: { id: mergedId } });
+
+      const data = mergedFields(survivor, merged);
+      let rider = await tx.rider.update({ where: { id: survivorId }, data });
+      await recordFlagChanges(tx, {
+        riderId: survivorId,
+        before: survivor,
+        after: data,
+        source: "merge",
+        userId,
+        note,
+      });
+
+      // Keep the furthest stage, also one set by hand (e.g. ACTIVATED)
+      if (
+        stageRank(merged.onboardingStage) > stageRank(rider.onboardingStage)
+      ) {
+        const now = new Date();
+        await tx.riderStageChange.create({
+          data: {
+            riderId: survivorId,
+            fromStage: rider.onboardingStage,
+            toStage: merged.onboardingStage,
+            source: "merge",
+            note,
+            userId,
+            createdAt: now,
+          },
+        });
+        rider = await tx.rider.update({
+          where: { id: survivorId },
+          data: {
+            onboardingStage: merged.onboardingStage,
+            onboardingStageAt: now,
+          },
+        });
+      }
+
+      rider = await refreshDocumentsUploaded(tx, survivorId);
+      await syncOnboardingStage(tx, { rider, source: "merge", userId });
+      rider = await tx.rider.findUniqueOrThrow({ where: { id: survivorId } });
+
+      return { ok: true, rider, merge: mergeLog };
+    },
+    { timeout: 30_000 },
+  );
+}
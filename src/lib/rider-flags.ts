@@ -0,0 +1,137 @@
+import { Prisma, Rider } from "@prisma/client";
+import prisma from "@/lib/prisma";
+
+export const RIDER_FLAGS = [
+  "urgent",
+  "legal_issue",
+  "human_requested",
+] as const;
+
+export type RiderFlag = (typeof RIDER_FLAGS)[number];
+
+// Rider column backing each flag
+const flagFields = {
+  urgent: "urgentFlag",
+  legal_issue: "legalIssueFlag",
+  human_requested: "humanRequested",
+} as const satisfies Record<RiderFlag, keyof Rider>;
+
+type RiderFlagValues = Pick<Rider, (typeof flagFields)[RiderFlag]>;
+
+export type FlagChangeSource = "callback" | "manual" | "escalation" | "merge";
+
+/** Flags currently set on a rider. */
+export function getActiveFlags(rider: RiderFlagValues): RiderFlag[] {
+  return RIDER_FLAGS.filter((flag) => rider[flagFields[flag]]);
+}
+
+/**
+ * Record a flag change for every flag whose value differs between `before`
+ * and `after`. Flags missing from `after` are left untouched.
+ *
+ * Returns the flags that went from unset to set.
+ */
+export async function recordFlagChanges(
+  tx: Prisma.TransactionClient,
+  {
+    riderId,
+    before,
+    after,
+    source,
+    riderCallId = null,
+    userId = null,
+    note = null,
+  }: {
+    riderId: string;
+    before: RiderFlagValues;
+    after: Partial<Record<keyof RiderFlagValues, boolean | null>>;
+    source: FlagChangeSource;
+    riderCallId?: string | null;
+    userId?: string | null;
+    note?: string | null;
+  },
+): Promise<RiderFlag[]> {
+  const changes = RIDER_FLAGS.flatMap((flag) => {
+    const value = after[flagFields[flag]];
+    if (value === null || value === undefined) return [];
+    if (value === before[flagFields[flag]]) return [];
+    return [{ riderId, flag, value, source, riderCallId, userId, note }];
+  });
+  if (changes.length === 0) return [];
+
+  await tx.riderFlagChange.createMany({ data: changes });
+  return changes.filter((c) => c.value).map((c) => c.flag);
+}
+
+/**
+ * Clear the given flags on a rider (those that are set), recording each
+ * change. Returns the rider after the update.
+ */
+export async function clearFlags(
+  tx: Prisma.TransactionClient,
+  {
+    rider,
+    flags,
+    source,
+    userId,
+    note = null,
+  }: {
+    rider: Rider;
+    flags: readonly RiderFlag[];
+    source: FlagChangeSource;
+    userId: string | null;
+    note?: string | null;
+  },
+): Promise<Rider> {
+  const data = Object.fromEntries(
+    flags
+      .filter((flag) => rider[flagFields[flag]])
+      .map((flag) => [flagFields[flag], false]),
+  );
+  if (Object.keys(data).length === 0) return rider;
+
+  const updated = await tx.rider.update({ where: { id: rider.id }, data });
+  await recordFlagChanges(tx, {
+    riderId: rider.id,
+    before: rider,
+    after: data,
+    source,
+    userId,
+    note,
+  });
+  return updated;
+}
+
+export type ClearFlagResult =
+  | { ok: true; rider: Rider }
+  | { ok: false; status: 404 | 409; error: string };
+
+/** Clear one of a rider's flags, recording who did it. */
+export async function clearRiderFlag({
+  riderId,
+  flag,
+  userId,
+  note,
+}: {
+  riderId: string;
+  flag: RiderFlag;
+  userId: string | null;
+  note: string | null;
+}): Promise<ClearFlagResult> {
+  return prisma.$transaction(async (tx): Promise<ClearFlagResult> => {
+    const rider = await tx.rider.findUnique({ where: { id: riderId } });
+    if (!rider) return { ok: false, status: 404, error: "Rider not found" };
+    if (!rider[flagFields[flag]]) {
+      return { ok: false, status: 409, error: `Flag ${flag} is not set` };
+    }
+
+    const updated = await clearFlags(tx, {
+      rider,
+      flags: [flag],
+      source: "manual",
+      userId,
+      note,
+    });
+    return { ok: true, rider: updated };
+  });
+}
@@ -0,0 +1,1251 @@
+import {
+  ContactStatus,
+  DocumentType,
+  DocumentsUploadedStatus,
+  Prisma,
+  Rider,
+  RiderCall,
+} from "@prisma/client";
+import { NextRequest } from "next/server";
+import { getServerSession } from "next-auth";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import {
+  applyImportedDocumentFlags,
+  importDocumentTypes,
+} from "@/lib/documents";
+import {
+  ImportJobTracker,
+  recordCallResult,
+  recordCallUpdate,
+  recordCreated,
+  recordRiderResult,
+  recordRiderUpdate,
+} from "@/lib/import-jobs";
+import { syncOnboardingStage } from "@/lib/onboarding";
+import { parsePhone } from "@/lib/phone";
+
+/**
+ * Rider CSV import.
+ *
+ * Two file formats are supported: the dataset_v2 export (one row per call,
+ * riders keyed by name + phone + city, positional "Document N" columns) and
+ * the legacy export (one row per rider, keyed by `Id`). A mapping ties each
+ * target field to a file column; suggestMapping guesses it from the headers,
+ * and the import UI lets the operator correct it before committing.
+ *
+ * Files are read incrementally (openImportFile) and handled in batches:
+ * rows are validated first (missing required values skip the row, bad
+ * optional values are dropped with a warning), then imported or, in dry run,
+ * only matched against existing riders and calls. Real imports run in the
+ * background (see src/lib/import-runner.ts).
+ */
+
+// Parsing
+
+function normalizeHeader(h: string): string {
+  return h.trim().toLowerCase().replace(/\s+/g, "_");
+}
+
+// Make headers unique (dataset can have duplicates like "Document 1" repeated)
+function uniqueHeaders(row: string[]): string[] {
+  const seen: Record<string, number> = {};
+  return row.map((h) => {
+    const norm = normalizeHeader(h);
+    const count = (seen[norm] = (seen[norm] || 0) + 1);
+    return count === 1 ? norm : `${norm}_${count}`;
+  });
+}
+
+function toRecord(headers: string[], row: string[]): Record<string, string> {
+  const obj: Record<string, string> = {};
+  headers.forEach((h, idx) => {
+    obj[h] = (row[idx] ?? "").trim();
+  });
+  return obj;
+}
+
+function detectDelimiter(content: string): "," | "\t" {
+  const firstLine = content.split(/\r?\n/, 1)[0] || "";
+  const tabs = (firstLine.match(/\t/g) || []).length;
+  const commas = (firstLine.match(/,/g) || []).length;
+  return tabs > commas ? "\t" : ",";
+}
+
+/**
+ * Minimal incremental delimited parser that supports quoted fields
+ * containing delimiters/newlines. `push` takes the next chunk of text and
+ * returns the rows it completed; `end` flushes the last one. The delimiter is
+ * detected from the first line, so text is held until it is complete.
+ */
+function createDelimitedParser() {
+  let delimiter: "," | "\t" | null = null;
+  let head = "";
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  // A quote inside a quoted field: either "" (escaped) or the closing quote
+  let quotePending = false;
+
+  const endRow = (rows: string[][]) => {
+    row.push(field);
+    field = "";
+    if (row.some((v) => v.trim() !== "")) rows.push(row);
+    row = [];
+  };
+
+  const consume = (content: string): string[][] => {
+    const rows: string[][] = [];
+    for (let i = 0; i < content.length; i++) {
+      const c = content[i];
+
+      if (quotePending) {
+        quotePending = false;
+        if (c === '"') {
+          field += '"';
+          continue;
+        }
+        inQuotes = false;
+      }
+
+      if (inQuotes) {
+        if (c === '"') quotePending = true;
+        else field += c;
+        continue;
+      }
+
+      if (c === '"') {
+        inQuotes = true;
+        continue;
+      }
+
+      if (c === delimiter) {
+        row.push(field);
+        field = "";
+        continue;
+      }
+
+      if (c === "\n") {
+        endRow(rows);
+        continue;
+      }
+
+      if (c === "\r") continue;
+      field += c;
+    }
+    return rows;
+  };
+
+  return {
+    push(chunk: string): string[][] {
+      if (delimiter) return consume(chunk);
+      head += chunk;
+      if (!head.includes("\n")) return [];
+      delimiter = detectDelimiter(head);
+      const text = head;
+      head = "";
+      return consume(text);
+    },
+    end(): string[][] {
+      const rows: string[][] = [];
+      if (!delimiter) {
+        delimiter = detectDelimiter(head);
+        rows.push(...consume(head));
+        head = "";
+      }
+      if (field.length > 0 || row.length > 0) endRow(rows);
+      return rows;
+    },
+  };
+}
+
+/** The file as a string (JSON bodies) or a byte stream (raw uploads). */
+export type ImportSource = string | ReadableStream<Uint8Array>;
+
+const STRING_CHUNK = 64 * 1024;
+
+function chunksOf(source: ImportSource): () => Promise<string | null> {
+  if (typeof source === "string") {
+    let offset = 0;
+    return async () => {
+      if (offset >= source.length) return null;
+      offset += STRING_CHUNK;
+      return source.slice(offset - STRING_CHUNK, offset);
+    };
+  }
+  const reader = source.getReader();
+  const decoder = new TextDecoder();
+  let done = false;
+  return async () => {
+    if (done) return null;
+    const next = await reader.read();
+    if (next.done) {
+      done = true;
+      return decoder.decode();
+    }
+    return decoder.decode(next.value, { stream: true });
+  };
+}
+
+export interface ImportFileReader {
+  /** Normalized, unique headers (repeated headers get a _2, _3... suffix) */
+  headers: string[];
+  /** The next `size` records; fewer only at the end of the file */
+  read(size: number): Promise<Record<string, string>[]>;
+}
+
+/**
+ * Read an import file incrementally: only the current chunk and the rows
+ * not yet read are held in memory.
+ */
+export async function openImportFile(
+  source: ImportSource,
+): Promise<ImportFileReader> {
+  const nextChunk = chunksOf(source);
+  const parser = createDelimitedParser();
+  let buffered: string[][] = [];
+  let ended = false;
+
+  const fill = async (size: number) => {
+    while (buffered.length < size && !ended) {
+      const chunk = await nextChunk();
+      if (chunk === null) {
+        buffered = buffered.concat(parser.end());
+        ended = true;
+      } else {
+        buffered = buffered.concat(parser.push(chunk));
+      }
+    }
+  };
+
+  await fill(1);
+  const headerRow = buffered.shift();
+  const headers = headerRow ? uniqueHeaders(headerRow) : [];
+
+  return {
+    headers,
+    async read(size) {
+      if (!headerRow) return [];
+      await fill(size);
+      return buffered.splice(0, size).map((row) => toRecord(headers, row));
+    },
+  };
+}
+// Mapping
+
+export const IMPORT_FORMATS = ["dataset_v2", "legacy"] as const;
+
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
+export interface ImportField {
+  key: string;
+  label: string;
+  required: boolean;
+  /** Normalized headers suggestMapping matches */
+  headers: string[];
+}
+
+export const IMPORT_FIELDS: Record<ImportFormat, ImportField[]> = {
+  dataset_v2: [
+    {
+      key: "partnerName",
+      label: "Partner name",
+      required: true,
+      headers: ["partner_name"],
+    },
+    {
+      key: "phoneNumber",
+      label: "Phone number",
+      required: true,
+      headers: ["phone_number"],
+    },
+    { key: "city", label: "City", required: false, headers: ["city"] },
+    {
+      key: "callStatus",
+      label: "Call status",
+      required: false,
+      headers: ["call_status"],
+    },
+    {
+      key: "sentiment",
+      label: "Sentiment",
+      required: false,
+      headers: ["sentiment"],
+    },
+    {
+      key: "callHuman",
+      label: "Human requested",
+      required: false,
+      headers: ["call_human"],
+    },
+    { key: "summary", label: "Summary", required: false, headers: ["summary"] },
+    { key: "attempt", label: "Attempt", required: false, headers: ["attempt"] },
+    { key: "runId", label: "Run ID", required: false, headers: ["run_id"] },
+    {
+      key: "timestamp",
+      label: "Timestamp",
+      required: false,
+      headers: ["timestamp"],
+    },
+  ],
+  legacy: [
+    { key: "externalId", label: "Id", required: true, headers: ["id"] },
+    {
+      key: "phoneNumber",
+      label: "Phone number",
+      required: true,
+      headers: ["phone_number"],
+    },
+    {
+      key: "driverName",
+      label: "Driver name",
+      required: true,
+      headers: ["driver_name"],
+    },
+    {
+      key: "signUpDate",
+      label: "Sign-up date",
+      required: false,
+      headers: ["sign-up_date", "sign_up_date"],
+    },
+    {
+      key: "flowType",
+      label: "Flow type",
+      required: false,
+      headers: ["flow_type"],
+    },
+    {
+      key: "documentsUploaded",
+      label: "Documents uploaded",
+      required: false,
+      headers: ["documents_uploaded"],
+    },
+    {
+      key: "licenseCountry",
+      label: "License country",
+      required: false,
+      headers: ["license_country"],
+    },
+    {
+      key: "residentPermitStatus",
+      label: "Resident permit status",
+      required: false,
+      headers: ["resident_permit_status"],
+    },
+    {
+      key: "lastContactDate",
+      label: "Last contact date",
+      required: false,
+      headers: ["last_contact_date"],
+    },
+    {
+      key: "callStatus",
+      label: "Call status",
+      required: false,
+      headers: ["call_status"],
+    },
+    {
+      key: "transcript",
+      label: "Transcript",
+      required: false,
+      headers: ["transcript"],
+    },
+    { key: "summary", label: "Summary", required: false, headers: ["summary"] },
+    {
+      key: "urgentFlag",
+      label: "Urgent flag",
+      required: false,
+      headers: ["urgent_flag"],
+    },
+    {
+      key: "legalIssueFlag",
+      label: "Legal issue flag",
+      required: false,
+      headers: ["legal_issue_flag"],
+    },
+    {
+      key: "humanRequested",
+      label: "Human requested",
+      required: false,
+      headers: ["human_requested"],
+    },
+  ],
+};
+
+export const importMappingSchema = z.object({
+  format: z.enum(IMPORT_FORMATS),
+  /** Target field key -> file header (null or absent: not imported) */
+  columns: z.record(z.string(), z.string().nullable()),
+  /**
+   * dataset_v2 only: the "Document N" columns in order; the Nth one feeds
+   * the catalog document with importColumn N.
+   */
+  documentColumns: z.array(z.string()).max(100).default([]),
+});
+
+export type ImportMapping = z.infer<typeof importMappingSchema>;
+
+export function detectFormat(headers: string[]): ImportFormat {
+  return headers.includes("partner_name") ? "dataset_v2" : "legacy";
+}
+
+export function suggestMapping(
+  headers: string[],
+  format: ImportFormat = detectFormat(headers),
+): ImportMapping {
+  const columns: Record<string, string | null> = {};
+  for (const field of IMPORT_FIELDS[format]) {
+    columns[field.key] = field.headers.find((h) => headers.includes(h)) ?? null;
+  }
+  return {
+    format,
+    columns,
+    documentColumns:
+      format === "dataset_v2"
+        ? headers.filter((h) => h.startsWith("document"))
+        : [],
+  };
+}
+
+/** Problems that make the mapping unusable for this file. */
+export function mappingErrors(
+  headers: string[],
+  mapping: ImportMapping,
+): string[] {
+  const errors: string[] = [];
+  for (const field of IMPORT_FIELDS[mapping.format]) {
+    const header = mapping.columns[field.key];
+    if (!header) {
+      if (field.required) errors.push(`${field.label} must be mapped`);
+    } else if (!headers.includes(header)) {
+      errors.push(`Column "${header}" (${field.label}) is not in the file`);
+    }
+  }
+  for (const header of mapping.documentColumns) {
+    if (!headers.includes(header)) {
+      errors.push(`Document column "${header}" is not in the file`);
+    }
+  }
+  return errors;
+}
+
+/** The file columns a mapping reads (all a queued job needs to keep). */
+export function mappedHeaders(mapping: ImportMapping): string[] {
+  const headers = Object.values(mapping.columns).filter((h): h is string =>
+    Boolean(h),
+  );
+  return Array.from(new Set([...headers, ...mapping.documentColumns]));
+}
+
+// Row validation
+
+function parseYesNo(v: string | undefined | null): boolean {
+  const s = String(v || "")
+    .trim()
+    .toLowerCase();
+  return s === "yes" || s === "true" || s === "1" || s === "y";
+}
+
+function parseBooleanLoose(v: string | undefined | null): boolean | null {
+  const s = String(v || "")
+    .trim()
+    .toLowerCase();
+  if (!s || s === "-") return null;
+  if (["true", "yes", "y", "1", "t"].includes(s)) return true;
+  if (["false", "no", "n", "0", "f"].includes(s)) return false;
+  return null;
+}
+
+function isBlank(v: string): boolean {
+  return !v || v === "-";
+}
+
+function deriveDocumentsUploaded(
+  docFlags: (boolean | null)[],
+): DocumentsUploadedStatus | null {
+  const vals = docFlags.filter((v): v is boolean => v !== null);
+  if (vals.length === 0) return null;
+  const trues = vals.filter(Boolean).length;
+  if (trues === 0) return DocumentsUploadedStatus.NO;
+  if (trues === vals.length) return DocumentsUploadedStatus.YES;
+  return DocumentsUploadedStatus.PARTIAL;
+}
+
+function parseContactStatus(v: string): ContactStatus | null | undefined {
+  const s = v.trim().toLowerCase();
+  if (!s || s === "-" || s === "pending") return ContactStatus.PENDING;
+  if (s === "completed") return ContactStatus.COMPLETED;
+  if (s === "voicemail") return ContactStatus.VOICEMAIL;
+  if (s === "no answer" || s === "no_answer") return ContactStatus.NO_ANSWER;
+  return undefined;
+}
+
+export interface V2Row {
+  format: "dataset_v2";
+  partnerName: string;
+  /** E.164 */
+  phoneNumber: string;
+  /** As written in the file; riders imported before normalization match it */
+  phoneInput: string;
+  city: string | null;
+  docFlags: (boolean | null)[];
+  contactStatus: ContactStatus | null;
+  sentiment: string | null;
+  humanRequested: boolean;
+  summary: string | null;
+  attempt: number | null;
+  runId: string | null;
+  contactedAt: Date | null;
+}
+
+export interface LegacyRow {
+  format: "legacy";
+  externalId: number;
+  /** E.164 */
+  phoneNumber: string;
+  driverName: string;
+  signUpDate: Date | null;
+  flowType: string | null;
+  documentsUploaded: DocumentsUploadedStatus | null;
+  licenseCountry: string | null;
+  residentPermitStatus: string | null;
+  lastContactAt: Date | null;
+  contactStatus: ContactStatus | null;
+  transcript: string | null;
+  summary: string | null;
+  urgentFlag: boolean;
+  legalIssueFlag: boolean;
+  humanRequested: boolean;
+}
+
+export type ParsedRow = V2Row | LegacyRow;
+
+export interface RowValidation {
+  /** 1-based data row (the header is not counted) */
+  row: number;
+  /** Raw values by target field key */
+  values: Record<string, string>;
+  parsed: ParsedRow | null;
+  /** The row is skipped */
+  errors: string[];
+  /** A value was ignored; the row is still imported */
+  warnings: string[];
+}
+
+/**
+ * Validate and convert file rows with a (checked) mapping. `firstRow` is the
+ * row number of the first record, for files read in batches.
+ */
+export function validateRows(
+  records: Record<string, string>[],
+  mapping: ImportMapping,
+  firstRow = 1,
+): RowValidation[] {
+  return records.map((record, i) => {
+    const values: Record<string, string> = {};
+    for (const field of IMPORT_FIELDS[mapping.format]) {
+      const header = mapping.columns[field.key];
+      values[field.key] = header ? (record[header] ?? "").trim() : "";
+    }
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const required = (key: string, label: string) => {
+      if (isBlank(values[key])) errors.push(`${label} is required`);
+      return values[key];
+    };
+    const optional = (key: string) =>
+      isBlank(values[key]) ? null : values[key];
+    const date = (key: string, label: string) => {
+      const raw = optional(key);
+      if (raw === null) return null;
+      const d = new Date(raw);
+      if (Number.isNaN(d.getTime())) {
+        warnings.push(`${label} "${raw}" is not a date`);
+        return null;
+      }
+      return d;
+    };
+    // Invalid numbers skip the row; they could never be dialed
+    const phone = () => {
+      const raw = required("phoneNumber", "Phone number");
+      if (!raw) return raw;
+      const parsed = parsePhone(raw);
+      if (!parsed.ok) {
+        errors.push(`Phone number "${raw}": ${parsed.error}`);
+        return raw;
+      }
+      if (parsed.phone.lineType === "landline") {
+        warnings.push(`Phone number "${raw}" is a landline`);
+      }
+      return parsed.phone.e164;
+    };
+    const contactStatus = () => {
+      const status = parseContactStatus(values.callStatus);
+      if (status === undefined) {
+        warnings.push(`Unknown call status "${values.callStatus}"`);
+        return null;
+      }
+      return status;
+    };
+
+    let parsed: ParsedRow;
+    if (mapping.format === "dataset_v2") {
+      const attemptRaw = optional("attempt");
+      const attempt = attemptRaw === null ? null : Number(attemptRaw);
+      if (attempt !== null && !Number.isFinite(attempt)) {
+        warnings.push(`Attempt "${attemptRaw}" is not a number`);
+      }
+      parsed = {
+        format: "dataset_v2",
+        partnerName: required("partnerName", "Partner name"),
+        phoneNumber: phone(),
+        phoneInput: values.phoneNumber,
+        city: optional("city"),
+        docFlags: mapping.documentColumns.map((h) =>
+          parseBooleanLoose(record[h]),
+        ),
+        contactStatus: contactStatus(),
+        sentiment: optional("sentiment"),
+        humanRequested: Boolean(parseBooleanLoose(values.callHuman)),
+        summary: optional("summary"),
+        attempt:
+          attempt !== null && Number.isFinite(attempt)
+            ? Math.trunc(attempt)
+            : null,
+        runId: optional("runId"),
+        contactedAt: date("timestamp", "Timestamp"),
+      };
+    } else {
+      const externalIdRaw = required("externalId", "Id");
+      const externalId = Number(externalIdRaw);
+      if (externalIdRaw && !Number.isInteger(externalId)) {
+        errors.push(`Id "${externalIdRaw}" is not a whole number`);
+      }
+      const docs = values.documentsUploaded.toLowerCase();
+      const documentsUploaded =
+        docs === "yes"
+          ? DocumentsUploadedStatus.YES
+          : docs === "partial"
+            ? DocumentsUploadedStatus.PARTIAL
+            : docs === "no"
+              ? DocumentsUploadedStatus.NO
+              : null;
+      if (docs && !documentsUploaded) {
+        warnings.push(
+          `Documents uploaded "${values.documentsUploaded}" is not Yes, Partial or No`,
+        );
+      }
+      parsed = {
+        format: "legacy",
+        externalId,
+        phoneNumber: phone(),
+        driverName: required("driverName", "Driver name"),
+        signUpDate: date("signUpDate", "Sign-up date"),
+        flowType: optional("flowType"),
+        documentsUploaded,
+        licenseCountry: optional("licenseCountry"),
+        residentPermitStatus: optional("residentPermitStatus"),
+        lastContactAt: date("lastContactDate", "Last contact date"),
+        // Legacy files leave the status empty for riders never called
+        contactStatus: isBlank(values.callStatus) ? null : contactStatus(),
+        transcript: optional("transcript"),
+        summary: optional("summary"),
+        urgentFlag: parseYesNo(values.urgentFlag),
+        legalIssueFlag: parseYesNo(values.legalIssueFlag),
+        humanRequested: parseYesNo(values.humanRequested),
+      };
+    }
+
+    return {
+      row: firstRow + i,
+      values,
+      parsed: errors.length ? null : parsed,
+      errors,
+      warnings,
+    };
+  });
+}
+
+// Import
+
+export type ImportAction = "create" | "update" | "skip";
+
+export interface RowResult {
+  row: number;
+  action: ImportAction;
+  callAction: "create" | "update" | null;
+  riderId: string | null;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ImportResult {
+  dryRun: boolean;
+  ridersCreated: number;
+  ridersUpdated: number;
+  /** ridersCreated + ridersUpdated */
+  ridersUpserted: number;
+  callsCreated: number;
+  callsUpdated: number;
+  skipped: number;
+  rows: RowResult[];
+}
+
+export interface ImportContext {
+  dryRun: boolean;
+  initiatedByUserId: string | null;
+  job: ImportJobTracker | null;
+  /** Dry run: riders earlier rows would create, so later rows count as updates */
+  plannedRiders: Set<string>;
+}
+
+export function createImportContext({
+  dryRun = false,
+  initiatedByUserId = null,
+  job = null,
+}: {
+  dryRun?: boolean;
+  initiatedByUserId?: string | null;
+  job?: ImportJobTracker | null;
+}): ImportContext {
+  return { dryRun, initiatedByUserId, job, plannedRiders: new Set() };
+}
+
+/**
+ * Riders and calls a batch of rows can match, loaded with two queries and
+ * kept up to date as the batch writes (newest first, like the lookups they
+ * replace: riders by updatedAt, calls by createdAt).
+ */
+interface BatchLookup {
+  riders: Rider[];
+  calls: RiderCall[];
+  documentTypes: DocumentType[];
+}
+
+async function loadBatchLookup(
+  db: Prisma.TransactionClient,
+  rows: ParsedRow[],
+): Promise<BatchLookup> {
+  const v2 = rows.filter((r): r is V2Row => r.format === "dataset_v2");
+  const legacy = rows.filter((r): r is LegacyRow => r.format === "legacy");
+
+  const riderWhere: Prisma.RiderWhereInput[] = [];
+  if (v2.length) {
+    riderWhere.push({
+      driverName: { in: Array.from(new Set(v2.map((r) => r.partnerName))) },
+      phoneNumber: {
+        in: Array.from(
+          new Set(v2.flatMap((r) => [r.phoneNumber, r.phoneInput])),
+        ),
+      },
+    });
+  }
+  if (legacy.length) {
+    riderWhere.push({ externalId: { in: legacy.map((r) => r.externalId) } });
+  }
+  const riders = riderWhere.length
+    ? await db.rider.findMany({
+        where: { OR: riderWhere },
+        orderBy: { updatedAt: "desc" },
+      })
+    : [];
+
+  const runIds = v2.flatMap((r) => (r.runId ? [r.runId] : []));
+  const callWhere: Prisma.RiderCallWhereInput[] = [];
+  if (runIds.length) callWhere.push({ runId: { in: runIds } });
+  if (riders.length) {
+    callWhere.push({ riderId: { in: riders.map((r) => r.id) } });
+  }
+  const calls = callWhere.length
+    ? await db.riderCall.findMany({
+        where: { OR: callWhere },
+        orderBy: { createdAt: "desc" },
+      })
+    : [];
+
+  const documentTypes = v2.length ? await importDocumentTypes(db) : [];
+  return { riders, calls, documentTypes };
+}
+
+/** A written rider is now the most recently updated one. */
+function rememberRider(lookup: BatchLookup, rider: Rider): void {
+  lookup.riders = [rider, ...lookup.riders.filter((r) => r.id !== rider.id)];
+}
+
+function rememberCall(lookup: BatchLookup, call: RiderCall): void {
+  const index = lookup.calls.findIndex((c) => c.id === call.id);
+  if (index === -1) lookup.calls.unshift(call);
+  else lookup.calls[index] = call;
+}
+
+function sameTime(a: Date | null, b: Date | null): boolean {
+  return (a?.getTime() ?? null) === (b?.getTime() ?? null);
+}
+
+function findV2Rider(lookup: BatchLookup, row: V2Row): Rider | null {
+  return (
+    lookup.riders.find(
+      (r) =>
+        r.driverName === row.partnerName &&
+        (r.phoneNumber === row.phoneNumber ||
+          r.phoneNumber === row.phoneInput) &&
+        (!row.city || r.city === row.city),
+    ) ?? null
+  );
+}
+
+function findV2Call(
+  lookup: BatchLookup,
+  riderId: string,
+  row: V2Row,
+): RiderCall | null {
+  let existingCall: RiderCall | undefined;
+  if (row.runId) {
+    existingCall = lookup.calls.find((c) => c.runId === row.runId);
+  }
+  if (!existingCall && row.attempt !== null) {
+    existingCall = lookup.calls.find(
+      (c) => c.riderId === riderId && c.attempt === row.attempt,
+    );
+  }
+  if (!existingCall && row.contactedAt) {
+    existingCall = lookup.calls.find(
+      (c) => c.riderId === riderId && sameTime(c.contactedAt, row.contactedAt),
+    );
+  }
+  return existingCall ?? null;
+}
+
+function findLegacyRider(lookup: BatchLookup, row: LegacyRow): Rider | null {
+  return lookup.riders.find((r) => r.externalId === row.externalId) ?? null;
+}
+
+function findLegacyCall(
+  lookup: BatchLookup,
+  riderId: string,
+  row: LegacyRow,
+): RiderCall | null {
+  return (
+    lookup.calls.find(
+      (c) =>
+        c.riderId === riderId &&
+        sameTime(c.contactedAt, row.lastContactAt) &&
+        (!row.contactStatus || c.contactStatus === row.contactStatus),
+    ) ?? null
+  );
+}
+
+type ImportedCallData = Omit<
+  Prisma.RiderCallUncheckedCreateInput,
+  "riderId" | "initiatedByUserId"
+>;
+
+async function writeCall(
+  db: Prisma.TransactionClient,
+  ctx: ImportContext,
+  lookup: BatchLookup,
+  riderId: string,
+  existingCall: RiderCall | null,
+  callData: ImportedCallData,
+): Promise<void> {
+  if (existingCall) {
+    await recordCallUpdate(db, ctx.job, existingCall);
+    const call = await db.riderCall.update({
+      where: { id: existingCall.id },
+      data: callData,
+    });
+    await recordCallResult(db, ctx.job, call);
+    rememberCall(lookup, call);
+    return;
+  }
+  const call = await db.riderCall.create({
+    data: {
+      riderId,
+      initiatedByUserId: ctx.initiatedByUserId,
+      ...callData,
+    },
+  });
+  await recordCreated(db, ctx.job, "rider_call", call.id);
+  await recordCallResult(db, ctx.job, call);
+  rememberCall(lookup, call);
+}
+
+async function importV2Row(
+  db: Prisma.TransactionClient,
+  row: V2Row,
+  ctx: ImportContext,
+  lookup: BatchLookup,
+): Promise<Pick<RowResult, "action" | "callAction" | "riderId">> {
+  const existing = findV2Rider(lookup, row);
+
+  if (ctx.dryRun) {
+    const key = `${row.partnerName}|${row.phoneNumber}|${row.city ?? ""}`;
+    const planned = ctx.plannedRiders.has(key);
+    ctx.plannedRiders.add(key);
+    const call = existing ? findV2Call(lookup, existing.id, row) : null;
+    return {
+      action: existing || planned ? "update" : "create",
+      callAction: call ? "update" : "create",
+      riderId: existing?.id ?? null,
+    };
+  }
+
+  const documentsJson = {
+    flags: row.docFlags,
+    count: row.docFlags.filter((v) => v !== null).length,
+    trueCount: row.docFlags.filter((v) => v === true).length,
+  };
+  const riderData = {
+    driverName: row.partnerName,
+    phoneNumber: row.phoneNumber,
+    city: row.city,
+    documents: documentsJson,
+    documentsUploaded: deriveDocumentsUploaded(row.docFlags),
+    humanRequested: row.humanRequested,
+  };
+
+  let rider: Rider;
+  if (existing) {
+    await recordRiderUpdate(db, ctx.job, existing);
+    rider = await db.rider.update({
+      where: { id: existing.id },
+      data: riderData,
+    });
+  } else {
+    rider = await db.rider.create({ data: riderData });
+    await recordCreated(db, ctx.job, "rider", rider.id);
+  }
+
+  // Named checklist from the positional document columns; refines
+  // documentsUploaded for riders the catalog applies to
+  rider = await applyImportedDocumentFlags(db, {
+    riderId: rider.id,
+    flags: row.docFlags,
+    types: lookup.documentTypes,
+  });
+
+  const runStatus =
+    row.contactStatus && row.contactStatus !== ContactStatus.PENDING
+      ? "COMPLETED"
+      : "PENDING";
+
+  const callData = {
+    status: runStatus,
+    contactStatus: row.contactStatus,
+    contactedAt: row.contactedAt,
+    summary: row.summary,
+    sentiment: row.sentiment,
+    attempt: row.attempt,
+    runId: row.runId,
+    humanRequested: row.humanRequested,
+    metadata: {
+      source: "dataset_v2_import",
+      city: row.city,
+    },
+  } satisfies ImportedCallData;
+
+  const existingCall = findV2Call(lookup, rider.id, row);
+  await writeCall(db, ctx, lookup, rider.id, existingCall, callData);
+
+  // Keep rider "last contact" fields consistent when we have a timestamp/status
+  if (row.contactedAt) {
+    rider = await db.rider.update({
+      where: { id: rider.id },
+      data: {
+        lastContactAt: row.contactedAt,
+        lastContactStatus: row.contactStatus,
+      },
+    });
+  }
+  await syncOnboardingStage(db, { rider, source: "import" });
+  await recordRiderResult(db, ctx.job, rider.id);
+  rememberRider(lookup, rider);
+
+  return {
+    action: existing ? "update" : "create",
+    callAction: existingCall ? "update" : "create",
+    riderId: rider.id,
+  };
+}
+
+async function importLegacyRow(
+  db: Prisma.TransactionClient,
+  row: LegacyRow,
+  ctx: ImportContext,
+  lookup: BatchLookup,
+): Promise<Pick<RowResult, "action" | "callAction" | "riderId">> {
+  const existing = findLegacyRider(lookup, row);
+
+  if (ctx.dryRun) {
+    const key = String(row.externalId);
+    const planned = ctx.plannedRiders.has(key);
+    ctx.plannedRiders.add(key);
+    const call = existing ? findLegacyCall(lookup, existing.id, row) : null;
+    return {
+      action: existing || planned ? "update" : "create",
+      callAction: call ? "update" : "create",
+      riderId: existing?.id ?? null,
+    };
+  }
+
+  const riderData = {
+    phoneNumber: row.phoneNumber,
+    driverName: row.driverName,
+    signUpDate: row.signUpDate,
+    flowType: row.flowType,
+    documentsUploaded: row.documentsUploaded,
+    licenseCountry: row.licenseCountry,
+    residentPermitStatus: row.residentPermitStatus,
+    lastContactAt: row.lastContactAt,
+    lastContactStatus: row.contactStatus,
+    urgentFlag: row.urgentFlag,
+    legalIssueFlag: row.legalIssueFlag,
+    humanRequested: row.humanRequested,
+  };
+  if (existing) await recordRiderUpdate(db, ctx.job, existing);
+  const rider = await db.rider.upsert({
+    where: { externalId: row.externalId },
+    update: riderData,
+    create: { externalId: row.externalId, ...riderData },
+  });
+  if (!existing) await recordCreated(db, ctx.job, "rider", rider.id);
+  await syncOnboardingStage(db, { rider, source: "import" });
+  await recordRiderResult(db, ctx.job, rider.id);
+  rememberRider(lookup, rider);
+
+  const runStatus =
+    row.contactStatus && row.contactStatus !== ContactStatus.PENDING
+      ? "COMPLETED"
+      : "PENDING";
+
+  const callData = {
+    status: runStatus,
+    contactStatus: row.contactStatus,
+    contactedAt: row.lastContactAt,
+    transcript: row.transcript,
+    summary: row.summary,
+    urgentFlag: row.urgentFlag,
+    legalIssueFlag: row.legalIssueFlag,
+    humanRequested: row.humanRequested,
+    metadata: {
+      source: "csv_import",
+      externalId: row.externalId,
+    },
+  } satisfies ImportedCallData;
+
+  const existingCall = findLegacyCall(lookup, rider.id, row);
+  await writeCall(db, ctx, lookup, rider.id, existingCall, callData);
+
+  return {
+    action: existing ? "update" : "create",
+    callAction: existingCall ? "update" : "create",
+    riderId: rider.id,
+  };
+}
+
+export function emptyImportResult(dryRun: boolean): ImportResult {
+  return {
+    dryRun,
+    ridersCreated: 0,
+    ridersUpdated: 0,
+    ridersUpserted: 0,
+    callsCreated: 0,
+    callsUpdated: 0,
+    skipped: 0,
+    rows: [],
+  };
+}
+
+/**
+ * Import one batch of validated rows with `db` (a transaction for real
+ * imports, so a batch is written entirely or not at all). The riders and
+ * calls the batch can match are loaded up front instead of per row.
+ *
+ * In dry run nothing is written: each row reports whether its rider and
+ * call would be created or updated. With a job, every created or updated
+ * record is recorded for rollback.
+ */
+export async function importRows(
+  db: Prisma.TransactionClient,
+  rows: RowValidation[],
+  ctx: ImportContext,
+): Promise<ImportResult> {
+  const result = emptyImportResult(ctx.dryRun);
+  const lookup = await loadBatchLookup(
+    db,
+    rows.flatMap((row) => (row.parsed ? [row.parsed] : [])),
+  );
+
+  for (const row of rows) {
+    const { errors, warnings } = row;
+    if (!row.parsed) {
+      result.skipped++;
+      result.rows.push({
+        row: row.row,
+        action: "skip",
+        callAction: null,
+        riderId: null,
+        errors,
+        warnings,
+      });
+      continue;
+    }
+
+    const outcome =
+      row.parsed.format === "dataset_v2"
+        ? await importV2Row(db, row.parsed, ctx, lookup)
+        : await importLegacyRow(db, row.parsed, ctx, lookup);
+
+    if (outcome.action === "create") result.ridersCreated++;
+    if (outcome.action === "update") result.ridersUpdated++;
+    if (outcome.callAction === "create") result.callsCreated++;
+    if (outcome.callAction === "update") result.callsUpdated++;
+    result.rows.push({ row: row.row, ...outcome, errors, warnings });
+  }
+
+  result.ridersUpserted = result.ridersCreated + result.ridersUpdated;
+  return result;
+}
+
+const DRY_RUN_BATCH = 500;
+const MAX_DRY_RUN_ROWS = 500;
+
+/**
+ * Dry run a whole file, batch by batch. Only skipped rows and rows with
+ * warnings are returned (at most MAX_DRY_RUN_ROWS), not every row.
+ */
+export async function simulateImport(
+  file: ImportFileReader,
+  mapping: ImportMapping,
+  initiatedByUserId: string | null,
+): Promise<ImportResult & { totalRows: number; rowsTruncated: boolean }> {
+  const ctx = createImportContext({ dryRun: true, initiatedByUserId });
+  const total = emptyImportResult(true);
+  let totalRows = 0;
+  let rowsTruncated = false;
+
+  for (;;) {
+    const records = await file.read(DRY_RUN_BATCH);
+    if (!records.length) break;
+    const batch = await importRows(
+      prisma,
+      validateRows(records, mapping, totalRows + 1),
+      ctx,
+    );
+    totalRows += records.length;
+
+    total.ridersCreated += batch.ridersCreated;
+    total.ridersUpdated += batch.ridersUpdated;
+    total.callsCreated += batch.callsCreated;
+    total.callsUpdated += batch.callsUpdated;
+    total.skipped += batch.skipped;
+    for (const row of batch.rows) {
+      if (row.action !== "skip" && !row.warnings.length) continue;
+      if (total.rows.length < MAX_DRY_RUN_ROWS) total.rows.push(row);
+      else rowsTruncated = true;
+    }
+  }
+
+  total.ridersUpserted = total.ridersCreated + total.ridersUpdated;
+  return { ...total, totalRows, rowsTruncated };
+}
+
+// Request helpers
+
+/**
+ * Import routes accept the `x-import-api-key` header when IMPORT_API_KEY is
+ * set, and a logged-in session otherwise.
+ */
+export async function authorizeImport(
+  req: NextRequest,
+): Promise<{ ok: true; userId: string | null } | { ok: false }> {
+  const apiKey = process.env.IMPORT_API_KEY;
+  if (apiKey) {
+    return req.headers.get("x-import-api-key") === apiKey
+      ? { ok: true, userId: null }
+      : { ok: false };
+  }
+  const session = await getServerSession(authOptions);
+  if (!session) return { ok: false };
+  return {
+    ok: true,
+    userId: (session.user?.id as string | undefined) ?? null,
+  };
+}
+
+export interface ImportRequest {
+  source: ImportSource | null;
+  fileName: string | null;
+  mapping: unknown;
+  dryRun: boolean;
+}
+
+function parseMappingParam(value: string | null): unknown {
+  if (!value?.trim()) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Read the CSV, an optional mapping (as JSON) and the dry-run switch.
+ *
+ * Any body other than multipart or JSON is the file itself and is streamed
+ * (the way to send large files); `fileName`, `mapping` and `dryRun` then
+ * come from the query string. Multipart (`file`, `mapping`, `dryRun`
+ * fields) and JSON (`{ csv, fileName, mapping, dryRun }`) bodies are read
+ * whole. `?dryRun=1` works with any body.
+ */
+export async function readImportRequest(
+  req: NextRequest,
+): Promise<ImportRequest> {
+  const contentType = req.headers.get("content-type") || "";
+  const params = req.nextUrl.searchParams;
+  const query = params.get("dryRun");
+  let source: ImportSource | null = null;
+  let fileName = params.get("fileName");
+  let mapping = parseMappingParam(params.get("mapping"));
+  let dryRun = query === "1" || query === "true";
+
+  if (contentType.includes("multipart/form-data")) {
+    const form = await req.formData();
+    const file = form.get("file");
+    if (file && typeof file !== "string" && "stream" in file) {
+      source = (file as Blob).stream();
+      if ("name" in file && typeof file.name === "string") fileName = file.name;
+    } else if (typeof file === "string" && file.trim()) {
+      source = file;
+    }
+    const mappingField = form.get("mapping");
+    if (typeof mappingField === "string") {
+      mapping = parseMappingParam(mappingField) ?? mapping;
+    }
+    const dryRunField = form.get("dryRun");
+    if (dryRunField === "1" || dryRunField === "true") dryRun = true;
+  } else if (contentType.includes("application/json")) {
+    const body = (await req.json().catch(() => null)) as {
+      csv?: unknown;
+      fileName?: unknown;
+      mapping?: unknown;
+      dryRun?: unknown;
+    } | null;
+    if (typeof body?.csv === "string" && body.csv.trim()) source = body.csv;
+    if (typeof body?.fileName === "string") fileName = body.fileName;
+    if (body?.mapping !== undefined) mapping = body.mapping;
+    if (body?.dryRun === true) dryRun = true;
+  } else {
+    // the file itself
+    source = req.body;
+  }
+
+  return {
+    source,
+    fileName: fileName?.trim().slice(0, 255) || null,
+    mapping,
+    dryRun,
+  };
+}
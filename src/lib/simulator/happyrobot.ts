@@ -0,0 +1,220 @@
+import { createHash, randomUUID } from "node:crypto";
+import { safeEqual, signedCallbackHeaders } from "@/lib/callback-signature";
+import {
+  SIMULATOR_SCENARIOS,
+  type SimulatorScenario,
+} from "@/lib/simulator/scenarios";
+
+/**
+ * In-process HappyRobot simulator (HAPPYROBOT_SIMULATOR=1).
+ *
+ * Emulates the workflow webhook and the Platform runs API under
+ * /api/simulator/happyrobot, so the real HappyRobot provider code runs the
+ * full trigger → poll → callback loop locally.
+ *
+ * Timeline per run (env, ms):
+ * - SIMULATOR_QUEUED_MS: reported as "pending" (default 3000)
+ * - SIMULATOR_CALL_MS: then "running" for this long (default 15000)
+ * Afterwards the run is "completed" and a signed callback is POSTed to the
+ * callback_url sent with the trigger.
+ *
+ * The outcome is one of SIMULATOR_SCENARIOS, picked deterministically from
+ * the rider_call_id so repeated runs of the same call behave the same.
+ *
+ * Like the real service, the webhook wants X-API-KEY (HAPPYROBOT_X_API_KEY)
+ * and the runs API a Bearer HAPPYROBOT_POLLING_SECRET; with either unset its
+ * routes refuse every request. Callbacks only go back to this app
+ * (NEXTAUTH_URL / APP_URL).
+ */
+
+export type SimulatorRunStatus =
+  | "pending"
+  | "running"
+  | "completed"
+  | "canceled";
+
+interface SimulatorRun {
+  id: string;
+  riderCallId: string | null;
+  callbackUrl: string | null;
+  createdAt: number;
+  scenario: SimulatorScenario;
+  canceled: boolean;
+}
+
+const globalForSimulator = globalThis as unknown as {
+  happyRobotSimulatorRuns: Map<string, SimulatorRun> | undefined;
+};
+
+const runs =
+  globalForSimulator.happyRobotSimulatorRuns ?? new Map<string, SimulatorRun>();
+globalForSimulator.happyRobotSimulatorRuns = runs;
+
+export function isSimulatorEnabled(): boolean {
+  return process.env.HAPPYROBOT_SIMULATOR === "1";
+}
+
+function getAppUrl(): string {
+  const appUrl =
+    process.env.APP_URL || `http://localhost:${process.env.PORT || 3000}`;
+  return appUrl.replace(/\/$/, "");
+}
+
+/** Base URL of the simulator routes on this server. */
+export function getSimulatorBaseUrl(): string {
+  return `${getAppUrl()}/api/simulator/happyrobot`;
+}
+
+/** Where callbacks go when the trigger sends no callback_url. */
+export function getDefaultCallbackUrl(): string {
+  return `${getAppUrl()}/api/calls/callback`;
+}
+
+function originOf(url: string): string | null {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return null;
+  }
+}
+
+/** Only this app receives simulated callbacks. */
+export function isAllowedCallbackUrl(url: string): boolean {
+  const origin = originOf(url);
+  if (!origin) return false;
+  const allowed = [process.env.NEXTAUTH_URL, getAppUrl()]
+    .filter((u): u is string => !!u)
+    .map(originOf);
+  return allowed.indexOf(origin) !== -1;
+}
+
+/**
+ * Whether a simulator request carries the provider credentials: the webhook
+ * ("trigger") checks X-API-KEY, the runs API ("platform") the Bearer token.
+ */
+export function isAuthorizedSimulatorRequest(
+  headers: Headers,
+  api: "trigger" | "platform",
+): boolean {
+  const secret =
+    api === "trigger"
+      ? process.env.HAPPYROBOT_X_API_KEY
+      : process.env.HAPPYROBOT_POLLING_SECRET;
+  if (!secret) return false;
+  const provided =
+    api === "trigger"
+      ? headers.get("x-api-key")
+      : headers.get("authorization")?.replace(/^Bearer\s+/i, "");
+  return !!provided && safeEqual(provided, secret);
+}
+
+function msFromEnv(name: string, fallback: number): number {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+function pickScenario(seed: string): SimulatorScenario {
+  const hash = createHash("sha256").update(seed).digest();
+  return SIMULATOR_SCENARIOS[hash.readUInt32BE(0) % SIMULATOR_SCENARIOS.length];
+}
+
+function statusOf(run: SimulatorRun, now = Date.now()): SimulatorRunStatus {
+  if (run.canceled) return "canceled";
+  const elapsed = now - run.createdAt;
+  const queuedMs = msFromEnv("SIMULATOR_QUEUED_MS", 3_000);
+  if (elapsed < queuedMs) return "pending";
+  if (elapsed < queuedMs + msFromEnv("SIMULATOR_CALL_MS", 15_000)) {
+    return "running";
+  }
+  return "completed";
+}
+
+async function sendCallback(run: SimulatorRun) {
+  if (run.canceled || !run.callbackUrl) return;
+
+  const { scenario } = run;
+  const reached = scenario.contactStatus === "completed";
+  const rawBody = JSON.stringify({
+    event_id: `sim-${run.id}`,
+    run_id: run.id,
+    status: "completed",
+    contact_status: scenario.contactStatus,
+    result: {
+      summary: scenario.summary,
+      transcript: scenario.transcript,
+      urgent_flag: reached && scenario.urgentFlag,
+      legal_issue_flag: reached && scenario.legalIssueFlag,
+      human_requested: reached && scenario.humanRequested,
+      // The scenarios' riders confirm consent when reached
+      ...(reached ? { consent: true } : {}),
+    },
+    context: { source: { rider_call_id: run.riderCallId } },
+  });
+
+  const headers = {
+    "Content-Type": "application/json",
+    ...signedCallbackHeaders(rawBody),
+  };
+
+  try {
+    const response = await fetch(run.callbackUrl, {
+      method: "POST",
+      headers,
+      body: rawBody,
+    });
+    console.log(
+      `[HappyRobot Simulator] Callback for ${run.id} (${scenario.contactStatus}): ${response.status}`,
+    );
+  } catch (error) {
+    console.error(
+      `[HappyRobot Simulator] Callback for ${run.id} failed:`,
+      error,
+    );
+  }
+}
+
+export function createSimulatorRun({
+  riderCallId,
+  callbackUrl,
+}: {
+  riderCallId: string | null;
+  callbackUrl: string | null;
+}): string {
+  const id = `sim-${randomUUID()}`;
+  const run: SimulatorRun = {
+    id,
+    riderCallId,
+    callbackUrl,
+    createdAt: Date.now(),
+    scenario: pickScenario(riderCallId || id),
+    canceled: false,
+  };
+  runs.set(id, run);
+
+  const endsInMs =
+    msFromEnv("SIMULATOR_QUEUED_MS", 3_000) +
+    msFromEnv("SIMULATOR_CALL_MS", 15_000);
+  setTimeout(() => void sendCallback(run), endsInMs).unref?.();
+
+  return id;
+}
+
+export function getSimulatorRun(
+  id: string,
+): { id: string; status: SimulatorRunStatus; created_at: string } | null {
+  const run = runs.get(id);
+  if (!run) return null;
+  return {
+    id: run.id,
+    status: statusOf(run),
+    created_at: new Date(run.createdAt).toISOString(),
+  };
+}
+
+/** Returns false when the run is unknown or already finished. */
+export function cancelSimulatorRun(id: string): boolean {
+  const run = runs.get(id);
+  if (!run || statusOf(run) === "completed") return false;
+  run.canceled = true;
+  return true;
+}
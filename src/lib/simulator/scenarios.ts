@@ -0,0 +1,136 @@
+/**
+ * Call outcomes replayed by the HappyRobot simulator.
+ *
+ * Taken from the completed rows of
+ * "Testing Uber Onboarding - HappyRobot - Sheet1.csv".
+ */
+
+export interface SimulatorScenario {
+  contactStatus: "completed" | "no_answer" | "voicemail";
+  summary: string;
+  transcript: string;
+  urgentFlag: boolean;
+  legalIssueFlag: boolean;
+  humanRequested: boolean;
+}
+
+export const SIMULATOR_SCENARIOS: SimulatorScenario[] = [
+  {
+    contactStatus: "completed",
+    summary:
+      "Driver confirmed intent for Uber Black. Needs guidance on TVDE license application. No documents uploaded yet. Agent follow-up required.",
+    transcript:
+      "Driver answered, confirmed identity and consent. Discussed Uber Black requirements including professional license and insurance. Driver has questions about TVDE license process.",
+    urgentFlag: false,
+    legalIssueFlag: false,
+    humanRequested: false,
+  },
+  {
+    contactStatus: "completed",
+    summary:
+      "Driver initially selected courier flow but wants to explore Uber Black. Documents partially complete. Requires human agent to discuss options and next steps.",
+    transcript:
+      "Driver answered, confirmed consent. Signed up for courier but interested in driver options. Has valid Portuguese license, uploaded ID and license photos.",
+    urgentFlag: false,
+    legalIssueFlag: false,
+    humanRequested: true,
+  },
+  {
+    contactStatus: "completed",
+    summary:
+      "Driver is ready for activation. Background check pending. No issues found.",
+    transcript:
+      "Driver answered. Everything seems correct. All documents uploaded and valid. Asked about when he can start driving.",
+    urgentFlag: false,
+    legalIssueFlag: false,
+    humanRequested: false,
+  },
+  {
+    contactStatus: "completed",
+    summary:
+      "Driver needs help with document validity. Residence permit is in 'manifestação de interesse'. Escalated to language specialist.",
+    transcript:
+      "Driver answered but language barrier exists. Understood he has a residence permit receipt but not the card yet. Uploaded Indian license.",
+    urgentFlag: false,
+    legalIssueFlag: false,
+    humanRequested: true,
+  },
+  {
+    contactStatus: "voicemail",
+    summary:
+      "Attempt 1 failed. Left voicemail. Driver has not uploaded any documents since sign-up. Schedule callback in 24h.",
+    transcript:
+      "No answer. Call went to voicemail after 4 rings. Left standard message regarding missing documents.",
+    urgentFlag: false,
+    legalIssueFlag: false,
+    humanRequested: false,
+  },
+  {
+    contactStatus: "completed",
+    summary:
+      "Legal flag raised. Driver disclosed past criminal record. Needs compliance review before proceeding.",
+    transcript:
+      "Driver answered. Mentioned he has a criminal record from 5 years ago (DUI) and asked if that prevents him from driving.",
+    urgentFlag: false,
+    legalIssueFlag: true,
+    humanRequested: true,
+  },
+  {
+    contactStatus: "completed",
+    summary:
+      "Vehicle age discrepancy for Black tier. Driver frustrated. Needs human agent to explain vehicle requirements or switch him to Uber X.",
+    transcript:
+      "Driver has all docs but his vehicle is a 2018 model, which might not qualify for Black. He is insisting it should be accepted.",
+    urgentFlag: false,
+    legalIssueFlag: false,
+    humanRequested: true,
+  },
+  {
+    contactStatus: "completed",
+    summary:
+      "Technical issue reported with app upload. Driver is motivated and documents are ready. marked Urgent to prevent churn.",
+    transcript:
+      "Driver is trying to upload TVDE certificate but says the app crashes every time. She is very eager to start this weekend.",
+    urgentFlag: true,
+    legalIssueFlag: false,
+    humanRequested: true,
+  },
+  {
+    contactStatus: "completed",
+    summary:
+      "Potential upsell to Driver flow. Explained TVDE requirement. He will stick to Courier for now but wants info emailed.",
+    transcript:
+      "Driver signed up for Moto delivery but asked if he can make more money driving passengers. Does not have a TVDE license yet.",
+    urgentFlag: false,
+    legalIssueFlag: false,
+    humanRequested: false,
+  },
+  {
+    contactStatus: "completed",
+    summary:
+      "Driver cannot proceed until license is renewed. Status set to 'On Hold'. Advised to contact us once new document is issued.",
+    transcript:
+      "Driver answered. Her driving license expired last month. She is waiting for the renewal appointment at IMT.",
+    urgentFlag: false,
+    legalIssueFlag: false,
+    humanRequested: false,
+  },
+  {
+    contactStatus: "no_answer",
+    summary:
+      "The call was picked up but there was no response from the other side.",
+    transcript: "",
+    urgentFlag: false,
+    legalIssueFlag: false,
+    humanRequested: false,
+  },
+  {
+    contactStatus: "completed",
+    summary:
+      "Driver is interested but lacks necessary documents for license exchange and residence permit to activate account.",
+    transcript: "",
+    urgentFlag: false,
+    legalIssueFlag: true,
+    humanRequested: true,
+  },
+];
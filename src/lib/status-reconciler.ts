@@ -0,0 +1,138 @@
+import { CallStatus } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { publishCallUpdate } from "@/lib/call-events";
+import {
+  canTransitionCallStatus,
+  TERMINAL_CALL_STATUSES,
+} from "@/lib/call-state";
+import { getVoiceProvider } from "@/lib/voice";
+
+/**
+ * Background reconciler: advances PENDING/RUNNING calls by polling the
+ * voice provider's run status, so API routes only ever read from the database.
+ *
+ * Env:
+ * - RECONCILER_BATCH_SIZE: calls polled per tick (default 25)
+ * - RECONCILER_POLL_INTERVAL_MS: delay before re-polling a healthy run (default 10000)
+ */
+
+// Parallel requests within a batch
+const CONCURRENCY = 5;
+// Backoff for a run whose poll failed: base * 2^failures, capped
+const BACKOFF_BASE_MS = 15_000;
+const BACKOFF_MAX_MS = 10 * 60_000;
+
+function numberFromEnv(name: string, fallback: number): number {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+function backoffMs(failures: number): number {
+  return Math.min(
+    BACKOFF_BASE_MS * 2 ** Math.max(failures - 1, 0),
+    BACKOFF_MAX_MS,
+  );
+}
+
+export async function reconcileCallStatuses(now = new Date()): Promise<number> {
+  const provider = getVoiceProvider();
+  if (!provider.canPoll()) return 0;
+
+  const batchSize = numberFromEnv("RECONCILER_BATCH_SIZE", 25);
+  const pollIntervalMs = numberFromEnv("RECONCILER_POLL_INTERVAL_MS", 10_000);
+
+  const calls = await prisma.riderCall.findMany({
+    where: {
+      status: { in: [CallStatus.PENDING, CallStatus.RUNNING] },
+      runId: { not: null },
+      OR: [{ nextPollAt: null }, { nextPollAt: { lte: now } }],
+    },
+    orderBy: [{ nextPollAt: { sort: "asc", nulls: "first" } }],
+    take: batchSize,
+    select: { id: true, runId: true, status: true, pollFailures: true },
+  });
+
+  let advanced = 0;
+  let rateLimited = false;
+
+  for (let i = 0; i < calls.length && !rateLimited; i += CONCURRENCY) {
+    const chunk = calls.slice(i, i + CONCURRENCY);
+
+    await Promise.all(
+      chunk.map(async (call) => {
+        const result = await provider.getRunStatus(call.runId!);
+        const polledAt = new Date();
+
+        if (!result.ok) {
+          if (result.rateLimited) rateLimited = true;
+          const failures = call.pollFailures + 1;
+          await prisma.riderCall.update({
+            where: { id: call.id },
+            data: {
+              lastPolledAt: polledAt,
+              pollFailures: failures,
+              nextPollAt: new Date(polledAt.getTime() + backoffMs(failures)),
+            },
+          });
+          return;
+        }
+
+        const newStatus = result.status;
+        const changed =
+          !!newStatus &&
+          newStatus !== call.status &&
+          canTransitionCallStatus(call.status, newStatus);
+
+        await prisma.riderCall.update({
+          where: { id: call.id },
+          data: {
+            lastPolledAt: polledAt,
+            pollFailures: 0,
+            nextPollAt: new Date(polledAt.getTime() + pollIntervalMs),
+          },
+        });
+
+        if (!changed) return;
+
+        // Conditional on the status we read, so a callback that landed
+        // meanwhile is never overwritten by an older poll result.
+        const applied = await prisma.$transaction(async (tx) => {
+          const res = await tx.riderCall.updateMany({
+            where: { id: call.id, status: call.status },
+            data: {
+              status: newStatus,
+              completedAt: TERMINAL_CALL_STATUSES.includes(newStatus)
+                ? polledAt
+                : null,
+            },
+          });
+          if (res.count === 0) return false;
+
+          await tx.callEvent.create({
+            data: {
+              dedupeKey: `reconciler:${call.id}:${newStatus}`,
+              source: "status_reconciler",
+              outcome: "applied",
+              status: newStatus,
+              riderCallId: call.id,
+              receivedAt: polledAt,
+            },
+          });
+          return true;
+        });
+
+        if (applied) {
+          advanced++;
+          await publishCallUpdate(call.id);
+          console.log(`[Reconciler] Updated call ${call.id} to ${newStatus}`);
+        }
+      }),
+    );
+  }
+
+  if (rateLimited) {
+    console.warn(`[Reconciler] Rate limited by ${provider.name}, backing off`);
+  }
+
+  return advanced;
+}
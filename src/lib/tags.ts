@@ -0,0 +1,55 @@
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+
+/**
+ * Free-form operator tags on riders and calls.
+ *
+ * Stored lowercase and trimmed with inner whitespace collapsed to "-", so
+ * "Docs Pending" and "docs-pending" are the same tag.
+ */
+
+const MAX_TAG_LENGTH = 40;
+const MAX_TAGS = 20;
+
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/\s+/g, "-");
+}
+
+export const tagsSchema = z
+  .array(
+    z
+      .string()
+      .trim()
+      .min(1)
+      .max(MAX_TAG_LENGTH)
+      .regex(/^[^,]+$/, "Tags cannot contain commas"),
+  )
+  .max(MAX_TAGS)
+  .transform((tags) => Array.from(new Set(tags.map(normalizeTag))).sort());
+
+/** Comma-separated tag filter (e.g. `?tags=vip,docs-pending`). */
+export function parseTagFilter(value: string | null | undefined): string[] {
+  if (!value) return [];
+  return Array.from(
+    new Set(value.split(",").map(normalizeTag).filter(Boolean)),
+  );
+}
+
+/** Every tag in use on riders, calls or both, for filter dropdowns. */
+export async function listTags(
+  scope: "rider" | "call" | "all",
+): Promise<string[]> {
+  const rows =
+    scope === "all"
+      ? await prisma.$queryRaw<{ tag: string }[]>`
+          SELECT unnest("tags") AS tag FROM "riders"
+          UNION
+          SELECT unnest("tags") AS tag FROM "rider_calls"
+          ORDER BY tag`
+      : scope === "rider"
+        ? await prisma.$queryRaw<{ tag: string }[]>`
+            SELECT DISTINCT unnest("tags") AS tag FROM "riders" ORDER BY tag`
+        : await prisma.$queryRaw<{ tag: string }[]>`
+            SELECT DISTINCT unnest("tags") AS tag FROM "rider_calls" ORDER BY tag`;
+  return rows.map((r) => r.tag);
+}
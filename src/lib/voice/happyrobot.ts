@@ -0,0 +1,352 @@
+import { CallStatus, ContactStatus } from "@prisma/client";
+import {
+  getSimulatorBaseUrl,
+  isSimulatorEnabled,
+} from "@/lib/simulator/happyrobot";
+import type {
+  CancelRunResult,
+  ParsedCallback,
+  RunStatusResult,
+  TriggerInput,
+  TriggerResult,
+  VoiceProvider,
+} from "@/lib/voice/types";
+
+/**
+ * HappyRobot voice provider.
+ *
+ * Env:
+ * - HAPPYROBOT_ENDPOINT (or legacy HAPPYROBOT_WEBHOOK_URL): workflow webhook
+ * - HAPPYROBOT_X_API_KEY: sent as X-API-KEY on triggers
+ * - HAPPYROBOT_POLLING_SECRET + HAPPYROBOT_ORG_ID: Platform API (run status, cancel)
+ * - APP_URL: used to build the callback_url sent with each trigger
+ * - HAPPYROBOT_SIMULATOR=1: talk to the local simulator instead (src/lib/simulator)
+ */
+
+const HAPPYROBOT_PLATFORM_API = "https://platform.happyrobot.ai/api/v1";
+
+// Map HappyRobot status to our status
+const statusMap: Record<string, CallStatus> = {
+  pending: CallStatus.PENDING,
+  running: CallStatus.RUNNING,
+  completed: CallStatus.COMPLETED,
+  failed: CallStatus.FAILED,
+  canceled: CallStatus.CANCELED,
+};
+
+/** Workflow webhook URL (HAPPYROBOT_ENDPOINT, or legacy HAPPYROBOT_WEBHOOK_URL). */
+function getHappyRobotEndpoint(): string | null {
+  if (isSimulatorEnabled()) return `${getSimulatorBaseUrl()}/trigger`;
+  const endpoint =
+    process.env.HAPPYROBOT_ENDPOINT || process.env.HAPPYROBOT_WEBHOOK_URL;
+  return endpoint && endpoint.trim() !== "" ? endpoint : null;
+}
+
+function getPlatformApi(): string {
+  return isSimulatorEnabled() ? getSimulatorBaseUrl() : HAPPYROBOT_PLATFORM_API;
+}
+
+function platformHeaders(): Record<string, string> | null {
+  const pollingSecret = process.env.HAPPYROBOT_POLLING_SECRET;
+  // The simulator checks the secret but has no organizations
+  if (isSimulatorEnabled()) {
+    return pollingSecret ? { Authorization: `Bearer ${pollingSecret}` } : {};
+  }
+  const orgId = process.env.HAPPYROBOT_ORG_ID;
+  if (!pollingSecret || !orgId) return null;
+  return {
+    Authorization: `Bearer ${pollingSecret}`,
+    "X-Organization-Id": orgId,
+  };
+}
+
+/** Callback URL sent with each trigger, when APP_URL is set. */
+export function getCallbackUrl(): string | null {
+  const appUrl = process.env.APP_URL;
+  return appUrl ? `${appUrl.replace(/\/$/, "")}/api/calls/callback` : null;
+}
+
+async function trigger({
+  riderCall,
+  rider,
+  userId,
+  missingDocuments = [],
+}: TriggerInput): Promise<TriggerResult> {
+  const endpoint = getHappyRobotEndpoint();
+  if (!endpoint) {
+    return {
+      ok: false,
+      retryable: false,
+      error: "HappyRobot endpoint not configured",
+    };
+  }
+  const apiKey = process.env.HAPPYROBOT_X_API_KEY;
+  const callbackUrl = getCallbackUrl();
+
+  const workflowContext = {
+    rider: {
+      id: rider.id,
+      external_id: rider.externalId,
+      driver_name: rider.driverName,
+      phone_number: rider.phoneNumber,
+      city: rider.city,
+      sign_up_date: rider.signUpDate?.toISOString() || null,
+      flow_type: rider.flowType,
+      documents_uploaded: rider.documentsUploaded,
+      license_country: rider.licenseCountry,
+      resident_permit_status: rider.residentPermitStatus,
+      missing_documents: missingDocuments,
+    },
+    source: {
+      app: "uber-rider-onboarding",
+      rider_call_id: riderCall.id,
+      rider_id: rider.id,
+      attempt: riderCall.attempt,
+      initiated_by_user_id: userId,
+    },
+  };
+
+  let response: Response;
+  try {
+    response = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { "X-API-KEY": apiKey } : {}),
+      },
+      body: JSON.stringify({
+        phone_number: rider.phoneNumber.trim(),
+        ...(callbackUrl ? { callback_url: callbackUrl } : {}),
+        context: workflowContext,
+      }),
+    });
+  } catch (error) {
+    // No response: the call was not placed, safe to retry
+    return {
+      ok: false,
+      retryable: true,
+      error: "Failed to connect to HappyRobot API: " + String(error),
+    };
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => "");
+    return {
+      ok: false,
+      retryable: response.status >= 500 || response.status === 429,
+      statusCode: response.status,
+      error: "HappyRobot API error: " + errorText,
+    };
+  }
+
+  // The run is queued from here on: an unreadable body must not trigger a
+  // retry, which would dial the rider twice
+  let result;
+  try {
+    result = await response.json();
+  } catch (error) {
+    console.warn(
+      `[Trigger] HappyRobot accepted call ${riderCall.id} but its response could not be read:`,
+      error,
+    );
+    return { ok: true, runId: null };
+  }
+  console.log(
+    "[Trigger] HappyRobot response:",
+    JSON.stringify(result, null, 2),
+  );
+
+  // HappyRobot returns queued_run_ids array
+  const runId = result?.queued_run_ids?.[0] || result?.run_id || result?.id;
+  console.log("[Trigger] Extracted runId:", runId);
+
+  return { ok: true, runId: runId || null };
+}
+
+/** Fetch a single run from the HappyRobot Platform API. */
+async function getRunStatus(runId: string): Promise<RunStatusResult> {
+  const headers = platformHeaders();
+  if (!headers) {
+    return { ok: false, rateLimited: false, error: "Missing credentials" };
+  }
+
+  try {
+    const response = await fetch(`${getPlatformApi()}/runs/${runId}`, {
+      headers,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(
+        `[HappyRobot Poll] FAILED for ${runId}: ${response.status} - ${errorText}`,
+      );
+      return {
+        ok: false,
+        rateLimited: response.status === 429,
+        error: `${response.status} - ${errorText}`,
+      };
+    }
+
+    const data = await response.json();
+    return { ok: true, status: statusMap[data.status] || null };
+  } catch (error) {
+    console.error(`[HappyRobot Poll] ERROR for ${runId}:`, error);
+    return { ok: false, rateLimited: false, error: String(error) };
+  }
+}
+
+async function cancelRun(runId: string): Promise<CancelRunResult> {
+  const headers = platformHeaders();
+  if (!headers) return { ok: false, error: "Missing credentials" };
+
+  try {
+    const response = await fetch(`${getPlatformApi()}/runs/${runId}/cancel`, {
+      method: "POST",
+      headers,
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      return { ok: false, error: `${response.status} - ${errorText}` };
+    }
+    return { ok: true };
+  } catch (error) {
+    return { ok: false, error: String(error) };
+  }
+}
+
+function normalizeStatus(status: unknown): CallStatus | null {
+  if (typeof status !== "string") return null;
+  const s = status.toLowerCase();
+  if (s === "pending") return CallStatus.PENDING;
+  if (s === "running") return CallStatus.RUNNING;
+  if (s === "completed" || s === "success") return CallStatus.COMPLETED;
+  if (s === "failed" || s === "error") return CallStatus.FAILED;
+  if (s === "canceled" || s === "cancelled") return CallStatus.CANCELED;
+  return null;
+}
+
+function normalizeContactStatus(status: unknown): ContactStatus | null {
+  if (typeof status !== "string") return null;
+  const s = status.trim().toLowerCase();
+  if (s === "pending") return ContactStatus.PENDING;
+  if (s === "completed" || s === "success") return ContactStatus.COMPLETED;
+  if (s === "voicemail") return ContactStatus.VOICEMAIL;
+  if (s === "no_answer" || s === "no answer") return ContactStatus.NO_ANSWER;
+  return null;
+}
+
+function asString(v: unknown): string | null {
+  return typeof v === "string" && v.trim() ? v : null;
+}
+
+function asInt(v: unknown): number | null {
+  if (typeof v === "number" && Number.isInteger(v)) return v;
+  if (typeof v === "string" && v.trim() && /^\d+$/.test(v.trim())) {
+    return Number(v.trim());
+  }
+  return null;
+}
+
+function asBoolean(v: unknown): boolean | null {
+  if (typeof v === "boolean") return v;
+  if (typeof v === "number") return v !== 0;
+  if (typeof v === "string") {
+    const s = v.trim().toLowerCase();
+    if (["true", "yes", "y", "1"].includes(s)) return true;
+    if (["false", "no", "n", "0"].includes(s)) return false;
+  }
+  return null;
+}
+
+/**
+ * Extract our fields from a workflow callback. Workflows differ in where they
+ * put outputs, so several locations are checked for each field.
+ */
+export function parseHappyRobotCallback(
+  body: unknown,
+  headers: Headers,
+): ParsedCallback {
+  const anyBody = body as any;
+
+  // Support cron/workflow sending "context" as external id (CSV row id)
+  // Examples:
+  // - { context: "11", ... }
+  // - { context: { external_id: 11 }, ... }
+  // - { external_id: 11, ... }
+  const externalId =
+    asInt(anyBody?.external_id) ||
+    asInt(anyBody?.externalId) ||
+    asInt(anyBody?.context?.external_id) ||
+    asInt(anyBody?.context?.externalId) ||
+    asInt(anyBody?.context);
+
+  return {
+    eventId:
+      asString(headers.get("x-happyrobot-event-id")) ||
+      asString(anyBody?.event_id) ||
+      asString(anyBody?.idempotency_key),
+    riderCallId:
+      asString(anyBody?.context?.source?.rider_call_id) ||
+      asString(anyBody?.context?.source?.call_id) || // legacy
+      asString(anyBody?.call_id) ||
+      asString(anyBody?.callId) ||
+      asString(anyBody?.metadata?.callId),
+    runId:
+      asString(anyBody?.run_id) ||
+      asString(anyBody?.runId) ||
+      asString(anyBody?.id),
+    externalId,
+    status: normalizeStatus(anyBody?.status),
+    contactStatus:
+      normalizeContactStatus(anyBody?.contact_status) ||
+      normalizeContactStatus(anyBody?.call_status) ||
+      normalizeContactStatus(anyBody?.result?.call_status) ||
+      normalizeContactStatus(anyBody?.result?.contact_status),
+    // Flexible extraction for your workflow outputs
+    summary:
+      asString(anyBody?.result?.summary) ||
+      asString(anyBody?.summary) ||
+      asString(anyBody?.outputs?.summary) ||
+      asString(anyBody?.extracted?.summary),
+    transcript:
+      asString(anyBody?.result?.transcript) ||
+      asString(anyBody?.transcript) ||
+      asString(anyBody?.outputs?.transcript) ||
+      asString(anyBody?.extracted?.transcript),
+    urgentFlag:
+      asBoolean(anyBody?.urgent_flag) ??
+      asBoolean(anyBody?.urgent) ??
+      asBoolean(anyBody?.result?.urgent_flag) ??
+      asBoolean(anyBody?.result?.urgent),
+    legalIssueFlag:
+      asBoolean(anyBody?.legal_issue_flag) ??
+      asBoolean(anyBody?.legal_issue) ??
+      asBoolean(anyBody?.result?.legal_issue_flag) ??
+      asBoolean(anyBody?.result?.legal_issue),
+    humanRequested:
+      asBoolean(anyBody?.human_requested) ??
+      asBoolean(anyBody?.humanRequested) ??
+      asBoolean(anyBody?.result?.human_requested) ??
+      asBoolean(anyBody?.result?.humanRequested),
+    consent:
+      asBoolean(anyBody?.consent) ??
+      asBoolean(anyBody?.consent_given) ??
+      asBoolean(anyBody?.result?.consent) ??
+      asBoolean(anyBody?.result?.consent_given),
+    optOut:
+      asBoolean(anyBody?.opt_out) ??
+      asBoolean(anyBody?.do_not_call) ??
+      asBoolean(anyBody?.result?.opt_out) ??
+      asBoolean(anyBody?.result?.do_not_call),
+  };
+}
+
+export const happyRobotProvider: VoiceProvider = {
+  name: "happyrobot",
+  isConfigured: () => getHappyRobotEndpoint() !== null,
+  canPoll: () => platformHeaders() !== null,
+  trigger,
+  getRunStatus,
+  cancelRun,
+  parseCallback: parseHappyRobotCallback,
+};
@@ -0,0 +1,27 @@
+import { happyRobotProvider } from "@/lib/voice/happyrobot";
+import { mockProvider } from "@/lib/voice/mock";
+import type { VoiceProvider } from "@/lib/voice/types";
+
+export type {
+  CancelRunResult,
+  ParsedCallback,
+  RunStatusResult,
+  TriggerInput,
+  TriggerResult,
+  VoiceProvider,
+} from "@/lib/voice/types";
+
+const providers: Record<string, VoiceProvider> = {
+  happyrobot: happyRobotProvider,
+  mock: mockProvider,
+};
+
+/** Active provider, selected with VOICE_PROVIDER (default "happyrobot"). */
+export function getVoiceProvider(): VoiceProvider {
+  const name = (process.env.VOICE_PROVIDER || "happyrobot").toLowerCase();
+  const provider = providers[name];
+  if (!provider) {
+    throw new Error(`Unknown VOICE_PROVIDER "${name}"`);
+  }
+  return provider;
+}
@@ -0,0 +1,161 @@
+import { randomUUID } from "node:crypto";
+import { CallStatus } from "@prisma/client";
+import { signedCallbackHeaders } from "@/lib/callback-signature";
+import { parseHappyRobotCallback } from "@/lib/voice/happyrobot";
+import type {
+  CancelRunResult,
+  RunStatusResult,
+  TriggerInput,
+  TriggerResult,
+  VoiceProvider,
+} from "@/lib/voice/types";
+
+/**
+ * Local mock provider (VOICE_PROVIDER=mock) for end-to-end development.
+ *
+ * Runs live in memory: PENDING for a couple of seconds, RUNNING until
+ * MOCK_CALL_DURATION_MS (default 20000), then COMPLETED. When the run ends a
+ * signed HappyRobot-shaped callback is POSTed to APP_URL (default
+ * http://localhost:3000), so the whole pipeline runs without the real service.
+ *
+ * The outcome is picked from the last digit of the phone number:
+ * - 0: no_answer, 1: voicemail, 9: the trigger itself fails with a 503
+ * - anything else: completed, with a short summary
+ */
+
+const PENDING_MS = 2_000;
+
+interface MockRun {
+  riderCallId: string;
+  phoneNumber: string;
+  startedAt: number;
+  durationMs: number;
+  canceled: boolean;
+}
+
+const globalForMock = globalThis as unknown as {
+  mockVoiceRuns: Map<string, MockRun> | undefined;
+};
+
+const runs = globalForMock.mockVoiceRuns ?? new Map<string, MockRun>();
+globalForMock.mockVoiceRuns = runs;
+
+function getDurationMs(): number {
+  const n = Number(process.env.MOCK_CALL_DURATION_MS);
+  return Number.isFinite(n) && n > 0 ? n : 20_000;
+}
+
+function outcomeFor(
+  phoneNumber: string,
+): "completed" | "no_answer" | "voicemail" {
+  const last = phoneNumber.trim().slice(-1);
+  if (last === "0") return "no_answer";
+  if (last === "1") return "voicemail";
+  return "completed";
+}
+
+function statusOf(run: MockRun, now = Date.now()): CallStatus {
+  if (run.canceled) return CallStatus.CANCELED;
+  const elapsed = now - run.startedAt;
+  if (elapsed < PENDING_MS) return CallStatus.PENDING;
+  if (elapsed < run.durationMs) return CallStatus.RUNNING;
+  return CallStatus.COMPLETED;
+}
+
+async function deliverCallback(runId: string) {
+  const run = runs.get(runId);
+  if (!run || run.canceled) return;
+
+  const outcome = outcomeFor(run.phoneNumber);
+  const rawBody = JSON.stringify({
+    event_id: `mock-${runId}`,
+    run_id: runId,
+    status: "completed",
+    contact_status: outcome,
+    summary:
+      outcome === "completed"
+        ? "Llamada simulada: el rider confirma que continuará con el onboarding."
+        : null,
+    context: { source: { rider_call_id: run.riderCallId } },
+  });
+
+  const headers = {
+    "Content-Type": "application/json",
+    ...signedCallbackHeaders(rawBody),
+  };
+
+  const appUrl = (process.env.APP_URL || "http://localhost:3000").replace(
+    /\/$/,
+    "",
+  );
+  try {
+    const response = await fetch(`${appUrl}/api/calls/callback`, {
+      method: "POST",
+      headers,
+      body: rawBody,
+    });
+    console.log(
+      `[Mock Voice] Callback for ${runId} (${outcome}): ${response.status}`,
+    );
+  } catch (error) {
+    console.error(`[Mock Voice] Callback for ${runId} failed:`, error);
+  }
+}
+
+async function trigger({
+  riderCall,
+  rider,
+}: TriggerInput): Promise<TriggerResult> {
+  if (rider.phoneNumber.trim().endsWith("9")) {
+    return {
+      ok: false,
+      retryable: true,
+      statusCode: 503,
+      error: "Mock provider: simulated outage",
+    };
+  }
+
+  const runId = `mock-${randomUUID()}`;
+  const durationMs = getDurationMs();
+  runs.set(runId, {
+    riderCallId: riderCall.id,
+    phoneNumber: rider.phoneNumber,
+    startedAt: Date.now(),
+    durationMs,
+    canceled: false,
+  });
+  setTimeout(() => void deliverCallback(runId), durationMs).unref?.();
+
+  console.log(`[Mock Voice] Started run ${runId} for call ${riderCall.id}`);
+  return { ok: true, runId };
+}
+
+async function getRunStatus(runId: string): Promise<RunStatusResult> {
+  const run = runs.get(runId);
+  if (!run) {
+    // Runs don't survive a restart
+    return { ok: false, rateLimited: false, error: "Unknown mock run" };
+  }
+  return { ok: true, status: statusOf(run) };
+}
+
+async function cancelRun(runId: string): Promise<CancelRunResult> {
+  const run = runs.get(runId);
+  if (!run) return { ok: false, error: "Unknown mock run" };
+  if (statusOf(run) === CallStatus.COMPLETED) {
+    return { ok: false, error: "Run already completed" };
+  }
+  run.canceled = true;
+  return { ok: true };
+}
+
+export const mockProvider: VoiceProvider = {
+  name: "mock",
+  isConfigured: () => true,
+  canPoll: () => true,
+  trigger,
+  getRunStatus,
+  cancelRun,
+  // Mock callbacks use the HappyRobot payload shape
+  parseCallback: parseHappyRobotCallback,
+};
@@ -0,0 +1,63 @@
+import { CallStatus, ContactStatus, Rider, RiderCall } from "@prisma/client";
+
+export interface TriggerInput {
+  riderCall: RiderCall;
+  rider: Rider;
+  userId?: string | null;
+  // Required documents still missing, for the agent to name on the call
+  missingDocuments?: { key: string; name: string }[];
+}
+
+export type TriggerResult =
+  | { ok: true; runId: string | null }
+  | {
+      ok: false;
+      // 5xx, 429 and network errors are worth retrying; other 4xx are not
+      retryable: boolean;
+      statusCode?: number;
+      error: string;
+    };
+
+export type RunStatusResult =
+  | { ok: true; status: CallStatus | null }
+  | { ok: false; rateLimited: boolean; error: string };
+
+export type CancelRunResult = { ok: true } | { ok: false; error: string };
+
+/** Provider-neutral view of an inbound callback payload. */
+export interface ParsedCallback {
+  // Provider delivery id, when the payload carries one (used for deduplication)
+  eventId: string | null;
+  riderCallId: string | null;
+  runId: string | null;
+  externalId: number | null;
+  status: CallStatus | null;
+  contactStatus: ContactStatus | null;
+  summary: string | null;
+  transcript: string | null;
+  urgentFlag: boolean | null;
+  legalIssueFlag: boolean | null;
+  humanRequested: boolean | null;
+  // Consent to be called, as stated on the call (false: declined)
+  consent: boolean | null;
+  // Rider asked not to be called again
+  optOut: boolean | null;
+}
+
+/**
+ * A voice platform that places the onboarding calls.
+ *
+ * Implementations have no database side effects: the dispatch outbox, the
+ * status reconciler and the callback route own call state.
+ */
+export interface VoiceProvider {
+  name: string;
+  /** Whether calls can be triggered at all (endpoint / credentials present). */
+  isConfigured(): boolean;
+  /** Whether run status can be polled. */
+  canPoll(): boolean;
+  trigger(input: TriggerInput): Promise<TriggerResult>;
+  getRunStatus(runId: string): Promise<RunStatusResult>;
+  cancelRun(runId: string): Promise<CancelRunResult>;
+  parseCallback(body: unknown, headers: Headers): ParsedCallback;
+}
@@ -0,0 +1,89 @@
+import { runCampaigns } from "@/lib/campaigns";
+import { runDispatchOutbox } from "@/lib/dispatch-outbox";
+import { runImportJobs } from "@/lib/import-runner";
+import { runDueRetries } from "@/lib/retry-scheduler";
+import { scanRiderDuplicates } from "@/lib/rider-duplicates";
+import { reconcileCallStatuses } from "@/lib/status-reconciler";
+
+/**
+ * In-process background worker.
+ *
+ * Started once per server from `src/instrumentation.ts`. Each job runs on its
+ * own interval and never overlaps with itself.
+ *
+ * Env:
+ * - BACKGROUND_WORKER_DISABLED=1 to skip starting the worker (e.g. extra replicas)
+ * - RETRY_SCHEDULER_INTERVAL_MS (default 60000)
+ * - CAMPAIGN_RUNNER_INTERVAL_MS (default 5000)
+ * - RECONCILER_INTERVAL_MS (default 5000)
+ * - DISPATCH_OUTBOX_INTERVAL_MS (default 5000)
+ * - IMPORT_RUNNER_INTERVAL_MS (default 5000)
+ * - DUPLICATE_SCAN_INTERVAL_MS (default 3600000)
+ */
+
+const globalForWorker = globalThis as unknown as {
+  backgroundWorkerStarted: boolean | undefined;
+};
+
+function intervalFromEnv(name: string, fallbackMs: number): number {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? n : fallbackMs;
+}
+
+function every(name: string, intervalMs: number, job: () => Promise<unknown>) {
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await job();
+    } catch (error) {
+      console.error(`[Worker] ${name} failed:`, error);
+    } finally {
+      running = false;
+    }
+  };
+  setInterval(tick, intervalMs).unref?.();
+}
+
+export function startBackgroundWorker() {
+  if (globalForWorker.backgroundWorkerStarted) return;
+  if (process.env.BACKGROUND_WORKER_DISABLED === "1") {
+    console.log("[Worker] Disabled via BACKGROUND_WORKER_DISABLED");
+    return;
+  }
+  globalForWorker.backgroundWorkerStarted = true;
+
+  every(
+    "retry-scheduler",
+    intervalFromEnv("RETRY_SCHEDULER_INTERVAL_MS", 60_000),
+    runDueRetries,
+  );
+  every(
+    "campaign-runner",
+    intervalFromEnv("CAMPAIGN_RUNNER_INTERVAL_MS", 5_000),
+    runCampaigns,
+  );
+  every(
+    "status-reconciler",
+    intervalFromEnv("RECONCILER_INTERVAL_MS", 5_000),
+    reconcileCallStatuses,
+  );
+  every(
+    "dispatch-outbox",
+    intervalFromEnv("DISPATCH_OUTBOX_INTERVAL_MS", 5_000),
+    runDispatchOutbox,
+  );
+  every(
+    "import-runner",
+    intervalFromEnv("IMPORT_RUNNER_INTERVAL_MS", 5_000),
+    runImportJobs,
+  );
+  every(
+    "duplicate-scan",
+    intervalFromEnv("DUPLICATE_SCAN_INTERVAL_MS", 3_600_000),
+    scanRiderDuplicates,
+  );
+
+  console.log("[Worker] Background worker started");
+}